@@ -9,11 +9,35 @@ import AIVisionGuideApp from './src/AIVisionGuideApp';
 import './index.css';
 
 const rootElement = document.getElementById('root');
+const searchParams = new URLSearchParams(window.location.search);
+const scenarioName = searchParams.get('scenario');
+
 if (rootElement) {
     const root = ReactDOM.createRoot(rootElement);
-    root.render(
-        <React.StrictMode>
-            <AIVisionGuideApp />
-        </React.StrictMode>
-    );
+    // The harnesses are dev-server only; production builds drop them and their mock server
+    if (import.meta.env.DEV && scenarioName) {
+        // Offline scenario run against the mock Live server, loaded on demand
+        import('./src/testing/ScenarioHarness').then(({ default: ScenarioHarness }) => {
+            root.render(
+                <React.StrictMode>
+                    <ScenarioHarness scenarioName={scenarioName} />
+                </React.StrictMode>
+            );
+        });
+    } else if (import.meta.env.DEV && searchParams.has('replay')) {
+        // Replay a recorded session archive without the network
+        import('./src/testing/ReplayHarness').then(({ default: ReplayHarness }) => {
+            root.render(
+                <React.StrictMode>
+                    <ReplayHarness />
+                </React.StrictMode>
+            );
+        });
+    } else {
+        root.render(
+            <React.StrictMode>
+                <AIVisionGuideApp />
+            </React.StrictMode>
+        );
+    }
 }
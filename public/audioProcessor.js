@@ -3,15 +3,315 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
+// Wake word spotting looks at 25 ms frames every 10 ms
+const FRAME_SECONDS = 0.025;
+const HOP_SECONDS = 0.01;
+const FFT_SIZE = 512;
+const MEL_BANDS = 20;
+const CEPSTRA = 12;                 // c1-c12; c0 is loudness, which says nothing about the word
+
+const MIN_SPEECH_RMS = 0.01;
+const SPEECH_OVER_NOISE = 3;        // Speech is this many times louder than the noise floor
+const SEGMENT_END_FRAMES = 30;      // 300 ms of quiet ends an utterance
+const PRE_SPEECH_FRAMES = 5;        // Kept from before the utterance so soft onsets are not cut
+const MIN_SAMPLE_FRAMES = 20;       // A recorded wake word must be 0.2-1.5 s long
+const MAX_SAMPLE_FRAMES = 150;
+const CHECK_EVERY_FRAMES = 5;
+
+// Matches may be shorter or longer than the recorded samples by this much
+const MIN_STRETCH = 0.6;
+const MAX_STRETCH = 1.5;
+// Accept matches this much further away than the recorded samples are from each other
+const THRESHOLD_MARGIN = 1.3;
+const MIN_THRESHOLD = 1.0;
+
+/**
+ * Finds the wake word at the start of an utterance by comparing cepstral
+ * features with the user's recorded samples (dynamic time warping). Nothing
+ * leaves the device to do this.
+ */
+class WakeWordSpotter {
+    constructor(rate) {
+        this.frameSize = Math.round(rate * FRAME_SECONDS);
+        this.hop = Math.round(rate * HOP_SECONDS);
+        this.samples = new Float32Array(this.frameSize);
+        this.filled = 0;
+        this.window = new Float32Array(this.frameSize);
+        for (let i = 0; i < this.frameSize; i++) {
+            this.window[i] = 0.54 - 0.46 * Math.cos((2 * Math.PI * i) / (this.frameSize - 1));
+        }
+        this.melFilters = createMelFilters(rate);
+        this.re = new Float64Array(FFT_SIZE);
+        this.im = new Float64Array(FFT_SIZE);
+
+        this.noiseFloor = MIN_SPEECH_RMS / SPEECH_OVER_NOISE;
+        this.recent = [];           // Features of the last few quiet frames
+        this.segment = null;        // Features of the utterance in progress
+        this.quietFrames = 0;
+        this.hasFired = false;
+
+        this.templates = [];
+        this.threshold = 0;
+        this.isEnrolling = false;
+    }
+
+    /**
+     * Use these recorded samples; fewer than two turns spotting off
+     */
+    setTemplates(templates) {
+        this.templates = templates.length >= 2 ? templates : [];
+        if (this.templates.length === 0) return;
+        // Calibrate on how far apart the user's own samples are
+        const distances = [];
+        for (let a = 0; a < this.templates.length; a++) {
+            for (let b = a + 1; b < this.templates.length; b++) {
+                distances.push(matchDistance(this.templates[a], this.templates[b]));
+            }
+        }
+        const mean = distances.reduce((sum, d) => sum + d, 0) / distances.length;
+        this.threshold = Math.max(MIN_THRESHOLD, mean * THRESHOLD_MARGIN);
+    }
+
+    /**
+     * Feed samples; returns events for the main thread
+     */
+    push(input) {
+        const events = [];
+        let offset = 0;
+        while (offset < input.length) {
+            const count = Math.min(input.length - offset, this.frameSize - this.filled);
+            this.samples.set(input.subarray(offset, offset + count), this.filled);
+            this.filled += count;
+            offset += count;
+            if (this.filled === this.frameSize) {
+                this.processFrame(events);
+                this.samples.copyWithin(0, this.hop);
+                this.filled = this.frameSize - this.hop;
+            }
+        }
+        return events;
+    }
+
+    processFrame(events) {
+        let energy = 0;
+        for (let i = 0; i < this.frameSize; i++) energy += this.samples[i] * this.samples[i];
+        const rms = Math.sqrt(energy / this.frameSize);
+        const features = this.computeFeatures();
+        const isSpeech = rms > Math.max(MIN_SPEECH_RMS, this.noiseFloor * SPEECH_OVER_NOISE);
+
+        if (!this.segment) {
+            // Track the noise floor only between utterances, falling fast and rising slowly
+            this.noiseFloor = rms < this.noiseFloor ? (this.noiseFloor + rms) / 2 : this.noiseFloor * 0.99 + rms * 0.01;
+            if (!isSpeech) {
+                this.recent.push(features);
+                if (this.recent.length > PRE_SPEECH_FRAMES) this.recent.shift();
+                return;
+            }
+            this.segment = [...this.recent, features];
+            this.recent = [];
+            this.quietFrames = 0;
+            this.hasFired = false;
+            events.push({ type: 'speech', active: true });
+            return;
+        }
+
+        if (this.segment.length < MAX_SAMPLE_FRAMES * 2) this.segment.push(features);
+        this.quietFrames = isSpeech ? 0 : this.quietFrames + 1;
+
+        if (this.quietFrames >= SEGMENT_END_FRAMES) {
+            const utterance = this.segment.slice(0, this.segment.length - SEGMENT_END_FRAMES + PRE_SPEECH_FRAMES);
+            this.segment = null;
+            if (!this.hasFired) this.checkWakeWord(utterance, events);
+            events.push({ type: 'speech', active: false });
+            if (this.isEnrolling) {
+                this.isEnrolling = false;
+                if (utterance.length < MIN_SAMPLE_FRAMES) {
+                    events.push({ type: 'enroll-failed', reason: 'short' });
+                } else if (utterance.length > MAX_SAMPLE_FRAMES) {
+                    events.push({ type: 'enroll-failed', reason: 'long' });
+                } else {
+                    events.push({ type: 'enrolled', features: utterance.map(frame => Array.from(frame)) });
+                }
+            }
+        } else if (!this.hasFired && this.segment.length <= MAX_SAMPLE_FRAMES && this.segment.length % CHECK_EVERY_FRAMES === 0) {
+            // The wake word starts the utterance, so check while the user is still talking
+            this.checkWakeWord(this.segment, events);
+        }
+    }
+
+    checkWakeWord(segment, events) {
+        if (this.templates.length === 0 || this.isEnrolling) return;
+        let best = Infinity;
+        for (const template of this.templates) {
+            if (segment.length < Math.floor(template.length * MIN_STRETCH)) continue;
+            best = Math.min(best, matchDistance(template, segment));
+        }
+        if (best <= this.threshold) {
+            this.hasFired = true;
+            events.push({ type: 'wake', distance: best, threshold: this.threshold });
+        }
+    }
+
+    /**
+     * Mel-frequency cepstral coefficients of the current frame
+     */
+    computeFeatures() {
+        this.re.fill(0);
+        this.im.fill(0);
+        for (let i = 0; i < this.frameSize && i < FFT_SIZE; i++) {
+            this.re[i] = this.samples[i] * this.window[i];
+        }
+        fft(this.re, this.im);
+
+        const logMel = new Float64Array(MEL_BANDS);
+        for (let band = 0; band < MEL_BANDS; band++) {
+            const filter = this.melFilters[band];
+            let sum = 0;
+            for (let bin = filter.start; bin < filter.start + filter.weights.length; bin++) {
+                const power = (this.re[bin] * this.re[bin] + this.im[bin] * this.im[bin]) / FFT_SIZE;
+                sum += power * filter.weights[bin - filter.start];
+            }
+            logMel[band] = Math.log(Math.max(sum, 1e-10));
+        }
+
+        const cepstra = new Float32Array(CEPSTRA);
+        const scale = Math.sqrt(2 / MEL_BANDS);
+        for (let k = 1; k <= CEPSTRA; k++) {
+            let sum = 0;
+            for (let n = 0; n < MEL_BANDS; n++) {
+                sum += logMel[n] * Math.cos((Math.PI * k * (n + 0.5)) / MEL_BANDS);
+            }
+            cepstra[k - 1] = sum * scale;
+        }
+        return cepstra;
+    }
+}
+
+/**
+ * Triangular filters spaced evenly on the mel scale, from 60 Hz to the Nyquist frequency
+ */
+function createMelFilters(rate) {
+    const toMel = (hz) => 2595 * Math.log10(1 + hz / 700);
+    const fromMel = (mel) => 700 * (Math.pow(10, mel / 2595) - 1);
+    const minMel = toMel(60);
+    const maxMel = toMel(rate / 2);
+    const bins = [];
+    for (let i = 0; i < MEL_BANDS + 2; i++) {
+        const hz = fromMel(minMel + ((maxMel - minMel) * i) / (MEL_BANDS + 1));
+        bins.push(Math.floor(((FFT_SIZE + 1) * hz) / rate));
+    }
+    const filters = [];
+    for (let band = 0; band < MEL_BANDS; band++) {
+        const [left, centre, right] = [bins[band], bins[band + 1], bins[band + 2]];
+        const weights = [];
+        for (let bin = left; bin <= right; bin++) {
+            weights.push(bin <= centre
+                ? (bin - left) / Math.max(1, centre - left)
+                : (right - bin) / Math.max(1, right - centre));
+        }
+        filters.push({ start: left, weights });
+    }
+    return filters;
+}
+
+/**
+ * In-place radix-2 FFT
+ */
+function fft(re, im) {
+    const n = re.length;
+    for (let i = 1, j = 0; i < n; i++) {
+        let bit = n >> 1;
+        for (; j & bit; bit >>= 1) j ^= bit;
+        j ^= bit;
+        if (i < j) {
+            [re[i], re[j]] = [re[j], re[i]];
+            [im[i], im[j]] = [im[j], im[i]];
+        }
+    }
+    for (let size = 2; size <= n; size <<= 1) {
+        const angle = (-2 * Math.PI) / size;
+        for (let start = 0; start < n; start += size) {
+            for (let k = 0; k < size / 2; k++) {
+                const cos = Math.cos(angle * k);
+                const sin = Math.sin(angle * k);
+                const a = start + k;
+                const b = a + size / 2;
+                const tre = re[b] * cos - im[b] * sin;
+                const tim = re[b] * sin + im[b] * cos;
+                re[b] = re[a] - tre;
+                im[b] = im[a] - tim;
+                re[a] += tre;
+                im[a] += tim;
+            }
+        }
+    }
+}
+
+/**
+ * Dynamic time warping distance between a template and the start of an utterance,
+ * letting the match end anywhere within the allowed stretch. Averaged over the path.
+ */
+function matchDistance(template, utterance) {
+    const m = template.length;
+    const lastEnd = Math.min(utterance.length, Math.ceil(m * MAX_STRETCH));
+    const firstEnd = Math.max(1, Math.floor(m * MIN_STRETCH));
+    if (lastEnd < firstEnd) return Infinity;
+
+    let previous = new Float64Array(lastEnd).fill(Infinity);
+    let current = new Float64Array(lastEnd);
+    for (let i = 0; i < m; i++) {
+        for (let j = 0; j < lastEnd; j++) {
+            const cost = frameDistance(template[i], utterance[j]);
+            if (i === 0 && j === 0) {
+                current[j] = cost;
+                continue;
+            }
+            const up = previous[j];
+            const left = j > 0 ? current[j - 1] : Infinity;
+            const diagonal = j > 0 ? previous[j - 1] : Infinity;
+            current[j] = cost + Math.min(up, left, diagonal);
+        }
+        [previous, current] = [current, previous];
+    }
+
+    let best = Infinity;
+    for (let j = firstEnd - 1; j < lastEnd; j++) {
+        best = Math.min(best, previous[j] / (m + j + 1));
+    }
+    return best;
+}
+
+function frameDistance(a, b) {
+    let sum = 0;
+    for (let k = 0; k < a.length; k++) {
+        const d = a[k] - b[k];
+        sum += d * d;
+    }
+    return Math.sqrt(sum);
+}
+
 /**
  * This class extends AudioWorkletProcessor to create a custom audio processor
  * that runs in a separate thread. It receives raw audio data (Float32Array),
  * converts it to 16-bit PCM format (Int16Array), and posts it back to the
- * main thread for streaming to the Gemini API.
+ * main thread for streaming to the Gemini API. With the wake word on, it also
+ * posts 'speech', 'wake' and enrollment events as plain objects.
  */
 class AudioProcessor extends AudioWorkletProcessor {
     constructor() {
         super();
+        this.spotter = new WakeWordSpotter(sampleRate);
+        this.isWakeWordOn = false;
+        this.port.onmessage = (event) => {
+            const message = event.data;
+            if (message.type === 'wake-word') {
+                this.isWakeWordOn = message.enabled;
+                this.spotter.setTemplates(message.templates);
+            } else if (message.type === 'enroll') {
+                // Record the next utterance as a sample; inactive cancels a recording that timed out
+                this.spotter.isEnrolling = message.active;
+            }
+        };
     }
 
     /**
@@ -39,6 +339,10 @@ class AudioProcessor extends AudioWorkletProcessor {
         const input = inputs[0];
         if (input.length > 0) {
             const channelData = input[0];
+            // Spot the wake word before the chunk is handed over, so the main thread can open the gate in time
+            if (this.isWakeWordOn || this.spotter.isEnrolling) {
+                this.spotter.push(channelData).forEach(message => this.port.postMessage(message));
+            }
             const pcmData = this.float32ToInt16(channelData);
             // Post the PCM data back to the main thread.
             // The buffer is transferred, not copied, for performance.
@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Runs the offline scenarios in headless Chrome for CI.
+ * Starts the Vite dev server, opens `?scenario=<name>` for each scenario in turn,
+ * collects `window.__scenarioResult` and exits non-zero if any scenario fails.
+ *
+ * Usage: npm run scenarios [-- <name> ...]   (all scenarios when no names are given)
+ *
+ * Environment:
+ *   CHROME_PATH           - required, Chrome or Chromium to run the pages in
+ *   SCENARIO_TIMEOUT_MS   - how long one scenario may take (default 60000)
+ *   SCENARIO_VERBOSE      - set to 1 to print the page's console output
+ */
+import puppeteer from 'puppeteer-core';
+import { createServer } from 'vite';
+
+const CHROME_PATH = process.env.CHROME_PATH;
+const SCENARIO_TIMEOUT_MS = Number(process.env.SCENARIO_TIMEOUT_MS ?? 60000);
+const VERBOSE = process.env.SCENARIO_VERBOSE === '1';
+
+// Audio contexts must start without a click; the scenarios bring their own camera and mic
+const CHROME_ARGS = ['--autoplay-policy=no-user-gesture-required', '--no-sandbox'];
+
+if (!CHROME_PATH) {
+    console.error('❌ Set CHROME_PATH to a Chrome or Chromium executable');
+    process.exit(2);
+}
+
+/**
+ * Names of every scenario, read from the scenario module on the dev server
+ */
+async function listScenarios(browser, baseUrl) {
+    const page = await browser.newPage();
+    try {
+        await page.goto(`${baseUrl}?scenario=`, { waitUntil: 'load' });
+        return await page.evaluate(async (url) => {
+            const { SCENARIOS } = await import(url);
+            return SCENARIOS.map(scenario => scenario.name);
+        }, `${baseUrl}src/testing/scenarios.ts`);
+    } finally {
+        await page.close();
+    }
+}
+
+/**
+ * Run one scenario in a fresh page; a page that never reports counts as a failure
+ */
+async function runScenario(browser, baseUrl, name) {
+    const page = await browser.newPage();
+    if (VERBOSE) {
+        page.on('console', message => console.log(`   [${name}] ${message.text()}`));
+    }
+    page.on('pageerror', error => console.error(`   [${name}] ${error.message}`));
+    try {
+        await page.goto(`${baseUrl}?scenario=${encodeURIComponent(name)}`, { waitUntil: 'load' });
+        const handle = await page.waitForFunction(() => window.__scenarioResult, { timeout: SCENARIO_TIMEOUT_MS });
+        return await handle.jsonValue();
+    } catch (error) {
+        return { name, passed: false, error: error.message, durationMs: 0 };
+    } finally {
+        await page.close();
+    }
+}
+
+async function main() {
+    const server = await createServer({ logLevel: 'warn', server: { port: 0 } });
+    let browser = null;
+    try {
+        await server.listen();
+        const baseUrl = server.resolvedUrls.local[0];
+        browser = await puppeteer.launch({ executablePath: CHROME_PATH, headless: true, args: CHROME_ARGS });
+
+        const names = process.argv.length > 2 ? process.argv.slice(2) : await listScenarios(browser, baseUrl);
+        console.log(`▶️ Running ${names.length} scenario(s) against ${baseUrl}`);
+
+        const failures = [];
+        for (const name of names) {
+            const result = await runScenario(browser, baseUrl, name);
+            if (result.passed) {
+                console.log(`✅ ${name} (${result.durationMs}ms)`);
+            } else {
+                console.log(`❌ ${name}: ${result.error}`);
+                failures.push(name);
+            }
+        }
+
+        console.log(failures.length === 0
+            ? `✅ All ${names.length} scenario(s) passed`
+            : `❌ ${failures.length} of ${names.length} scenario(s) failed: ${failures.join(', ')}`);
+        return failures.length === 0 ? 0 : 1;
+    } finally {
+        await browser?.close();
+        await server.close();
+    }
+}
+
+main().then(code => {
+    process.exit(code);
+}, error => {
+    console.error('❌ Scenario run failed:', error);
+    process.exit(1);
+});
@@ -0,0 +1,344 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Token-minting proxy for the Gemini Live API.
+ * Keeps GEMINI_API_KEY on the server and hands browsers short-lived,
+ * single-use ephemeral tokens. Access is limited by an access-code
+ * allowlist, an origin allowlist and a per-user daily quota.
+ *
+ * Environment:
+ *   GEMINI_API_KEY        - required, never sent to clients
+ *   PORT                  - listen port (default 8787)
+ *   ACCESS_CODES          - "alice:code1,bob:code2"; empty allows anyone, quota keyed by IP
+ *   ALLOWED_ORIGINS       - comma-separated origins allowed to call the API; empty allows any
+ *   DAILY_TOKEN_QUOTA     - tokens per user per UTC day (default 100)
+ *   TOKEN_TTL_SECONDS     - how long a session opened with a token may run (default 1800)
+ *   NEW_SESSION_SECONDS   - window in which the token may open a session (default 60)
+ *   LIVE_MODELS           - extra models tokens may be used with, as in the app build
+ *   MAX_CODE_FAILURES     - wrong access codes per IP before it is locked out for 15 minutes (default 10)
+ *
+ * Each token is pinned to the model and session config the app sent with the
+ * request. Only the app's own config fields are accepted, and the Live API
+ * ignores any other config when the token is used.
+ */
+import http from 'node:http';
+import { GoogleGenAI } from '@google/genai';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const API_KEY = process.env.GEMINI_API_KEY;
+const DAILY_TOKEN_QUOTA = Number(process.env.DAILY_TOKEN_QUOTA ?? 100);
+const TOKEN_TTL_SECONDS = Number(process.env.TOKEN_TTL_SECONDS ?? 30 * 60);
+const NEW_SESSION_SECONDS = Number(process.env.NEW_SESSION_SECONDS ?? 60);
+const ALLOWED_ORIGINS = parseList(process.env.ALLOWED_ORIGINS);
+const ACCESS_CODES = parseAccessCodes(process.env.ACCESS_CODES);
+const MAX_CODE_FAILURES = Number(process.env.MAX_CODE_FAILURES ?? 10);
+const CODE_FAILURE_WINDOW_MS = 15 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 10 * 60 * 1000;
+const MAX_BODY_BYTES = 256 * 1024;
+
+// The app's built-in models (src/constants.ts) plus any added at build time
+const LIVE_MODELS = [
+    'gemini-2.5-flash-native-audio-preview-09-2025',
+    'gemini-live-2.5-flash-preview',
+    'gemini-2.0-flash-live-001',
+    ...parseList(process.env.LIVE_MODELS)
+];
+
+// Fields the app sets when it connects (useLiveCommentary); anything else is refused
+const SESSION_CONFIG_FIELDS = [
+    'systemInstruction',
+    'responseModalities',
+    'temperature',
+    'mediaResolution',
+    'speechConfig',
+    'sessionResumption',
+    'inputAudioTranscription',
+    'outputAudioTranscription',
+    'tools'
+];
+
+if (!API_KEY) {
+    console.error('❌ GEMINI_API_KEY is not set');
+    process.exit(1);
+}
+
+// Ephemeral tokens are only available on the v1alpha API
+const ai = new GoogleGenAI({ apiKey: API_KEY, httpOptions: { apiVersion: 'v1alpha' } });
+
+/** @type {Map<string, { day: string, count: number }>} */
+const usage = new Map();
+
+/** @type {Map<string, { count: number, resetAt: number }>} Wrong access codes per IP */
+const codeFailures = new Map();
+
+/**
+ * @param {string | undefined} value
+ * @returns {string[]}
+ */
+function parseList(value) {
+    return (value ?? '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Parse "user:code" pairs into a code → user lookup
+ * @param {string | undefined} value
+ * @returns {Map<string, string>}
+ */
+function parseAccessCodes(value) {
+    const codes = new Map();
+    parseList(value).forEach(entry => {
+        const separator = entry.indexOf(':');
+        if (separator > 0) {
+            codes.set(entry.slice(separator + 1), entry.slice(0, separator));
+        }
+    });
+    return codes;
+}
+
+/**
+ * Resolve the caller to a quota key, or null if not on the allowlist
+ * @param {http.IncomingMessage} req
+ * @returns {string | null}
+ */
+function identifyUser(req) {
+    if (ACCESS_CODES.size === 0) {
+        return `ip:${req.socket.remoteAddress}`;
+    }
+    const header = req.headers.authorization ?? '';
+    const code = header.startsWith('Bearer ') ? header.slice(7).trim() : '';
+    return ACCESS_CODES.get(code) ?? null;
+}
+
+/**
+ * @param {http.IncomingMessage} req
+ * @returns {boolean} Whether this IP has sent too many wrong access codes lately
+ */
+function isLockedOut(req) {
+    const entry = codeFailures.get(req.socket.remoteAddress ?? '');
+    return entry !== undefined && entry.count >= MAX_CODE_FAILURES && entry.resetAt > Date.now();
+}
+
+/**
+ * @param {http.IncomingMessage} req
+ */
+function recordCodeFailure(req) {
+    const ip = req.socket.remoteAddress ?? '';
+    const now = Date.now();
+    const entry = codeFailures.get(ip);
+    if (!entry || entry.resetAt <= now) {
+        codeFailures.set(ip, { count: 1, resetAt: now + CODE_FAILURE_WINDOW_MS });
+    } else {
+        entry.count++;
+        if (entry.count === MAX_CODE_FAILURES) {
+            console.warn(`🚫 Too many wrong access codes from ${ip}, locked out for 15 minutes`);
+        }
+    }
+}
+
+/**
+ * Forget quota days that have passed and failure windows that have closed
+ */
+function pruneExpired() {
+    const today = new Date().toISOString().slice(0, 10);
+    const now = Date.now();
+    usage.forEach((entry, user) => {
+        if (entry.day !== today) usage.delete(user);
+    });
+    codeFailures.forEach((entry, ip) => {
+        if (entry.resetAt <= now) codeFailures.delete(ip);
+    });
+}
+
+/**
+ * @param {string} user
+ * @returns {number} Tokens the user may still mint today
+ */
+function remainingQuota(user) {
+    const today = new Date().toISOString().slice(0, 10);
+    const entry = usage.get(user);
+    if (!entry || entry.day !== today) {
+        return DAILY_TOKEN_QUOTA;
+    }
+    return Math.max(0, DAILY_TOKEN_QUOTA - entry.count);
+}
+
+/**
+ * Take one token from today's quota before minting, so concurrent requests cannot overspend it
+ * @param {string} user
+ * @returns {boolean} False if the quota is used up
+ */
+function reserveUsage(user) {
+    if (remainingQuota(user) === 0) {
+        return false;
+    }
+    const today = new Date().toISOString().slice(0, 10);
+    const entry = usage.get(user);
+    if (!entry || entry.day !== today) {
+        usage.set(user, { day: today, count: 1 });
+    } else {
+        entry.count++;
+    }
+    return true;
+}
+
+/**
+ * Give back a reserved token when minting failed
+ * @param {string} user
+ */
+function releaseUsage(user) {
+    const today = new Date().toISOString().slice(0, 10);
+    const entry = usage.get(user);
+    if (entry && entry.day === today && entry.count > 0) {
+        entry.count--;
+    }
+}
+
+/**
+ * @param {http.ServerResponse} res
+ * @param {number} status
+ * @param {object} body
+ */
+function sendJson(res, status, body) {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+}
+
+/**
+ * @param {http.IncomingMessage} req
+ * @param {http.ServerResponse} res
+ * @returns {boolean} Whether the origin may call the API
+ */
+function applyCors(req, res) {
+    const origin = req.headers.origin;
+    if (!origin) {
+        return true; // Same-origin or non-browser caller
+    }
+    if (ALLOWED_ORIGINS.length > 0 && !ALLOWED_ORIGINS.includes(origin)) {
+        return false;
+    }
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Vary', 'Origin');
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    return true;
+}
+
+/**
+ * @param {http.IncomingMessage} req
+ * @returns {Promise<unknown>} The parsed JSON body, or null if it is missing, too large or not JSON
+ */
+async function readJson(req) {
+    let body = '';
+    for await (const chunk of req) {
+        body += chunk;
+        if (body.length > MAX_BODY_BYTES) return null;
+    }
+    try {
+        return JSON.parse(body);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * The model and config the app will connect with, or null if they are not the app's own
+ * @param {unknown} body
+ * @returns {{ model: string, config: Record<string, unknown> } | null}
+ */
+function parseSessionRequest(body) {
+    if (!body || typeof body !== 'object') return null;
+    const { model, config } = /** @type {{ model?: unknown, config?: unknown }} */ (body);
+    if (typeof model !== 'string' || !LIVE_MODELS.includes(model)) return null;
+    if (!config || typeof config !== 'object' || Array.isArray(config)) return null;
+    if (!Object.keys(config).every(field => SESSION_CONFIG_FIELDS.includes(field))) return null;
+    return { model, config: /** @type {Record<string, unknown>} */ (config) };
+}
+
+/**
+ * Mint a single-use token that can open one Live session, pinned to its model and config
+ * @param {{ model: string, config: Record<string, unknown> }} session
+ * @returns {Promise<{ token: string, expireTime: string, newSessionExpireTime: string }>}
+ */
+async function mintToken(session) {
+    const now = Date.now();
+    const expireTime = new Date(now + TOKEN_TTL_SECONDS * 1000).toISOString();
+    const newSessionExpireTime = new Date(now + NEW_SESSION_SECONDS * 1000).toISOString();
+    const token = await ai.authTokens.create({
+        config: {
+            uses: 1,
+            expireTime,
+            newSessionExpireTime,
+            // With no additional fields listed, every config field is locked to these values
+            liveConnectConstraints: session
+        }
+    });
+    return { token: token.name, expireTime, newSessionExpireTime };
+}
+
+const server = http.createServer(async (req, res) => {
+    if (!applyCors(req, res)) {
+        sendJson(res, 403, { error: 'Origin not allowed' });
+        return;
+    }
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204);
+        res.end();
+        return;
+    }
+
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    if (isLockedOut(req)) {
+        sendJson(res, 429, { error: 'Too many wrong access codes, try again later' });
+        return;
+    }
+    const user = identifyUser(req);
+
+    if (req.method === 'GET' && pathname === '/status') {
+        if (!user) {
+            recordCodeFailure(req);
+            sendJson(res, 401, { error: 'Access code not recognised' });
+            return;
+        }
+        sendJson(res, 200, { ok: true, remaining: remainingQuota(user) });
+        return;
+    }
+
+    if (req.method === 'POST' && pathname === '/token') {
+        if (!user) {
+            recordCodeFailure(req);
+            sendJson(res, 401, { error: 'Access code not recognised' });
+            return;
+        }
+        const session = parseSessionRequest(await readJson(req));
+        if (!session) {
+            sendJson(res, 400, { error: 'Unsupported model or session config' });
+            return;
+        }
+        if (!reserveUsage(user)) {
+            sendJson(res, 429, { error: 'Daily token quota reached' });
+            return;
+        }
+        try {
+            const minted = await mintToken(session);
+            console.log(`🔑 Token issued to ${user} for ${session.model}, ${remainingQuota(user)} left today`);
+            sendJson(res, 200, { ...minted, remaining: remainingQuota(user) });
+        } catch (error) {
+            releaseUsage(user);
+            console.error('❌ Token mint failed:', error);
+            sendJson(res, 502, { error: 'Could not mint token' });
+        }
+        return;
+    }
+
+    sendJson(res, 404, { error: 'Not found' });
+});
+
+setInterval(pruneExpired, PRUNE_INTERVAL_MS).unref();
+
+server.listen(PORT, () => {
+    console.log(`✅ Token server listening on http://localhost:${PORT}`);
+    console.log(`   Access codes: ${ACCESS_CODES.size || 'open (quota per IP)'}, origins: ${ALLOWED_ORIGINS.join(', ') || 'any'}`);
+});
@@ -3,14 +3,27 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { useLiveCommentary } from './hooks/useLiveCommentary';
+import { usePushToTalkKeys } from './hooks/usePushToTalkKeys';
+import { useSpeechRateKeys } from './hooks/useSpeechRateKeys';
 import { AVAILABLE_VOICES } from './constants';
 import ControlBar from './components/ControlBar';
 import ParticleBackground from './components/ParticleBackground';
 import ChatInterface from './components/ChatInterface';
+import ApiKeyDialog from './components/ApiKeyDialog';
+import SettingsDialog from './components/SettingsDialog';
+import FocusOverlay from './components/FocusOverlay';
+import { checkTokenServer, getTokenServerUrl } from './utils/tokenClient';
+import { apiKeyStore } from './utils/apiKeyStore';
+import { LOCALES } from './utils/locales';
+import { createTranslator } from './utils/translations';
+import { ASSISTANCE_MODES } from './utils/assistanceModes';
+import { formatDistance } from './utils/units';
+import { getZoomFactor, isFullFrame } from './utils/focusRegion';
 
-export type APIKeyStatus = 'checking' | 'ready' | 'missing';
+export type APIKeyStatus = 'checking' | 'ready' | 'missing' | 'unreachable' | 'denied' | 'quota-exceeded';
+export type APIKeySource = 'device' | 'token-server' | 'build';
 export type CameraPermissionStatus = 'prompt' | 'granted' | 'denied';
 
 /**
@@ -24,6 +37,9 @@ function AIVisionGuideApp() {
     const [isSharingScreen, setIsSharingScreen] = useState(false);
     const [isCameraActive, setIsCameraActive] = useState(false);
     const [apiKeyStatus, setApiKeyStatus] = useState<APIKeyStatus>('checking');
+    const [apiKeySource, setApiKeySource] = useState<APIKeySource>(getTokenServerUrl() ? 'token-server' : 'build');
+    const [isApiKeyDialogOpen, setIsApiKeyDialogOpen] = useState(false);
+    const [isSettingsDialogOpen, setIsSettingsDialogOpen] = useState(false);
     const [cameraPermissionStatus, setCameraPermissionStatus] = useState<CameraPermissionStatus>('prompt');
 
 
@@ -33,28 +49,81 @@ function AIVisionGuideApp() {
         isSessionReady,
         isMicMuted,
         chatMessages,
-        isNavigationMode,
+        assistanceMode,
+        isRecording,
+        verbosity,
+        isCommentaryPaused,
+        urgencyLevel,
+        lastHazard,
+        liveSettings,
         deviceOrientation,
         imageQuality,
+        videoTier,
+        focusRegion,
+        inputMode,
+        isMicGateOpen,
+        wakeWordSampleCount,
         initLiveSession,
         stopLiveSession,
         startScreenShare,
         stopScreenShare,
         startCameraStream,
         stopCameraStream,
+        selectCamera,
+        cameras,
+        selectedCameraId,
+        isTorchOn,
         toggleMicMute,
-        toggleNavigationMode
+        changeAssistanceMode,
+        changeVerbosity,
+        changeFocusRegion,
+        pressToTalk,
+        releaseToTalk,
+        togglePushToTalk,
+        changeSpeechRate,
+        recordWakeWordSample,
+        forgetWakeWord,
+        toggleCommentaryPaused,
+        toggleRecording,
+        updateLiveSettings
     } = useLiveCommentary();
 
+    // The UI follows the language chosen in settings straight away; Aura switches on the next session
+    const locale = liveSettings.locale;
+    const t = useMemo(() => createTranslator(locale), [locale]);
     useEffect(() => {
-        // Check API Key
-        console.log("Checking API Key:", process.env.API_KEY ? "Found" : "Missing");
-        if (process.env.API_KEY && process.env.API_KEY.length > 0) {
+        document.documentElement.lang = LOCALES[locale].bcp47;
+    }, [locale]);
+
+    usePushToTalkKeys(isSessionActive && inputMode === 'push-to-talk', pressToTalk, releaseToTalk, togglePushToTalk);
+    useSpeechRateKeys(isSessionActive, changeSpeechRate);
+
+    // Same precedence as the Live transport: device key, token server, build-time key
+    const refreshApiKeyStatus = useCallback(async () => {
+        setApiKeyStatus('checking');
+        if (await apiKeyStore.hasKey().catch(() => false)) {
+            setApiKeySource('device');
             setApiKeyStatus('ready');
+        } else if (getTokenServerUrl()) {
+            // Check the token server is reachable and will issue us tokens
+            setApiKeySource('token-server');
+            const status = await checkTokenServer();
+            setApiKeyStatus(status);
         } else {
-            setApiKeyStatus('missing');
-            console.error("API Key is missing! Check your .env.local file.");
+            // Check API Key
+            setApiKeySource('build');
+            console.log("Checking API Key:", process.env.API_KEY ? "Found" : "Missing");
+            if (process.env.API_KEY && process.env.API_KEY.length > 0) {
+                setApiKeyStatus('ready');
+            } else {
+                setApiKeyStatus('missing');
+                console.error("API Key is missing! Enter your own key, set TOKEN_SERVER_URL, or set GEMINI_API_KEY in .env.local for local development.");
+            }
         }
+    }, []);
+
+    useEffect(() => {
+        refreshApiKeyStatus();
 
         // Check Camera Permissions on load
         navigator.mediaDevices.getUserMedia({ video: true })
@@ -67,7 +136,7 @@ function AIVisionGuideApp() {
                 console.error("Camera permission denied:", err);
                 setCameraPermissionStatus('denied');
             });
-    }, []);
+    }, [refreshApiKeyStatus]);
 
     const handleToggleSession = async () => {
         console.log("handleToggleSession called, isSessionActive:", isSessionActive);
@@ -80,7 +149,7 @@ function AIVisionGuideApp() {
             setIsCameraActive(false);
         } else {
             if (apiKeyStatus !== 'ready') {
-                console.error("Cannot start session: API key is missing.");
+                console.error("Cannot start session: no API access.", apiKeyStatus);
                 return;
             }
             console.log("Starting session with voice:", selectedVoice);
@@ -137,23 +206,43 @@ function AIVisionGuideApp() {
         }
     };
 
+    const handleCameraChange = async (deviceId: string | null) => {
+        try {
+            await selectCamera(deviceId);
+        } catch (e) {
+            console.error("Failed to switch camera:", e);
+            setIsCameraActive(false);
+        }
+    };
+
     const isVideoVisible = isSharingScreen || isCameraActive;
+    const hazardReadout = isVideoVisible && ASSISTANCE_MODES[assistanceMode].hazardAlerts && lastHazard && lastHazard.distanceMeters !== null
+        ? t('hazard.readout', {
+            hazard: t(`hazard.type.${lastHazard.type}`),
+            distance: formatDistance(lastHazard.distanceMeters, liveSettings.unitSystem, LOCALES[locale].bcp47)
+        })
+        : null;
+    const focusLabel = isSharingScreen && !isFullFrame(focusRegion)
+        ? t('focus.overlay', {
+            region: focusRegion.source === 'zoom' ? t('focus.zoom', { factor: getZoomFactor(focusRegion) }) : t(`focus.${focusRegion.source}`)
+        })
+        : null;
 
     return (
         <>
-            <a href="#main-content" className="skip-link">Skip to main content</a>
+            <a href="#main-content" className="skip-link">{t('app.skipLink')}</a>
             <ParticleBackground />
-            <div className="app-container" role="application" aria-label="VCB Vision - AI Vision Assistant">
+            <div className="app-container" role="application" aria-label={t('app.regionLabel')}>
                 <header className="app-header" role="banner">
                     <div className="header-content">
                         <img
                             src="https://i.postimg.cc/gJRb8pvP/logo-transparent-Black-Back.png"
-                            alt="VCB Vision - AI powered vision assistance for the blind and visually impaired"
+                            alt={t('app.logoAlt')}
                             className="app-logo"
                         />
                         <div className="header-text">
                             <h1>VCB Vision</h1>
-                            <p className="motto">Where vision becomes viable</p>
+                            <p className="motto">{t('app.motto')}</p>
                         </div>
                     </div>
                 </header>
@@ -167,23 +256,28 @@ function AIVisionGuideApp() {
                             autoPlay
                             playsInline
                             style={{ display: isVideoVisible ? 'block' : 'none' }}
-                            aria-label="Live video feed from screen or camera"
+                            aria-label={t('app.videoLabel')}
                         ></video>
+                        {focusLabel && <FocusOverlay videoRef={videoRef} region={focusRegion} label={focusLabel} />}
+                        {hazardReadout && (
+                            // Aura has already spoken it, so this is not a live region
+                            <div className={`hazard-readout urgency-${urgencyLevel}`}>{hazardReadout}</div>
+                        )}
                         {!isVideoVisible && (
-                            <div className="instructions" role="region" aria-label="Getting started instructions">
-                                <h2>Welcome to VCB Vision</h2>
+                            <div className="instructions" role="region" aria-label={t('app.instructionsLabel')}>
+                                <h2>{t('app.welcomeTitle')}</h2>
                                 <p>
-                                    <strong>1.</strong> Ensure your API Key is ready in the status bar below
+                                    <strong>1.</strong> {t('app.step1')}
                                     <br/>
-                                    <strong>2.</strong> Click 'Start Session' to connect to Aura, your AI vision assistant
+                                    <strong>2.</strong> {t('app.step2')}
                                     <br />
-                                    <strong>3.</strong> Choose 'Start Camera' for walking guidance or 'Share Screen' to read content
+                                    <strong>3.</strong> {t('app.step3')}
                                     <br />
-                                    <strong>4.</strong> Aura will describe what she sees with focus on safety and navigation
+                                    <strong>4.</strong> {t('app.step4')}
                                     <br />
-                                    <strong>5.</strong> Speak anytime to ask questions or get more details - you can interrupt Aura at any time
+                                    <strong>5.</strong> {t('app.step5')}
                                     <br />
-                                    <strong>6.</strong> Use the microphone button to mute/unmute your voice input
+                                    <strong>6.</strong> {t('app.step6')}
                                 </p>
                             </div>
                         )}
@@ -195,24 +289,67 @@ function AIVisionGuideApp() {
                     isSessionReady={isSessionReady}
                     onToggleSession={handleToggleSession}
                     commentaryStatus={commentaryStatus}
+                    videoTier={videoTier}
                     selectedVoice={selectedVoice}
                     onVoiceChange={setSelectedVoice}
                     isSharingScreen={isSharingScreen}
                     onToggleScreenShare={handleToggleScreenShare}
                     isCameraActive={isCameraActive}
                     onToggleCamera={handleToggleCamera}
+                    cameras={cameras}
+                    selectedCameraId={selectedCameraId}
+                    onCameraChange={handleCameraChange}
+                    isTorchOn={isTorchOn}
+                    focusRegion={focusRegion}
+                    onFocusRegionChange={changeFocusRegion}
                     apiKeyStatus={apiKeyStatus}
+                    apiKeySource={apiKeySource}
+                    onManageApiKey={() => setIsApiKeyDialogOpen(true)}
+                    onOpenSettings={() => setIsSettingsDialogOpen(true)}
                     cameraPermissionStatus={cameraPermissionStatus}
                     isMicMuted={isMicMuted}
                     onToggleMicMute={toggleMicMute}
-                    isNavigationMode={isNavigationMode}
-                    onToggleNavigationMode={toggleNavigationMode}
+                    inputMode={inputMode}
+                    isMicGateOpen={isMicGateOpen}
+                    onPressToTalk={pressToTalk}
+                    onReleaseToTalk={releaseToTalk}
+                    assistanceMode={assistanceMode}
+                    onAssistanceModeChange={changeAssistanceMode}
+                    verbosity={verbosity}
+                    onVerbosityChange={changeVerbosity}
+                    isCommentaryPaused={isCommentaryPaused}
+                    onToggleCommentaryPaused={toggleCommentaryPaused}
+                    isRecording={isRecording}
+                    onToggleRecording={toggleRecording}
+                    t={t}
+                />
+
+                <ApiKeyDialog
+                    isOpen={isApiKeyDialogOpen}
+                    hasStoredKey={apiKeySource === 'device'}
+                    onClose={() => setIsApiKeyDialogOpen(false)}
+                    onKeyChanged={refreshApiKeyStatus}
+                    locale={locale}
+                    t={t}
+                />
+
+                <SettingsDialog
+                    isOpen={isSettingsDialogOpen}
+                    settings={liveSettings}
+                    isSessionActive={isSessionActive}
+                    wakeWordSampleCount={wakeWordSampleCount}
+                    onRecordWakeWord={recordWakeWordSample}
+                    onForgetWakeWord={forgetWakeWord}
+                    onClose={() => setIsSettingsDialogOpen(false)}
+                    onSave={updateLiveSettings}
+                    t={t}
                 />
 
                 {isSessionActive && chatMessages.length > 0 && (
                     <ChatInterface
                         messages={chatMessages}
-                        isListening={!isMicMuted && isSessionReady}
+                        isListening={!isMicMuted && isMicGateOpen && isSessionReady}
+                        t={t}
                     />
                 )}
             </div>
@@ -0,0 +1,164 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { loadLiveSettings } from '../utils/liveSettings';
+import { apiKeyStore, ApiKeyStore } from '../utils/apiKeyStore';
+import { createGeminiTransport, testLiveConnection } from '../utils/liveTransport';
+import { handleAPIError } from '../utils/errorHandlers';
+import type { LocaleId } from '../utils/locales';
+import type { Translator } from '../utils/translations';
+
+interface ApiKeyDialogProps {
+    isOpen: boolean;
+    hasStoredKey: boolean;
+    onClose: () => void;
+    onKeyChanged: () => void;
+    locale: LocaleId;
+    t: Translator;
+}
+
+type DialogState = 'idle' | 'testing' | 'error';
+
+/**
+ * Modal dialog for entering, replacing or forgetting a personal Gemini API key.
+ * The key is tested with a real Live connection before it is stored.
+ */
+const ApiKeyDialog: React.FC<ApiKeyDialogProps> = ({ isOpen, hasStoredKey, onClose, onKeyChanged, locale, t }) => {
+    const dialogRef = useRef<HTMLDialogElement>(null);
+    const [apiKey, setApiKey] = useState('');
+    const [isKeyVisible, setIsKeyVisible] = useState(false);
+    const [dialogState, setDialogState] = useState<DialogState>('idle');
+    const [message, setMessage] = useState('');
+    const isSupported = ApiKeyStore.isSupported();
+
+    // Drive the native dialog so focus trapping and Escape handling come for free
+    useEffect(() => {
+        const dialog = dialogRef.current;
+        if (!dialog) return;
+        if (isOpen && !dialog.open) {
+            setApiKey('');
+            setDialogState('idle');
+            setMessage('');
+            dialog.showModal();
+        } else if (!isOpen && dialog.open) {
+            dialog.close();
+        }
+    }, [isOpen]);
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const trimmedKey = apiKey.trim();
+        if (!trimmedKey) {
+            setDialogState('error');
+            setMessage(t('apiKey.empty'));
+            return;
+        }
+
+        setDialogState('testing');
+        setMessage(t('apiKey.testing'));
+        try {
+            await testLiveConnection(createGeminiTransport(trimmedKey), loadLiveSettings().model);
+            await apiKeyStore.save(trimmedKey);
+            setApiKey('');
+            setDialogState('idle');
+            setMessage('');
+            onKeyChanged();
+            onClose();
+        } catch (error: any) {
+            const apiError = handleAPIError(error instanceof Error ? error : new Error(String(error)), 'live.connect', locale);
+            setDialogState('error');
+            setMessage(t('apiKey.notSaved', { error: apiError.userMessage }));
+        }
+    };
+
+    const handleForget = async () => {
+        try {
+            await apiKeyStore.clear();
+            onKeyChanged();
+            onClose();
+        } catch (error) {
+            console.error('Failed to forget API key:', error);
+            setDialogState('error');
+            setMessage(t('apiKey.forgetFailed'));
+        }
+    };
+
+    const isTesting = dialogState === 'testing';
+
+    return (
+        <dialog
+            ref={dialogRef}
+            className="api-key-dialog"
+            aria-labelledby="api-key-dialog-title"
+            aria-describedby="api-key-dialog-description"
+            onClose={onClose}
+        >
+            <form onSubmit={handleSave}>
+                <h2 id="api-key-dialog-title">{t(hasStoredKey ? 'apiKey.titleReplace' : 'apiKey.titleNew')}</h2>
+                <p id="api-key-dialog-description">
+                    {t('apiKey.description')}
+                </p>
+
+                {!isSupported && (
+                    <p className="api-key-dialog-message error" role="alert">
+                        {t('apiKey.unsupported')}
+                    </p>
+                )}
+
+                <label htmlFor="api-key-input">{t('apiKey.label')}</label>
+                <div className="api-key-input-row">
+                    <input
+                        id="api-key-input"
+                        type={isKeyVisible ? 'text' : 'password'}
+                        value={apiKey}
+                        onChange={(e) => setApiKey(e.target.value)}
+                        autoComplete="off"
+                        spellCheck={false}
+                        disabled={isTesting || !isSupported}
+                        aria-invalid={dialogState === 'error'}
+                        aria-describedby="api-key-dialog-message"
+                    />
+                    <button
+                        type="button"
+                        className="control-button inactive"
+                        onClick={() => setIsKeyVisible(prev => !prev)}
+                        aria-pressed={isKeyVisible}
+                        aria-label={t(isKeyVisible ? 'apiKey.hide' : 'apiKey.show')}
+                    >
+                        <span className="material-symbols-outlined">{isKeyVisible ? 'visibility_off' : 'visibility'}</span>
+                    </button>
+                </div>
+
+                <p
+                    id="api-key-dialog-message"
+                    className={`api-key-dialog-message ${dialogState}`}
+                    role={dialogState === 'error' ? 'alert' : 'status'}
+                    aria-live="polite"
+                >
+                    {message}
+                </p>
+
+                <div className="api-key-dialog-actions">
+                    {hasStoredKey && (
+                        <button type="button" className="control-button inactive" onClick={handleForget} disabled={isTesting}>
+                            <span className="material-symbols-outlined">delete</span>
+                            {t('apiKey.forget')}
+                        </button>
+                    )}
+                    <button type="button" className="control-button inactive" onClick={onClose} disabled={isTesting}>
+                        {t('apiKey.cancel')}
+                    </button>
+                    <button type="submit" className="control-button active" disabled={isTesting || !isSupported}>
+                        <span className="material-symbols-outlined">key</span>
+                        {t(isTesting ? 'apiKey.testingButton' : hasStoredKey ? 'apiKey.testReplace' : 'apiKey.testSave')}
+                    </button>
+                </div>
+            </form>
+        </dialog>
+    );
+};
+
+export default ApiKeyDialog;
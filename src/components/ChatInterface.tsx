@@ -5,13 +5,42 @@
 
 import React, { useEffect, useRef } from 'react';
 import { ChatMessage } from '../hooks/useLiveCommentary';
+import type { Translator } from '../utils/translations';
 
 interface ChatInterfaceProps {
     messages: ChatMessage[];
     isListening: boolean;
+    t: Translator;
 }
 
-const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, isListening }) => {
+/**
+ * One bubble per turn; streaming turns update in place. Their text is hidden from
+ * screen readers until the turn is complete, so the log announces each turn once, whole
+ */
+const ChatTurn: React.FC<{ message: ChatMessage; t: Translator }> = ({ message, t }) => {
+    const isStreaming = message.status === 'streaming';
+    const label = message.type === 'ai'
+        ? t(isStreaming ? 'chat.aiSaying' : 'chat.aiSaid')
+        : t(isStreaming ? 'chat.youSaying' : 'chat.youSaid');
+    return (
+        <div className={`chat-message ${message.type} ${message.status}`} role="article" aria-label={label} aria-busy={isStreaming}>
+            <div className="message-content">
+                <span aria-hidden={isStreaming || undefined}>{message.text}</span>
+                {isStreaming && (
+                    <span className="streaming-indicator" aria-hidden="true">
+                        <span></span><span></span><span></span>
+                    </span>
+                )}
+            </div>
+            <div className="message-time">
+                <span aria-hidden="true">{message.timestamp.toLocaleTimeString()}</span>
+                {message.status === 'interrupted' && <span className="message-status"> · {t('chat.interrupted')}</span>}
+            </div>
+        </div>
+    );
+};
+
+const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, isListening, t }) => {
     const messagesEndRef = useRef<HTMLDivElement>(null);
 
     // Auto-scroll to latest message
@@ -20,33 +49,26 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, isListening })
     }, [messages]);
 
     return (
-        <div className="chat-interface" role="complementary" aria-label="Conversation history">
+        <div className="chat-interface" role="complementary" aria-label={t('chat.regionLabel')}>
             <div className="chat-header">
-                <h3>Conversation</h3>
+                <h3>{t('chat.title')}</h3>
                 {isListening && (
                     <span className="listening-indicator" aria-live="polite">
                         <span className="pulse-dot" aria-hidden="true"></span>
-                        Listening...
+                        {t('chat.listening')}
                     </span>
                 )}
             </div>
-            <div className="chat-messages" role="log" aria-live="polite" aria-atomic="false">
+            <div className="chat-messages">
                 {messages.length === 0 ? (
                     <div className="chat-empty">
-                        <p>Start speaking to interact with the AI</p>
+                        <p>{t('chat.empty')}</p>
                     </div>
                 ) : (
                     <>
-                        {messages.map((msg, idx) => (
-                            <div key={idx} className={`chat-message ${msg.type}`} role="article">
-                                <div className="message-content" aria-label={`${msg.type === 'ai' ? 'AI' : 'You'} said`}>
-                                    {msg.text}
-                                </div>
-                                <div className="message-time" aria-hidden="true">
-                                    {msg.timestamp.toLocaleTimeString()}
-                                </div>
-                            </div>
-                        ))}
+                        <div className="chat-log" role="log" aria-live="polite" aria-atomic="false">
+                            {messages.map(msg => <ChatTurn key={msg.id} message={msg} t={t} />)}
+                        </div>
                         <div ref={messagesEndRef} />
                     </>
                 )}
@@ -5,25 +5,66 @@
 
 import React from 'react';
 import { AVAILABLE_VOICES } from '../constants';
-import { APIKeyStatus, CameraPermissionStatus } from '../AIVisionGuideApp';
+import { APIKeySource, APIKeyStatus, CameraPermissionStatus } from '../AIVisionGuideApp';
+import {
+    ASSISTANCE_MODES,
+    ASSISTANCE_MODE_IDS,
+    VERBOSITY_LEVELS,
+    type AssistanceModeId,
+    type Verbosity
+} from '../utils/assistanceModes';
+import type { Translator } from '../utils/translations';
+import type { VideoTierId } from '../utils/videoAdaptation';
+import type { CameraOption } from '../utils/cameraSelection';
+import type { InputMode } from '../utils/micGate';
+import {
+    FOCUS_PRESET_IDS,
+    FOCUS_ZOOM_LEVELS,
+    focusRegionFromPreset,
+    getZoomFactor,
+    parseFocusPreset,
+    zoomFocusRegion,
+    type FocusRegion
+} from '../utils/focusRegion';
 
 interface ControlBarProps {
     isSessionActive: boolean;
     isSessionReady: boolean;
     onToggleSession: () => void;
     commentaryStatus: string;
+    videoTier: VideoTierId | null;
     selectedVoice: string;
     onVoiceChange: (voice: string) => void;
     isSharingScreen: boolean;
     onToggleScreenShare: () => void;
     isCameraActive: boolean;
     onToggleCamera: () => void;
+    cameras: CameraOption[];
+    selectedCameraId: string | null;
+    onCameraChange: (deviceId: string | null) => void;
+    isTorchOn: boolean;
+    focusRegion: FocusRegion;
+    onFocusRegionChange: (region: FocusRegion) => void;
     apiKeyStatus: APIKeyStatus;
+    apiKeySource: APIKeySource;
+    onManageApiKey: () => void;
+    onOpenSettings: () => void;
     cameraPermissionStatus: CameraPermissionStatus;
     isMicMuted: boolean;
     onToggleMicMute: () => void;
-    isNavigationMode: boolean;
-    onToggleNavigationMode: () => void;
+    inputMode: InputMode;
+    isMicGateOpen: boolean;
+    onPressToTalk: () => void;
+    onReleaseToTalk: () => void;
+    assistanceMode: AssistanceModeId;
+    onAssistanceModeChange: (mode: AssistanceModeId) => void;
+    verbosity: Verbosity;
+    onVerbosityChange: (level: Verbosity) => void;
+    isCommentaryPaused: boolean;
+    onToggleCommentaryPaused: () => void;
+    isRecording: boolean;
+    onToggleRecording: () => void;
+    t: Translator;
 }
 
 const ControlBar: React.FC<ControlBarProps> = ({
@@ -31,118 +72,312 @@ const ControlBar: React.FC<ControlBarProps> = ({
     isSessionReady,
     onToggleSession,
     commentaryStatus,
+    videoTier,
     selectedVoice,
     onVoiceChange,
     isSharingScreen,
     onToggleScreenShare,
     isCameraActive,
     onToggleCamera,
+    cameras,
+    selectedCameraId,
+    onCameraChange,
+    isTorchOn,
+    focusRegion,
+    onFocusRegionChange,
     apiKeyStatus,
+    apiKeySource,
+    onManageApiKey,
+    onOpenSettings,
     cameraPermissionStatus,
     isMicMuted,
     onToggleMicMute,
-    isNavigationMode,
-    onToggleNavigationMode
+    inputMode,
+    isMicGateOpen,
+    onPressToTalk,
+    onReleaseToTalk,
+    assistanceMode,
+    onAssistanceModeChange,
+    verbosity,
+    onVerbosityChange,
+    isCommentaryPaused,
+    onToggleCommentaryPaused,
+    isRecording,
+    onToggleRecording,
+    t
 }) => {
     const isLoading = commentaryStatus.startsWith("🔌");
-    const sessionButtonText = isSessionActive ? 'Stop Session' : 'Start Session';
+    const sessionButtonText = isSessionActive ? t('session.stop') : t('session.start');
     const sessionButtonClass = isSessionActive ? 'control-button active' : 'control-button inactive';
     
-    const shareButtonText = isSharingScreen ? 'Stop Sharing' : 'Share Screen';
+    const shareButtonText = isSharingScreen ? t('share.stop') : t('share.start');
     const shareButtonClass = `control-button share-screen ${isSharingScreen ? 'active' : 'inactive'}`;
 
     const isCameraDenied = cameraPermissionStatus === 'denied';
-    const cameraButtonText = isCameraActive ? 'Stop Camera' : (isCameraDenied ? 'Camera Denied' : 'Start Camera');
+    const cameraButtonText = isCameraActive ? t('camera.stop') : (isCameraDenied ? t('camera.denied') : t('camera.start'));
     const cameraButtonClass = `control-button share-screen ${isCameraActive ? 'active' : 'inactive'} ${isCameraDenied ? 'permission-denied' : ''}`;
 
     const apiKeyMessage = {
-        checking: 'Checking API Key...',
-        ready: 'API Key Ready',
-        missing: 'API Key Missing'
+        checking: t(apiKeySource === 'token-server' ? 'apiKey.checkingAccess' : 'apiKey.checkingKey'),
+        ready: t(({ device: 'apiKey.readyDevice', 'token-server': 'apiKey.readyTokenServer', build: 'apiKey.readyBuild' } as const)[apiKeySource]),
+        missing: t('apiKey.missing'),
+        unreachable: t('apiKey.unreachable'),
+        denied: t('apiKey.denied'),
+        'quota-exceeded': t('apiKey.quotaExceeded')
     }[apiKeyStatus];
+    // Every failure state shares the "missing" styling
+    const apiKeyStatusClass = apiKeyStatus === 'ready' || apiKeyStatus === 'checking' ? apiKeyStatus : 'missing';
+
+    const verbosityLabel = t(`verbosity.${verbosity}`);
+    const nextVerbosity = VERBOSITY_LEVELS[(VERBOSITY_LEVELS.indexOf(verbosity) + 1) % VERBOSITY_LEVELS.length];
+
+    // Zoom levels are offered as "zoom-2" and so on next to the named regions
+    const focusValue = focusRegion.source === 'zoom' ? `zoom-${getZoomFactor(focusRegion)}` : focusRegion.source;
+    const handleFocusChange = (value: string) => {
+        const preset = parseFocusPreset(value);
+        if (preset) {
+            onFocusRegionChange(focusRegionFromPreset(preset));
+        } else if (value.startsWith('zoom-')) {
+            onFocusRegionChange(zoomFocusRegion(focusRegion, Number(value.slice('zoom-'.length))));
+        }
+    };
 
     const areStreamButtonsDisabled = !isSessionActive || !isSessionReady;
     const isCameraButtonDisabled = areStreamButtonsDisabled || isCameraDenied;
 
     return (
-        <div className="control-bar" role="region" aria-label="Application controls and status">
+        <div className="control-bar" role="region" aria-label={t('controls.regionLabel')}>
             <div className="controls-left">
                 <div className="status-indicators" role="status" aria-live="polite">
-                    <div className={`api-key-status ${apiKeyStatus}`} role="status" aria-live="polite" aria-atomic="true">
+                    <button
+                        type="button"
+                        className={`api-key-status ${apiKeyStatusClass}`}
+                        onClick={onManageApiKey}
+                        aria-label={t('apiKey.manageLabel', { status: apiKeyMessage })}
+                        aria-haspopup="dialog"
+                        title={t('apiKey.manageTitle')}
+                    >
                         {apiKeyMessage}
-                    </div>
+                    </button>
                     <div className="commentary-status" role="status" aria-live="polite" aria-atomic="true">
-                        {isLoading ? 'Connecting to AI...' : `AI Status: ${commentaryStatus || 'Idle'}`}
+                        {isLoading ? t('status.connectingToAi') : t('status.label', { status: commentaryStatus || t('status.idle') })}
                     </div>
+                    {isTorchOn && (
+                        <div className="status-badge torch-status">
+                            <span className="material-symbols-outlined" aria-hidden="true">flashlight_on</span>
+                            {t('torch.on')}
+                        </div>
+                    )}
+                    {isSessionActive && inputMode !== 'open' && (
+                        <div className={`status-badge mic-gate ${isMicGateOpen ? 'open' : 'closed'}`} aria-atomic="true">
+                            <span className="material-symbols-outlined" aria-hidden="true">{isMicGateOpen ? 'mic' : 'mic_none'}</span>
+                            {isMicGateOpen ? t('micGate.listening') : t(inputMode === 'wake-word' ? 'micGate.sayWakeWord' : 'micGate.closed')}
+                        </div>
+                    )}
+                    {videoTier && (
+                        <div className={`status-badge video-tier tier-${videoTier}`} aria-atomic="true">
+                            {t('videoTier.status', { tier: t(`videoTier.${videoTier}`) })}
+                        </div>
+                    )}
                 </div>
-                <label htmlFor="voice-selector" className="visually-hidden">Select AI voice</label>
+                <label htmlFor="voice-selector" className="visually-hidden">{t('voice.label')}</label>
                 <select
                     id="voice-selector"
                     className="voice-selector"
                     value={selectedVoice}
                     onChange={(e) => onVoiceChange(e.target.value)}
                     disabled={isSessionActive || isLoading}
-                    aria-label="Select Aura's voice - Change before starting session"
+                    aria-label={t('voice.ariaLabel')}
                     aria-describedby="voice-help"
                 >
                     {AVAILABLE_VOICES.map(voice => (
                         <option key={voice.name} value={voice.name}>{voice.label}</option>
                     ))}
                 </select>
-                <span id="voice-help" className="visually-hidden">Voice can only be changed when session is stopped</span>
+                <span id="voice-help" className="visually-hidden">{t('voice.help')}</span>
+                {cameras.length > 1 && (
+                    <>
+                        <label htmlFor="camera-selector" className="visually-hidden">{t('camera.selectLabel')}</label>
+                        <select
+                            id="camera-selector"
+                            className="voice-selector"
+                            value={selectedCameraId ?? ''}
+                            onChange={(e) => onCameraChange(e.target.value || null)}
+                            aria-label={t('camera.selectAriaLabel')}
+                        >
+                            <option value="">{t('camera.rear')}</option>
+                            {cameras.map((camera, index) => (
+                                <option key={camera.deviceId} value={camera.deviceId}>
+                                    {camera.label || t('camera.unnamed', { number: index + 1 })}
+                                </option>
+                            ))}
+                        </select>
+                    </>
+                )}
+                {isSharingScreen && (
+                    <>
+                        <label htmlFor="focus-selector" className="visually-hidden">{t('focus.selectLabel')}</label>
+                        <select
+                            id="focus-selector"
+                            className="voice-selector"
+                            value={focusValue}
+                            onChange={(e) => handleFocusChange(e.target.value)}
+                            aria-label={t('focus.selectAriaLabel')}
+                        >
+                            {FOCUS_PRESET_IDS.map(id => (
+                                <option key={id} value={id}>{t(`focus.${id}`)}</option>
+                            ))}
+                            {FOCUS_ZOOM_LEVELS.map(factor => (
+                                <option key={factor} value={`zoom-${factor}`}>{t('focus.zoom', { factor })}</option>
+                            ))}
+                            {focusRegion.source === 'box' && <option value="box" disabled>{t('focus.box')}</option>}
+                        </select>
+                    </>
+                )}
+                <button
+                    type="button"
+                    className="control-button inactive"
+                    onClick={onOpenSettings}
+                    aria-haspopup="dialog"
+                    aria-label={t('settings.openLabel')}
+                    title={t('settings.openTitle')}
+                >
+                    <span className="material-symbols-outlined">tune</span>
+                    {t('settings.button')}
+                </button>
             </div>
-            <div className="controls-right" role="group" aria-label="Session controls">
+            <div className="controls-right" role="group" aria-label={t('controls.sessionGroup')}>
+                <button
+                    onClick={onToggleRecording}
+                    className={`control-button ${isRecording ? 'active' : 'inactive'}`}
+                    disabled={!isSessionActive}
+                    aria-label={isRecording ? t('record.stopLabel') : t('record.startLabel')}
+                    aria-pressed={isRecording}
+                    title={isRecording ? t('record.stopTitle') : t('record.startTitle')}
+                >
+                    <span className="material-symbols-outlined">{isRecording ? 'stop_circle' : 'fiber_manual_record'}</span>
+                    {isRecording ? t('record.stop') : t('record.start')}
+                </button>
+                <div className="mode-selector" role="group" aria-label={t('mode.groupLabel')}>
+                    {ASSISTANCE_MODE_IDS.map(id => {
+                        const mode = ASSISTANCE_MODES[id];
+                        const isActive = assistanceMode === id;
+                        const label = t(`mode.${id}.label`);
+                        const description = t(`mode.${id}.description`);
+                        return (
+                            <button
+                                key={id}
+                                onClick={() => onAssistanceModeChange(id)}
+                                className={`control-button ${isActive ? 'active' : 'inactive'}`}
+                                disabled={!isSessionActive || (mode.requiresCamera && !isCameraActive) || (mode.requiresScreen && !isSharingScreen)}
+                                aria-label={description}
+                                aria-pressed={isActive}
+                                title={
+                                    mode.requiresCamera && !isCameraActive ? t('mode.needsCamera', { mode: label })
+                                        : mode.requiresScreen && !isSharingScreen ? t('mode.needsScreen', { mode: label })
+                                        : description
+                                }
+                            >
+                                <span className="material-symbols-outlined">{mode.icon}</span>
+                                {label}
+                            </button>
+                        );
+                    })}
+                </div>
+                <button
+                    onClick={() => onVerbosityChange(nextVerbosity)}
+                    className="control-button inactive"
+                    disabled={!isSessionActive}
+                    aria-label={t('verbosity.label', { level: verbosityLabel, next: t(`verbosity.${nextVerbosity}`) })}
+                    title={t('verbosity.title')}
+                >
+                    <span className="material-symbols-outlined">notes</span>
+                    {verbosityLabel}
+                </button>
                 <button
-                    onClick={onToggleNavigationMode}
-                    className={`control-button ${isNavigationMode ? 'active' : 'inactive'}`}
-                    disabled={!isSessionActive || !isCameraActive}
-                    aria-label={isNavigationMode ? 'Deactivate navigation mode - return to normal descriptions' : 'Activate navigation mode - get short clear walking directions'}
-                    aria-pressed={isNavigationMode}
-                    title={isNavigationMode ? 'ON: Short walking commands' : 'OFF: Activate for walking guidance'}
+                    onClick={onToggleCommentaryPaused}
+                    className={`control-button ${isCommentaryPaused ? 'inactive' : 'active'}`}
+                    disabled={!isSessionActive}
+                    aria-label={isCommentaryPaused ? t('pause.resumeLabel') : t('pause.pauseLabel')}
+                    aria-pressed={isCommentaryPaused}
+                    title={isCommentaryPaused ? t('pause.pausedTitle') : t('pause.activeTitle')}
                 >
-                    <span className="material-symbols-outlined">navigation</span>
-                    {isNavigationMode ? 'Nav ON' : 'Nav OFF'}
+                    <span className="material-symbols-outlined">{isCommentaryPaused ? 'play_circle' : 'pause_circle'}</span>
+                    {isCommentaryPaused ? t('pause.resume') : t('pause.pause')}
                 </button>
                 <button
                     onClick={onToggleMicMute}
                     className={`control-button ${isMicMuted ? 'inactive' : 'active'}`}
                     disabled={!isSessionActive}
-                    aria-label={isMicMuted ? 'Unmute microphone to speak with Aura' : 'Mute microphone - currently listening'}
+                    aria-label={isMicMuted ? t('mic.unmuteLabel') : t('mic.muteLabel')}
                     aria-pressed={!isMicMuted}
-                    title={isMicMuted ? 'Click to unmute - you can talk to Aura' : 'Click to mute - Aura cannot hear you'}
+                    title={isMicMuted ? t('mic.mutedTitle') : t('mic.unmutedTitle')}
                 >
                     <span className="material-symbols-outlined">{isMicMuted ? 'mic_off' : 'mic'}</span>
-                    {isMicMuted ? 'Mic Off' : 'Mic On'}
+                    {isMicMuted ? t('mic.off') : t('mic.on')}
                 </button>
+                {inputMode === 'push-to-talk' && (
+                    <button
+                        type="button"
+                        className={`control-button push-to-talk ${isMicGateOpen ? 'active' : 'inactive'}`}
+                        disabled={!isSessionActive || isMicMuted}
+                        onPointerDown={(e) => {
+                            // Keep the release even if the finger slides off the button
+                            e.currentTarget.setPointerCapture(e.pointerId);
+                            onPressToTalk();
+                        }}
+                        onPointerUp={onReleaseToTalk}
+                        onPointerCancel={onReleaseToTalk}
+                        onContextMenu={(e) => e.preventDefault()}
+                        onKeyDown={(e) => {
+                            if ((e.key === ' ' || e.key === 'Enter') && !e.repeat) {
+                                e.preventDefault();
+                                onPressToTalk();
+                            }
+                        }}
+                        onKeyUp={(e) => {
+                            if (e.key === ' ' || e.key === 'Enter') {
+                                e.preventDefault();
+                                onReleaseToTalk();
+                            }
+                        }}
+                        onBlur={onReleaseToTalk}
+                        aria-label={t('pushToTalk.label')}
+                        aria-pressed={isMicGateOpen}
+                    >
+                        <span className="material-symbols-outlined">{isMicGateOpen ? 'mic' : 'touch_app'}</span>
+                        {isMicGateOpen ? t('micGate.listening') : t('pushToTalk.hold')}
+                    </button>
+                )}
                 <button
                     onClick={onToggleCamera}
                     className={cameraButtonClass}
                     disabled={isCameraButtonDisabled}
-                    aria-label={isCameraActive ? 'Stop camera feed' : isCameraDenied ? 'Camera access denied - check browser permissions' : 'Start camera for walking guidance and navigation'}
+                    aria-label={isCameraActive ? t('camera.stopLabel') : isCameraDenied ? t('camera.deniedLabel') : t('camera.startLabel')}
                     aria-pressed={isCameraActive}
                 >
                     <span className="material-symbols-outlined">{isCameraActive ? 'videocam_off' : isCameraDenied ? 'block' : 'videocam'}</span>
-                    {isCameraActive ? 'Stop Camera' : isCameraDenied ? 'Camera Denied' : 'Start Camera'}
+                    {cameraButtonText}
                 </button>
                 <button
                     onClick={onToggleScreenShare}
                     className={shareButtonClass}
                     disabled={areStreamButtonsDisabled}
-                    aria-label={isSharingScreen ? 'Stop screen sharing' : 'Share screen for reading and document assistance'}
+                    aria-label={isSharingScreen ? t('share.stopLabel') : t('share.startLabel')}
                     aria-pressed={isSharingScreen}
                 >
                     <span className="material-symbols-outlined">{isSharingScreen ? 'stop_screen_share' : 'screen_share'}</span>
-                    {isSharingScreen ? 'Stop Sharing' : 'Share Screen'}
+                    {shareButtonText}
                 </button>
                 <button
                     onClick={onToggleSession}
                     className={sessionButtonClass}
                     disabled={isLoading || (apiKeyStatus !== 'ready' && !isSessionActive)}
-                    aria-label={isSessionActive ? 'Stop AI session and disconnect from Aura' : 'Start AI session and connect to Aura'}
+                    aria-label={isSessionActive ? t('session.stopLabel') : t('session.startLabel')}
                     aria-pressed={isSessionActive}
                 >
                     <span className="material-symbols-outlined">{isSessionActive ? 'stop' : 'play_arrow'}</span>
-                    {isSessionActive ? 'Stop Session' : 'Start Session'}
+                    {sessionButtonText}
                 </button>
             </div>
         </div>
@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import type { FocusRegion } from '../utils/focusRegion';
+
+interface FocusOverlayProps {
+    videoRef: React.RefObject<HTMLVideoElement>;
+    region: FocusRegion;
+    label: string;
+}
+
+interface ContentBox {
+    left: number;
+    top: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Where the picture sits inside the video element. The preview uses
+ * object-fit: contain, so a frame with another aspect ratio is letterboxed.
+ */
+function getContentBox(video: HTMLVideoElement): ContentBox | null {
+    if (!video.videoWidth || !video.videoHeight || !video.clientWidth || !video.clientHeight) return null;
+    const scale = Math.min(video.clientWidth / video.videoWidth, video.clientHeight / video.videoHeight);
+    const width = video.videoWidth * scale;
+    const height = video.videoHeight * scale;
+    return {
+        left: video.offsetLeft + (video.clientWidth - width) / 2,
+        top: video.offsetTop + (video.clientHeight - height) / 2,
+        width,
+        height
+    };
+}
+
+/**
+ * Outlines the focus region on the preview and dims the rest, so a sighted
+ * helper can see what Aura is reading
+ */
+const FocusOverlay: React.FC<FocusOverlayProps> = ({ videoRef, region, label }) => {
+    const [box, setBox] = useState<ContentBox | null>(null);
+
+    useEffect(() => {
+        const video = videoRef.current;
+        if (!video) return;
+        const update = () => setBox(getContentBox(video));
+        update();
+        // The picture moves when the window resizes or the shared window changes size
+        const observer = new ResizeObserver(update);
+        observer.observe(video);
+        video.addEventListener('loadedmetadata', update);
+        video.addEventListener('resize', update);
+        return () => {
+            observer.disconnect();
+            video.removeEventListener('loadedmetadata', update);
+            video.removeEventListener('resize', update);
+        };
+    }, [videoRef]);
+
+    if (!box) return null;
+
+    return (
+        <div
+            className="focus-overlay"
+            aria-hidden="true"
+            style={{
+                left: box.left + region.x * box.width,
+                top: box.top + region.y * box.height,
+                width: region.width * box.width,
+                height: region.height * box.height
+            }}
+        >
+            <span className="focus-overlay-label">{label}</span>
+        </div>
+    );
+};
+
+export default FocusOverlay;
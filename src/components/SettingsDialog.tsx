@@ -0,0 +1,456 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { MediaResolution, Modality } from "@google/genai";
+import {
+    AUDIO_BALANCE_RANGE,
+    DEFAULT_LIVE_SETTINGS,
+    FRAME_RATE_RANGE,
+    JPEG_QUALITY_RANGE,
+    TEMPERATURE_RANGE,
+    URGENCY_THRESHOLD_RANGE,
+    getAvailableModels,
+    validateLiveSettings,
+    type LiveSettings,
+    type SettingsError
+} from '../utils/liveSettings';
+import { LOCALES, LOCALE_IDS, type LocaleId } from '../utils/locales';
+import type { UrgencyThresholds } from '../utils/hazards';
+import { fromMeters, toMeters } from '../utils/units';
+import { VIDEO_TIER_IDS, type VideoTierId } from '../utils/videoAdaptation';
+import { audioFeedback } from '../utils/audioFeedback';
+import { INPUT_MODE_IDS } from '../utils/micGate';
+import { VAD_SENSITIVITIES } from '../utils/voiceActivity';
+import { SPEECH_RATE_RANGE, SPEECH_RATE_STEP, formatSpeechRate } from '../utils/timeStretch';
+import { WAKE_WORD_SAMPLE_COUNT } from '../utils/wakeWord';
+import type { Translator } from '../utils/translations';
+
+interface SettingsDialogProps {
+    isOpen: boolean;
+    settings: LiveSettings;
+    isSessionActive: boolean;
+    wakeWordSampleCount: number;
+    onRecordWakeWord: () => Promise<boolean>;
+    onForgetWakeWord: () => void;
+    onClose: () => void;
+    onSave: (settings: LiveSettings) => SettingsError[];
+    t: Translator;
+}
+
+type WakeWordRecording = 'idle' | 'recording' | 'recorded' | 'failed';
+
+const MEDIA_RESOLUTIONS = [
+    { value: MediaResolution.MEDIA_RESOLUTION_LOW, labelKey: 'settings.resolutionLow' },
+    { value: MediaResolution.MEDIA_RESOLUTION_MEDIUM, labelKey: 'settings.resolutionMedium' },
+    { value: MediaResolution.MEDIA_RESOLUTION_HIGH, labelKey: 'settings.resolutionHigh' }
+] as const;
+
+const ALERT_DISTANCES = [
+    { key: 'critical', labelKey: 'settings.alertStop' },
+    { key: 'high', labelKey: 'settings.alertClose' },
+    { key: 'medium', labelKey: 'settings.alertNear' }
+] as const;
+
+/**
+ * Modal dialog for choosing the Live model and generation settings.
+ * Choices are validated as a combination and remembered on this device.
+ */
+const SettingsDialog: React.FC<SettingsDialogProps> = ({
+    isOpen,
+    settings,
+    isSessionActive,
+    wakeWordSampleCount,
+    onRecordWakeWord,
+    onForgetWakeWord,
+    onClose,
+    onSave,
+    t
+}) => {
+    const dialogRef = useRef<HTMLDialogElement>(null);
+    const [draft, setDraft] = useState<LiveSettings>(settings);
+    const [wakeWordRecording, setWakeWordRecording] = useState<WakeWordRecording>('idle');
+    // The rate also changes by voice and keyboard while the dialog is open; it follows those until edited here
+    const [isSpeechRateEdited, setIsSpeechRateEdited] = useState(false);
+    const speechRate = isSpeechRateEdited ? draft.speechRate : settings.speechRate;
+    const hasWakeWord = wakeWordSampleCount >= WAKE_WORD_SAMPLE_COUNT;
+    const models = getAvailableModels();
+    const errors = validateLiveSettings(draft);
+
+    // Drive the native dialog so focus trapping and Escape handling come for free
+    useEffect(() => {
+        const dialog = dialogRef.current;
+        if (!dialog) return;
+        if (isOpen && !dialog.open) {
+            setDraft(settings);
+            setWakeWordRecording('idle');
+            setIsSpeechRateEdited(false);
+            dialog.showModal();
+        } else if (!isOpen && dialog.open) {
+            dialog.close();
+        }
+    }, [isOpen, settings]);
+
+    const update = <K extends keyof LiveSettings>(key: K, value: LiveSettings[K]) => {
+        setDraft(prev => ({ ...prev, [key]: value }));
+    };
+
+    // Alert distances are stored in meters and edited in the chosen unit
+    const updateThreshold = (key: keyof UrgencyThresholds, value: number) => {
+        if (!Number.isFinite(value)) return;
+        update('urgencyThresholds', { ...draft.urgencyThresholds, [key]: toMeters(value, draft.unitSystem) });
+    };
+
+    const balanceText = draft.audioBalance === 0
+        ? t('settings.balanceCentre')
+        : t(draft.audioBalance < 0 ? 'settings.balanceLeft' : 'settings.balanceRight', { value: Math.round(Math.abs(draft.audioBalance) * 100) });
+
+    // Test with the unsaved draft so the slider can be tuned before saving
+    const playTestCue = (side: 'left' | 'right') => {
+        audioFeedback.playCalibrationCue(side, draft.hazardAudio, draft.audioBalance)
+            .catch(error => console.error('Could not play test sound:', error));
+    };
+
+    const recordWakeWord = async () => {
+        setWakeWordRecording('recording');
+        setWakeWordRecording(await onRecordWakeWord() ? 'recorded' : 'failed');
+    };
+
+    // Without samples the wake word cannot be the input mode
+    const forgetWakeWord = () => {
+        onForgetWakeWord();
+        setWakeWordRecording('idle');
+        if (draft.inputMode === 'wake-word') update('inputMode', 'push-to-talk');
+    };
+
+    const wakeWordStatus = {
+        idle: isSessionActive ? '' : t('settings.wakeWordNeedsSession'),
+        recording: t('settings.wakeWordRecording'),
+        recorded: t('settings.wakeWordRecorded'),
+        failed: t('settings.wakeWordFailed')
+    }[wakeWordRecording];
+
+    const handleSave = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (onSave({ ...draft, speechRate }).length === 0) {
+            onClose();
+        }
+    };
+
+    return (
+        <dialog
+            ref={dialogRef}
+            className="api-key-dialog settings-dialog"
+            aria-labelledby="settings-dialog-title"
+            aria-describedby="settings-dialog-description"
+            onClose={onClose}
+        >
+            <form onSubmit={handleSave}>
+                <h2 id="settings-dialog-title">{t('settings.title')}</h2>
+                <p id="settings-dialog-description">
+                    {isSessionActive ? t('settings.descriptionActive') : t('settings.descriptionIdle')}
+                </p>
+
+                <label htmlFor="settings-locale">{t('settings.language')}</label>
+                <select
+                    id="settings-locale"
+                    className="voice-selector"
+                    value={draft.locale}
+                    onChange={(e) => update('locale', e.target.value as LocaleId)}
+                >
+                    {LOCALE_IDS.map(id => (
+                        <option key={id} value={id} lang={LOCALES[id].bcp47}>{LOCALES[id].nativeName}</option>
+                    ))}
+                </select>
+
+                <fieldset className="settings-fieldset">
+                    <legend>{t('settings.units')}</legend>
+                    <label>
+                        <input
+                            type="radio"
+                            name="settings-units"
+                            checked={draft.unitSystem === 'metric'}
+                            onChange={() => update('unitSystem', 'metric')}
+                        />
+                        {t('settings.unitsMetric')}
+                    </label>
+                    <label>
+                        <input
+                            type="radio"
+                            name="settings-units"
+                            checked={draft.unitSystem === 'imperial'}
+                            onChange={() => update('unitSystem', 'imperial')}
+                        />
+                        {t('settings.unitsImperial')}
+                    </label>
+                </fieldset>
+
+                <fieldset className="settings-fieldset" aria-describedby="settings-alert-help">
+                    <legend>
+                        {t('settings.alertDistances', { unit: t(draft.unitSystem === 'imperial' ? 'units.feet' : 'units.meters') })}
+                    </legend>
+                    {ALERT_DISTANCES.map(({ key, labelKey }) => (
+                        <label key={key}>
+                            {t(labelKey)}
+                            <input
+                                type="number"
+                                className="settings-distance"
+                                min={fromMeters(URGENCY_THRESHOLD_RANGE.min, draft.unitSystem)}
+                                max={fromMeters(URGENCY_THRESHOLD_RANGE.max, draft.unitSystem)}
+                                step={draft.unitSystem === 'imperial' ? 1 : 0.1}
+                                value={fromMeters(draft.urgencyThresholds[key], draft.unitSystem)}
+                                onChange={(e) => updateThreshold(key, parseFloat(e.target.value))}
+                            />
+                        </label>
+                    ))}
+                </fieldset>
+                <span id="settings-alert-help" className="visually-hidden">{t('settings.alertDistancesHelp')}</span>
+
+                <fieldset className="settings-fieldset">
+                    <legend>{t('settings.hazardSounds')}</legend>
+                    <label>
+                        <input
+                            type="radio"
+                            name="settings-hazard-audio"
+                            checked={draft.hazardAudio === 'spatial'}
+                            onChange={() => update('hazardAudio', 'spatial')}
+                        />
+                        {t('settings.hazardSpatial')}
+                    </label>
+                    <label>
+                        <input
+                            type="radio"
+                            name="settings-hazard-audio"
+                            checked={draft.hazardAudio === 'stereo'}
+                            onChange={() => update('hazardAudio', 'stereo')}
+                        />
+                        {t('settings.hazardStereo')}
+                    </label>
+                </fieldset>
+
+                <label htmlFor="settings-balance">{t('settings.balance', { value: balanceText })}</label>
+                <input
+                    id="settings-balance"
+                    type="range"
+                    min={AUDIO_BALANCE_RANGE.min}
+                    max={AUDIO_BALANCE_RANGE.max}
+                    step={0.05}
+                    value={draft.audioBalance}
+                    onChange={(e) => update('audioBalance', parseFloat(e.target.value))}
+                    aria-valuetext={balanceText}
+                    aria-describedby="settings-balance-help"
+                />
+                <span id="settings-balance-help" className="visually-hidden">{t('settings.balanceHelp')}</span>
+                <div className="settings-test-row">
+                    <button type="button" className="control-button inactive" onClick={() => playTestCue('left')}>
+                        <span className="material-symbols-outlined">volume_up</span>
+                        {t('settings.testLeft')}
+                    </button>
+                    <button type="button" className="control-button inactive" onClick={() => playTestCue('right')}>
+                        <span className="material-symbols-outlined">volume_up</span>
+                        {t('settings.testRight')}
+                    </button>
+                </div>
+
+                <fieldset className="settings-fieldset" aria-describedby="settings-input-help">
+                    <legend>{t('settings.inputMode')}</legend>
+                    {INPUT_MODE_IDS.map(id => (
+                        <label key={id}>
+                            <input
+                                type="radio"
+                                name="settings-input-mode"
+                                checked={draft.inputMode === id}
+                                disabled={id === 'wake-word' && !hasWakeWord}
+                                onChange={() => update('inputMode', id)}
+                            />
+                            {t(`settings.input.${id}`)}
+                        </label>
+                    ))}
+                </fieldset>
+                <span id="settings-input-help" className="visually-hidden">{t('settings.inputModeHelp')}</span>
+                <p className="settings-wake-word-count">
+                    {t(hasWakeWord ? 'settings.wakeWordSamples' : 'settings.wakeWordNeedsSamples', {
+                        count: wakeWordSampleCount,
+                        total: WAKE_WORD_SAMPLE_COUNT
+                    })}
+                </p>
+                <div className="settings-test-row">
+                    <button
+                        type="button"
+                        className="control-button inactive"
+                        onClick={recordWakeWord}
+                        disabled={!isSessionActive || wakeWordRecording === 'recording'}
+                    >
+                        <span className="material-symbols-outlined">record_voice_over</span>
+                        {t('settings.wakeWordRecord')}
+                    </button>
+                    <button
+                        type="button"
+                        className="control-button inactive"
+                        onClick={forgetWakeWord}
+                        disabled={wakeWordSampleCount === 0 || wakeWordRecording === 'recording'}
+                    >
+                        <span className="material-symbols-outlined">delete</span>
+                        {t('settings.wakeWordForget')}
+                    </button>
+                </div>
+                <p className="settings-wake-word-status" role="status" aria-live="polite">{wakeWordStatus}</p>
+
+                <fieldset className="settings-fieldset" aria-describedby="settings-barge-in-help">
+                    <legend>{t('settings.bargeIn')}</legend>
+                    {VAD_SENSITIVITIES.map(id => (
+                        <label key={id}>
+                            <input
+                                type="radio"
+                                name="settings-barge-in"
+                                checked={draft.bargeInSensitivity === id}
+                                onChange={() => update('bargeInSensitivity', id)}
+                            />
+                            {t(`settings.bargeIn.${id}`)}
+                        </label>
+                    ))}
+                </fieldset>
+                <span id="settings-barge-in-help" className="visually-hidden">{t('settings.bargeInHelp')}</span>
+
+                <label htmlFor="settings-speech-rate">{t('settings.speechRate', { value: formatSpeechRate(speechRate) })}</label>
+                <input
+                    id="settings-speech-rate"
+                    type="range"
+                    min={SPEECH_RATE_RANGE.min}
+                    max={SPEECH_RATE_RANGE.max}
+                    step={SPEECH_RATE_STEP}
+                    value={speechRate}
+                    onChange={(e) => {
+                        setIsSpeechRateEdited(true);
+                        update('speechRate', parseFloat(e.target.value));
+                    }}
+                    aria-valuetext={formatSpeechRate(speechRate)}
+                    aria-describedby="settings-speech-rate-help"
+                />
+                <span id="settings-speech-rate-help" className="visually-hidden">{t('settings.speechRateHelp')}</span>
+
+                <label htmlFor="settings-model">{t('settings.model')}</label>
+                <select
+                    id="settings-model"
+                    className="voice-selector"
+                    value={draft.model}
+                    onChange={(e) => update('model', e.target.value)}
+                >
+                    {models.map(model => (
+                        <option key={model.name} value={model.name}>{model.label}</option>
+                    ))}
+                </select>
+
+                <fieldset className="settings-fieldset">
+                    <legend>{t('settings.answersWith')}</legend>
+                    <label>
+                        <input
+                            type="radio"
+                            name="settings-modality"
+                            checked={draft.responseModality === Modality.AUDIO}
+                            onChange={() => update('responseModality', Modality.AUDIO)}
+                        />
+                        {t('settings.voice')}
+                    </label>
+                    <label>
+                        <input
+                            type="radio"
+                            name="settings-modality"
+                            checked={draft.responseModality === Modality.TEXT}
+                            onChange={() => update('responseModality', Modality.TEXT)}
+                        />
+                        {t('settings.textOnly')}
+                    </label>
+                </fieldset>
+
+                <label htmlFor="settings-temperature">{t('settings.temperature', { value: draft.temperature.toFixed(1) })}</label>
+                <input
+                    id="settings-temperature"
+                    type="range"
+                    min={TEMPERATURE_RANGE.min}
+                    max={TEMPERATURE_RANGE.max}
+                    step={0.1}
+                    value={draft.temperature}
+                    onChange={(e) => update('temperature', parseFloat(e.target.value))}
+                    aria-describedby="settings-temperature-help"
+                />
+                <span id="settings-temperature-help" className="visually-hidden">{t('settings.temperatureHelp')}</span>
+
+                <label htmlFor="settings-resolution">{t('settings.resolution')}</label>
+                <select
+                    id="settings-resolution"
+                    className="voice-selector"
+                    value={draft.mediaResolution}
+                    onChange={(e) => update('mediaResolution', e.target.value as MediaResolution)}
+                >
+                    {MEDIA_RESOLUTIONS.map(option => (
+                        <option key={option.value} value={option.value}>{t(option.labelKey)}</option>
+                    ))}
+                </select>
+
+                <label htmlFor="settings-frame-rate">{t('settings.frameRate', { value: draft.frameRate.toFixed(2) })}</label>
+                <input
+                    id="settings-frame-rate"
+                    type="range"
+                    min={FRAME_RATE_RANGE.min}
+                    max={FRAME_RATE_RANGE.max}
+                    step={0.05}
+                    value={draft.frameRate}
+                    onChange={(e) => update('frameRate', parseFloat(e.target.value))}
+                />
+
+                <label htmlFor="settings-jpeg-quality">{t('settings.jpegQuality', { value: Math.round(draft.jpegQuality * 100) })}</label>
+                <input
+                    id="settings-jpeg-quality"
+                    type="range"
+                    min={JPEG_QUALITY_RANGE.min}
+                    max={JPEG_QUALITY_RANGE.max}
+                    step={0.05}
+                    value={draft.jpegQuality}
+                    onChange={(e) => update('jpegQuality', parseFloat(e.target.value))}
+                />
+
+                <fieldset className="settings-fieldset" aria-describedby="settings-video-tiers-help">
+                    <legend>{t('settings.videoTiers')}</legend>
+                    {(['min', 'max'] as const).map(bound => (
+                        <label key={bound}>
+                            {t(bound === 'min' ? 'settings.videoTierLowest' : 'settings.videoTierHighest')}
+                            <select
+                                className="voice-selector"
+                                value={draft.videoTierRange[bound]}
+                                onChange={(e) => update('videoTierRange', { ...draft.videoTierRange, [bound]: e.target.value as VideoTierId })}
+                            >
+                                {VIDEO_TIER_IDS.map(id => (
+                                    <option key={id} value={id}>{t(`videoTier.${id}`)}</option>
+                                ))}
+                            </select>
+                        </label>
+                    ))}
+                </fieldset>
+                <span id="settings-video-tiers-help" className="visually-hidden">{t('settings.videoTiersHelp')}</span>
+
+                <div className="api-key-dialog-message error" role="alert" aria-live="assertive">
+                    {errors.map(error => t(error.key, error.params)).map(message => <p key={message}>{message}</p>)}
+                </div>
+
+                <div className="api-key-dialog-actions">
+                    <button type="button" className="control-button inactive" onClick={() => setDraft({ ...DEFAULT_LIVE_SETTINGS, locale: draft.locale })}>
+                        <span className="material-symbols-outlined">restart_alt</span>
+                        {t('settings.defaults')}
+                    </button>
+                    <button type="button" className="control-button inactive" onClick={onClose}>
+                        {t('settings.cancel')}
+                    </button>
+                    <button type="submit" className="control-button active" disabled={errors.length > 0}>
+                        <span className="material-symbols-outlined">save</span>
+                        {t('settings.save')}
+                    </button>
+                </div>
+            </form>
+        </dialog>
+    );
+};
+
+export default SettingsDialog;
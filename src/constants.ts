@@ -4,6 +4,16 @@
 */
 
 // --- Live Commentary ---
+export const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+
+// Native audio models only answer with audio and pick the speech language themselves;
+// the others can also answer in text and take an explicit language code
+export const AVAILABLE_MODELS = [
+    { name: LIVE_MODEL, label: "Native Audio (Default)", supportsText: false, supportsLanguageCode: false },
+    { name: "gemini-live-2.5-flash-preview", label: "Live 2.5 Flash", supportsText: true, supportsLanguageCode: true },
+    { name: "gemini-2.0-flash-live-001", label: "Live 2.0 Flash", supportsText: true, supportsLanguageCode: true },
+];
+
 export const AVAILABLE_VOICES = [
     { name: "Zephyr", label: "Guide Zephyr (Default)" },
     { name: "Puck", label: "Guide Puck" },
@@ -4,14 +4,62 @@
 */
 
 import { useState, useRef, useCallback, useEffect } from 'react';
-import { GoogleGenAI, Modality } from "@google/genai";
+import { FunctionResponseScheduling, Modality, type FunctionCall, type LiveServerMessage } from "@google/genai";
 import { decode, decodeAudioData, createPCMBlob } from '../utils/audioUtils';
 import { orientationTracker, type OrientationData } from '../utils/orientationTracker';
 import { audioFeedback } from '../utils/audioFeedback';
-import { analyzeImageQuality, extractImageDataFromVideo, type ImageQualityResult } from '../utils/imageQuality';
+import type { ImageQualityResult } from '../utils/imageQuality';
+import { EMPTY_FRAME_STATS, FramePipeline, type FrameStats } from '../utils/framePipeline';
+import { hasPayload } from '../utils/frameProcessing';
+import type { FrameArea } from '../utils/sceneChange';
+import { VideoAdaptation, type VideoTierId } from '../utils/videoAdaptation';
+import type { FrameIssue } from '../utils/qualityGate';
+import { FULL_FRAME, buildFocusInstructions, describeFocusRegion, parseFocusToolArgs, type FocusRegion } from '../utils/focusRegion';
+import { buildCameraConstraints, listCameras, loadCameraChoice, saveCameraChoice, type CameraOption } from '../utils/cameraSelection';
+import { TorchController } from '../utils/torchController';
+import { MicGate, type InputMode, type MicGateChange } from '../utils/micGate';
+import { VoiceActivityDetector, describeVadDecision } from '../utils/voiceActivity';
+import { SPEECH_RATE_RANGE, TimeStretcher, clampSpeechRate, formatSpeechRate, parseSpeechRateToolArgs, stepSpeechRate } from '../utils/timeStretch';
+import {
+    WAKE_WORD_RECORD_TIMEOUT_MS,
+    clearWakeWordSamples,
+    hasWakeWord,
+    loadWakeWordSamples,
+    saveWakeWordSamples,
+    type WakeWordEvent,
+    type WakeWordSample
+} from '../utils/wakeWord';
 import { haptics } from '../utils/haptics';
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+import { ReconnectionManager } from '../utils/reconnectionManager';
+import { handleMediaError, handleWebSocketError } from '../utils/errorHandlers';
+import { speakLocally } from '../utils/localSpeech';
+import { createDefaultTransport, type LiveTransport, type LiveTransportSession } from '../utils/liveTransport';
+import { JPEG_QUALITY_RANGE, getLiveLanguageCode, loadLiveSettings, saveLiveSettings, validateLiveSettings, type LiveSettings, type SettingsError } from '../utils/liveSettings';
+import { LOCALES } from '../utils/locales';
+import { createTranslator, translate, type TranslationKey, type TranslationParams } from '../utils/translations';
+import { buildUnitInstructions } from '../utils/units';
+import { appendToTurn, finalizeTurn, type ChatMessage, type ChatSpeaker, type ChatTurnStatus } from '../utils/chatTurns';
+import { createRecordingTransport, downloadSessionArchive, sessionRecorder } from '../utils/sessionRecorder';
+import { LIVE_TOOLS, LIVE_TOOL_NAMES, createToolResponse, parseVerbosity } from '../utils/liveTools';
+import {
+    ASSISTANCE_MODES,
+    buildChangePrompt,
+    buildModeInstructions,
+    findAssistanceMode,
+    getModeFrameInterval,
+    type AssistanceMode,
+    type AssistanceModeId,
+    type Verbosity
+} from '../utils/assistanceModes';
+import {
+    getHazardUrgency,
+    parseHazardFromText,
+    parseHazardToolArgs,
+    type HazardReport,
+    type UrgencyLevel
+} from '../utils/hazards';
+
+const defaultTransport = createDefaultTransport();
 
 const normalSystemPrompt = `You are 'Aura', an AI vision assistant for visually impaired and blind users. Your purpose is to be their eyes, providing real-time visual descriptions.
 
@@ -30,119 +78,219 @@ const normalSystemPrompt = `You are 'Aura', an AI vision assistant for visually
 
 **When camera starts**: Say "Camera active. I can see [brief description]."
 
+**CONTROLS - USE THE FUNCTIONS:**
+- User asks for a different kind of help (walking, reading, product labels, colours, transit) or to go back to normal: call setAssistanceMode
+- User asks for shorter or more detailed answers: call setVerbosity
+- User says stop, be quiet or pause: call stopCommentary
+- User asks what is in front of them right now: call describeNow
+- Never claim a mode has changed without calling the function
+
 REMEMBER: You are someone's eyes. Be accurate, clear, and helpful.`;
 
-const navigationSystemPrompt = `You are 'Aura' in NAVIGATION MODE. Give SHORT, CLEAR walking directions with DISTANCE ESTIMATES.
-
-**CRITICAL RULES:**
-1. **BE BRIEF**: Use 3-5 word commands maximum
-2. **ALWAYS INCLUDE DISTANCE**: Estimate distance to nearest obstacle/hazard in meters or feet
-3. **IMMEDIATE HAZARDS**: "STOP. Wall one meter" or "STOP. Stairs two feet"
-4. **URGENCY BY DISTANCE**:
-   - Under 1 meter (3 feet): "STOP" + hazard
-   - 1-3 meters (3-10 feet): State hazard + distance
-   - Over 3 meters (10+ feet): "Clear ahead" or direction
-5. **CLEAR DIRECTIONS**: "Turn left", "Move right", "Door straight"
-6. **CLOCK POSITIONS**: "Obstacle two o'clock, two meters"
-
-**IMAGE QUALITY - PRIORITY CHECK:**
-- If image blurry/dark: "Lift phone up"
-- If too bright: "Tilt phone down"
-- If camera obscured: "Camera blocked. Adjust angle"
-- Check BEFORE giving navigation commands
-
-**DISTANCE EXAMPLES:**
-- "STOP. Wall half meter"
-- "Person ahead. Two meters"
-- "Clear path. Five meters"
-- "Stairs down. One meter"
-- "Door straight. Three meters"
-- "Obstacle right. Four feet"
-
-**URGENCY LEVELS:**
-- CRITICAL (< 1m): "STOP. [hazard] [distance]"
-- HIGH (1-2m): "[Hazard] ahead. [distance]"
-- MEDIUM (2-3m): "[Object]. [distance]"
-- LOW (3m+): "Clear ahead" or direction
-
-**DO NOT:**
-- Give long explanations
-- Describe colors or unnecessary details
-- Omit distance measurements
-- Repeat unless asked
-
-**SAFETY FIRST**: Image quality → Closer objects = MORE URGENT. Always estimate distance. Keep under 5 words.
-
-You are a distance-aware walking GPS. SHORT. CLEAR. MEASURED. SAFE.`;
-
-
-const FRAME_RATE = 1 / 2; // Send frame every 2 seconds (0.5 fps) - faster for navigation
-const JPEG_QUALITY = 0.7;
+/**
+ * The system prompt, with the user's distance units and a language section for sessions that are not in English
+ */
+function buildSystemPrompt(settings: LiveSettings): string {
+    const { locale, unitSystem } = settings;
+    const prompt = `${normalSystemPrompt}
+
+${buildUnitInstructions(unitSystem, settings.urgencyThresholds)}`;
+    if (locale === 'en') return prompt;
+
+    const t = createTranslator(locale);
+    const language = LOCALES[locale].englishName;
+    const example = unitSystem === 'imperial' ? t('speech.hazardExampleImperial') : t('speech.hazardExample');
+    return `${prompt}
+
+**LANGUAGE - ${language.toUpperCase()}:**
+- Always speak and write in ${language}, even though these instructions are in English
+- Say the example phrases in these instructions in ${language}, e.g. "${t('speech.cameraActive')}" and "${t('speech.clearAhead')}"
+- Say distances in ${language} words: "${example}"
+- For immediate danger start with "${t('speech.stop')}"
+- Function names and their arguments stay in English`;
+}
+
+
+
 const AUDIO_BUFFER_GAP_MS = 80; // Safety margin between audio chunks to prevent stuttering
+const RECONNECT_TIMEOUT_MS = 10000; // Abandon a single reconnection attempt after 10 seconds
+const FRESH_SESSION_AFTER_ATTEMPTS = 3; // Stop trying a stale resumption handle after this many attempts
+const STRUCTURED_HAZARD_WINDOW_MS = 4000; // Ignore the text parser this long after a reportHazard call
+const MIN_HAZARD_CONFIDENCE = 0.3; // Reports below this are logged but do not alert
+const FRAME_ISSUE_REPEAT_MS = 8000; // Repeat the camera fix this often while frames are held back
+const OUTPUT_SAMPLE_RATE = 24000; // Aura's voice as the Live API sends it
+const OUTPUT_LEVEL_WINDOW = 512; // Samples of Aura's output measured for each echo estimate, about 20 ms at 24 kHz
+
+export type { ChatMessage } from '../utils/chatTurns';
 
 /**
- * Custom hook to manage all Gemini Live API interactions for commentary.
+ * A chunk of Aura's audio as received, null for the end of a turn, and the stretched piece scheduled from it
  */
-export interface ChatMessage {
-    type: 'user' | 'ai';
-    text: string;
-    timestamp: Date;
+interface ScheduledAudio {
+    raw: Float32Array | null;
+    source: AudioBufferSourceNode | null;   // Null when the stretcher held all of it back
+    startAt: number;
+}
+
+/**
+ * Media entry points the hook uses; swapped for synthetic sources in scenario runs
+ */
+export type LiveMediaDevices = Pick<MediaDevices, 'getUserMedia' | 'getDisplayMedia' | 'enumerateDevices'>;
+
+export interface LiveCommentaryOptions {
+    transport?: LiveTransport;
+    mediaDevices?: LiveMediaDevices;
+    settings?: LiveSettings;    // Used instead of the settings stored on this device
 }
 
-export function useLiveCommentary() {
+/**
+ * Custom hook to manage all Gemini Live API interactions for commentary.
+ */
+export function useLiveCommentary(options: LiveCommentaryOptions = {}) {
+    // All traffic goes through the recorder; it only captures while recording is on
+    const transportRef = useRef<LiveTransport | null>(null);
+    if (!transportRef.current) {
+        transportRef.current = createRecordingTransport(options.transport ?? defaultTransport, sessionRecorder);
+    }
+    const mediaDevicesRef = useRef<LiveMediaDevices>(options.mediaDevices ?? navigator.mediaDevices);
     const [commentaryStatus, setCommentaryStatus] = useState('');
     const [isSessionReady, setIsSessionReady] = useState(false);
     const [isMicMuted, setIsMicMuted] = useState(false); // Changed to false - mic active by default
     const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
-    const [isNavigationMode, setIsNavigationMode] = useState(false);
+    const [assistanceMode, setAssistanceMode] = useState<AssistanceModeId>('normal');
+    const [isRecording, setIsRecording] = useState(false);
+    const [verbosity, setVerbosity] = useState<Verbosity>('normal');
+    const [isCommentaryPaused, setIsCommentaryPaused] = useState(false);
+    const [liveSettings, setLiveSettings] = useState<LiveSettings>(() => options.settings ?? loadLiveSettings());
+    const liveSettingsRef = useRef(liveSettings); // Frame rate and quality apply to the next frame
+    const sessionSettingsRef = useRef(liveSettings); // Model and generation settings are fixed per session
+
+    // Status text and local speech follow the current UI language, read through the ref so callbacks never go stale
+    const t = useCallback((key: TranslationKey, params?: TranslationParams) => {
+        return translate(liveSettingsRef.current.locale, key, params);
+    }, []);
+    const speak = useCallback((key: TranslationKey) => {
+        speakLocally(t(key), true, LOCALES[liveSettingsRef.current.locale].bcp47);
+    }, [t]);
     const outputAudioCtxRef = useRef<AudioContext | null>(null);
     const inputAudioCtxRef = useRef<AudioContext | null>(null);
-    const liveSessionRef = useRef<any | null>(null);
+    const liveSessionRef = useRef<LiveTransportSession | null>(null);
     const nextStartTimeRef = useRef(0);
     const isAudioPlayingRef = useRef(false);
     const activeSourcesRef = useRef(new Set<AudioBufferSourceNode>());
     const isMicMutedRef = useRef(false); // Add ref to track mute state without stale closures
 
+    // Speaking rate: Aura's audio is stretched as it arrives. Each scheduled piece keeps the audio
+    // it came from, so a new rate can stretch what has not started playing yet again
+    const timeStretcherRef = useRef(new TimeStretcher(OUTPUT_SAMPLE_RATE));
+    const scheduledAudioRef = useRef<ScheduledAudio[]>([]);
+
+    // Input mode: which microphone chunks reach Aura, decided before anything is sent
+    const micGateRef = useRef(new MicGate());
+    const [isMicGateOpen, setIsMicGateOpen] = useState(true);
+    const [wakeWordSamples, setWakeWordSamples] = useState<WakeWordSample[]>(loadWakeWordSamples);
+    const wakeWordSamplesRef = useRef(wakeWordSamples);
+    const finishWakeWordRecordingRef = useRef<((sample: WakeWordSample | null) => void) | null>(null);
+
     // Refs for screen and audio input streaming
     const screenStreamRef = useRef<MediaStream | null>(null);
     const cameraStreamRef = useRef<MediaStream | null>(null);
+    const cameraVideoElRef = useRef<HTMLVideoElement | null>(null);
+    const [cameras, setCameras] = useState<CameraOption[]>([]);
+    const [selectedCameraId, setSelectedCameraId] = useState<string | null>(loadCameraChoice); // Null is the rear-camera default
+    const selectedCameraIdRef = useRef(selectedCameraId);
+    const torchControllerRef = useRef(new TorchController());
+    const [isTorchOn, setIsTorchOn] = useState(false);
     const microphoneStreamRef = useRef<MediaStream | null>(null);
-    const canvasElRef = useRef<HTMLCanvasElement | null>(null);
+    const framePipelineRef = useRef<FramePipeline | null>(null);
     const frameIntervalRef = useRef<number | null>(null);
     const audioWorkletNodeRef = useRef<AudioWorkletNode | null>(null);
     const promptIntervalRef = useRef<number | null>(null);
     const frameCountRef = useRef(0);
+    const sendFrameNowRef = useRef<(() => void) | null>(null); // Capture and send a frame immediately, set while streaming
+    const [frameStats, setFrameStats] = useState<FrameStats>(EMPTY_FRAME_STATS);
+    const [focusRegion, setFocusRegion] = useState<FocusRegion>(FULL_FRAME); // Screen share only
+
+    // Commentary prompts wait for the scene to change; one held back goes out with the next change
+    const isSceneChangedRef = useRef(true);
+    const isPromptDueRef = useRef(false);
+
+    // Changes-only modes: where the shared screen changed since the last prompt, null if it was sent whole.
+    // The first frame is the baseline the changes apply to and is not announced
+    const changedAreasRef = useRef<FrameArea[] | null>([]);
+    const isChangeBaselineSentRef = useRef(false);
+
+    // Network adaptation: the video tier follows the socket backlog and how long replies take to start
+    const videoAdaptationRef = useRef(new VideoAdaptation(liveSettings.videoTierRange));
+    const [videoTier, setVideoTier] = useState<VideoTierId | null>(null); // Null while no video is streaming
+    const replyRequestedAtRef = useRef<number | null>(null);
 
     const messageQueueRef = useRef<any[]>([]);
+
+    // Conversation log: the id of each speaker's open turn while fragments stream in
+    const turnCounterRef = useRef(0);
+    const userTurnIdRef = useRef<string | null>(null);
+    const aiTurnIdRef = useRef<string | null>(null);
+    const aiTurnHasTranscriptRef = useRef(false);
+    const isAiTurnCutOffRef = useRef(false); // Local barge-in closed the turn before the server did
     const isProcessingQueueRef = useRef(false);
 
-    // Barge-in detection refs
-    const userSpeechDetectedRef = useRef(false);
-    const lastUserSpeechTimeRef = useRef(0);
-    const SPEECH_ENERGY_THRESHOLD = 0.01; // Adjust based on testing
-    const SPEECH_COOLDOWN_MS = 1000; // Prevent multiple triggers
+    // Barge-in detection: the mic is compared with the noise floor and with Aura's own output, read from this analyser
+    const outputAnalyserRef = useRef<AnalyserNode | null>(null);
+    const vadRef = useRef<VoiceActivityDetector | null>(null);
+    if (!vadRef.current) {
+        const samples = new Float32Array(OUTPUT_LEVEL_WINDOW);
+        vadRef.current = new VoiceActivityDetector(() => {
+            const analyser = outputAnalyserRef.current;
+            if (!analyser || !isAudioPlayingRef.current) return 0;
+            analyser.getFloatTimeDomainData(samples);
+            let sum = 0;
+            for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+            return Math.sqrt(sum / samples.length);
+        });
+    }
 
     // Distance-based urgency tracking
     const [detectedDistance, setDetectedDistance] = useState<number | null>(null);
-    const [urgencyLevel, setUrgencyLevel] = useState<'critical' | 'high' | 'medium' | 'low'>('low');
+    const [urgencyLevel, setUrgencyLevel] = useState<UrgencyLevel>('low');
+    const [lastHazard, setLastHazard] = useState<HazardReport | null>(null);
+    const lastStructuredHazardAtRef = useRef(0);
 
     // Orientation and image quality tracking
     const [deviceOrientation, setDeviceOrientation] = useState<OrientationData | null>(null);
     const [imageQuality, setImageQuality] = useState<ImageQualityResult | null>(null);
     const orientationCheckIntervalRef = useRef<number | null>(null);
+    const [frameIssue, setFrameIssue] = useState<FrameIssue | null>(null); // Set while unusable frames are held back
+    const lastFrameIssueCueAtRef = useRef(0);
 
     // Audio health tracking
     const audioChunkCounterRef = useRef(0);
     const micChunkCounterRef = useRef(0);
     const lastAudioReceivedRef = useRef(0);
 
+    // Reconnection and session resumption tracking
+    const voiceNameRef = useRef('');
+    const resumptionHandleRef = useRef<string | null>(null);
+    const connectionIdRef = useRef(0); // Ignores callbacks from sockets that were replaced
+    const isUserStoppingRef = useRef(false);
+    const isGoingAwayRef = useRef(false);
+    const assistanceModeRef = useRef<AssistanceMode>(ASSISTANCE_MODES.normal);
+    const verbosityRef = useRef<Verbosity>('normal');
+    const urgencyLevelRef = useRef<UrgencyLevel>('low'); // Read by the frame scheduler between renders
+    const isCommentaryPausedRef = useRef(false); // Set by stopCommentary, holds back automatic prompts
+    const reconnectionManagerRef = useRef<ReconnectionManager | null>(null);
+    const connectLiveSessionRef = useRef<((voiceName: string, isReconnect: boolean) => Promise<void>) | null>(null);
+
     const initAudioContexts = useCallback(async () => {
         // Initialize output audio context with larger buffer for stability
         if (!outputAudioCtxRef.current) {
             outputAudioCtxRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({
-                sampleRate: 24000,
+                sampleRate: OUTPUT_SAMPLE_RATE,
                 latencyHint: 'playback' // Optimize for stable playback over low latency
             });
+            outputAnalyserRef.current = outputAudioCtxRef.current.createAnalyser();
+            outputAnalyserRef.current.fftSize = OUTPUT_LEVEL_WINDOW;
+            outputAnalyserRef.current.connect(outputAudioCtxRef.current.destination);
         }
         // Initialize input audio context with optimal settings
         if (!inputAudioCtxRef.current) {
@@ -174,111 +322,385 @@ export function useLiveCommentary() {
     const stopAndClearAudio = useCallback(() => {
         activeSourcesRef.current.forEach(source => { try { source.stop(); } catch(e) { /* Ignore */ } });
         activeSourcesRef.current.clear();
+        scheduledAudioRef.current = [];
+        timeStretcherRef.current.reset();
         isAudioPlayingRef.current = false;
     }, []);
 
-    // Parse distance from AI text and set urgency
-    const parseDistanceAndSetUrgency = useCallback((text: string) => {
-        const lowerText = text.toLowerCase();
+    // Single entry point for hazards, whether reported by the model or parsed from its text
+    const applyHazardReport = useCallback((report: HazardReport) => {
+        if (report.confidence < MIN_HAZARD_CONFIDENCE) {
+            console.log(`🤷 Ignoring low-confidence ${report.type} report (${report.confidence.toFixed(2)})`);
+            return;
+        }
+        if (report.source === 'tool') {
+            lastStructuredHazardAtRef.current = Date.now();
+        }
 
-        // Extract distance in meters or feet
-        const meterMatch = lowerText.match(/(\d+\.?\d*)\s*(meter|metre|m\b)/i);
-        const feetMatch = lowerText.match(/(\d+\.?\d*)\s*(feet|foot|ft\b)/i);
+        const urgency = getHazardUrgency(report, liveSettingsRef.current.urgencyThresholds);
+        setLastHazard(report);
+        if (report.distanceMeters !== null) {
+            setDetectedDistance(report.distanceMeters);
+        }
+        if (urgency) {
+            urgencyLevelRef.current = urgency;
+            setUrgencyLevel(urgency);
+        }
+        console.log(`📏 Hazard (${report.source}): ${report.type}` +
+            (report.distanceMeters !== null ? ` ${report.distanceMeters.toFixed(1)}m` : '') +
+            (report.clockPosition !== null ? ` at ${report.clockPosition} o'clock` : '') +
+            (report.isStopCommand ? ' - STOP' : '') +
+            ` - Urgency: ${urgency ?? 'unchanged'}`);
+
+        // Distance-coded audio and haptics only in modes that ask for them; read through the ref so this never goes stale
+        if (!assistanceModeRef.current.hazardAlerts || !urgency) return;
+        audioFeedback.playHazardCue(report.clockPosition, report.distanceMeters, urgency);
+        if (assistanceModeRef.current.proximityLoop) {
+            // Beyond the medium band the path counts as clear
+            if (urgency === 'low') {
+                audioFeedback.clearProximity();
+            } else {
+                audioFeedback.updateProximity(report.distanceMeters ?? 0, report.clockPosition);
+            }
+        }
+        haptics.vibrateForUrgency(urgency);
+        if (urgency === 'critical') {
+            audioFeedback.playAttentionAlert();
+            haptics.vibrateAlert();
+        }
+    }, []);
 
-        let distanceInMeters: number | null = null;
+    const appendToConversation = useCallback((type: ChatSpeaker, fragment: string) => {
+        const turnIdRef = type === 'user' ? userTurnIdRef : aiTurnIdRef;
+        if (!turnIdRef.current) {
+            turnIdRef.current = `${type}-${++turnCounterRef.current}`;
+        }
+        const id = turnIdRef.current;
+        setChatMessages(prev => appendToTurn(prev, id, type, fragment));
+    }, []);
 
-        if (meterMatch) {
-            distanceInMeters = parseFloat(meterMatch[1]);
-        } else if (feetMatch) {
-            distanceInMeters = parseFloat(feetMatch[1]) * 0.3048; // Convert feet to meters
+    const endConversationTurn = useCallback((type: ChatSpeaker, status: Exclude<ChatTurnStatus, 'streaming'> = 'complete') => {
+        const turnIdRef = type === 'user' ? userTurnIdRef : aiTurnIdRef;
+        const id = turnIdRef.current;
+        if (!id) return;
+        turnIdRef.current = null;
+        if (type === 'ai') {
+            aiTurnHasTranscriptRef.current = false;
         }
+        setChatMessages(prev => finalizeTurn(prev, id, status));
+    }, []);
 
-        // Detect "half meter" or "one and a half"
-        if (lowerText.includes('half meter') || lowerText.includes('half metre')) {
-            distanceInMeters = 0.5;
+    // Time from a prompt or the user's words to the start of the reply, for the video tier
+    const measureRoundTrip = useCallback((message: LiveServerMessage) => {
+        const content = message.serverContent;
+        if (!content) return;
+        if (content.inputTranscription) {
+            replyRequestedAtRef.current ??= performance.now();
+        }
+        if (content.modelTurn && replyRequestedAtRef.current !== null) {
+            videoAdaptationRef.current.recordRoundTrip(performance.now() - replyRequestedAtRef.current);
+            replyRequestedAtRef.current = null;
         }
+    }, []);
 
-        setDetectedDistance(distanceInMeters);
+    // Merge streamed transcripts into one message per turn for each speaker.
+    // Runs as messages arrive, so barge-in clearing the audio queue cannot drop them.
+    const updateConversationLog = useCallback((message: LiveServerMessage) => {
+        const content = message.serverContent;
+        if (!content) return;
 
-        // Set urgency level based on distance
-        if (distanceInMeters !== null) {
-            let newUrgency: 'critical' | 'high' | 'medium' | 'low';
-            if (distanceInMeters < 1) {
-                newUrgency = 'critical';
-            } else if (distanceInMeters < 2) {
-                newUrgency = 'high';
-            } else if (distanceInMeters < 3) {
-                newUrgency = 'medium';
-            } else {
-                newUrgency = 'low';
+        if (content.inputTranscription) {
+            appendToConversation('user', content.inputTranscription.text ?? '');
+            if (content.inputTranscription.finished) {
+                endConversationTurn('user');
             }
+        }
 
-            setUrgencyLevel(newUrgency);
-            console.log(`📏 Distance detected: ${distanceInMeters.toFixed(1)}m - Urgency: ${newUrgency}`);
+        // Once Aura answers, whatever the user said is final
+        if (content.outputTranscription || content.modelTurn) {
+            endConversationTurn('user');
+        }
 
-            // Play distance-coded audio feedback and haptics in navigation mode
-            if (isNavigationMode) {
-                audioFeedback.playDistanceBeep(distanceInMeters);
-                haptics.vibrateForUrgency(newUrgency);
+        // Late fragments of a turn the user already talked over would start a stray bubble
+        if (!isAiTurnCutOffRef.current) {
+            if (content.outputTranscription) {
+                aiTurnHasTranscriptRef.current = true;
+                appendToConversation('ai', content.outputTranscription.text ?? '');
+            }
 
-                // Play attention alert for critical distances
-                if (newUrgency === 'critical') {
-                    audioFeedback.playAttentionAlert();
-                    haptics.vibrateAlert();
-                }
+            // Text parts stand in for the transcript when the server sends no transcription
+            const text = content.modelTurn?.parts?.filter(p => p.text).map(p => p.text).join('');
+            if (text && !aiTurnHasTranscriptRef.current) {
+                appendToConversation('ai', text);
             }
         }
 
-        // Check for STOP command
-        if (lowerText.includes('stop')) {
-            setUrgencyLevel('critical');
-            console.log('🛑 CRITICAL: STOP command detected');
-
-            // Play critical alert and haptics for STOP commands
-            if (isNavigationMode) {
-                audioFeedback.playAttentionAlert();
-                haptics.vibrateAlert();
-            }
+        // Each model turn stays one message until the server closes it
+        if (content.interrupted || content.turnComplete) {
+            isAiTurnCutOffRef.current = false;
+        }
+        if (content.interrupted) {
+            endConversationTurn('ai', 'interrupted');
+        } else if (content.turnComplete) {
+            endConversationTurn('ai');
         }
-    }, [isNavigationMode]);
+    }, [appendToConversation, endConversationTurn]);
 
-    // Detect user speech energy for barge-in
-    const detectUserSpeech = useCallback((audioData: Int16Array) => {
-        // Calculate RMS (root mean square) energy
-        let sum = 0;
-        for (let i = 0; i < audioData.length; i++) {
-            const normalized = audioData[i] / 32768.0; // Normalize to -1 to 1
-            sum += normalized * normalized;
+    /**
+     * The user talked over Aura: stop its audio now instead of waiting for the server
+     */
+    const interruptAiSpeech = useCallback(() => {
+        // Immediately stop all AI audio playback
+        stopAndClearAudio();
+
+        // Clear the message queue to prevent stale audio from playing
+        messageQueueRef.current = [];
+        if (aiTurnIdRef.current) {
+            isAiTurnCutOffRef.current = true;
+            endConversationTurn('ai', 'interrupted');
         }
-        const rms = Math.sqrt(sum / audioData.length);
 
-        const now = Date.now();
-        const timeSinceLastSpeech = now - lastUserSpeechTimeRef.current;
+        // Reset the next start time
+        if (outputAudioCtxRef.current) {
+            nextStartTimeRef.current = outputAudioCtxRef.current.currentTime;
+        }
 
-        // If speech detected above threshold and AI is currently speaking
-        if (rms > SPEECH_ENERGY_THRESHOLD &&
-            isAudioPlayingRef.current &&
-            timeSinceLastSpeech > SPEECH_COOLDOWN_MS &&
-            !isMicMutedRef.current) {
+        // Update status
+        setCommentaryStatus(t(isSessionReady ? 'status.listening' : 'status.disconnected'));
+    }, [stopAndClearAudio, isSessionReady, endConversationTurn, t]);
 
-            console.log("🛑 BARGE-IN DETECTED - User is speaking, stopping AI audio");
-            lastUserSpeechTimeRef.current = now;
+    // Detect the start of user speech for barge-in. Every decision is logged with its levels for tuning
+    const detectUserSpeech = useCallback((audioData: Int16Array) => {
+        const decision = vadRef.current!.process(audioData);
+        if (!decision) return;
+
+        const levels = describeVadDecision(decision);
+        if (decision.kind === 'echo') {
+            console.log(`🔁 Barge-in ignored, only as loud as Aura's echo: ${levels}`);
+        } else if (!isAudioPlayingRef.current) {
+            console.log(`🗣️ User speech, Aura silent: ${levels}`);
+        } else if (isMicMutedRef.current || !micGateRef.current.isOpen()) {
+            // Speech the gate keeps from Aura, like chatter nearby, does not interrupt it either
+            console.log(`🔇 Barge-in ignored, mic ${isMicMutedRef.current ? 'muted' : 'gate closed'}: ${levels}`);
+        } else {
+            console.log(`🛑 BARGE-IN DETECTED - User is speaking, stopping AI audio: ${levels}`);
+            interruptAiSpeech();
+        }
+    }, [interruptAiSpeech]);
+
+    /**
+     * Follow the mic gate opening or closing with an earcon, mid-session
+     */
+    const applyMicGateChange = useCallback((change: MicGateChange) => {
+        if (!change) return;
+        const isOpen = change === 'opened';
+        setIsMicGateOpen(isOpen);
+        if (!liveSessionRef.current) return;
+        console.log(isOpen ? "🎙️ Mic gate opened" : "🔇 Mic gate closed");
+        audioFeedback.init().then(() => isOpen ? audioFeedback.playMicOpen() : audioFeedback.playMicClosed());
+        if (isOpen) {
+            // Opening the mic while Aura talks means the user wants to speak
+            if (isAudioPlayingRef.current) interruptAiSpeech();
+        } else if (!isMicMutedRef.current) {
+            // The user has finished; the server can answer without waiting for silence
+            liveSessionRef.current.sendRealtimeInput({ audioStreamEnd: true });
+        }
+    }, [interruptAiSpeech]);
+
+    /**
+     * Turn spotting in the worklet on for wake-word mode, with this device's samples
+     */
+    const configureWakeWord = useCallback((mode: InputMode, samples: WakeWordSample[]) => {
+        audioWorkletNodeRef.current?.port.postMessage({
+            type: 'wake-word',
+            enabled: mode === 'wake-word' && hasWakeWord(samples),
+            templates: samples
+        });
+    }, []);
 
-            // Immediately stop all AI audio playback
-            stopAndClearAudio();
+    const handleWakeWordEvent = useCallback((event: WakeWordEvent) => {
+        const gate = micGateRef.current;
+        switch (event.type) {
+            case 'speech':
+                gate.speechActivity(event.active);
+                break;
+            case 'wake':
+                console.log(`👂 Wake word heard (distance ${event.distance.toFixed(2)}, threshold ${event.threshold.toFixed(2)})`);
+                applyMicGateChange(gate.wake());
+                break;
+            case 'enrolled':
+                finishWakeWordRecordingRef.current?.(event.features);
+                break;
+            case 'enroll-failed':
+                console.warn(`Wake word sample rejected: too ${event.reason}`);
+                finishWakeWordRecordingRef.current?.(null);
+                break;
+        }
+    }, [applyMicGateChange]);
+
+    /**
+     * Everything the mic worklet posts: PCM chunks, and wake-word events as plain objects
+     */
+    const handleMicMessage = useCallback((data: Int16Array | WakeWordEvent) => {
+        if (!(data instanceof Int16Array)) {
+            handleWakeWordEvent(data);
+            return;
+        }
+        const gate = micGateRef.current;
+        applyMicGateChange(gate.tick());
+
+        // Always detect user speech for barge-in (even if muted for sending)
+        detectUserSpeech(data);
+
+        const chunks = gate.take(data);
+        // Only send audio to AI if not muted, session is active and the user is not recording the wake word
+        if (!liveSessionRef.current || isMicMutedRef.current || finishWakeWordRecordingRef.current) return;
+        for (const chunk of chunks) {
+            micChunkCounterRef.current++;
+            liveSessionRef.current.sendRealtimeInput({ audio: createPCMBlob(chunk) });
+
+            // Log every 50th chunk to avoid spam
+            if (micChunkCounterRef.current % 50 === 0) {
+                console.log(`📤 Sent microphone chunk #${micChunkCounterRef.current}, size: ${chunk.length * 2} bytes (16kHz PCM)`);
+            }
+        }
+    }, [handleWakeWordEvent, applyMicGateChange, detectUserSpeech]);
 
-            // Clear the message queue to prevent stale audio from playing
-            messageQueueRef.current = [];
+    // The worklet's handler is set once per microphone, so it calls through a ref
+    const handleMicMessageRef = useRef(handleMicMessage);
+    useEffect(() => {
+        handleMicMessageRef.current = handleMicMessage;
+    }, [handleMicMessage]);
+
+    /**
+     * Send the mode's prompt from the commentary cycle. While the scene is unchanged the
+     * prompt is held back and goes out with the next scene change instead.
+     * Returns false when the cycle should stop: no session, no frames yet, speaking or paused.
+     */
+    const sendCommentaryPrompt = useCallback((reason: string): boolean => {
+        if (!liveSessionRef.current || !isSessionReady || frameCountRef.current === 0 || isAudioPlayingRef.current || isCommentaryPausedRef.current) {
+            return false;
+        }
+        if (!isSceneChangedRef.current) {
+            isPromptDueRef.current = true;
+            return true;
+        }
+        console.log(`Sending ${reason} prompt`);
+        const mode = assistanceModeRef.current;
+        const isChangesOnly = mode.changesOnly && screenStreamRef.current !== null;
+        liveSessionRef.current.sendRealtimeInput({ text: isChangesOnly ? buildChangePrompt(mode, changedAreasRef.current) : mode.prompt });
+        replyRequestedAtRef.current ??= performance.now();
+        isSceneChangedRef.current = false;
+        isPromptDueRef.current = false;
+        changedAreasRef.current = [];
+        return true;
+    }, [isSessionReady]);
+
+    /**
+     * Tell the user how to fix the camera without waiting for the model: an earcon,
+     * then the fix and any orientation correction in local speech
+     */
+    const announceFrameIssue = useCallback((issue: FrameIssue) => {
+        lastFrameIssueCueAtRef.current = Date.now();
+        audioFeedback.playError();
+        if (isAudioPlayingRef.current) return; // Aura is talking; the earcon is enough until the next cue
+        const orientation = orientationTracker.analyzeOrientation();
+        const parts = [t(`frameIssue.${issue}`)];
+        if (orientation.adjustment) {
+            parts.push(t(`orientation.${orientation.adjustment}`));
+        }
+        speakLocally(parts.join('. '), true, LOCALES[liveSettingsRef.current.locale].bcp47);
+    }, [t]);
+
+    /**
+     * Stretch a chunk of Aura's audio to the speaking rate and schedule it after what is already queued.
+     * Null releases what the stretcher holds back at the end of a turn. Returns the seconds scheduled.
+     */
+    const scheduleOutputAudio = useCallback((raw: Float32Array | null): number => {
+        const ctx = outputAudioCtxRef.current!;
+        const stretcher = timeStretcherRef.current;
+        if (!raw && activeSourcesRef.current.size === 0) {
+            // Playback already ran out; a few milliseconds of tail are not worth a second end of speech
+            stretcher.reset();
+            return 0;
+        }
+        const samples = raw ? stretcher.process(raw) : stretcher.flush();
+        const entry: ScheduledAudio = { raw, source: null, startAt: nextStartTimeRef.current };
+        scheduledAudioRef.current.push(entry);
+        if (samples.length === 0) return 0;
+
+        const audioBuffer = ctx.createBuffer(1, samples.length, OUTPUT_SAMPLE_RATE);
+        audioBuffer.getChannelData(0).set(samples);
+        const source = ctx.createBufferSource();
+        source.buffer = audioBuffer;
+        entry.source = source;
+
+        source.onended = () => {
+            // Pieces end in order: this one and any chunks held back before it are done with
+            scheduledAudioRef.current.splice(0, scheduledAudioRef.current.indexOf(entry) + 1);
+            activeSourcesRef.current.delete(source);
+            if (activeSourcesRef.current.size === 0) {
+                isAudioPlayingRef.current = false;
+                setCommentaryStatus(t(isSessionReady ? 'status.ready' : 'status.disconnected'));
+
+                // Clear existing prompt interval to prevent interruption
+                if (promptIntervalRef.current) {
+                    window.clearInterval(promptIntervalRef.current);
+                    promptIntervalRef.current = null;
+                }
 
-            // Reset the next start time
-            if (outputAudioCtxRef.current) {
-                nextStartTimeRef.current = outputAudioCtxRef.current.currentTime;
+                // Wait 5 seconds after AI finishes speaking, then send next prompt and restart interval
+                setTimeout(() => {
+                    if (sendCommentaryPrompt('after-speech')) {
+                        // Restart the mode's periodic prompt
+                        promptIntervalRef.current = window.setInterval(() => {
+                            sendCommentaryPrompt('periodic');
+                        }, assistanceModeRef.current.promptIntervalMs);
+                    }
+                }, 5000);
             }
+        };
 
-            // Update status
-            setCommentaryStatus(isSessionReady ? "👂 Listening..." : "⚠️ Disconnected");
+        activeSourcesRef.current.add(source);
+        source.connect(outputAnalyserRef.current ?? ctx.destination);
+        source.start(nextStartTimeRef.current);
+        nextStartTimeRef.current += audioBuffer.duration;
+        return audioBuffer.duration;
+    }, [isSessionReady, sendCommentaryPrompt, t]);
+
+    /**
+     * Apply a new speaking rate to audio already received. Pieces not yet started are cancelled and
+     * their chunks stretched again from where the first was due; what is playing finishes as it is.
+     */
+    const retimeScheduledAudio = useCallback((rate: number) => {
+        const stretcher = timeStretcherRef.current;
+        if (stretcher.getRate() === rate) return;
+        stretcher.setRate(rate);
+
+        const ctx = outputAudioCtxRef.current;
+        const entries = scheduledAudioRef.current;
+        if (!ctx) return;
+        const cutoff = ctx.currentTime + AUDIO_BUFFER_GAP_MS / 1000;
+        let first = entries.findIndex(entry => entry.source && entry.startAt > cutoff);
+        if (first === -1) {
+            console.log(`⏩ Speaking rate ${formatSpeechRate(rate)}, from the next chunk`);
+            return;
+        }
+        // Chunks the stretcher held back went into the first cancelled piece
+        while (first > 0 && !entries[first - 1].source) first--;
+
+        const cancelled = entries.splice(first);
+        for (const entry of cancelled) {
+            if (!entry.source) continue;
+            entry.source.onended = null;
+            try { entry.source.stop(); } catch(e) { /* Ignore */ }
+            activeSourcesRef.current.delete(entry.source);
         }
-    }, [stopAndClearAudio, isSessionReady]);
+        nextStartTimeRef.current = cancelled[0].startAt;
+        stretcher.reset();
+        cancelled.forEach(entry => scheduleOutputAudio(entry.raw));
+        console.log(`⏩ Speaking rate ${formatSpeechRate(rate)}, re-timed ${cancelled.length} chunks from ${cancelled[0].startAt.toFixed(3)}s`);
+    }, [scheduleOutputAudio]);
 
     const processMessageQueue = useCallback(async () => {
         if (isProcessingQueueRef.current || messageQueueRef.current.length === 0) return;
@@ -297,59 +719,20 @@ export function useLiveCommentary() {
                 messageQueueRef.current = []; // Discard rest of the stale audio chunks
             }
             
-            // Handle user turn (speech transcript from microphone)
-            const userTurn = message.serverContent?.turnComplete;
-            if (userTurn) {
-                console.log("👤 User turn detected:", userTurn);
-            }
-
-            // Check for user speech transcript
-            const userMessage = message.serverContent?.modelTurn?.parts?.find((p: any) =>
-                p.text && message.serverContent?.modelTurn?.role === 'user'
-            );
-            if (userMessage?.text) {
-                const userText = userMessage.text;
-                console.log(`🎤 User said: "${userText}"`);
-
-                setChatMessages(prev => [...prev.slice(-49), {
-                    type: 'user',
-                    text: userText,
-                    timestamp: new Date()
-                }]);
-            }
-
             // Process audio if present in the message
             if (outputAudioCtxRef.current?.state === 'running') {
                 const modelTurn = message.serverContent?.modelTurn;
 
-                // Extract text from AI response for chat display
+                // The conversation log is updated as messages arrive; here text only feeds hazard detection
                 const textPart = modelTurn?.parts.find((p: any) => p.text);
-                if (textPart?.text && modelTurn?.role !== 'user') {
+                if (textPart?.text) {
                     const aiText = textPart.text;
 
-                    setChatMessages(prev => [...prev.slice(-49), {
-                        type: 'ai',
-                        text: aiText,
-                        timestamp: new Date()
-                    }]);
-
-                    // Parse distance and set urgency when in navigation mode
-                    parseDistanceAndSetUrgency(aiText);
-
-                    // Voice command detection - check for navigation mode activation
-                    const lowerText = textPart.text.toLowerCase();
-                    if (lowerText.includes('navigation mode') ||
-                        lowerText.includes('start navigation') ||
-                        lowerText.includes('activate navigation')) {
-                        console.log("📍 Navigation mode activated via voice command");
-                        setIsNavigationMode(true);
-                        setCommentaryStatus("🧭 Navigation Mode");
-                    } else if (lowerText.includes('stop navigation') ||
-                               lowerText.includes('exit navigation') ||
-                               lowerText.includes('normal mode')) {
-                        console.log("📍 Navigation mode deactivated");
-                        setIsNavigationMode(false);
-                        setCommentaryStatus("🎙️ Normal Mode");
+                    // Text is only a fallback for when the model did not call reportHazard
+                    const isStructuredRecent = Date.now() - lastStructuredHazardAtRef.current < STRUCTURED_HAZARD_WINDOW_MS;
+                    const textHazard = isStructuredRecent ? null : parseHazardFromText(aiText, sessionSettingsRef.current.locale, sessionSettingsRef.current.unitSystem);
+                    if (textHazard) {
+                        applyHazardReport(textHazard);
                     }
                 }
 
@@ -380,51 +763,21 @@ export function useLiveCommentary() {
                     }
 
                     isAudioPlayingRef.current = true;
-                    setCommentaryStatus(`🎙️ Speaking...`);
+                    setCommentaryStatus(t('status.speaking'));
 
                     const audioBytes = decode(audioPart.inlineData.data);
                     console.log(`📥 Received audio chunk #${chunkNumber}, size: ${audioBytes.length} bytes`);
 
-                    const audioBuffer = await decodeAudioData(audioBytes, outputAudioCtxRef.current, 24000, 1);
-                    const source = outputAudioCtxRef.current.createBufferSource();
-                    source.buffer = audioBuffer;
-
-                    console.log(`🔊 Scheduling chunk #${chunkNumber} at ${nextStartTimeRef.current.toFixed(3)}s, duration: ${audioBuffer.duration.toFixed(3)}s`);
-                    
-                    source.onended = () => {
-                        activeSourcesRef.current.delete(source);
-                        if (activeSourcesRef.current.size === 0) {
-                            isAudioPlayingRef.current = false;
-                            setCommentaryStatus(isSessionReady ? "🎙️ Ready" : "⚠️ Disconnected");
-
-                            // Clear existing prompt interval to prevent interruption
-                            if (promptIntervalRef.current) {
-                                window.clearInterval(promptIntervalRef.current);
-                                promptIntervalRef.current = null;
-                            }
-
-                            // Wait 5 seconds after AI finishes speaking, then send next prompt and restart interval
-                            setTimeout(() => {
-                                if (liveSessionRef.current && isSessionReady && frameCountRef.current > 0 && !isAudioPlayingRef.current) {
-                                    console.log("Sending prompt after AI finished speaking");
-                                    liveSessionRef.current.sendRealtimeInput({ text: "What do you see now?" });
-
-                                    // Restart 10-second interval
-                                    promptIntervalRef.current = window.setInterval(() => {
-                                        if (liveSessionRef.current && isSessionReady && frameCountRef.current > 0 && !isAudioPlayingRef.current) {
-                                            console.log("Sending periodic prompt");
-                                            liveSessionRef.current.sendRealtimeInput({ text: "What do you see now?" });
-                                        }
-                                    }, 10000);
-                                }
-                            }, 5000);
-                        }
-                    };
-        
-                    activeSourcesRef.current.add(source);
-                    source.connect(outputAudioCtxRef.current.destination);
-                    source.start(nextStartTimeRef.current);
-                    nextStartTimeRef.current += audioBuffer.duration;
+                    const audioBuffer = await decodeAudioData(audioBytes, outputAudioCtxRef.current, OUTPUT_SAMPLE_RATE, 1);
+                    const startAt = nextStartTimeRef.current;
+                    const duration = scheduleOutputAudio(audioBuffer.getChannelData(0));
+                    console.log(`🔊 Scheduling chunk #${chunkNumber} at ${startAt.toFixed(3)}s, duration: ${duration.toFixed(3)}s ` +
+                        `(${audioBuffer.duration.toFixed(3)}s at ${formatSpeechRate(timeStretcherRef.current.getRate())})`);
+                }
+
+                // The stretcher holds back the last few milliseconds of a turn until it ends
+                if (message.serverContent?.turnComplete) {
+                    scheduleOutputAudio(null);
                 }
             }
         }
@@ -432,7 +785,7 @@ export function useLiveCommentary() {
         isProcessingQueueRef.current = false;
         // Process next message if the queue was not cleared by an interruption
         if (messageQueueRef.current.length > 0) processMessageQueue();
-    }, [isSessionReady, stopAndClearAudio]);
+    }, [stopAndClearAudio, applyHazardReport, scheduleOutputAudio, t]);
 
     // To prevent stale closures in the `onmessage` callback.
     const processMessageQueueCallbackRef = useRef(processMessageQueue);
@@ -441,18 +794,27 @@ export function useLiveCommentary() {
     }, [processMessageQueue]);
 
     const stopScreenShare = useCallback(async () => {
+        sendFrameNowRef.current = null;
         if (frameIntervalRef.current) { window.clearInterval(frameIntervalRef.current); frameIntervalRef.current = null; }
         if (promptIntervalRef.current) { window.clearInterval(promptIntervalRef.current); promptIntervalRef.current = null; }
         screenStreamRef.current?.getTracks().forEach(track => track.stop());
         screenStreamRef.current = null;
+        setVideoTier(null);
+        setFrameIssue(null);
+        setFocusRegion(FULL_FRAME);
     }, []);
 
     const stopCameraStream = useCallback(async () => {
+        sendFrameNowRef.current = null;
         if (frameIntervalRef.current) { window.clearInterval(frameIntervalRef.current); frameIntervalRef.current = null; }
         if (promptIntervalRef.current) { window.clearInterval(promptIntervalRef.current); promptIntervalRef.current = null; }
         if (orientationCheckIntervalRef.current) { window.clearInterval(orientationCheckIntervalRef.current); orientationCheckIntervalRef.current = null; }
+        await torchControllerRef.current.detach();
+        setIsTorchOn(false);
         cameraStreamRef.current?.getTracks().forEach(track => track.stop());
         cameraStreamRef.current = null;
+        setVideoTier(null);
+        setFrameIssue(null);
 
         // Stop orientation tracking and audio feedback
         orientationTracker.stop();
@@ -469,9 +831,246 @@ export function useLiveCommentary() {
         }
     }, []);
 
+    // Create the reconnection manager once the teardown helpers exist
+    useEffect(() => {
+        const manager = new ReconnectionManager({
+            onReconnectAttempt: (attempt) => {
+                if (attempt > FRESH_SESSION_AFTER_ATTEMPTS && resumptionHandleRef.current) {
+                    console.warn("Resumption handle not accepted, starting a fresh session");
+                    resumptionHandleRef.current = null;
+                }
+                setCommentaryStatus(t('status.reconnectingAttempt', { attempt, max: manager.getMaxRetries() }));
+            },
+            onReconnectSuccess: () => {
+                console.log("📶 Live session restored");
+                audioFeedback.init().then(() => audioFeedback.playConfirmation());
+                haptics.vibrateConfirm();
+                speak('speech.backOnline');
+            },
+            onReconnectFail: () => {
+                console.error("Could not restore live session");
+                setCommentaryStatus(t('status.disconnected'));
+                audioFeedback.stopProximity();
+                cleanupAudioInput();
+                audioFeedback.init().then(() => audioFeedback.playError());
+                haptics.vibrateError();
+                speak('speech.connectionLostRestart');
+            }
+        });
+        reconnectionManagerRef.current = manager;
+        return () => manager.cancelReconnect();
+    }, [cleanupAudioInput, t, speak]);
+
+    const scheduleReconnect = useCallback(() => {
+        const manager = reconnectionManagerRef.current;
+        if (!manager || manager.isAttemptingReconnect()) return;
+
+        setCommentaryStatus(t('status.reconnecting'));
+        audioFeedback.init().then(() => audioFeedback.playReconnecting());
+        haptics.vibrateForUrgency('medium');
+        speak('speech.connectionLostReconnecting');
+
+        manager.scheduleReconnect(() => new Promise<void>((resolve, reject) => {
+            // Stop was pressed while this attempt waited; never reopen the session or the microphone
+            if (isUserStoppingRef.current) {
+                console.log("🛑 Session stopped, skipping reconnection");
+                resolve();
+                return;
+            }
+            const timeoutId = window.setTimeout(() => {
+                // Invalidate the pending socket so a late open is ignored
+                connectionIdRef.current++;
+                reject(new Error("Reconnection attempt timed out"));
+            }, RECONNECT_TIMEOUT_MS);
+
+            connectLiveSessionRef.current!(voiceNameRef.current, true)
+                .then(resolve, reject)
+                .finally(() => window.clearTimeout(timeoutId));
+        }));
+    }, [t, speak]);
+
+    /**
+     * Switch the frame pipeline to sending only what changed on the shared screen, or back
+     */
+    const setChangesOnly = useCallback((changesOnly: boolean) => {
+        framePipelineRef.current?.setChangesOnly(changesOnly);
+        changedAreasRef.current = [];
+        isChangeBaselineSentRef.current = false;
+    }, []);
+
+    // The one place mode and verbosity instructions are sent to the model
+    const sendModeInstructions = useCallback(() => {
+        liveSessionRef.current?.sendRealtimeInput({
+            text: buildModeInstructions(assistanceModeRef.current, verbosityRef.current)
+        });
+    }, []);
+
+    const applyVerbosity = useCallback((level: Verbosity) => {
+        console.log("Verbosity:", level);
+        verbosityRef.current = level;
+        setVerbosity(level);
+    }, []);
+
+    // Saved like any other setting; the effect below re-times audio already queued
+    const applySpeechRate = useCallback((rate: number) => {
+        const settings = { ...liveSettingsRef.current, speechRate: clampSpeechRate(rate) };
+        saveLiveSettings(settings);
+        liveSettingsRef.current = settings;
+        setLiveSettings(settings);
+    }, []);
+
+    // Changes made by the model travel back in its tool response, so only user changes notify it
+    const applyAssistanceMode = useCallback((mode: AssistanceMode, notifyModel: boolean) => {
+        console.log(`Assistance mode: ${mode.id}`);
+        const isChange = assistanceModeRef.current.id !== mode.id;
+        assistanceModeRef.current = mode;
+        setAssistanceMode(mode.id);
+        applyVerbosity(mode.verbosity);
+        if (!mode.proximityLoop) {
+            audioFeedback.stopProximity();
+        }
+        setCommentaryStatus(t(`mode.${mode.id}.status`));
+        setChangesOnly(mode.changesOnly && screenStreamRef.current !== null);
+
+        if (isChange) {
+            audioFeedback.init().then(() => audioFeedback.playConfirmation());
+            haptics.vibrateConfirm();
+        }
+        if (notifyModel) {
+            sendModeInstructions();
+        }
+    }, [applyVerbosity, sendModeInstructions, setChangesOnly, t]);
+
+    const applyCommentaryPaused = useCallback((paused: boolean) => {
+        isCommentaryPausedRef.current = paused;
+        setIsCommentaryPaused(paused);
+        if (paused) {
+            if (promptIntervalRef.current) { window.clearInterval(promptIntervalRef.current); promptIntervalRef.current = null; }
+            stopAndClearAudio();
+            audioFeedback.stopProximity();
+            messageQueueRef.current = [];
+            if (outputAudioCtxRef.current) {
+                nextStartTimeRef.current = outputAudioCtxRef.current.currentTime;
+            }
+            setCommentaryStatus(t('status.paused'));
+        }
+    }, [stopAndClearAudio, t]);
+
+    /**
+     * Send part of the shared screen enlarged, or the whole screen again for FULL_FRAME.
+     * Returns false when no screen is being shared.
+     */
+    const applyFocusRegion = useCallback((region: FocusRegion, notifyModel: boolean): boolean => {
+        if (!screenStreamRef.current || !framePipelineRef.current) return false;
+        console.log(`🔍 Screen focus: ${describeFocusRegion(region)}`);
+        framePipelineRef.current.setFocus(region);
+        setFocusRegion(region);
+        if (notifyModel) {
+            liveSessionRef.current?.sendRealtimeInput({ text: buildFocusInstructions(region) });
+        }
+        sendFrameNowRef.current?.();
+        return true;
+    }, []);
+
+    // Run the functions Aura calls and report the outcome back to the model
+    const handleToolCall = useCallback((functionCalls: FunctionCall[]) => {
+        const responses = functionCalls.map(call => {
+            console.log(`🛠️ Tool call: ${call.name}`, call.args);
+            switch (call.name) {
+                case LIVE_TOOL_NAMES.setAssistanceMode: {
+                    const mode = findAssistanceMode(call.args?.mode);
+                    if (!mode) {
+                        return createToolResponse(call, { error: `Unknown mode "${call.args?.mode}"` });
+                    }
+                    applyAssistanceMode(mode, false);
+                    return createToolResponse(call, { output: buildModeInstructions(mode, verbosityRef.current) });
+                }
+                case LIVE_TOOL_NAMES.setVerbosity: {
+                    const level = parseVerbosity(call.args?.level);
+                    if (!level) {
+                        return createToolResponse(call, { error: `Unknown verbosity "${call.args?.level}"` });
+                    }
+                    applyVerbosity(level);
+                    return createToolResponse(call, { output: buildModeInstructions(assistanceModeRef.current, level) });
+                }
+                case LIVE_TOOL_NAMES.stopCommentary:
+                    applyCommentaryPaused(true);
+                    return createToolResponse(call, { output: 'Commentary paused. Stay silent until the user speaks to you.' });
+                case LIVE_TOOL_NAMES.describeNow:
+                    applyCommentaryPaused(false);
+                    if (!sendFrameNowRef.current) {
+                        return createToolResponse(call, { error: 'No camera or screen share is active' });
+                    }
+                    sendFrameNowRef.current();
+                    return createToolResponse(call, { output: 'A fresh frame has been sent. Describe it now.' });
+                case LIVE_TOOL_NAMES.reportHazard: {
+                    const report = parseHazardToolArgs(call.args);
+                    if (!report) {
+                        return createToolResponse(call, { error: 'distanceMeters must be a number of meters' });
+                    }
+                    applyHazardReport(report);
+                    // Silent so the acknowledgement does not make Aura speak again
+                    return { ...createToolResponse(call, { output: 'ok' }), scheduling: FunctionResponseScheduling.SILENT };
+                }
+                case LIVE_TOOL_NAMES.setFocusRegion: {
+                    const region = parseFocusToolArgs(call.args, framePipelineRef.current?.getFocus() ?? FULL_FRAME);
+                    if (!region) {
+                        return createToolResponse(call, { error: 'Give a region, a zoom factor or a box of four numbers from 0 to 1000' });
+                    }
+                    if (!applyFocusRegion(region, false)) {
+                        return createToolResponse(call, { error: 'Focus regions only work while the screen is shared' });
+                    }
+                    return createToolResponse(call, { output: buildFocusInstructions(region) });
+                }
+                case LIVE_TOOL_NAMES.setSpeakingRate: {
+                    const rate = parseSpeechRateToolArgs(call.args, liveSettingsRef.current.speechRate);
+                    if (rate === null) {
+                        return createToolResponse(call, { error: `Give a rate from ${SPEECH_RATE_RANGE.min} to ${SPEECH_RATE_RANGE.max}, or faster, slower or normal` });
+                    }
+                    applySpeechRate(rate);
+                    return createToolResponse(call, {
+                        output: `Your voice now plays at ${formatSpeechRate(rate)}, within ${formatSpeechRate(SPEECH_RATE_RANGE.min)} to ${formatSpeechRate(SPEECH_RATE_RANGE.max)}. Confirm in a few words.`
+                    });
+                }
+                default:
+                    console.warn(`Unknown tool call: ${call.name}`);
+                    return createToolResponse(call, { error: `Unknown function ${call.name}` });
+            }
+        });
+
+        try {
+            liveSessionRef.current?.sendToolResponse({ functionResponses: responses });
+        } catch (e) {
+            console.error("Error sending tool response:", e);
+        }
+    }, [applyAssistanceMode, applyVerbosity, applyCommentaryPaused, applyHazardReport, applyFocusRegion, applySpeechRate]);
+
+    const stopRecording = useCallback(() => {
+        if (!sessionRecorder.isRecording()) return;
+        downloadSessionArchive(sessionRecorder.stop());
+        setIsRecording(false);
+    }, []);
+
+    const toggleRecording = useCallback(() => {
+        if (sessionRecorder.isRecording()) {
+            stopRecording();
+        } else {
+            sessionRecorder.start(liveSettingsRef.current);
+            setIsRecording(true);
+        }
+    }, [stopRecording]);
+
     const stopLiveSession = useCallback(async () => {
+        stopRecording(); // Save whatever was captured before the session goes away
+        isUserStoppingRef.current = true;
+        reconnectionManagerRef.current?.cancelReconnect();
+        resumptionHandleRef.current = null;
         setIsSessionReady(false); // Immediately prevent new data from being sent
         setChatMessages([]); // Clear chat history
+        userTurnIdRef.current = null;
+        aiTurnIdRef.current = null;
+        aiTurnHasTranscriptRef.current = false;
+        isAiTurnCutOffRef.current = false;
         if (liveSessionRef.current) {
             try {
                 liveSessionRef.current.close();
@@ -480,118 +1079,228 @@ export function useLiveCommentary() {
                  // Force cleanup if close() fails
                  stopAndClearAudio();
                  liveSessionRef.current = null;
-                 setCommentaryStatus("Idle");
+                 setCommentaryStatus(t('status.idle'));
                  cleanupAudioInput();
             }
+        } else {
+            // Stopped mid-reconnect: there is no socket left to fire onclose
+            connectionIdRef.current++;
+            stopAndClearAudio();
+            setCommentaryStatus(t('status.idle'));
+            cleanupAudioInput();
         }
         await stopScreenShare();
         await stopCameraStream();
-    }, [stopAndClearAudio, stopScreenShare, stopCameraStream, cleanupAudioInput]);
+
+        const stats = framePipelineRef.current?.getStats();
+        if (stats && stats.framesSent + stats.framesSkipped > 0) {
+            console.log(`📊 Frames: ${stats.framesSent} sent (${stats.keyframes} keyframes, ${stats.sceneChanges} scene changes), ` +
+                `${stats.framesSkipped} unchanged skipped, ${stats.focusCrops} with a focus crop, ${stats.changesOnlyFrames} as changed areas only, ~${(stats.bytesSaved / 1024).toFixed(0)} kB saved`);
+        }
+    }, [stopAndClearAudio, stopScreenShare, stopCameraStream, cleanupAudioInput, stopRecording, t]);
+
+    const connectLiveSession = useCallback(async (voiceName: string, isReconnect: boolean) => {
+        const connectionId = ++connectionIdRef.current;
+        const isCurrentConnection = () => connectionId === connectionIdRef.current;
+        const resumptionHandle = isReconnect ? resumptionHandleRef.current : null;
+        if (resumptionHandle) {
+            console.log("Resuming live session with stored handle");
+        }
+
+        const settings = sessionSettingsRef.current;
+        const isAudioResponse = settings.responseModality === Modality.AUDIO;
+        const sessionPromise = transportRef.current!.connect({
+            model: settings.model,
+            callbacks: {
+                onopen: async () => {
+                    if (!isCurrentConnection()) return;
+                    console.log("WebSocket onopen called!");
+                    setIsSessionReady(true);
+                    if (isReconnect) {
+                        const mode = assistanceModeRef.current;
+                        setCommentaryStatus(mode.id === 'normal' ? t('status.ready') : t(`mode.${mode.id}.status`));
+                    } else {
+                        assistanceModeRef.current = ASSISTANCE_MODES.normal;
+                        setAssistanceMode('normal');
+                        applyVerbosity(ASSISTANCE_MODES.normal.verbosity);
+                        setCommentaryStatus(t('status.ready'));
+                    }
+
+                    // The microphone survives reconnects, only set it up once
+                    if (audioWorkletNodeRef.current) return;
+
+                    // Set up microphone with mute control
+                    (async () => {
+                        try {
+                            console.log("Setting up microphone...");
+                            await inputAudioCtxRef.current!.audioWorklet.addModule('/ai-vision-guide/audioProcessor.js');
+
+                            microphoneStreamRef.current = await mediaDevicesRef.current.getUserMedia({ audio: true });
+                            console.log("Microphone access granted");
+
+                            const source = inputAudioCtxRef.current!.createMediaStreamSource(microphoneStreamRef.current);
+                            const audioWorkletNode = new AudioWorkletNode(inputAudioCtxRef.current!, 'audio-processor');
+                            audioWorkletNodeRef.current = audioWorkletNode;
+
+                            audioWorkletNode.port.onmessage = (event) => handleMicMessageRef.current(event.data);
+                            configureWakeWord(micGateRef.current.getMode(), wakeWordSamplesRef.current);
+                            source.connect(audioWorkletNode);
+                            audioWorkletNode.connect(inputAudioCtxRef.current!.destination);
+                            console.log("Microphone setup complete (active by default)");
+                        } catch (err) {
+                            console.error("Error setting up microphone:", err);
+                            console.warn("Continuing without microphone");
+                        }
+                    })();
+                },
+                onmessage: (message: any) => {
+                    if (!isCurrentConnection()) return;
+                    console.log("WebSocket message received:", message);
+
+                    // Keep the latest resumable state so a dropped socket can pick up where it left off
+                    const resumptionUpdate = message.sessionResumptionUpdate;
+                    if (resumptionUpdate?.resumable && resumptionUpdate.newHandle) {
+                        resumptionHandleRef.current = resumptionUpdate.newHandle;
+                    }
+
+                    // Server is about to drop us; reconnect now with the latest handle
+                    if (message.goAway) {
+                        console.warn("Server sent goAway, time left:", message.goAway.timeLeft);
+                        isGoingAwayRef.current = true;
+                        try {
+                            liveSessionRef.current?.close();
+                        } catch (e) {
+                            console.warn("Error closing session after goAway:", e);
+                        }
+                        return;
+                    }
+
+                    // Control calls take effect right away instead of waiting behind queued audio
+                    if (message.toolCall?.functionCalls?.length) {
+                        handleToolCall(message.toolCall.functionCalls);
+                        return;
+                    }
+                    if (message.toolCallCancellation) {
+                        console.log("Tool calls cancelled:", message.toolCallCancellation.ids);
+                        return;
+                    }
+
+                    measureRoundTrip(message);
+                    updateConversationLog(message);
+                    messageQueueRef.current.push(message);
+                    processMessageQueueCallbackRef.current();
+                },
+                onerror: (e: ErrorEvent) => {
+                    if (!isCurrentConnection()) return;
+                    console.error("WebSocket error:", e);
+                    stopAndClearAudio();
+                    setIsSessionReady(false);
+                    setCommentaryStatus(t('status.error'));
+                },
+                onclose: (e) => {
+                    if (!isCurrentConnection()) return;
+                    console.error("WebSocket closed. Code:", e?.code, "Reason:", e?.reason);
+                    stopAndClearAudio();
+                    setIsSessionReady(false);
+                    liveSessionRef.current = null;
+
+                    const networkError = handleWebSocketError(e, e?.code, settings.locale);
+                    const shouldReconnect = !isUserStoppingRef.current &&
+                        (isGoingAwayRef.current || networkError.shouldRetry);
+                    isGoingAwayRef.current = false;
+
+                    if (shouldReconnect) {
+                        // Keep the mic, camera/screen stream and navigation mode; only the socket is replaced
+                        scheduleReconnect();
+                        return;
+                    }
+
+                    setCommentaryStatus(t('status.idle'));
+                    audioFeedback.stopProximity();
+                    cleanupAudioInput();
+                },
+            },
+            config: {
+                systemInstruction: buildSystemPrompt(settings),
+                responseModalities: [settings.responseModality],
+                temperature: settings.temperature,
+                mediaResolution: settings.mediaResolution,
+                speechConfig: {
+                    voiceConfig: { prebuiltVoiceConfig: { voiceName } },
+                    languageCode: getLiveLanguageCode(settings)
+                },
+                sessionResumption: resumptionHandle ? { handle: resumptionHandle } : {},
+                inputAudioTranscription: {},
+                // Text responses arrive as text parts; only spoken ones need transcribing
+                ...(isAudioResponse ? { outputAudioTranscription: {} } : {}),
+                tools: LIVE_TOOLS
+            },
+        });
+        const session = await sessionPromise;
+        if (!isCurrentConnection()) {
+            // Superseded (timed out or stopped) while connecting
+            session.close();
+            throw new Error("Live session connection superseded");
+        }
+        liveSessionRef.current = session;
+        console.log("Session object assigned to ref");
+
+        // A fresh session has lost the earlier mode instructions, so repeat them
+        if (isReconnect && !resumptionHandle && (assistanceModeRef.current.id !== 'normal' || verbosityRef.current !== 'normal')) {
+            sendModeInstructions();
+        }
+    }, [stopAndClearAudio, cleanupAudioInput, configureWakeWord, scheduleReconnect, handleToolCall, measureRoundTrip, updateConversationLog, applyVerbosity, sendModeInstructions, t]);
+
+    useEffect(() => {
+        connectLiveSessionRef.current = connectLiveSession;
+    }, [connectLiveSession]);
 
     const initLiveSession = useCallback(async (voiceName: string) => {
         if (liveSessionRef.current) { await stopLiveSession(); }
         liveSessionRef.current = null; setIsSessionReady(false);
-        try { await initAudioContexts(); } catch (e: any) { setCommentaryStatus(`⚠️ Audio Err`); throw e; }
+        isUserStoppingRef.current = false;
+        resumptionHandleRef.current = null;
+        voiceNameRef.current = voiceName;
+        isCommentaryPausedRef.current = false;
+        setIsCommentaryPaused(false);
+        reconnectionManagerRef.current?.reset();
+        framePipelineRef.current?.resetStats();
+        setFrameStats(EMPTY_FRAME_STATS);
+        videoAdaptationRef.current.reset();
+        replyRequestedAtRef.current = null;
+
+        // Check the model and generation settings before opening a socket
+        const settingsErrors = validateLiveSettings(liveSettingsRef.current);
+        if (settingsErrors.length > 0) {
+            setCommentaryStatus(t('status.checkSettings'));
+            throw new Error(settingsErrors.map(error => t(error.key, error.params)).join('. '));
+        }
+        sessionSettingsRef.current = liveSettingsRef.current;
+
+        try { await initAudioContexts(); } catch (e: any) { setCommentaryStatus(t('status.audioError')); throw e; }
 
         nextStartTimeRef.current = outputAudioCtxRef.current!.currentTime;
         messageQueueRef.current = [];
         
         try {
-            setCommentaryStatus("🔌 Connecting...");
+            setCommentaryStatus(t('status.connecting'));
 
             if (!inputAudioCtxRef.current?.audioWorklet) {
                 throw new Error("AudioWorklet is not supported by this browser.");
             }
 
-            const sessionPromise = ai.live.connect({
-                model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-                callbacks: {
-                    onopen: async () => {
-                        console.log("WebSocket onopen called!");
-                        setIsSessionReady(true);
-                        setIsNavigationMode(false);
-                        setCommentaryStatus("🎙️ Ready");
-
-                        // Set up microphone with mute control
-                        (async () => {
-                            try {
-                                console.log("Setting up microphone...");
-                                await inputAudioCtxRef.current!.audioWorklet.addModule('/ai-vision-guide/audioProcessor.js');
-
-                                microphoneStreamRef.current = await navigator.mediaDevices.getUserMedia({ audio: true });
-                                console.log("Microphone access granted");
-
-                                const source = inputAudioCtxRef.current!.createMediaStreamSource(microphoneStreamRef.current);
-                                const audioWorkletNode = new AudioWorkletNode(inputAudioCtxRef.current!, 'audio-processor');
-                                audioWorkletNodeRef.current = audioWorkletNode;
-
-                                audioWorkletNode.port.onmessage = (event) => {
-                                    const pcmData = event.data as Int16Array;
-
-                                    // Always detect user speech for barge-in (even if muted for sending)
-                                    detectUserSpeech(pcmData);
-
-                                    // Only send audio to AI if not muted and session is active
-                                    if (liveSessionRef.current && !isMicMutedRef.current) {
-                                        micChunkCounterRef.current++;
-                                        const pcmBlob = createPCMBlob(pcmData);
-                                        liveSessionRef.current.sendRealtimeInput({ audio: pcmBlob });
-
-                                        // Log every 50th chunk to avoid spam
-                                        if (micChunkCounterRef.current % 50 === 0) {
-                                            console.log(`📤 Sent microphone chunk #${micChunkCounterRef.current}, size: ${pcmData.length * 2} bytes (16kHz PCM)`);
-                                        }
-                                    }
-                                };
-                                source.connect(audioWorkletNode);
-                                audioWorkletNode.connect(inputAudioCtxRef.current!.destination);
-                                console.log("Microphone setup complete (active by default)");
-                            } catch (err) {
-                                console.error("Error setting up microphone:", err);
-                                console.warn("Continuing without microphone");
-                            }
-                        })();
-                    },
-                    onmessage: (message: any) => {
-                        console.log("WebSocket message received:", message);
-                        messageQueueRef.current.push(message);
-                        processMessageQueueCallbackRef.current();
-                    },
-                    onerror: (e: ErrorEvent) => {
-                        console.error("WebSocket error:", e);
-                        stopAndClearAudio();
-                        setIsSessionReady(false);
-                        setCommentaryStatus(`⚠️ Error`);
-                    },
-                    onclose: (e) => {
-                        console.error("WebSocket closed. Code:", e?.code, "Reason:", e?.reason);
-                        stopAndClearAudio();
-                        setIsSessionReady(false);
-                        liveSessionRef.current = null;
-                        setCommentaryStatus("Idle");
-                        cleanupAudioInput();
-                    },
-                },
-                config: {
-                    systemInstruction: normalSystemPrompt,
-                    responseModalities: [Modality.AUDIO, Modality.TEXT], // Enable TEXT for speech transcription
-                    speechConfig: {
-                        voiceConfig: { prebuiltVoiceConfig: { voiceName } }
-                    }
-                },
-            });
-            liveSessionRef.current = await sessionPromise;
-            console.log("Session object assigned to ref");
+            await connectLiveSession(voiceName, false);
 
             // Send welcome message
             try {
                 console.log("Sending welcome message");
-                liveSessionRef.current.sendRealtimeInput({ text: "Say: Hello! I'm Aura, your AI vision assistant. Start your camera or share your screen, and I'll describe what I see. Feel free to interrupt me anytime with questions." });
+                liveSessionRef.current.sendRealtimeInput({ text: `Say: ${translate(sessionSettingsRef.current.locale, 'speech.welcome')}` });
+                replyRequestedAtRef.current = performance.now();
             } catch (err) {
                 console.error("Error sending welcome message:", err);
             }
-        } catch (e: any) { console.error("Live connect error:", e); setCommentaryStatus(`⚠️ Connect Err`); throw e; }
-    }, [initAudioContexts, stopAndClearAudio, stopLiveSession, cleanupAudioInput, isSessionReady, detectUserSpeech]);
+        } catch (e: any) { console.error("Live connect error:", e); setCommentaryStatus(t('status.connectError')); throw e; }
+    }, [initAudioContexts, stopLiveSession, connectLiveSession, t]);
 
     const startFrameStreaming = useCallback((videoEl: HTMLVideoElement) => {
         if (frameIntervalRef.current) {
@@ -601,31 +1310,53 @@ export function useLiveCommentary() {
             window.clearInterval(promptIntervalRef.current);
         }
 
-        if (!canvasElRef.current) canvasElRef.current = document.createElement('canvas');
-        const canvas = canvasElRef.current;
-        const ctx = canvas.getContext('2d');
+        if (!framePipelineRef.current) framePipelineRef.current = new FramePipeline();
+        const framePipeline = framePipelineRef.current;
+        framePipeline.resetStream();
+        setChangesOnly(assistanceModeRef.current.changesOnly && videoEl.srcObject === screenStreamRef.current);
 
         frameCountRef.current = 0;
-
-        // Calculate frame rate based on urgency level
+        setFrameIssue(null);
+        setFocusRegion(FULL_FRAME);
+        isSceneChangedRef.current = true;
+        isPromptDueRef.current = false;
+        const videoAdaptation = videoAdaptationRef.current;
+        setVideoTier(videoAdaptation.getTier().id);
+
+        // Frame cadence comes from the active mode, speeding up with urgency where the mode asks for it.
+        // Slower video tiers stretch it, except at critical urgency where the next frame may be a hazard
         const getFrameInterval = () => {
-            if (!isNavigationMode) return 1000 / FRAME_RATE; // 2 seconds default
-
-            switch (urgencyLevel) {
-                case 'critical': return 500;   // 0.5 seconds - FASTEST
-                case 'high':     return 1000;  // 1 second
-                case 'medium':   return 1500;  // 1.5 seconds
-                case 'low':      return 2000;  // 2 seconds
-                default:         return 1000 / FRAME_RATE;
+            const interval = getModeFrameInterval(
+                assistanceModeRef.current,
+                urgencyLevelRef.current,
+                liveSettingsRef.current.frameRate
+            );
+            return urgencyLevelRef.current === 'critical' ? interval : interval * videoAdaptation.getTier().intervalScale;
+        };
+
+        // Sample the uplink and step the video tier before each frame
+        const getFrameEncoding = () => {
+            const backlog = liveSessionRef.current?.getBufferedAmount?.();
+            if (backlog !== undefined) videoAdaptation.recordBacklog(backlog);
+            const changed = videoAdaptation.update();
+            if (changed) {
+                console.log(`📶 Video tier: ${changed.id} (up to ${changed.maxWidth}px wide)`);
+                setVideoTier(changed.id);
             }
+            const tier = videoAdaptation.getTier();
+            return {
+                jpegQuality: Math.max(JPEG_QUALITY_RANGE.min, liveSettingsRef.current.jpegQuality * tier.qualityScale),
+                maxWidth: tier.maxWidth
+            };
         };
 
         // Wait for frames to be sent before prompting
         // First prompt after 5 seconds (enough time for several frames to arrive)
         setTimeout(() => {
-            if (liveSessionRef.current && isSessionReady && frameCountRef.current > 0 && !isAudioPlayingRef.current) {
+            if (liveSessionRef.current && isSessionReady && frameCountRef.current > 0 && !isAudioPlayingRef.current && !isCommentaryPausedRef.current) {
                 console.log("Sending initial prompt after frames received");
                 liveSessionRef.current.sendRealtimeInput({ text: "Describe what you see." });
+                replyRequestedAtRef.current ??= performance.now();
             }
         }, 5000);
 
@@ -633,64 +1364,102 @@ export function useLiveCommentary() {
         // to ensure they don't interrupt the AI while speaking
 
         // Dynamic frame rate - adjusts based on urgency
-        const sendFrame = () => {
+        const sendFrame = (forceSend: boolean = false) => {
             if (videoEl.videoWidth === 0 || videoEl.videoHeight === 0 || !isSessionReady) {
                 return;
             }
-            canvas.width = videoEl.videoWidth;
-            canvas.height = videoEl.videoHeight;
-            ctx!.drawImage(videoEl, 0, 0, videoEl.videoWidth, videoEl.videoHeight);
-
-            // Check image quality before sending
-            const imageData = extractImageDataFromVideo(videoEl, canvas);
-            if (imageData) {
-                const quality = analyzeImageQuality(imageData);
-                setImageQuality(quality);
-
-                // If critical image quality issue, play audio cue and log warning
-                if (quality.qualityIssue) {
-                    console.log(`📸 Image quality issue: ${quality.qualityIssue}`);
-                    const orientation = orientationTracker.analyzeOrientation();
-
-                    // Combine image quality and orientation guidance
-                    if (orientation.needsAdjustment && orientation.severity === 'critical') {
-                        console.log(`📱 Orientation issue: ${orientation.message}`);
-                    }
+
+            // Analysis and encoding run in the frame worker; a frame still in flight means this one is dropped.
+            // Frames that look like the last one sent come back without a payload and are not sent
+            framePipeline.capture(videoEl, getFrameEncoding(), forceSend).then(frame => {
+                if (!frame) return;
+                setFrameStats(framePipeline.getStats());
+                if (frame.quality) {
+                    setImageQuality(frame.quality);
+                }
+
+                // Unusable frames are held back and the fix is given on the device, not by the model.
+                // Guidance is about the lens, so a blank screen share is held without it
+                const isCamera = videoEl.srcObject === cameraStreamRef.current;
+                if (isCamera && frame.quality) {
+                    torchControllerRef.current.update(frame.quality).then(isOn => {
+                        if (isOn !== null) setIsTorchOn(isOn);
+                    });
+                }
+                if (frame.gateChange === 'held') {
+                    console.log(`📸 Holding frames back: ${frame.issue} (${frame.quality?.qualityIssue})`);
+                    setFrameIssue(frame.issue);
+                    if (isCamera) announceFrameIssue(frame.issue!);
+                } else if (frame.gateChange === 'resumed') {
+                    console.log('📸 Frame quality recovered, sending again');
+                    setFrameIssue(null);
+                    if (isCamera) audioFeedback.playConfirmation();
+                } else if (frame.isHeld && isCamera && Date.now() - lastFrameIssueCueAtRef.current > FRAME_ISSUE_REPEAT_MS) {
+                    setFrameIssue(frame.issue);
+                    announceFrameIssue(frame.issue!);
+                }
+                if (!hasPayload(frame)) return;
+
+                if (frame.overBudget) {
+                    console.warn(`⏱️ Frame over budget: ${frame.totalMs.toFixed(0)}ms ` +
+                        `(capture ${frame.captureMs.toFixed(0)}ms, analysis ${frame.analyzeMs.toFixed(0)}ms, encode ${frame.encodeMs.toFixed(0)}ms)`);
                 }
-            }
 
-            canvas.toBlob(async (blob) => {
-                if (blob && liveSessionRef.current && isSessionReady) {
-                    const base64Data = (await new Promise<string>(resolve => {
-                        const reader = new FileReader();
-                        reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
-                        reader.readAsDataURL(blob);
-                    }));
-                    if (liveSessionRef.current && isSessionReady) {
-                        frameCountRef.current++;
-                        console.log(`Sending frame ${frameCountRef.current} to AI, size: ${base64Data.length} bytes`);
-                        // Try both video and media to ensure the frame is sent
+                if (liveSessionRef.current && isSessionReady) {
+                    frameCountRef.current++;
+                    const kind = frame.sceneChanged ? 'scene change' : frame.isKeyframe ? 'keyframe' : 'requested';
+                    if (frame.base64 !== null) {
+                        console.log(`Sending frame ${frameCountRef.current} to AI (${kind}), ${frame.width}x${frame.height}, size: ${frame.base64.length} bytes, ${frame.totalMs.toFixed(0)}ms`);
                         liveSessionRef.current.sendRealtimeInput({
-                            video: { mimeType: 'image/jpeg', data: base64Data }
+                            video: { mimeType: 'image/jpeg', data: frame.base64 }
                         });
-                        console.log("Frame sent successfully");
+                    }
+                    // Crops go last, so the detail is the newest frame when Aura answers
+                    frame.crops.forEach(crop => {
+                        console.log(`Sending ${frame.base64 === null ? 'changed area' : 'focus crop'}, ${crop.width}x${crop.height}, size: ${crop.base64.length} bytes`);
+                        liveSessionRef.current!.sendRealtimeInput({
+                            video: { mimeType: 'image/jpeg', data: crop.base64 }
+                        });
+                    });
+
+                    // In changes-only modes every change is announced straight away, apart from the baseline
+                    const isChangesOnly = assistanceModeRef.current.changesOnly && !isCamera;
+                    const isBaseline = isChangesOnly && !isChangeBaselineSentRef.current;
+                    if (isChangesOnly) {
+                        isChangeBaselineSentRef.current = true;
+                        if (frame.base64 === null) {
+                            changedAreasRef.current?.push(...frame.crops.map(crop => crop.area));
+                        } else if (!isBaseline) {
+                            changedAreasRef.current = null;
+                        }
+                    }
+                    if (frame.sceneChanged && !isBaseline) {
+                        isSceneChangedRef.current = true;
+                        // A prompt held back for a still scene goes out as soon as something changes
+                        if (isPromptDueRef.current || isChangesOnly) sendCommentaryPrompt('scene-change');
                     }
                 }
-            }, 'image/jpeg', JPEG_QUALITY);
+            }).catch(error => console.error('Frame capture failed:', error));
 
             // Schedule next frame with dynamic interval
             const nextInterval = getFrameInterval();
-            frameIntervalRef.current = window.setTimeout(sendFrame, nextInterval);
+            frameIntervalRef.current = window.setTimeout(() => sendFrame(), nextInterval);
+        };
+
+        // Lets describeNow skip the wait for the next scheduled frame, and sends it even if nothing changed
+        sendFrameNowRef.current = () => {
+            if (frameIntervalRef.current) window.clearTimeout(frameIntervalRef.current);
+            sendFrame(true);
         };
 
         // Start first frame
         sendFrame();
-    }, [isSessionReady, isNavigationMode, urgencyLevel]);
+    }, [isSessionReady, sendCommentaryPrompt, announceFrameIssue, setChangesOnly]);
 
     const startScreenShare = useCallback(async (videoEl: HTMLVideoElement) => {
         if (!liveSessionRef.current || !isSessionReady) throw new Error("Live session not ready.");
         console.log("Starting screen share...");
-        screenStreamRef.current = await navigator.mediaDevices.getDisplayMedia({
+        screenStreamRef.current = await mediaDevicesRef.current.getDisplayMedia({
             video: {
                 width: { ideal: 1920 },
                 height: { ideal: 1080 }
@@ -704,12 +1473,49 @@ export function useLiveCommentary() {
         startFrameStreaming(videoEl);
     }, [startFrameStreaming, isSessionReady]);
 
+    const refreshCameras = useCallback(async () => {
+        setCameras(await listCameras(mediaDevicesRef.current));
+    }, []);
+
+    /**
+     * Open the chosen camera, or the rear camera by default. A remembered camera
+     * that has gone away is forgotten and the default is used instead.
+     */
+    const openCamera = useCallback(async (): Promise<MediaStream> => {
+        const deviceId = selectedCameraIdRef.current;
+        try {
+            return await mediaDevicesRef.current.getUserMedia({ video: buildCameraConstraints(deviceId) });
+        } catch (e: any) {
+            const isMissing = e?.name === 'OverconstrainedError' || e?.name === 'NotFoundError';
+            if (!deviceId || !isMissing) throw e;
+            console.warn(`Camera ${deviceId} is no longer available, using the rear camera`);
+            saveCameraChoice(null);
+            selectedCameraIdRef.current = null;
+            setSelectedCameraId(null);
+            return mediaDevicesRef.current.getUserMedia({ video: buildCameraConstraints(null) });
+        }
+    }, []);
+
     const startCameraStream = useCallback(async (videoEl: HTMLVideoElement) => {
         if (!liveSessionRef.current || !isSessionReady) throw new Error("Live session not ready.");
-        cameraStreamRef.current = await navigator.mediaDevices.getUserMedia({ video: true });
+        try {
+            cameraStreamRef.current = await openCamera();
+        } catch (e: any) {
+            // Say what went wrong and how to fix it, not just that the camera failed
+            const locale = liveSettingsRef.current.locale;
+            const mediaError = handleMediaError(e instanceof Error ? e : new Error(String(e)), 'camera', locale);
+            setCommentaryStatus(mediaError.userMessage);
+            speakLocally(`${mediaError.userMessage}. ${mediaError.userGuidance}`, true, LOCALES[locale].bcp47);
+            throw e;
+        }
+        cameraVideoElRef.current = videoEl;
         videoEl.srcObject = cameraStreamRef.current;
         await videoEl.play();
         startFrameStreaming(videoEl);
+        torchControllerRef.current.attach(cameraStreamRef.current.getVideoTracks()[0]);
+        console.log("Camera stream obtained:", cameraStreamRef.current.getVideoTracks()[0]?.getSettings());
+        // Labels are only filled in once the user has allowed camera access
+        refreshCameras();
 
         // Initialize orientation tracking and audio feedback
         await orientationTracker.start((orientation) => {
@@ -718,14 +1524,30 @@ export function useLiveCommentary() {
         await audioFeedback.init();
 
         // Check orientation every 2 seconds and provide guidance if needed
+        // While frames are held back, the frame cues already carry the orientation fix
         orientationCheckIntervalRef.current = window.setInterval(() => {
             const guidance = orientationTracker.analyzeOrientation();
-            if (guidance.needsAdjustment && guidance.severity === 'critical') {
+            if (guidance.needsAdjustment && guidance.severity === 'critical' && !framePipelineRef.current?.isHolding()) {
                 audioFeedback.playError();
                 console.log(`⚠️ Orientation issue: ${guidance.message}`);
             }
         }, 2000);
-    }, [startFrameStreaming, isSessionReady]);
+    }, [startFrameStreaming, isSessionReady, openCamera, refreshCameras]);
+
+    /**
+     * Remember the camera for this device and switch to it if the camera is running
+     * @param deviceId - A camera from the list, or null for the rear-camera default
+     */
+    const selectCamera = useCallback(async (deviceId: string | null) => {
+        saveCameraChoice(deviceId);
+        selectedCameraIdRef.current = deviceId;
+        setSelectedCameraId(deviceId);
+        const videoEl = cameraVideoElRef.current;
+        if (cameraStreamRef.current && videoEl) {
+            await stopCameraStream();
+            await startCameraStream(videoEl);
+        }
+    }, [stopCameraStream, startCameraStream]);
 
     const toggleMicMute = useCallback(() => {
         setIsMicMuted(prev => {
@@ -736,25 +1558,157 @@ export function useLiveCommentary() {
         });
     }, []);
 
-    const toggleNavigationMode = useCallback(() => {
-        setIsNavigationMode(prev => {
-            const newMode = !prev;
-            console.log("Navigation mode:", newMode ? "ON" : "OFF");
+    // Push-to-talk from the key, the on-screen button or a headset button
+    const pressToTalk = useCallback(() => {
+        applyMicGateChange(micGateRef.current.press());
+    }, [applyMicGateChange]);
+
+    const releaseToTalk = useCallback(() => {
+        applyMicGateChange(micGateRef.current.release());
+    }, [applyMicGateChange]);
+
+    const togglePushToTalk = useCallback(() => {
+        applyMicGateChange(micGateRef.current.toggle());
+    }, [applyMicGateChange]);
+
+    /**
+     * Record one sample of the wake word from the live microphone.
+     * Resolves false if nothing usable was heard in time.
+     */
+    const recordWakeWordSample = useCallback(async (): Promise<boolean> => {
+        const node = audioWorkletNodeRef.current;
+        if (!node || finishWakeWordRecordingRef.current) return false;
+
+        console.log("🗣️ Recording a wake word sample...");
+        const sample = await new Promise<WakeWordSample | null>(resolve => {
+            const timer = window.setTimeout(() => {
+                node.port.postMessage({ type: 'enroll', active: false });
+                finish(null);
+            }, WAKE_WORD_RECORD_TIMEOUT_MS);
+            const finish = (result: WakeWordSample | null) => {
+                window.clearTimeout(timer);
+                finishWakeWordRecordingRef.current = null;
+                resolve(result);
+            };
+            finishWakeWordRecordingRef.current = finish;
+            node.port.postMessage({ type: 'enroll', active: true });
+        });
+
+        await audioFeedback.init();
+        if (!sample) {
+            audioFeedback.playError();
+            return false;
+        }
+        audioFeedback.playConfirmation();
+        const samples = saveWakeWordSamples([...wakeWordSamplesRef.current, sample]);
+        wakeWordSamplesRef.current = samples;
+        setWakeWordSamples(samples);
+        return true;
+    }, []);
 
-            // Send prompt update to AI
-            if (liveSessionRef.current) {
-                const instruction = newMode ?
-                    `You are now in NAVIGATION MODE. Switch to giving SHORT, CLEAR walking directions (3-5 words max). Examples: "Clear ahead", "Stop. Stairs down", "Turn left. Door ahead". Call hazards immediately. Be brief and direct.` :
-                    `You are now in NORMAL MODE. Return to detailed descriptions and conversational responses. Describe what you see fully.`;
+    const forgetWakeWord = useCallback(() => {
+        clearWakeWordSamples();
+        wakeWordSamplesRef.current = [];
+        setWakeWordSamples([]);
+        console.log("🗣️ Wake word samples cleared");
+    }, []);
 
-                liveSessionRef.current.sendRealtimeInput({ text: instruction });
+    const changeAssistanceMode = useCallback((id: AssistanceModeId) => {
+        applyAssistanceMode(ASSISTANCE_MODES[id], true);
+    }, [applyAssistanceMode]);
+
+    const changeVerbosity = useCallback((level: Verbosity) => {
+        applyVerbosity(level);
+        sendModeInstructions();
+    }, [applyVerbosity, sendModeInstructions]);
+
+    /**
+     * One step faster or slower from the keyboard; an error sound at either end of the range
+     */
+    const changeSpeechRate = useCallback((direction: 1 | -1) => {
+        const current = liveSettingsRef.current.speechRate;
+        const rate = stepSpeechRate(current, direction);
+        if (rate === current) {
+            audioFeedback.playError();
+            return;
+        }
+        applySpeechRate(rate);
+        audioFeedback.playConfirmation();
+        setCommentaryStatus(t('status.speechRate', { rate: formatSpeechRate(rate) }));
+    }, [applySpeechRate, t]);
+
+    const changeFocusRegion = useCallback((region: FocusRegion) => {
+        applyFocusRegion(region, true);
+    }, [applyFocusRegion]);
+
+    const toggleCommentaryPaused = useCallback(() => {
+        const paused = !isCommentaryPausedRef.current;
+        applyCommentaryPaused(paused);
+        if (!paused) {
+            const mode = assistanceModeRef.current;
+            setCommentaryStatus(mode.id === 'normal' ? t('status.ready') : t(`mode.${mode.id}.status`));
+            if (sendFrameNowRef.current && liveSessionRef.current) {
+                sendFrameNowRef.current();
+                liveSessionRef.current.sendRealtimeInput({ text: "Describe what you see now." });
+                replyRequestedAtRef.current ??= performance.now();
             }
+        }
+    }, [applyCommentaryPaused, t]);
+
+    /**
+     * Validate and remember new settings; returns the problems if they were rejected
+     */
+    const updateLiveSettings = useCallback((settings: LiveSettings): SettingsError[] => {
+        const errors = validateLiveSettings(settings);
+        if (errors.length > 0) {
+            return errors;
+        }
+        saveLiveSettings(settings);
+        liveSettingsRef.current = settings;
+        setLiveSettings(settings);
+        return [];
+    }, []);
 
-            setCommentaryStatus(newMode ? "🧭 Navigation Mode" : "🎙️ Normal Mode");
-            return newMode;
-        });
+    // A new tier range applies to the next frame
+    useEffect(() => {
+        videoAdaptationRef.current.setRange(liveSettings.videoTierRange);
+        setVideoTier(tier => tier === null ? null : videoAdaptationRef.current.getTier().id);
+    }, [liveSettings.videoTierRange]);
+
+    // Barge-in sensitivity applies to the next microphone chunk
+    useEffect(() => {
+        vadRef.current!.setSensitivity(liveSettings.bargeInSensitivity);
+    }, [liveSettings.bargeInSensitivity]);
+
+    // The speaking rate applies to audio already queued as well as what comes next
+    useEffect(() => {
+        retimeScheduledAudio(liveSettings.speechRate);
+    }, [liveSettings.speechRate, retimeScheduledAudio]);
+
+    // Hazard sound settings apply straight away, including mid-session
+    useEffect(() => {
+        audioFeedback.configure(liveSettings.hazardAudio, liveSettings.audioBalance);
+    }, [liveSettings.hazardAudio, liveSettings.audioBalance]);
+
+    // The input mode applies straight away. Without enough wake word samples the mic
+    // stays closed behind push-to-talk rather than falling back to an open mic
+    const inputMode: InputMode = liveSettings.inputMode === 'wake-word' && !hasWakeWord(wakeWordSamples) ? 'push-to-talk' : liveSettings.inputMode;
+    useEffect(() => {
+        applyMicGateChange(micGateRef.current.setMode(inputMode));
+        configureWakeWord(inputMode, wakeWordSamples);
+    }, [inputMode, wakeWordSamples, applyMicGateChange, configureWakeWord]);
+
+    // Never leave the proximity loop beeping or the frame worker running after the app goes away
+    useEffect(() => () => {
+        audioFeedback.stopProximity();
+        framePipelineRef.current?.dispose();
+        framePipelineRef.current = null;
     }, []);
 
+    useEffect(() => {
+        refreshCameras();
+    }, [refreshCameras]);
+
     // Sync ref with state on mount
     useEffect(() => {
         isMicMutedRef.current = isMicMuted;
@@ -765,18 +1719,45 @@ export function useLiveCommentary() {
         isSessionReady,
         isMicMuted,
         chatMessages,
-        isNavigationMode,
+        assistanceMode,
+        isRecording,
+        verbosity,
+        isCommentaryPaused,
         detectedDistance,
         urgencyLevel,
+        lastHazard,
+        liveSettings,
         deviceOrientation,
         imageQuality,
+        cameras,
+        selectedCameraId,
+        isTorchOn,
+        frameStats,
+        frameIssue,
+        videoTier,
+        focusRegion,
+        inputMode,
+        isMicGateOpen,
+        wakeWordSampleCount: wakeWordSamples.length,
         initLiveSession,
         startScreenShare,
         stopScreenShare,
         startCameraStream,
         stopCameraStream,
+        selectCamera,
         stopLiveSession,
         toggleMicMute,
-        toggleNavigationMode
+        changeAssistanceMode,
+        changeVerbosity,
+        changeFocusRegion,
+        changeSpeechRate,
+        pressToTalk,
+        releaseToTalk,
+        togglePushToTalk,
+        recordWakeWordSample,
+        forgetWakeWord,
+        toggleCommentaryPaused,
+        toggleRecording,
+        updateLiveSettings
     };
 }
\ No newline at end of file
@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect } from 'react';
+
+// Headset buttons reach the page as media keys or Media Session actions, depending on the browser.
+// 'togglemicrophone' is newer than the DOM typings
+const HEADSET_ACTIONS = ['play', 'pause', 'togglemicrophone'] as MediaSessionAction[];
+
+/**
+ * Space is left alone in fields and on controls, where it types or presses the control
+ */
+function isControlTarget(target: EventTarget | null): boolean {
+    return target instanceof HTMLElement &&
+        (target.isContentEditable || target.closest('input, select, textarea, button, [role="button"]') !== null);
+}
+
+/**
+ * Push-to-talk from the keyboard and headsets while enabled: hold Space, or
+ * press a headset's play/pause or microphone button once to talk and again to stop
+ */
+export function usePushToTalkKeys(isEnabled: boolean, onPress: () => void, onRelease: () => void, onToggle: () => void) {
+    useEffect(() => {
+        if (!isEnabled) return;
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.code === 'Space' && !e.repeat && !isControlTarget(e.target)) {
+                e.preventDefault();
+                onPress();
+            } else if (e.key === 'MediaPlayPause') {
+                e.preventDefault();
+                onToggle();
+            }
+        };
+        const handleKeyUp = (e: KeyboardEvent) => {
+            if (e.code === 'Space' && !isControlTarget(e.target)) {
+                e.preventDefault();
+                onRelease();
+            }
+        };
+        // A key released in another window never sends keyup here
+        const handleBlur = () => onRelease();
+
+        window.addEventListener('keydown', handleKeyDown);
+        window.addEventListener('keyup', handleKeyUp);
+        window.addEventListener('blur', handleBlur);
+        for (const action of HEADSET_ACTIONS) {
+            try {
+                navigator.mediaSession?.setActionHandler(action, onToggle);
+            } catch {
+                // Not supported by this browser
+            }
+        }
+
+        return () => {
+            window.removeEventListener('keydown', handleKeyDown);
+            window.removeEventListener('keyup', handleKeyUp);
+            window.removeEventListener('blur', handleBlur);
+            for (const action of HEADSET_ACTIONS) {
+                try {
+                    navigator.mediaSession?.setActionHandler(action, null);
+                } catch {
+                    // Not supported by this browser
+                }
+            }
+        };
+    }, [isEnabled, onPress, onRelease, onToggle]);
+}
@@ -0,0 +1,33 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect } from 'react';
+
+/**
+ * Only fields take typed characters; on buttons and elsewhere the keys are free
+ */
+function isTextTarget(target: EventTarget | null): boolean {
+    return target instanceof HTMLElement &&
+        (target.isContentEditable || target.closest('input, select, textarea') !== null);
+}
+
+/**
+ * Aura's speaking rate from the keyboard while enabled: > for faster and < for slower,
+ * the keys media players use (Shift with full stop and comma on most layouts)
+ */
+export function useSpeechRateKeys(isEnabled: boolean, onChange: (direction: 1 | -1) => void) {
+    useEffect(() => {
+        if (!isEnabled) return;
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if ((e.key !== '>' && e.key !== '<') || e.ctrlKey || e.metaKey || e.altKey || isTextTarget(e.target)) return;
+            e.preventDefault();
+            onChange(e.key === '>' ? 1 : -1);
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [isEnabled, onChange]);
+}
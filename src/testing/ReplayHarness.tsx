@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useRef, useState } from 'react';
+import { useLiveCommentary } from '../hooks/useLiveCommentary';
+import { parseSessionArchive, type SessionArchive } from '../utils/sessionRecorder';
+import ChatInterface from '../components/ChatInterface';
+import { createTranslator } from '../utils/translations';
+import { ReplayTransport } from './replayTransport';
+import { SyntheticMediaDevices } from './syntheticMedia';
+
+interface ReplayPlayerProps {
+    archive: SessionArchive;
+}
+
+/**
+ * Voice of the first recorded connection, so the replay asks for the same one
+ */
+function getRecordedVoice(archive: SessionArchive): string {
+    const connect = archive.events.find(event => event.kind === 'connect');
+    return connect?.payload?.config?.speechConfig?.voiceConfig?.prebuiltVoiceConfig?.voiceName ?? 'Zephyr';
+}
+
+/**
+ * Feeds one archive through the hook with a silent synthetic mic, using the
+ * settings it was recorded with (older archives fall back to this device's)
+ */
+const ReplayPlayer: React.FC<ReplayPlayerProps> = ({ archive }) => {
+    const transportRef = useRef<ReplayTransport | null>(null);
+    const mediaRef = useRef<SyntheticMediaDevices | null>(null);
+    if (!transportRef.current) transportRef.current = new ReplayTransport(archive);
+    if (!mediaRef.current) mediaRef.current = new SyntheticMediaDevices();
+
+    const commentary = useLiveCommentary({
+        transport: transportRef.current,
+        mediaDevices: mediaRef.current,
+        settings: archive.settings
+    });
+    const [hasStarted, setHasStarted] = useState(false);
+
+    const handlePlay = async () => {
+        // Started from a click so the audio contexts are allowed to run
+        setHasStarted(true);
+        try {
+            await commentary.initLiveSession(getRecordedVoice(archive));
+        } catch (e) {
+            console.error('Replay failed to start:', e);
+        }
+    };
+
+    return (
+        <>
+            <p>
+                Recorded {new Date(archive.recordedAt).toLocaleString()}, {archive.events.length} events,
+                {' '}{(archive.durationMs / 1000).toFixed(1)}s
+            </p>
+            <button className="control-button active" onClick={handlePlay} disabled={hasStarted}>
+                <span className="material-symbols-outlined">play_arrow</span>
+                Replay
+            </button>
+            <p role="status" aria-live="polite">
+                AI Status: {commentary.commentaryStatus || 'Idle'}
+                {commentary.detectedDistance !== null && ` | Distance ${commentary.detectedDistance.toFixed(1)}m (${commentary.urgencyLevel})`}
+            </p>
+            {commentary.chatMessages.length > 0 && (
+                <ChatInterface
+                    messages={commentary.chatMessages}
+                    isListening={false}
+                    t={createTranslator(commentary.liveSettings.locale)}
+                />
+            )}
+        </>
+    );
+};
+
+/**
+ * Loads a recorded session archive and replays its server traffic.
+ * Open the app with `?replay` to use it.
+ */
+const ReplayHarness: React.FC = () => {
+    const [archive, setArchive] = useState<SessionArchive | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        try {
+            setArchive(parseSessionArchive(await file.text()));
+            setError(null);
+        } catch (err: any) {
+            setArchive(null);
+            setError(err?.message ?? 'Could not read archive');
+        }
+    };
+
+    return (
+        <div className="instructions" role="region" aria-label="Session replay">
+            <h2>Replay a recorded session</h2>
+            <label htmlFor="replay-file">Session archive (.json)</label>
+            <input id="replay-file" type="file" accept="application/json,.json" onChange={handleFile} />
+            {error && <p role="alert">{error}</p>}
+            {archive && <ReplayPlayer key={archive.recordedAt} archive={archive} />}
+        </div>
+    );
+};
+
+export default ReplayHarness;
@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useLiveCommentary } from '../hooks/useLiveCommentary';
+import { DEFAULT_LIVE_SETTINGS } from '../utils/liveSettings';
+import { MockLiveServer } from './mockLiveServer';
+import { SyntheticMediaDevices } from './syntheticMedia';
+import { SCENARIOS, runScenario, type ScenarioResult } from './scenarios';
+
+interface ScenarioHarnessProps {
+    scenarioName: string;
+}
+
+/**
+ * Runs one offline scenario against the mock Live server.
+ * Open the app with `?scenario=<name>`; the outcome is rendered, logged and
+ * published on `window.__scenarioResult` for headless browsers to collect.
+ */
+const ScenarioHarness: React.FC<ScenarioHarnessProps> = ({ scenarioName }) => {
+    const scenario = SCENARIOS.find(s => s.name === scenarioName);
+    const serverRef = useRef<MockLiveServer | null>(null);
+    const mediaRef = useRef<SyntheticMediaDevices | null>(null);
+    if (!serverRef.current) serverRef.current = new MockLiveServer(scenario?.serverOptions);
+    if (!mediaRef.current) mediaRef.current = new SyntheticMediaDevices();
+
+    const commentary = useLiveCommentary({
+        transport: serverRef.current,
+        mediaDevices: mediaRef.current,
+        settings: { ...DEFAULT_LIVE_SETTINGS, locale: 'en', unitSystem: 'metric', ...scenario?.settings }
+    });
+    const commentaryRef = useRef(commentary);
+    commentaryRef.current = commentary;
+
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const hasStartedRef = useRef(false); // StrictMode runs effects twice
+    const [result, setResult] = useState<ScenarioResult | null>(null);
+
+    useEffect(() => {
+        if (!scenario || !videoRef.current || hasStartedRef.current) return;
+        hasStartedRef.current = true;
+
+        console.log(`▶️ Running scenario "${scenario.name}": ${scenario.description}`);
+        runScenario(scenario, {
+            server: serverRef.current!,
+            media: mediaRef.current!,
+            videoEl: videoRef.current,
+            commentary: () => commentaryRef.current
+        }).then(async (outcome) => {
+            await mediaRef.current?.dispose();
+            console.log(`${outcome.passed ? '✅ SCENARIO PASS' : '❌ SCENARIO FAIL'}: ${outcome.name}`, outcome);
+            (window as any).__scenarioResult = outcome;
+            setResult(outcome);
+        });
+    }, [scenario]);
+
+    if (!scenario) {
+        return (
+            <div className="instructions" role="alert">
+                <h2>Unknown scenario "{scenarioName}"</h2>
+                <p>Available: {SCENARIOS.map(s => s.name).join(', ')}</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="instructions" role="region" aria-label="Scenario run">
+            <h2>Scenario: {scenario.name}</h2>
+            <p>{scenario.description}</p>
+            <video ref={videoRef} muted autoPlay playsInline width={320} />
+            <p role="status" aria-live="polite">
+                {result === null
+                    ? `Running... AI Status: ${commentary.commentaryStatus || 'Idle'}`
+                    : result.passed
+                        ? `PASS in ${result.durationMs}ms`
+                        : `FAIL: ${result.error}`}
+            </p>
+            {result && <pre>{JSON.stringify(result.stats, null, 2)}</pre>}
+        </div>
+    );
+};
+
+export default ScenarioHarness;
@@ -0,0 +1,318 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {
+    LiveConnectParameters,
+    LiveSendClientContentParameters,
+    LiveSendRealtimeInputParameters,
+    LiveSendToolResponseParameters,
+    LiveServerMessage
+} from "@google/genai";
+import { decode, encode } from '../utils/audioUtils';
+import type { LiveTransport, LiveTransportSession } from '../utils/liveTransport';
+
+/**
+ * A scripted model reply streamed back as `serverContent` chunks
+ */
+export interface MockReply {
+    text?: string;      // Text part attached to the first chunk
+    audioMs?: number;   // Length of synthetic speech audio to stream
+}
+
+export interface MockLiveServerOptions {
+    replyTo?: (prompt: string) => MockReply | null; // Decide how to answer a text prompt
+    latencyMs?: number;          // Delay before the first reply chunk
+    chunkMs?: number;            // Audio duration carried by each chunk
+    chunkIntervalMs?: number;    // Delay between chunks (below chunkMs builds a playback backlog)
+    bargeInThreshold?: number;   // Mic RMS that counts as the user talking over a reply
+}
+
+export interface MockLiveServerStats {
+    connections: number;
+    resumedConnections: number;
+    prompts: string[];
+    frames: number;
+    micChunks: number;
+    audioStreamEnds: number;
+    toolResponses: number;
+    turnsCompleted: number;
+    interruptions: number;
+}
+
+const OUTPUT_SAMPLE_RATE = 24000;
+
+/**
+ * In-process stand-in for the Gemini Live API.
+ * Speaks the same message shapes (`setupComplete`, `serverContent` with
+ * audio/text parts, `interrupted`, `turnComplete`, `sessionResumptionUpdate`,
+ * `goAway`) so the hook can be exercised without a key or network.
+ */
+export class MockLiveServer implements LiveTransport {
+    private options: Required<MockLiveServerOptions>;
+    private callbacks: LiveConnectParameters['callbacks'] | null = null;
+    private isOpen: boolean = false;
+    private wantsResumption: boolean = false;
+    private wantsTranscription: boolean = false;
+    private replyTimer: number | null = null;
+    private isReplying: boolean = false;
+    private handleCounter: number = 0;
+    private uplinkBacklogBytes: number = 0;
+
+    readonly stats: MockLiveServerStats = {
+        connections: 0,
+        resumedConnections: 0,
+        prompts: [],
+        frames: 0,
+        micChunks: 0,
+        audioStreamEnds: 0,
+        toolResponses: 0,
+        turnsCompleted: 0,
+        interruptions: 0
+    };
+
+    constructor(options: MockLiveServerOptions = {}) {
+        this.options = {
+            replyTo: options.replyTo ?? (() => ({ text: 'I can see a test pattern.', audioMs: 1200 })),
+            latencyMs: options.latencyMs ?? 150,
+            chunkMs: options.chunkMs ?? 200,
+            chunkIntervalMs: options.chunkIntervalMs ?? 80,
+            bargeInThreshold: options.bargeInThreshold ?? 0.02
+        };
+    }
+
+    /**
+     * Open a mock session, mirroring `ai.live.connect`
+     */
+    async connect(params: LiveConnectParameters): Promise<LiveTransportSession> {
+        this.callbacks = params.callbacks;
+        this.isOpen = true;
+        this.stats.connections++;
+        this.wantsResumption = params.config?.sessionResumption !== undefined;
+        this.wantsTranscription = params.config?.outputAudioTranscription !== undefined;
+        if (params.config?.sessionResumption?.handle) {
+            this.stats.resumedConnections++;
+        }
+
+        this.callbacks.onopen?.();
+        this.emit({ setupComplete: {} });
+
+        return {
+            sendRealtimeInput: (input) => this.handleRealtimeInput(input),
+            sendClientContent: (content) => this.handleClientContent(content),
+            sendToolResponse: (response) => this.handleToolResponse(response),
+            close: () => this.drop(1000, 'Client closed'),
+            getBufferedAmount: () => this.uplinkBacklogBytes
+        };
+    }
+
+    /**
+     * Pretend the client's socket has this many bytes waiting to go out, as on a congested uplink
+     */
+    setUplinkBacklog(bytes: number): void {
+        this.uplinkBacklogBytes = bytes;
+    }
+
+    /**
+     * Whether a reply is currently being streamed
+     */
+    isStreamingReply(): boolean {
+        return this.isReplying;
+    }
+
+    /**
+     * Push an arbitrary server message, e.g. a hand-written `toolCall`
+     */
+    emit(message: object): void {
+        if (!this.isOpen || !this.callbacks) {
+            return;
+        }
+        this.callbacks.onmessage(message as LiveServerMessage);
+    }
+
+    /**
+     * Stream an input transcript as if the user had spoken, then let the model answer
+     */
+    userSays(text: string): void {
+        splitWords(text, 3).forEach(fragment => {
+            this.emit({ serverContent: { inputTranscription: { text: fragment } } });
+        });
+        this.handlePrompt(text);
+    }
+
+    /**
+     * Stream a reply as if the model had decided to speak
+     */
+    reply(reply: MockReply): void {
+        this.cancelReply();
+        this.isReplying = true;
+
+        const chunkCount = Math.max(1, Math.ceil((reply.audioMs ?? 0) / this.options.chunkMs));
+        const transcript = this.wantsTranscription && reply.text ? splitWords(reply.text, chunkCount) : [];
+        let sent = 0;
+
+        const sendChunk = () => {
+            if (!this.isReplying) return;
+
+            // The transcript streams alongside the audio, ahead of it like the real server
+            if (transcript[sent]) {
+                this.emit({ serverContent: { outputTranscription: { text: transcript[sent] } } });
+            }
+
+            const parts: object[] = [];
+            if (sent === 0 && reply.text) {
+                parts.push({ text: reply.text });
+            }
+            if (reply.audioMs) {
+                parts.push({
+                    inlineData: {
+                        mimeType: `audio/pcm;rate=${OUTPUT_SAMPLE_RATE}`,
+                        data: synthesizeSpeechChunk(this.options.chunkMs, sent)
+                    }
+                });
+            }
+            this.emit({ serverContent: { modelTurn: { role: 'model', parts } } });
+            sent++;
+
+            if (sent < chunkCount) {
+                this.replyTimer = window.setTimeout(sendChunk, this.options.chunkIntervalMs);
+            } else {
+                this.finishTurn();
+            }
+        };
+
+        this.replyTimer = window.setTimeout(sendChunk, this.options.latencyMs);
+    }
+
+    /**
+     * Tell the client the server is about to disconnect
+     */
+    sendGoAway(timeLeft: string = '5s'): void {
+        this.emit({ goAway: { timeLeft } });
+    }
+
+    /**
+     * Simulate a dropped socket with the given close code
+     */
+    drop(code: number = 1006, reason: string = 'Simulated network drop'): void {
+        if (!this.isOpen) return;
+        this.cancelReply();
+        this.isOpen = false;
+        const callbacks = this.callbacks;
+        this.callbacks = null;
+        callbacks?.onclose?.({ code, reason, wasClean: code === 1000, type: 'close' } as CloseEvent);
+    }
+
+    private handleRealtimeInput(input: LiveSendRealtimeInputParameters): void {
+        if (!this.isOpen) return;
+
+        if (input.text) {
+            this.handlePrompt(input.text);
+        }
+        if (input.video || input.media) {
+            this.stats.frames++;
+        }
+        if (input.audio?.data) {
+            this.stats.micChunks++;
+            if (this.isReplying && pcmRms(input.audio.data) > this.options.bargeInThreshold) {
+                // Server-side voice activity: the user talked over the model
+                this.cancelReply();
+                this.stats.interruptions++;
+                this.emit({ serverContent: { interrupted: true } });
+            }
+        }
+        if (input.audioStreamEnd) {
+            this.stats.audioStreamEnds++;
+        }
+    }
+
+    private handleClientContent(content: LiveSendClientContentParameters): void {
+        if (!this.isOpen) return;
+        const turns = Array.isArray(content.turns) ? content.turns : [content.turns];
+        const text = turns
+            .map((turn: any) => typeof turn === 'string' ? turn : turn?.parts?.map((p: any) => p.text ?? '').join(' '))
+            .filter(Boolean)
+            .join(' ');
+        if (text) {
+            this.handlePrompt(text);
+        }
+    }
+
+    private handleToolResponse(_response: LiveSendToolResponseParameters): void {
+        if (!this.isOpen) return;
+        this.stats.toolResponses++;
+    }
+
+    private handlePrompt(prompt: string): void {
+        this.stats.prompts.push(prompt);
+        const reply = this.options.replyTo(prompt);
+        if (reply) {
+            this.reply(reply);
+        }
+    }
+
+    private finishTurn(): void {
+        this.isReplying = false;
+        this.replyTimer = null;
+        this.stats.turnsCompleted++;
+        this.emit({ serverContent: { turnComplete: true } });
+
+        if (this.wantsResumption) {
+            this.handleCounter++;
+            this.emit({ sessionResumptionUpdate: { newHandle: `mock-handle-${this.handleCounter}`, resumable: true } });
+        }
+    }
+
+    private cancelReply(): void {
+        if (this.replyTimer) {
+            window.clearTimeout(this.replyTimer);
+            this.replyTimer = null;
+        }
+        this.isReplying = false;
+    }
+}
+
+/**
+ * Split text into roughly equal word groups, keeping the leading spaces transcripts carry
+ */
+function splitWords(text: string, groups: number): string[] {
+    const words = text.split(' ');
+    const size = Math.ceil(words.length / Math.max(1, groups));
+    const fragments: string[] = [];
+    for (let i = 0; i < words.length; i += size) {
+        fragments.push((i === 0 ? '' : ' ') + words.slice(i, i + size).join(' '));
+    }
+    return fragments;
+}
+
+/**
+ * Generate a base64 chunk of 24kHz 16-bit PCM that sounds vaguely voice-like
+ */
+function synthesizeSpeechChunk(durationMs: number, chunkIndex: number): string {
+    const sampleCount = Math.round(OUTPUT_SAMPLE_RATE * durationMs / 1000);
+    const samples = new Int16Array(sampleCount);
+    const offset = chunkIndex * sampleCount;
+    for (let i = 0; i < sampleCount; i++) {
+        const t = (offset + i) / OUTPUT_SAMPLE_RATE;
+        const syllable = 0.5 + 0.5 * Math.sin(2 * Math.PI * 4 * t); // ~4 syllables per second
+        const voice = Math.sin(2 * Math.PI * 180 * t) + 0.4 * Math.sin(2 * Math.PI * 360 * t);
+        samples[i] = Math.round(voice * syllable * 0.25 * 0x7FFF);
+    }
+    return encode(new Uint8Array(samples.buffer));
+}
+
+/**
+ * RMS energy of a base64 16-bit PCM chunk, normalised to 0-1
+ */
+function pcmRms(base64: string): number {
+    const bytes = decode(base64);
+    const samples = new Int16Array(bytes.buffer, 0, Math.floor(bytes.length / 2));
+    if (samples.length === 0) return 0;
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) {
+        const normalized = samples[i] / 32768.0;
+        sum += normalized * normalized;
+    }
+    return Math.sqrt(sum / samples.length);
+}
@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { LiveConnectParameters, LiveServerMessage } from "@google/genai";
+import type { LiveTransport, LiveTransportSession } from '../utils/liveTransport';
+import type { RecordedEvent, SessionArchive } from '../utils/sessionRecorder';
+
+/**
+ * Plays a recorded session back through the hook. Each `connect` consumes the
+ * next recorded connection and re-delivers its server messages (and its close,
+ * if one was recorded) at the original offsets. Outgoing traffic is ignored.
+ */
+export class ReplayTransport implements LiveTransport {
+    private segments: RecordedEvent[][];
+    private nextSegment: number = 0;
+    private timers: number[] = [];
+
+    constructor(archive: SessionArchive) {
+        this.segments = [];
+        archive.events.forEach(event => {
+            (this.segments[event.connection] ??= []).push(event);
+        });
+        this.segments = this.segments.filter(Boolean);
+    }
+
+    /**
+     * Number of recorded connections left to replay
+     */
+    remainingConnections(): number {
+        return this.segments.length - this.nextSegment;
+    }
+
+    async connect(params: LiveConnectParameters): Promise<LiveTransportSession> {
+        const segment = this.segments[this.nextSegment++];
+        if (!segment) {
+            throw new Error('Replay has no more recorded connections');
+        }
+
+        const { callbacks } = params;
+        let isOpen = true;
+        const origin = segment[0].t;
+        console.log(`⏯️ Replaying connection ${this.nextSegment}/${this.segments.length}: ${segment.length} events`);
+
+        callbacks.onopen?.();
+
+        segment.forEach(event => {
+            const delay = event.t - origin;
+            if (event.direction === 'in' && event.kind === 'message') {
+                this.schedule(delay, () => {
+                    if (isOpen) callbacks.onmessage(event.payload as LiveServerMessage);
+                });
+            } else if (event.kind === 'close') {
+                this.schedule(delay, () => {
+                    if (!isOpen) return;
+                    isOpen = false;
+                    callbacks.onclose?.({ code: event.payload?.code ?? 1000, reason: event.payload?.reason ?? '' } as CloseEvent);
+                });
+            }
+        });
+
+        return {
+            sendRealtimeInput: () => { /* Replay ignores client input */ },
+            sendClientContent: () => { /* Replay ignores client input */ },
+            sendToolResponse: () => { /* Replay ignores client input */ },
+            close: () => {
+                if (!isOpen) return;
+                isOpen = false;
+                this.cancel();
+                callbacks.onclose?.({ code: 1000, reason: 'Replay stopped' } as CloseEvent);
+            }
+        };
+    }
+
+    /**
+     * Cancel any pending replayed events
+     */
+    cancel(): void {
+        this.timers.forEach(id => window.clearTimeout(id));
+        this.timers = [];
+    }
+
+    private schedule(delayMs: number, fn: () => void): void {
+        this.timers.push(window.setTimeout(fn, Math.max(0, delayMs)));
+    }
+}
@@ -0,0 +1,554 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { useLiveCommentary } from '../hooks/useLiveCommentary';
+import type { LiveSettings } from '../utils/liveSettings';
+import { translate } from '../utils/translations';
+import { audioFeedback } from '../utils/audioFeedback';
+import type { MockLiveServer, MockLiveServerOptions, MockLiveServerStats } from './mockLiveServer';
+import type { SyntheticMediaDevices } from './syntheticMedia';
+
+export type LiveCommentaryState = ReturnType<typeof useLiveCommentary>;
+
+export interface ScenarioContext {
+    server: MockLiveServer;
+    media: SyntheticMediaDevices;
+    videoEl: HTMLVideoElement;
+    commentary: () => LiveCommentaryState; // Hook state from the latest render
+}
+
+export interface Scenario {
+    name: string;
+    description: string;
+    serverOptions?: MockLiveServerOptions;
+    settings?: Partial<LiveSettings>;   // On top of the defaults in English and meters; stored settings are never used
+    run(ctx: ScenarioContext): Promise<void>;
+}
+
+export interface ScenarioResult {
+    name: string;
+    passed: boolean;
+    error: string | null;
+    durationMs: number;
+    stats: MockLiveServerStats;
+}
+
+const wait = (ms: number) => new Promise<void>(resolve => window.setTimeout(resolve, ms));
+
+/**
+ * Poll until the predicate holds, failing the scenario after the timeout
+ */
+async function waitFor(predicate: () => boolean, description: string, timeoutMs: number = 5000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (!predicate()) {
+        if (Date.now() > deadline) {
+            throw new Error(`Timed out after ${timeoutMs}ms waiting for: ${description}`);
+        }
+        await wait(50);
+    }
+}
+
+function expect(condition: boolean, message: string): void {
+    if (!condition) {
+        throw new Error(`Expectation failed: ${message}`);
+    }
+}
+
+async function startSession(ctx: ScenarioContext): Promise<void> {
+    await ctx.commentary().initLiveSession('Zephyr');
+    await waitFor(() => ctx.commentary().isSessionReady, 'session ready');
+}
+
+export const SCENARIOS: Scenario[] = [
+    {
+        name: 'barge-in',
+        description: 'User speech during a long reply interrupts the model and clears playback',
+        serverOptions: {
+            replyTo: () => ({ text: 'This is a long description that the user will cut off.', audioMs: 6000 })
+        },
+        async run(ctx) {
+            await startSession(ctx);
+            await waitFor(() => ctx.server.isStreamingReply(), 'welcome reply streaming');
+            await waitFor(() => ctx.commentary().commentaryStatus.includes('Speaking'), 'playback started');
+
+            ctx.media.speak(800);
+            await waitFor(() => ctx.server.stats.interruptions > 0, 'server interruption');
+            await wait(300);
+
+            expect(ctx.server.stats.micChunks > 0, 'microphone PCM reached the server');
+            expect(!ctx.commentary().commentaryStatus.includes('Speaking'), 'local playback stopped after barge-in');
+            expect(
+                ctx.commentary().chatMessages.some(m => m.type === 'ai' && m.status === 'interrupted'),
+                'cut-off reply marked interrupted in the conversation log'
+            );
+        }
+    },
+    {
+        name: 'push-to-talk',
+        description: 'With push-to-talk, chatter is neither sent nor barges in; pressing interrupts Aura and releasing ends the audio stream',
+        settings: { inputMode: 'push-to-talk' },
+        serverOptions: {
+            replyTo: () => ({ text: 'This is a long description that chatter must not cut off.', audioMs: 6000 })
+        },
+        async run(ctx) {
+            await startSession(ctx);
+            await waitFor(() => ctx.commentary().commentaryStatus.includes('Speaking'), 'playback started');
+
+            ctx.media.speak(800);
+            await wait(1200);
+            expect(ctx.server.stats.micChunks === 0, 'nothing sent while the button is up');
+            expect(ctx.commentary().commentaryStatus.includes('Speaking'), 'chatter did not barge in');
+
+            ctx.commentary().pressToTalk();
+            await waitFor(() => !ctx.commentary().commentaryStatus.includes('Speaking'), 'pressing interrupts playback');
+            ctx.media.speak(600);
+            await waitFor(() => ctx.server.stats.micChunks > 0, 'microphone sent while held');
+
+            ctx.commentary().releaseToTalk();
+            await waitFor(() => ctx.server.stats.audioStreamEnds === 1, 'audio stream ended after release');
+            const sent = ctx.server.stats.micChunks;
+            await wait(500);
+            expect(ctx.server.stats.micChunks === sent, 'nothing sent after the release tail');
+        }
+    },
+    {
+        name: 'message-queue',
+        description: 'A burst of audio chunks plays back-to-back without overlap or loss',
+        serverOptions: {
+            chunkMs: 100,
+            chunkIntervalMs: 5,
+            replyTo: () => ({ text: 'Queued reply.', audioMs: 2000 })
+        },
+        async run(ctx) {
+            await startSession(ctx);
+            await waitFor(() => ctx.commentary().commentaryStatus.includes('Speaking'), 'playback started');
+            const playbackStart = Date.now();
+
+            await waitFor(() => ctx.server.stats.turnsCompleted > 0, 'turn complete');
+            await waitFor(() => ctx.commentary().commentaryStatus === '🎙️ Ready', 'playback finished', 6000);
+            const playbackMs = Date.now() - playbackStart;
+
+            expect(playbackMs >= 1800, `all 2000ms of queued audio played (took ${playbackMs}ms)`);
+            const aiTurns = ctx.commentary().chatMessages.filter(m => m.type === 'ai');
+            expect(aiTurns.length === 1, `streamed chunks assembled into one turn (got ${aiTurns.length})`);
+            expect(aiTurns[0].text.includes('Queued reply') && aiTurns[0].status === 'complete', 'reply text shown as a completed turn');
+        }
+    },
+    {
+        name: 'speech-rate',
+        description: 'Audio plays faster at a higher speaking rate, and a rate change re-times audio already queued',
+        settings: { speechRate: 2 },
+        serverOptions: {
+            chunkMs: 100,
+            chunkIntervalMs: 5,
+            replyTo: () => null
+        },
+        async run(ctx) {
+            await startSession(ctx);
+
+            ctx.server.reply({ text: 'Fast reply.', audioMs: 2000 });
+            await waitFor(() => ctx.commentary().commentaryStatus.includes('Speaking'), 'playback started');
+            let playbackStart = Date.now();
+            await waitFor(() => ctx.commentary().commentaryStatus === '🎙️ Ready', 'playback finished', 4000);
+            let playbackMs = Date.now() - playbackStart;
+            expect(playbackMs >= 800 && playbackMs < 1500, `2000ms of audio played at 2x (took ${playbackMs}ms)`);
+
+            ctx.commentary().changeSpeechRate(-1);
+            await waitFor(() => ctx.commentary().liveSettings.speechRate === 1.75, 'one step slower from the keyboard');
+
+            ctx.server.emit({ toolCall: { functionCalls: [{ id: 'rate-1', name: 'setSpeakingRate', args: { change: 'normal' } }] } });
+            await waitFor(() => ctx.commentary().liveSettings.speechRate === 1, 'normal speed from a tool call');
+
+            // Queued at normal speed, then sped up while playing
+            ctx.server.reply({ text: 'Long reply.', audioMs: 4000 });
+            await waitFor(() => ctx.commentary().commentaryStatus.includes('Speaking'), 'second playback started');
+            playbackStart = Date.now();
+            await wait(500);
+            ctx.server.emit({ toolCall: { functionCalls: [{ id: 'rate-2', name: 'setSpeakingRate', args: { rate: 3 } }] } });
+            await waitFor(() => ctx.commentary().commentaryStatus === '🎙️ Ready', 'second playback finished', 6000);
+            playbackMs = Date.now() - playbackStart;
+            expect(playbackMs < 2500, `queued audio re-timed to 3x (took ${playbackMs}ms)`);
+            expect(ctx.server.stats.toolResponses === 2, 'both rate changes were answered');
+        }
+    },
+    {
+        name: 'navigation-alerts',
+        description: 'Navigation mode reaches the model and hazard replies raise urgency',
+        serverOptions: {
+            replyTo: () => null
+        },
+        async run(ctx) {
+            await startSession(ctx);
+            ctx.media.setScene('Corridor with wall ahead');
+            await ctx.commentary().startCameraStream(ctx.videoEl);
+            await waitFor(() => ctx.server.stats.frames > 0, 'camera frames sent');
+
+            ctx.commentary().changeAssistanceMode('navigation');
+            await waitFor(() => ctx.commentary().assistanceMode === 'navigation', 'navigation mode on');
+            expect(
+                ctx.server.stats.prompts.some(p => p.includes('NAVIGATION MODE')),
+                'navigation instruction sent to the model'
+            );
+
+            ctx.server.reply({ text: 'STOP. Wall half meter', audioMs: 600 });
+            await waitFor(() => ctx.commentary().urgencyLevel === 'critical', 'critical urgency');
+            expect(ctx.commentary().detectedDistance === 0.5, 'half meter parsed as 0.5m');
+
+            await ctx.commentary().stopCameraStream();
+        }
+    },
+    {
+        name: 'proximity-loop',
+        description: 'Navigation runs one proximity beep loop that stops on mode exit and camera stop',
+        serverOptions: {
+            replyTo: () => null
+        },
+        async run(ctx) {
+            await startSession(ctx);
+            await ctx.commentary().startCameraStream(ctx.videoEl);
+            ctx.commentary().changeAssistanceMode('navigation');
+            await waitFor(() => ctx.commentary().assistanceMode === 'navigation', 'navigation mode on');
+
+            ctx.server.reply({ text: 'Wall ahead. Two meters', audioMs: 300 });
+            await waitFor(() => audioFeedback.isProximityRunning(), 'proximity loop started');
+
+            ctx.server.reply({ text: 'Wall ahead. Six meters', audioMs: 300 });
+            await waitFor(() => !audioFeedback.isProximityRunning(), 'loop fades out when the path is clear');
+
+            ctx.server.reply({ text: 'Person ahead. One meter', audioMs: 300 });
+            await waitFor(() => audioFeedback.isProximityRunning(), 'loop back for a new hazard');
+            ctx.commentary().changeAssistanceMode('normal');
+            await waitFor(() => ctx.commentary().assistanceMode === 'normal', 'normal mode on');
+            expect(!audioFeedback.isProximityRunning(), 'loop stopped on mode exit');
+
+            ctx.commentary().changeAssistanceMode('navigation');
+            ctx.server.reply({ text: 'Pole ahead. One meter', audioMs: 300 });
+            await waitFor(() => audioFeedback.isProximityRunning(), 'loop running again');
+            await ctx.commentary().stopCameraStream();
+            expect(!audioFeedback.isProximityRunning(), 'loop stopped with the camera');
+        }
+    },
+    {
+        name: 'scene-change',
+        description: 'A still scene stops sending frames and counts the bytes saved; a new scene is sent straight away',
+        settings: { frameRate: 2 },
+        serverOptions: {
+            replyTo: () => null
+        },
+        async run(ctx) {
+            await startSession(ctx);
+            ctx.media.setStill(true);
+            ctx.media.setScene('Static page of text');
+            await ctx.commentary().startCameraStream(ctx.videoEl);
+            await waitFor(() => ctx.server.stats.frames > 0, 'first frame sent');
+
+            await waitFor(() => ctx.commentary().frameStats.framesSkipped >= 3, 'unchanged frames skipped');
+            const framesBefore = ctx.server.stats.frames;
+            expect(ctx.commentary().frameStats.bytesSaved > 0, 'skipped frames counted as bytes saved');
+
+            ctx.media.setScene('Doorway on the left');
+            await waitFor(() => ctx.server.stats.frames > framesBefore, 'changed scene sent');
+            expect(ctx.commentary().frameStats.sceneChanges >= 2, 'new scene detected as a change');
+
+            await ctx.commentary().stopCameraStream();
+        }
+    },
+    {
+        name: 'slow-uplink',
+        description: 'A backed-up uplink steps the video tier down, within the range set in Settings',
+        settings: { frameRate: 2, videoTierRange: { min: 'low', max: 'high' } },
+        serverOptions: {
+            replyTo: () => null
+        },
+        async run(ctx) {
+            await startSession(ctx);
+            await ctx.commentary().startCameraStream(ctx.videoEl);
+            await waitFor(() => ctx.commentary().videoTier === 'medium', 'video starts at the medium tier');
+
+            ctx.server.setUplinkBacklog(1024 * 1024);
+            await waitFor(() => ctx.commentary().videoTier === 'low', 'stepped down to low', 6000);
+            await wait(4000);
+            expect(ctx.commentary().videoTier === 'low', 'never below the lowest tier allowed');
+
+            await ctx.commentary().stopCameraStream();
+            await waitFor(() => ctx.commentary().videoTier === null, 'no tier shown without video');
+        }
+    },
+    {
+        name: 'covered-lens',
+        description: 'Frames stop while a finger covers the lens and start again once it is lifted',
+        settings: { frameRate: 2 },
+        serverOptions: {
+            replyTo: () => null
+        },
+        async run(ctx) {
+            await startSession(ctx);
+            await ctx.commentary().startCameraStream(ctx.videoEl);
+            await waitFor(() => ctx.server.stats.frames > 0, 'camera frames sent');
+
+            ctx.media.setCovered(true);
+            await waitFor(() => ctx.commentary().frameIssue === 'covered', 'covered lens detected', 6000);
+            const framesWhileCovered = ctx.server.stats.frames;
+            await wait(2000);
+            expect(ctx.server.stats.frames === framesWhileCovered, 'no frames sent while the lens is covered');
+            expect(ctx.commentary().frameStats.framesHeld > 0, 'held frames counted');
+
+            ctx.media.setCovered(false);
+            await waitFor(() => ctx.commentary().frameIssue === null, 'quality recovered', 6000);
+            await waitFor(() => ctx.server.stats.frames > framesWhileCovered, 'frames sent again');
+
+            await ctx.commentary().stopCameraStream();
+        }
+    },
+    {
+        name: 'camera-choice',
+        description: 'The rear camera opens by default, a chosen camera is used, and a missing one falls back to the rear camera',
+        serverOptions: {
+            replyTo: () => null
+        },
+        async run(ctx) {
+            await startSession(ctx);
+            await ctx.commentary().selectCamera(null);
+            await ctx.commentary().startCameraStream(ctx.videoEl);
+            const facingMode = ctx.media.lastVideoConstraints?.facingMode as ConstrainDOMStringParameters | undefined;
+            expect(facingMode?.ideal === 'environment', 'rear camera asked for by default');
+            await waitFor(() => ctx.commentary().cameras.length === 2, 'cameras listed');
+
+            await ctx.commentary().selectCamera('synthetic-front');
+            const deviceId = ctx.media.lastVideoConstraints?.deviceId as ConstrainDOMStringParameters | undefined;
+            expect(deviceId?.exact === 'synthetic-front', 'chosen camera opened');
+            await waitFor(() => ctx.commentary().selectedCameraId === 'synthetic-front', 'choice remembered');
+
+            await ctx.commentary().selectCamera('unplugged-camera');
+            await waitFor(() => ctx.commentary().selectedCameraId === null, 'missing camera forgotten');
+            await waitFor(() => ctx.server.stats.frames > 0, 'frames still sent after the fallback');
+
+            await ctx.commentary().stopCameraStream();
+        }
+    },
+    {
+        name: 'focus-region',
+        description: 'A focus region on a shared screen sends an enlarged crop with each frame, from a named area, a box or a zoom',
+        serverOptions: {
+            replyTo: () => null
+        },
+        async run(ctx) {
+            await startSession(ctx);
+            await ctx.commentary().startScreenShare(ctx.videoEl);
+            await waitFor(() => ctx.server.stats.frames > 0, 'whole screen sent');
+            expect(ctx.commentary().frameStats.focusCrops === 0, 'no crop without a focus region');
+
+            ctx.server.emit({ toolCall: { functionCalls: [{ id: 'focus-1', name: 'setFocusRegion', args: { region: 'top-left' } }] } });
+            await waitFor(() => ctx.commentary().focusRegion.source === 'top-left', 'top-left focus set');
+            await waitFor(() => ctx.commentary().frameStats.focusCrops > 0, 'enlarged crop sent');
+
+            ctx.server.emit({ toolCall: { functionCalls: [{ id: 'focus-2', name: 'setFocusRegion', args: { box: [400, 250, 600, 750] } }] } });
+            await waitFor(() => ctx.commentary().focusRegion.source === 'box', 'focus on a box from the model');
+            const box = ctx.commentary().focusRegion;
+            expect(box.x < 0.25 && box.x + box.width > 0.75, 'box covers the dialog, with padding');
+
+            ctx.server.emit({ toolCall: { functionCalls: [{ id: 'focus-3', name: 'setFocusRegion', args: { zoom: 2 } }] } });
+            await waitFor(() => ctx.commentary().focusRegion.source === 'zoom', 'zoomed in');
+            expect(ctx.commentary().focusRegion.width === 0.5, '2x zoom shows half the width');
+
+            ctx.server.emit({ toolCall: { functionCalls: [{ id: 'focus-4', name: 'setFocusRegion', args: { region: 'sideways' } }] } });
+            await waitFor(() => ctx.server.stats.toolResponses === 4, 'unknown region answered');
+            expect(ctx.commentary().focusRegion.source === 'zoom', 'unknown region leaves the focus as it was');
+
+            ctx.commentary().changeFocusRegion({ x: 0, y: 0, width: 1, height: 1, source: 'full' });
+            await waitFor(() => ctx.commentary().focusRegion.source === 'full', 'whole screen again');
+            expect(ctx.server.stats.prompts.some(prompt => prompt.startsWith('Screen focus cleared')), 'model told the focus was cleared');
+
+            await ctx.commentary().stopScreenShare();
+        }
+    },
+    {
+        name: 'screen-monitor',
+        description: 'Monitor mode stays quiet on a still screen and sends only the changed area, with a prompt naming where it changed',
+        serverOptions: {
+            replyTo: () => null
+        },
+        async run(ctx) {
+            await startSession(ctx);
+            ctx.media.setStill(true);
+            await ctx.commentary().startScreenShare(ctx.videoEl);
+            ctx.commentary().changeAssistanceMode('monitor');
+            await waitFor(() => ctx.commentary().frameStats.framesSent > 0, 'baseline frame sent');
+
+            const changePrompts = () => ctx.server.stats.prompts.filter(prompt => prompt.startsWith('The screen changed')).length;
+            await wait(2500);
+            expect(changePrompts() === 0, 'a still screen is not announced');
+
+            ctx.media.setScene('New message from Sam');
+            await waitFor(() => changePrompts() > 0, 'change announced');
+            expect(ctx.commentary().frameStats.changesOnlyFrames > 0, 'only the changed area was sent');
+
+            await ctx.commentary().stopScreenShare();
+        }
+    },
+    {
+        name: 'hazard-reports',
+        description: 'Structured hazard reports drive urgency; the text parser reads spoken numbers and ignores "stop navigation"',
+        serverOptions: {
+            replyTo: () => null
+        },
+        async run(ctx) {
+            await startSession(ctx);
+
+            ctx.server.reply({ text: 'Person ahead. Two meters', audioMs: 300 });
+            await waitFor(() => ctx.commentary().detectedDistance === 2, 'spoken "two meters" parsed');
+            expect(ctx.commentary().urgencyLevel === 'medium', 'two meters is medium urgency');
+
+            ctx.server.reply({ text: 'Okay, stop navigation.', audioMs: 300 });
+            await waitFor(() => ctx.server.stats.turnsCompleted >= 2, 'second reply finished');
+            expect(ctx.commentary().urgencyLevel !== 'critical', '"stop navigation" is not a STOP command');
+
+            ctx.server.emit({
+                toolCall: {
+                    functionCalls: [{
+                        id: 'hazard-1',
+                        name: 'reportHazard',
+                        args: { type: 'stairs', distanceMeters: 0.8, clockPosition: 1, confidence: 0.9 }
+                    }]
+                }
+            });
+            await waitFor(() => ctx.commentary().urgencyLevel === 'critical', 'critical urgency from hazard report');
+            expect(ctx.commentary().lastHazard?.type === 'stairs', 'hazard type kept');
+            expect(ctx.commentary().lastHazard?.clockPosition === 1, 'clock position kept');
+
+            // A reply in the same moment must not override the structured report
+            ctx.server.reply({ text: 'Stairs ahead, five meters', audioMs: 300 });
+            await waitFor(() => ctx.server.stats.turnsCompleted >= 3, 'follow-up reply finished');
+            expect(ctx.commentary().detectedDistance === 0.8, 'structured distance wins over text');
+            expect(ctx.server.stats.toolResponses === 1, 'hazard report acknowledged');
+        }
+    },
+    {
+        name: 'imperial-units',
+        description: 'Feet are preferred when both units are spoken, and custom alert distances set the urgency',
+        settings: { unitSystem: 'imperial', urgencyThresholds: { critical: 1.5, high: 3, medium: 4.5 } },
+        serverOptions: {
+            replyTo: () => null
+        },
+        async run(ctx) {
+            await startSession(ctx);
+
+            ctx.server.reply({ text: 'Wall ahead, two meters or six feet', audioMs: 300 });
+            await waitFor(() => ctx.commentary().detectedDistance !== null, 'distance parsed');
+            expect(Math.abs(ctx.commentary().detectedDistance! - 6 * 0.3048) < 0.01, 'feet preferred over meters');
+            expect(ctx.commentary().urgencyLevel === 'high', 'six feet is high urgency with larger bands');
+
+            ctx.server.reply({ text: 'Bollard ahead. Four feet', audioMs: 300 });
+            await waitFor(() => ctx.commentary().urgencyLevel === 'critical', 'four feet is critical with larger bands');
+        }
+    },
+    {
+        name: 'localized-session',
+        description: 'An Afrikaans session greets in Afrikaans, shows Afrikaans status text and reads Afrikaans distances',
+        settings: { locale: 'af' },
+        serverOptions: {
+            replyTo: () => null
+        },
+        async run(ctx) {
+            await startSession(ctx);
+            await waitFor(() => ctx.server.stats.prompts.some(p => p.startsWith('Say: Hallo!')), 'welcome message sent in Afrikaans');
+            await waitFor(() => ctx.commentary().commentaryStatus === translate('af', 'status.ready'), 'status shown in Afrikaans');
+
+            ctx.server.reply({ text: "Muur een en 'n half meter", audioMs: 300 });
+            await waitFor(() => ctx.commentary().detectedDistance === 1.5, 'spoken "een en \'n half meter" parsed');
+
+            ctx.server.reply({ text: "'n Trap drie meter voor jou", audioMs: 300 });
+            await waitFor(() => ctx.commentary().detectedDistance === 3, 'spoken "drie meter" parsed');
+            expect(ctx.commentary().lastHazard?.type === 'stairs', 'a single "trap" read as stairs');
+
+            ctx.server.reply({ text: 'Stop! Trappe twee meter', audioMs: 300 });
+            await waitFor(() => ctx.commentary().urgencyLevel === 'critical', 'Afrikaans STOP command');
+            expect(ctx.commentary().lastHazard?.type === 'stairs', '"trappe" read as stairs');
+        }
+    },
+    {
+        name: 'tool-calls',
+        description: 'Mode changes come from function calls, not from words in the reply',
+        serverOptions: {
+            replyTo: () => null
+        },
+        async run(ctx) {
+            await startSession(ctx);
+
+            ctx.server.reply({ text: 'You can say navigation mode to get walking directions.', audioMs: 400 });
+            await waitFor(() => ctx.server.stats.turnsCompleted > 0, 'reply mentioning the mode finished');
+            expect(ctx.commentary().assistanceMode === 'normal', 'mentioning navigation mode does not switch it on');
+
+            ctx.server.emit({ toolCall: { functionCalls: [{ id: 'call-1', name: 'setAssistanceMode', args: { mode: 'reading' } }] } });
+            await waitFor(() => ctx.commentary().assistanceMode === 'reading', 'reading mode on from tool call');
+            expect(ctx.commentary().verbosity === 'detailed', 'reading mode brings its own verbosity');
+
+            ctx.server.emit({ toolCall: { functionCalls: [{ id: 'call-2', name: 'setVerbosity', args: { level: 'brief' } }] } });
+            await waitFor(() => ctx.commentary().verbosity === 'brief', 'verbosity set to brief');
+
+            ctx.server.emit({ toolCall: { functionCalls: [{ id: 'call-3', name: 'stopCommentary', args: {} }] } });
+            await waitFor(() => ctx.commentary().isCommentaryPaused, 'commentary paused');
+
+            expect(ctx.server.stats.toolResponses === 3, 'every tool call was answered');
+        }
+    },
+    {
+        name: 'transcripts',
+        description: 'Both sides of the conversation are logged as one message per turn',
+        serverOptions: {
+            replyTo: (prompt) => prompt.startsWith('What') ? { text: 'A door is straight ahead of you.', audioMs: 1000 } : null
+        },
+        async run(ctx) {
+            await startSession(ctx);
+
+            ctx.server.userSays('What is in front of me right now?');
+            await waitFor(() => ctx.server.stats.turnsCompleted > 0, 'reply finished');
+            await wait(100);
+
+            const [user, ai, ...rest] = ctx.commentary().chatMessages;
+            expect(rest.length === 0, `exactly two messages logged (got ${ctx.commentary().chatMessages.length})`);
+            expect(user?.type === 'user' && user.text === 'What is in front of me right now?', 'user transcript merged into one message');
+            expect(ai?.type === 'ai' && ai.text === 'A door is straight ahead of you.', 'AI transcript merged into one message');
+            expect(user.status === 'complete' && ai.status === 'complete', 'both turns marked complete');
+        }
+    },
+    {
+        name: 'reconnect',
+        description: 'A dropped socket reconnects and resumes with the latest handle',
+        async run(ctx) {
+            await startSession(ctx);
+            await waitFor(() => ctx.server.stats.turnsCompleted > 0, 'welcome turn complete');
+
+            ctx.server.drop(1006);
+            await waitFor(() => !ctx.commentary().isSessionReady, 'session marked not ready');
+            await waitFor(() => ctx.commentary().isSessionReady, 'session restored', 8000);
+
+            expect(ctx.server.stats.connections === 2, 'exactly one reconnection');
+            expect(ctx.server.stats.resumedConnections === 1, 'reconnection used the resumption handle');
+        }
+    }
+];
+
+/**
+ * Run one scenario and capture the outcome instead of throwing
+ */
+export async function runScenario(scenario: Scenario, ctx: ScenarioContext): Promise<ScenarioResult> {
+    const startedAt = Date.now();
+    let error: string | null = null;
+    try {
+        await scenario.run(ctx);
+    } catch (e: any) {
+        error = e?.message ?? String(e);
+    } finally {
+        await ctx.commentary().stopLiveSession();
+    }
+    return {
+        name: scenario.name,
+        passed: error === null,
+        error,
+        durationMs: Date.now() - startedAt,
+        stats: { ...ctx.server.stats, prompts: [...ctx.server.stats.prompts] }
+    };
+}
@@ -0,0 +1,190 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { LiveMediaDevices } from '../hooks/useLiveCommentary';
+
+// Cameras the synthetic device reports; all of them show the same canvas
+const SYNTHETIC_CAMERAS = [
+    { deviceId: 'synthetic-rear', label: 'Synthetic rear camera' },
+    { deviceId: 'synthetic-front', label: 'Synthetic front camera' }
+];
+
+export interface SyntheticMediaOptions {
+    width?: number;
+    height?: number;
+    fps?: number;
+}
+
+/**
+ * Fake camera, screen and microphone sources for scenario runs.
+ * Video is drawn into a canvas and captured as a MediaStream; the mic is an
+ * oscillator bank routed through a MediaStreamDestination, so frames and PCM
+ * travel through the real capture, worklet and quality-analysis code.
+ */
+export class SyntheticMediaDevices implements LiveMediaDevices {
+    private width: number;
+    private height: number;
+    private fps: number;
+    private canvas: HTMLCanvasElement | null = null;
+    private drawTimer: number | null = null;
+    private frameIndex: number = 0;
+    private sceneLabel: string = 'Test scene';
+    private isStill: boolean = false;
+    private isCovered: boolean = false;
+    private audioContext: AudioContext | null = null;
+    private voiceGain: GainNode | null = null;
+    private microphoneDestination: MediaStreamAudioDestinationNode | null = null;
+
+    // Video constraints of the latest camera request, for scenarios to check
+    lastVideoConstraints: MediaTrackConstraints | null = null;
+
+    constructor(options: SyntheticMediaOptions = {}) {
+        this.width = options.width ?? 640;
+        this.height = options.height ?? 480;
+        this.fps = options.fps ?? 10;
+    }
+
+    async getUserMedia(constraints?: MediaStreamConstraints): Promise<MediaStream> {
+        if (constraints?.audio) {
+            return this.createMicrophoneStream();
+        }
+
+        const video = typeof constraints?.video === 'object' ? constraints.video : {};
+        this.lastVideoConstraints = video;
+        // Like a real browser, an exact device that is not there fails the request
+        const deviceId = video.deviceId as ConstrainDOMStringParameters | undefined;
+        if (deviceId?.exact && !SYNTHETIC_CAMERAS.some(camera => camera.deviceId === deviceId.exact)) {
+            throw new DOMException(`No camera ${deviceId.exact}`, 'OverconstrainedError');
+        }
+        return this.createVideoStream();
+    }
+
+    async enumerateDevices(): Promise<MediaDeviceInfo[]> {
+        return SYNTHETIC_CAMERAS.map(camera => ({
+            ...camera,
+            kind: 'videoinput',
+            groupId: 'synthetic',
+            toJSON() { return this; }
+        }) as MediaDeviceInfo);
+    }
+
+    async getDisplayMedia(_options?: DisplayMediaStreamOptions): Promise<MediaStream> {
+        return this.createVideoStream();
+    }
+
+    /**
+     * Change what the synthetic camera shows
+     */
+    setScene(label: string): void {
+        this.sceneLabel = label;
+    }
+
+    /**
+     * Freeze the checkerboard, as if the camera were held still on a static scene.
+     * The label still changes with setScene.
+     */
+    setStill(still: boolean): void {
+        this.isStill = still;
+    }
+
+    /**
+     * Show a dim, featureless frame, as if a finger were over the lens
+     */
+    setCovered(covered: boolean): void {
+        this.isCovered = covered;
+    }
+
+    /**
+     * Emulate the user talking into the mic for the given duration
+     */
+    speak(durationMs: number, level: number = 0.6): void {
+        if (!this.audioContext || !this.voiceGain) {
+            console.warn('Synthetic microphone not started');
+            return;
+        }
+        const now = this.audioContext.currentTime;
+        const gain = this.voiceGain.gain;
+        gain.cancelScheduledValues(now);
+        gain.setValueAtTime(0, now);
+        gain.linearRampToValueAtTime(level, now + 0.03);
+        gain.setValueAtTime(level, now + durationMs / 1000);
+        gain.linearRampToValueAtTime(0, now + durationMs / 1000 + 0.05);
+    }
+
+    /**
+     * Stop drawing and release the synthetic audio graph
+     */
+    async dispose(): Promise<void> {
+        if (this.drawTimer) {
+            window.clearInterval(this.drawTimer);
+            this.drawTimer = null;
+        }
+        if (this.audioContext) {
+            await this.audioContext.close();
+            this.audioContext = null;
+            this.voiceGain = null;
+            this.microphoneDestination = null;
+        }
+    }
+
+    private createVideoStream(): MediaStream {
+        if (!this.canvas) {
+            this.canvas = document.createElement('canvas');
+            this.canvas.width = this.width;
+            this.canvas.height = this.height;
+            this.drawTimer = window.setInterval(() => this.drawFrame(), 1000 / this.fps);
+            this.drawFrame();
+        }
+        return this.canvas.captureStream(this.fps);
+    }
+
+    private drawFrame(): void {
+        const ctx = this.canvas?.getContext('2d');
+        if (!ctx) return;
+
+        if (this.isCovered) {
+            ctx.fillStyle = '#281414';
+            ctx.fillRect(0, 0, this.width, this.height);
+            return;
+        }
+
+        if (!this.isStill) this.frameIndex++;
+        // Busy checkerboard keeps the blur detector happy; the label names the scene
+        const cell = 32;
+        for (let y = 0; y < this.height; y += cell) {
+            for (let x = 0; x < this.width; x += cell) {
+                const on = ((x + y) / cell + this.frameIndex) % 2 === 0;
+                ctx.fillStyle = on ? '#d0d0d0' : '#404040';
+                ctx.fillRect(x, y, cell, cell);
+            }
+        }
+        ctx.fillStyle = '#000000';
+        ctx.fillRect(0, this.height / 2 - 30, this.width, 60);
+        ctx.fillStyle = '#ffffff';
+        ctx.font = '32px sans-serif';
+        ctx.fillText(this.sceneLabel, 20, this.height / 2 + 10);
+    }
+
+    private createMicrophoneStream(): MediaStream {
+        if (!this.audioContext) {
+            this.audioContext = new AudioContext({ sampleRate: 16000 });
+            this.voiceGain = this.audioContext.createGain();
+            this.voiceGain.gain.value = 0;
+
+            // Two formant-ish partials; speak() opens the gain to emulate a voice
+            [220, 880].forEach(frequency => {
+                const oscillator = this.audioContext!.createOscillator();
+                oscillator.frequency.value = frequency;
+                oscillator.connect(this.voiceGain!);
+                oscillator.start();
+            });
+
+            const destination = this.audioContext.createMediaStreamDestination();
+            this.voiceGain.connect(destination);
+            this.microphoneDestination = destination;
+        }
+        return this.microphoneDestination!.stream;
+    }
+}
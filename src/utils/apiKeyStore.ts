@@ -0,0 +1,146 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+const DB_NAME = 'vcb-vision';
+const DB_VERSION = 1;
+const STORE_NAME = 'secrets';
+const WRAPPING_KEY_ID = 'api-key-wrapping-key';
+const API_KEY_ID = 'api-key';
+
+interface EncryptedSecret {
+    iv: Uint8Array;
+    ciphertext: ArrayBuffer;
+}
+
+/**
+ * Stores a user-supplied Gemini API key in IndexedDB, encrypted with an
+ * AES-GCM key that WebCrypto generates as non-extractable. The raw key
+ * material never leaves the browser's crypto store, so copying the database
+ * does not reveal the API key.
+ */
+export class ApiKeyStore {
+    private dbPromise: Promise<IDBDatabase> | null = null;
+
+    /**
+     * Check if IndexedDB and WebCrypto are available
+     */
+    static isSupported(): boolean {
+        return typeof indexedDB !== 'undefined' && typeof crypto !== 'undefined' && !!crypto.subtle;
+    }
+
+    /**
+     * Encrypt and persist an API key, replacing any existing one
+     */
+    async save(apiKey: string): Promise<void> {
+        const wrappingKey = await this.getWrappingKey();
+        const iv = crypto.getRandomValues(new Uint8Array(12));
+        const ciphertext = await crypto.subtle.encrypt(
+            { name: 'AES-GCM', iv },
+            wrappingKey,
+            new TextEncoder().encode(apiKey)
+        );
+        await this.put(API_KEY_ID, { iv, ciphertext } satisfies EncryptedSecret);
+        console.log('🔐 API key stored on this device');
+    }
+
+    /**
+     * Load and decrypt the stored API key, or null if none is saved
+     */
+    async load(): Promise<string | null> {
+        if (!ApiKeyStore.isSupported()) {
+            return null;
+        }
+        const secret = await this.get<EncryptedSecret>(API_KEY_ID);
+        const wrappingKey = await this.get<CryptoKey>(WRAPPING_KEY_ID);
+        if (!secret || !wrappingKey) {
+            return null;
+        }
+        try {
+            const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: secret.iv }, wrappingKey, secret.ciphertext);
+            return new TextDecoder().decode(plaintext);
+        } catch (error) {
+            console.error('Stored API key could not be decrypted, discarding it:', error);
+            await this.clear();
+            return null;
+        }
+    }
+
+    /**
+     * Check if a key is saved without decrypting it
+     */
+    async hasKey(): Promise<boolean> {
+        if (!ApiKeyStore.isSupported()) {
+            return false;
+        }
+        return (await this.get<EncryptedSecret>(API_KEY_ID)) !== undefined;
+    }
+
+    /**
+     * Forget the stored API key and its wrapping key
+     */
+    async clear(): Promise<void> {
+        const db = await this.openDb();
+        await new Promise<void>((resolve, reject) => {
+            const tx = db.transaction(STORE_NAME, 'readwrite');
+            tx.objectStore(STORE_NAME).delete(API_KEY_ID);
+            tx.objectStore(STORE_NAME).delete(WRAPPING_KEY_ID);
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+        console.log('🗑️ Stored API key forgotten');
+    }
+
+    /**
+     * Get the device's wrapping key, generating a non-extractable one on first use
+     */
+    private async getWrappingKey(): Promise<CryptoKey> {
+        const existing = await this.get<CryptoKey>(WRAPPING_KEY_ID);
+        if (existing) {
+            return existing;
+        }
+        const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+        await this.put(WRAPPING_KEY_ID, key);
+        return key;
+    }
+
+    private openDb(): Promise<IDBDatabase> {
+        if (!this.dbPromise) {
+            this.dbPromise = new Promise((resolve, reject) => {
+                const request = indexedDB.open(DB_NAME, DB_VERSION);
+                request.onupgradeneeded = () => {
+                    request.result.createObjectStore(STORE_NAME);
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => {
+                    this.dbPromise = null;
+                    reject(request.error);
+                };
+            });
+        }
+        return this.dbPromise;
+    }
+
+    private async get<T>(id: string): Promise<T | undefined> {
+        const db = await this.openDb();
+        return new Promise((resolve, reject) => {
+            const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(id);
+            request.onsuccess = () => resolve(request.result as T | undefined);
+            request.onerror = () => reject(request.error);
+        });
+    }
+
+    private async put(id: string, value: unknown): Promise<void> {
+        const db = await this.openDb();
+        return new Promise((resolve, reject) => {
+            const tx = db.transaction(STORE_NAME, 'readwrite');
+            tx.objectStore(STORE_NAME).put(value, id);
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+    }
+}
+
+// Export singleton instance
+export const apiKeyStore = new ApiKeyStore();
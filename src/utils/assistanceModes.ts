@@ -0,0 +1,191 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { UrgencyLevel } from './hazards';
+import type { FrameArea } from './sceneChange';
+
+export type Verbosity = 'brief' | 'normal' | 'detailed';
+
+export const VERBOSITY_LEVELS: Verbosity[] = ['brief', 'normal', 'detailed'];
+
+export const VERBOSITY_INSTRUCTIONS: Record<Verbosity, string> = {
+    brief: `Keep every reply to one short sentence. Mention only what matters most.`,
+    normal: `Use your normal level of detail.`,
+    detailed: `Give full, detailed descriptions, including layout, colours and any visible text.`
+};
+
+export const ASSISTANCE_MODE_IDS = ['normal', 'navigation', 'reading', 'shopping', 'colour', 'transit', 'monitor'] as const;
+
+export type AssistanceModeId = typeof ASSISTANCE_MODE_IDS[number];
+
+/**
+ * Everything that changes when Aura switches to a different kind of help.
+ * The label, description and status text live in the translation catalogue under `mode.<id>.*`.
+ */
+export interface AssistanceMode {
+    id: AssistanceModeId;
+    icon: string;               // Material symbol for the ControlBar button
+    instruction: string;        // Sent to the model when the mode starts
+    prompt: string;             // Periodic "what now?" prompt
+    promptIntervalMs: number;
+    frameIntervalMs: number | null;                             // null uses the frame rate from settings
+    urgencyFrameIntervalsMs?: Record<UrgencyLevel, number>;     // Faster frames as hazards get closer
+    verbosity: Verbosity;       // Starting verbosity; the user can still change it
+    hazardAlerts: boolean;      // Directional hazard cues and haptics for hazard reports
+    proximityLoop: boolean;     // Parking-sensor beeps that follow the nearest hazard while the mode is on
+    requiresCamera: boolean;    // Only offered while the camera is running
+    requiresScreen: boolean;    // Only offered while the screen is shared
+    changesOnly: boolean;       // A shared screen sends only the areas that changed, and prompts follow changes
+}
+
+export const ASSISTANCE_MODES: Record<AssistanceModeId, AssistanceMode> = {
+    normal: {
+        id: 'normal',
+        icon: 'visibility',
+        instruction: `You are now in NORMAL MODE. Return to detailed descriptions and conversational responses. Describe what you see fully.`,
+        prompt: 'What do you see now?',
+        promptIntervalMs: 10000,
+        frameIntervalMs: null,
+        verbosity: 'normal',
+        hazardAlerts: false,
+        proximityLoop: false,
+        requiresCamera: false,
+        requiresScreen: false,
+        changesOnly: false
+    },
+    navigation: {
+        id: 'navigation',
+        icon: 'navigation',
+        instruction: `You are now in NAVIGATION MODE. Switch to giving SHORT, CLEAR walking directions (3-5 words max). Examples: "Clear ahead", "Stop. Stairs down", "Turn left. Door ahead". Call hazards immediately. Be brief and direct. For every hazard, call reportHazard with its type, distance in meters, clock position and confidence, then speak the warning.`,
+        prompt: 'What is ahead?',
+        promptIntervalMs: 10000,
+        frameIntervalMs: 2000,
+        urgencyFrameIntervalsMs: { critical: 500, high: 1000, medium: 1500, low: 2000 },
+        verbosity: 'brief',
+        hazardAlerts: true,
+        proximityLoop: true,
+        requiresCamera: true,
+        requiresScreen: false,
+        changesOnly: false
+    },
+    reading: {
+        id: 'reading',
+        icon: 'menu_book',
+        instruction: `You are now in READING MODE. Read visible text exactly as written, in reading order: headings first, then body text. Do not summarise unless asked. If text is cut off at an edge, say which way to move the camera. Do not describe the surroundings unless asked.`,
+        prompt: 'Read any new text you can see.',
+        promptIntervalMs: 15000,
+        frameIntervalMs: 3000,
+        verbosity: 'detailed',
+        hazardAlerts: false,
+        proximityLoop: false,
+        requiresCamera: false,
+        requiresScreen: false,
+        changesOnly: false
+    },
+    shopping: {
+        id: 'shopping',
+        icon: 'shopping_basket',
+        instruction: `You are now in SHOPPING MODE. Identify the product in view: brand, product name, size or weight, price, and expiry or best-before date. Mention allergens and dietary labels when visible. If the label is not readable, say how to turn the item.`,
+        prompt: 'What product is this?',
+        promptIntervalMs: 12000,
+        frameIntervalMs: 2000,
+        verbosity: 'normal',
+        hazardAlerts: false,
+        proximityLoop: false,
+        requiresCamera: false,
+        requiresScreen: false,
+        changesOnly: false
+    },
+    colour: {
+        id: 'colour',
+        icon: 'palette',
+        instruction: `You are now in COLOUR MODE. Name the main colours of the item in the centre of the view, with shade (for example "dark navy blue"), and describe any pattern. Say when lighting makes a colour uncertain. Answer questions about whether colours match.`,
+        prompt: 'What colours are in the centre?',
+        promptIntervalMs: 12000,
+        frameIntervalMs: 2000,
+        verbosity: 'brief',
+        hazardAlerts: false,
+        proximityLoop: false,
+        requiresCamera: false,
+        requiresScreen: false,
+        changesOnly: false
+    },
+    transit: {
+        id: 'transit',
+        icon: 'directions_bus',
+        instruction: `You are now in TRANSIT MODE. Look for public transport information: bus and train route numbers, destinations, platform numbers, stop names and departure boards. Read them exactly. Warn about approaching vehicles and platform edges, and call reportHazard for them.`,
+        prompt: 'Any route numbers, signs or vehicles?',
+        promptIntervalMs: 8000,
+        frameIntervalMs: 1500,
+        verbosity: 'brief',
+        hazardAlerts: true,
+        proximityLoop: false,
+        requiresCamera: false,
+        requiresScreen: false,
+        changesOnly: false
+    },
+    monitor: {
+        id: 'monitor',
+        icon: 'notifications_active',
+        instruction: `You are now in SCREEN MONITOR MODE. The user is working on their screen and does not want it described again. After one whole frame you will only receive enlarged crops of the areas that changed, such as a notification, a new chat message or a dialog. When told the screen changed, say in one short sentence what is new and read any new text. Never describe the rest of the screen. If the change is only a moving cursor, a clock or an animation, stay silent.`,
+        prompt: 'The screen changed. Say briefly what is new.',
+        promptIntervalMs: 10000,
+        frameIntervalMs: 1000,
+        verbosity: 'brief',
+        hazardAlerts: false,
+        proximityLoop: false,
+        requiresCamera: false,
+        requiresScreen: true,
+        changesOnly: true
+    }
+};
+
+/**
+ * Look up a mode, or null if the id is not registered
+ */
+export function findAssistanceMode(id: unknown): AssistanceMode | null {
+    return ASSISTANCE_MODE_IDS.includes(id as AssistanceModeId) ? ASSISTANCE_MODES[id as AssistanceModeId] : null;
+}
+
+/**
+ * The full instruction for a mode at a verbosity, as the model should hear it
+ */
+export function buildModeInstructions(mode: AssistanceMode, verbosity: Verbosity): string {
+    return `${mode.instruction} ${VERBOSITY_INSTRUCTIONS[verbosity]}`;
+}
+
+const SCREEN_ROWS = ['top', 'middle', 'bottom'];
+const SCREEN_COLUMNS = ['left', 'centre', 'right'];
+
+/**
+ * Where an area sits on the screen, in words: "top right", "bottom centre" or "centre"
+ */
+function describeScreenArea(area: FrameArea): string {
+    const row = SCREEN_ROWS[Math.min(2, Math.floor((area.y + area.height / 2) * 3))];
+    const column = SCREEN_COLUMNS[Math.min(2, Math.floor((area.x + area.width / 2) * 3))];
+    return row === 'middle' && column === 'centre' ? 'centre' : `${row} ${column}`;
+}
+
+/**
+ * The prompt after a change in a changes-only mode, saying where the screen changed.
+ * Null areas mean most of the screen changed and it was sent whole.
+ */
+export function buildChangePrompt(mode: AssistanceMode, areas: FrameArea[] | null): string {
+    if (!areas || areas.length === 0) {
+        return `Most of the screen changed and the whole screen was just sent. ${mode.prompt}`;
+    }
+    const places = [...new Set(areas.map(describeScreenArea))].join(', ');
+    return `The screen changed at the ${places}. Close-ups of only those areas were just sent. ${mode.prompt}`;
+}
+
+/**
+ * How long to wait before the next frame in this mode
+ */
+export function getModeFrameInterval(mode: AssistanceMode, urgency: UrgencyLevel, settingsFrameRate: number): number {
+    if (mode.urgencyFrameIntervalsMs) {
+        return mode.urgencyFrameIntervalsMs[urgency];
+    }
+    return mode.frameIntervalMs ?? 1000 / settingsFrameRate;
+}
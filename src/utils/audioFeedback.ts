@@ -3,6 +3,48 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import type { UrgencyLevel } from './hazards';
+
+/**
+ * How hazard cues are placed around the listener: 3D with head-related
+ * transfer functions for headphones, or plain left/right panning
+ */
+export type HazardAudioMode = 'spatial' | 'stereo';
+
+export const HAZARD_AUDIO_MODES: HazardAudioMode[] = ['spatial', 'stereo'];
+
+/**
+ * Per-ear gains in front of the master volume, so every cue can be shifted
+ * towards one ear for users with asymmetric hearing
+ */
+interface BalanceStage {
+    input: GainNode;
+    left: GainNode;
+    right: GainNode;
+}
+
+// Pulses per hazard cue; closer hazards also pulse faster
+const CUE_PULSES: Record<UrgencyLevel, number> = { critical: 4, high: 3, medium: 2, low: 1 };
+
+const PROXIMITY_SMOOTHING = 0.4;        // Share of the gap to a new estimate closed on each beep
+const PROXIMITY_STALE_MS = 6000;        // No estimate for this long means the path is clear
+const PROXIMITY_FADE_SECONDS = 0.8;
+
+/**
+ * 0 for a hazard at or inside half a meter, 1 at five meters and beyond
+ */
+function distanceFactor(distanceMeters: number | null): number {
+    if (distanceMeters === null) return 0;
+    return Math.max(0, Math.min(1, (distanceMeters - 0.5) / 4.5));
+}
+
+/**
+ * Angle of a clock position in radians, clockwise from straight ahead
+ */
+function clockToAzimuth(clockPosition: number): number {
+    return (clockPosition % 12) * Math.PI / 6;
+}
+
 /**
  * Audio feedback utility for non-verbal navigation cues
  * Provides beeps, tones, and directional audio for blind users
@@ -10,6 +52,18 @@
 export class AudioFeedbackManager {
     private audioContext: AudioContext | null = null;
     private masterGain: GainNode | null = null;
+    private balanceStage: BalanceStage | null = null;
+    private hazardAudioMode: HazardAudioMode = 'spatial';
+    private balance = 0;    // -1 is fully left, 1 fully right
+
+    // Parking-sensor loop: one beep chain whose rate follows the smoothed distance
+    private proximityGain: GainNode | null = null;
+    private proximityTimer: ReturnType<typeof setTimeout> | null = null;
+    private proximityStaleTimer: ReturnType<typeof setTimeout> | null = null;
+    private proximityDistance: number | null = null;    // Smoothed, what the beeps play
+    private proximityTarget: number | null = null;      // Latest estimate
+    private proximityClock: number | null = null;
+    private isProximityFading = false;
 
     /**
      * Initialize audio context for feedback sounds
@@ -26,6 +80,7 @@ export class AudioFeedbackManager {
         this.masterGain = this.audioContext.createGain();
         this.masterGain.gain.value = 0.3; // 30% volume for non-intrusive feedback
         this.masterGain.connect(this.audioContext.destination);
+        this.balanceStage = this.createBalanceStage(this.balance);
 
         if (this.audioContext.state === 'suspended') {
             await this.audioContext.resume();
@@ -35,64 +90,229 @@ export class AudioFeedbackManager {
     }
 
     /**
-     * Play a distance-coded beep (closer = higher pitch)
-     * @param distanceMeters - Distance to object in meters
+     * Choose 3D or stereo hazard cues and the left/right balance; kept across sessions
      */
-    playDistanceBeep(distanceMeters: number): void {
-        if (!this.audioContext || !this.masterGain) {
+    configure(mode: HazardAudioMode, balance: number): void {
+        this.hazardAudioMode = mode;
+        this.balance = Math.max(-1, Math.min(1, balance));
+        if (this.balanceStage) {
+            this.setBalanceGains(this.balanceStage, this.balance);
+        }
+    }
+
+    /**
+     * Play a hazard cue from the hazard's direction. Closer hazards sound higher
+     * and pulse faster; more urgent ones pulse more times.
+     * @param clockPosition - 1-12, 12 is straight ahead; null plays from the centre
+     * @param distanceMeters - null for a STOP command without a distance, played as closest
+     */
+    playHazardCue(clockPosition: number | null, distanceMeters: number | null, urgency: UrgencyLevel): void {
+        if (!this.audioContext || !this.balanceStage) {
+            return;
+        }
+        this.playPulses(clockPosition, distanceMeters, CUE_PULSES[urgency], this.hazardAudioMode, this.balanceStage.input);
+    }
+
+    /**
+     * Play a cue at 9 or 3 o'clock with settings that are not saved yet, so the
+     * user can adjust the balance until both sides sound equally loud
+     */
+    async playCalibrationCue(side: 'left' | 'right', mode: HazardAudioMode, balance: number): Promise<void> {
+        await this.init();
+        const stage = this.createBalanceStage(balance);
+        this.playPulses(side === 'left' ? 9 : 3, 2, 2, mode, stage.input);
+        setTimeout(() => stage.input.disconnect(), 1000);
+    }
+
+    /**
+     * Feed the proximity loop a new distance estimate, starting it if needed.
+     * The beep rate moves towards the estimate over the next few beeps rather than jumping.
+     */
+    updateProximity(distanceMeters: number, clockPosition: number | null): void {
+        if (!this.audioContext || !this.balanceStage) {
             return;
         }
 
-        // Map distance to frequency: 1m = 800Hz, 5m = 200Hz
-        const frequency = Math.max(200, Math.min(800, 800 - (distanceMeters - 1) * 150));
-        const duration = 0.1; // 100ms beep
+        this.proximityTarget = distanceMeters;
+        this.proximityClock = clockPosition;
+        if (this.proximityStaleTimer) clearTimeout(this.proximityStaleTimer);
+        this.proximityStaleTimer = setTimeout(() => this.clearProximity(), PROXIMITY_STALE_MS);
+
+        if (!this.proximityGain) {
+            this.proximityGain = this.audioContext.createGain();
+            this.proximityGain.gain.value = 0;
+            this.proximityGain.connect(this.balanceStage.input);
+        }
+        if (this.isProximityFading) {
+            // A hazard came back while fading out: cancel the stop and carry on from the current rate
+            if (this.proximityTimer) clearTimeout(this.proximityTimer);
+            this.proximityTimer = null;
+            this.isProximityFading = false;
+        } else if (this.proximityTimer === null) {
+            this.proximityDistance = distanceMeters;
+            console.log('📡 Proximity loop started');
+        }
 
-        this.playTone(frequency, duration, 'sine', 0.4);
+        if (this.proximityTimer === null) {
+            const gain = this.proximityGain.gain;
+            const now = this.audioContext.currentTime;
+            gain.cancelScheduledValues(now);
+            gain.setValueAtTime(gain.value, now);
+            gain.linearRampToValueAtTime(1, now + 0.1);
+            this.scheduleProximityBeep();
+        }
     }
 
     /**
-     * Play directional warning tone
-     * @param direction - 'left', 'center', 'right'
-     * @param urgency - 'critical', 'high', 'medium', 'low'
+     * Fade the proximity loop out because the path is clear; a new estimate brings it back
      */
-    playDirectionalTone(
-        direction: 'left' | 'center' | 'right',
-        urgency: 'critical' | 'high' | 'medium' | 'low'
-    ): void {
-        if (!this.audioContext || !this.masterGain) {
+    clearProximity(): void {
+        if (!this.audioContext || !this.proximityGain || this.proximityTimer === null || this.isProximityFading) {
             return;
         }
 
-        // Frequency based on urgency
-        const frequencyMap = {
-            critical: 880, // A5 - urgent
-            high: 660,     // E5
-            medium: 523,   // C5
-            low: 392       // G4
-        };
+        this.isProximityFading = true;
+        const gain = this.proximityGain.gain;
+        const now = this.audioContext.currentTime;
+        gain.cancelScheduledValues(now);
+        gain.setValueAtTime(gain.value, now);
+        gain.linearRampToValueAtTime(0, now + PROXIMITY_FADE_SECONDS);
 
-        const frequency = frequencyMap[urgency];
-        const duration = urgency === 'critical' ? 0.2 : 0.15;
+        if (this.proximityTimer) clearTimeout(this.proximityTimer);
+        this.proximityTimer = setTimeout(() => this.stopProximity(), PROXIMITY_FADE_SECONDS * 1000);
+    }
 
-        // Create stereo panning
-        const panner = this.audioContext.createStereoPanner();
-        panner.pan.value = direction === 'left' ? -0.8 : direction === 'right' ? 0.8 : 0;
-        panner.connect(this.masterGain);
+    /**
+     * Stop the proximity loop at once, e.g. on leaving navigation mode or ending the session
+     */
+    stopProximity(): void {
+        if (this.proximityTimer) clearTimeout(this.proximityTimer);
+        if (this.proximityStaleTimer) clearTimeout(this.proximityStaleTimer);
+        this.proximityTimer = null;
+        this.proximityStaleTimer = null;
+        this.proximityGain?.disconnect();
+        this.proximityGain = null;
+        this.proximityDistance = null;
+        this.proximityTarget = null;
+        this.isProximityFading = false;
+    }
 
-        // Create oscillator
-        const oscillator = this.audioContext.createOscillator();
-        oscillator.type = 'sine';
-        oscillator.frequency.value = frequency;
+    isProximityRunning(): boolean {
+        return this.proximityTimer !== null && !this.isProximityFading;
+    }
 
-        const gainNode = this.audioContext.createGain();
-        gainNode.gain.value = 0.5;
+    private scheduleProximityBeep(): void {
+        if (this.proximityDistance === null || this.proximityTarget === null || !this.proximityGain) {
+            return;
+        }
 
-        oscillator.connect(gainNode);
-        gainNode.connect(panner);
+        this.proximityDistance += (this.proximityTarget - this.proximityDistance) * PROXIMITY_SMOOTHING;
+        this.playPulses(this.proximityClock, this.proximityDistance, 1, this.hazardAudioMode, this.proximityGain, 'square');
+
+        // Interval based on distance: half a meter = 120ms, 5m = 1000ms
+        const interval = 120 + distanceFactor(this.proximityDistance) * 880;
+        this.proximityTimer = setTimeout(() => this.scheduleProximityBeep(), interval);
+    }
+
+    private playPulses(
+        clockPosition: number | null,
+        distanceMeters: number | null,
+        pulses: number,
+        mode: HazardAudioMode,
+        output: AudioNode,
+        type: OscillatorType = 'sine'
+    ): void {
+        if (!this.audioContext) {
+            return;
+        }
+
+        // Map distance to pitch and pulse rate: half a meter = 1000Hz every 80ms, 5m = 300Hz every 350ms
+        const factor = distanceFactor(distanceMeters);
+        const frequency = 1000 - factor * 700;
+        const interval = 0.08 + factor * 0.27;
+        const duration = Math.min(0.12, interval * 0.6);
+
+        const panner = this.createPanner(clockPosition, mode);
+        panner.connect(output);
 
         const now = this.audioContext.currentTime;
-        oscillator.start(now);
-        oscillator.stop(now + duration);
+        for (let i = 0; i < pulses; i++) {
+            const oscillator = this.audioContext.createOscillator();
+            oscillator.type = type;
+            oscillator.frequency.value = frequency;
+
+            const gainNode = this.audioContext.createGain();
+            gainNode.gain.value = type === 'square' ? 0.3 : 0.5;
+
+            oscillator.connect(gainNode);
+            gainNode.connect(panner);
+
+            const start = now + i * interval;
+            oscillator.start(start);
+            oscillator.stop(start + duration);
+        }
+    }
+
+    /**
+     * HRTF panner placed on a circle around the listener, or a stereo panner on the same angle
+     */
+    private createPanner(clockPosition: number | null, mode: HazardAudioMode): AudioNode {
+        const audioContext = this.audioContext!;
+        const azimuth = clockPosition === null ? 0 : clockToAzimuth(clockPosition);
+
+        if (mode === 'stereo') {
+            const panner = audioContext.createStereoPanner();
+            panner.pan.value = Math.sin(azimuth);
+            return panner;
+        }
+
+        // The listener faces -z, so straight ahead is (0, 0, -1) and 3 o'clock is (1, 0, 0).
+        // Distance is carried by pitch and rate, so the panner must not fade the tone.
+        const panner = audioContext.createPanner();
+        panner.panningModel = 'HRTF';
+        panner.distanceModel = 'inverse';
+        panner.refDistance = 1;
+        panner.rolloffFactor = 0;
+        const [x, z] = [Math.sin(azimuth), -Math.cos(azimuth)];
+        if (panner.positionX) {
+            panner.positionX.value = x;
+            panner.positionY.value = 0;
+            panner.positionZ.value = z;
+        } else {
+            panner.setPosition(x, 0, z);  // Older Safari
+        }
+        return panner;
+    }
+
+    private createBalanceStage(balance: number): BalanceStage {
+        const audioContext = this.audioContext!;
+        const input = audioContext.createGain();
+        // Up-mix mono tones to both ears before splitting
+        input.channelCount = 2;
+        input.channelCountMode = 'explicit';
+        input.channelInterpretation = 'speakers';
+
+        const splitter = audioContext.createChannelSplitter(2);
+        const merger = audioContext.createChannelMerger(2);
+        const left = audioContext.createGain();
+        const right = audioContext.createGain();
+
+        input.connect(splitter);
+        splitter.connect(left, 0);
+        splitter.connect(right, 1);
+        left.connect(merger, 0, 0);
+        right.connect(merger, 0, 1);
+        merger.connect(this.masterGain!);
+
+        const stage = { input, left, right };
+        this.setBalanceGains(stage, balance);
+        return stage;
+    }
+
+    private setBalanceGains(stage: BalanceStage, balance: number): void {
+        // Shifting towards one ear turns the other one down
+        stage.left.gain.value = balance > 0 ? 1 - balance : 1;
+        stage.right.gain.value = balance < 0 ? 1 + balance : 1;
     }
 
     /**
@@ -111,37 +331,63 @@ export class AudioFeedbackManager {
     }
 
     /**
-     * Play obstacle proximity warning (parking sensor style)
-     * Faster beeps = closer object
+     * Play success/confirmation tone
+     */
+    playConfirmation(): void {
+        if (!this.audioContext || !this.masterGain) {
+            return;
+        }
+
+        // Pleasant ascending tone
+        this.playTone(523, 0.1, 'sine', 0.4); // C5
+        setTimeout(() => {
+            this.playTone(659, 0.15, 'sine', 0.4); // E5
+        }, 100);
+    }
+
+    /**
+     * Play connection-lost tone while the session reconnects
      */
-    startProximityAlert(distanceMeters: number): NodeJS.Timeout | null {
+    playReconnecting(): void {
         if (!this.audioContext || !this.masterGain) {
-            return null;
+            return;
         }
 
-        // Interval based on distance: 1m = 200ms, 3m = 1000ms
-        const interval = Math.max(200, Math.min(1000, distanceMeters * 300));
+        // Soft descending pair, gentler than the error tone
+        this.playTone(659, 0.12, 'triangle', 0.4); // E5
+        setTimeout(() => {
+            this.playTone(494, 0.18, 'triangle', 0.4); // B4
+        }, 140);
+    }
 
-        const intervalId = setInterval(() => {
-            this.playTone(600, 0.05, 'square', 0.3);
-        }, interval);
+    /**
+     * Play mic-open tone: Aura is now hearing the user
+     */
+    playMicOpen(): void {
+        if (!this.audioContext || !this.masterGain) {
+            return;
+        }
 
-        return intervalId;
+        // Quick rising fifth, higher and shorter than the confirmation
+        this.playTone(784, 0.06, 'sine', 0.35); // G5
+        setTimeout(() => {
+            this.playTone(1175, 0.08, 'sine', 0.35); // D6
+        }, 60);
     }
 
     /**
-     * Play success/confirmation tone
+     * Play mic-closed tone: nothing more is sent until the mic opens again
      */
-    playConfirmation(): void {
+    playMicClosed(): void {
         if (!this.audioContext || !this.masterGain) {
             return;
         }
 
-        // Pleasant ascending tone
-        this.playTone(523, 0.1, 'sine', 0.4); // C5
+        // The mic-open tone reversed
+        this.playTone(1175, 0.06, 'sine', 0.3); // D6
         setTimeout(() => {
-            this.playTone(659, 0.15, 'sine', 0.4); // E5
-        }, 100);
+            this.playTone(784, 0.08, 'sine', 0.3); // G5
+        }, 60);
     }
 
     /**
@@ -181,7 +427,7 @@ export class AudioFeedbackManager {
         gainNode.gain.value = volume;
 
         oscillator.connect(gainNode);
-        gainNode.connect(this.masterGain);
+        gainNode.connect(this.balanceStage?.input ?? this.masterGain);
 
         const now = this.audioContext.currentTime;
         oscillator.start(now);
@@ -201,10 +447,12 @@ export class AudioFeedbackManager {
      * Clean up audio context
      */
     async dispose(): Promise<void> {
+        this.stopProximity();
         if (this.audioContext) {
             await this.audioContext.close();
             this.audioContext = null;
             this.masterGain = null;
+            this.balanceStage = null;
         }
     }
 }
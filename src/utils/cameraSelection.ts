@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export interface CameraOption {
+    deviceId: string;
+    label: string;      // Empty until the user has granted camera access
+}
+
+// Enough detail for signs and obstacles without saturating the uplink; the video tier scales it down further
+const CAMERA_RESOLUTION: MediaTrackConstraints = {
+    width: { ideal: 1280, max: 1920 },
+    height: { ideal: 720, max: 1080 },
+    frameRate: { ideal: 15, max: 30 }
+};
+
+const CAMERA_STORAGE_KEY = 'vcb-camera';
+
+/**
+ * Video constraints for a chosen camera, or for the rear camera when none is chosen.
+ * The rear camera is only preferred, so laptops with a single webcam still open it.
+ */
+export function buildCameraConstraints(deviceId: string | null): MediaTrackConstraints {
+    return deviceId
+        ? { ...CAMERA_RESOLUTION, deviceId: { exact: deviceId } }
+        : { ...CAMERA_RESOLUTION, facingMode: { ideal: 'environment' } };
+}
+
+/**
+ * Cameras on this device, in the order the browser lists them
+ */
+export async function listCameras(mediaDevices: Pick<MediaDevices, 'enumerateDevices'>): Promise<CameraOption[]> {
+    try {
+        const devices = await mediaDevices.enumerateDevices();
+        return devices
+            .filter(device => device.kind === 'videoinput' && device.deviceId)
+            .map(device => ({ deviceId: device.deviceId, label: device.label }));
+    } catch (error) {
+        console.warn('Could not list cameras:', error);
+        return [];
+    }
+}
+
+/**
+ * The camera chosen on this device, or null for the rear-camera default
+ */
+export function loadCameraChoice(): string | null {
+    try {
+        return localStorage.getItem(CAMERA_STORAGE_KEY);
+    } catch (error) {
+        console.error('Could not read camera choice:', error);
+        return null;
+    }
+}
+
+/**
+ * Remember the camera for this device; null goes back to the rear-camera default
+ */
+export function saveCameraChoice(deviceId: string | null): void {
+    if (deviceId) {
+        localStorage.setItem(CAMERA_STORAGE_KEY, deviceId);
+    } else {
+        localStorage.removeItem(CAMERA_STORAGE_KEY);
+    }
+    console.log('📷 Camera choice saved:', deviceId ?? 'rear camera');
+}
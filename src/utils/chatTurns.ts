@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export type ChatSpeaker = 'user' | 'ai';
+
+// 'interrupted' means the user cut the AI off with barge-in
+export type ChatTurnStatus = 'streaming' | 'complete' | 'interrupted';
+
+/**
+ * One turn of the conversation, built up from streamed fragments
+ */
+export interface ChatMessage {
+    id: string;             // Turn id, stable while fragments stream in
+    type: ChatSpeaker;
+    text: string;
+    timestamp: Date;
+    status: ChatTurnStatus;
+}
+
+export const MAX_CHAT_MESSAGES = 50;
+
+/**
+ * Append a fragment to the turn with the given id, starting a new partial turn if needed
+ */
+export function appendToTurn(messages: ChatMessage[], id: string, type: ChatSpeaker, fragment: string): ChatMessage[] {
+    const index = messages.findIndex(m => m.id === id);
+    if (index === -1) {
+        if (!fragment.trim()) return messages;
+        const turn: ChatMessage = { id, type, text: fragment.trimStart(), timestamp: new Date(), status: 'streaming' };
+        return [...messages, turn].slice(-MAX_CHAT_MESSAGES);
+    }
+
+    const updated = [...messages];
+    updated[index] = { ...messages[index], text: messages[index].text + fragment };
+    return updated;
+}
+
+/**
+ * Close a streaming turn, trimming the whitespace fragments leave behind
+ */
+export function finalizeTurn(
+    messages: ChatMessage[],
+    id: string,
+    status: Exclude<ChatTurnStatus, 'streaming'> = 'complete'
+): ChatMessage[] {
+    const index = messages.findIndex(m => m.id === id);
+    if (index === -1 || messages[index].status !== 'streaming') return messages;
+
+    const updated = [...messages];
+    updated[index] = { ...messages[index], text: messages[index].text.trim(), status };
+    return updated;
+}
@@ -0,0 +1,175 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { HazardType } from './hazards';
+import type { LocaleId } from './locales';
+
+/**
+ * Words the text hazard parser needs to read distances, STOP commands and
+ * hazard types in one language
+ */
+export interface DistanceVocabulary {
+    numberWords: Record<string, number>;    // Single words, e.g. "two", "twee", "deux"
+    tensWords: Record<string, number>;
+    compoundOrder: 'tens-units' | 'units-tens'; // "twenty five" or "vyf en twintig"
+    compoundJoiners: string[];              // Allowed between the parts: "en", "et"
+    halfPhrases: string[];                  // A half on its own
+    quarterPhrases: string[];
+    plusHalfPhrases: string[];              // "and a half", after a number or after the unit
+    pointWords: string[];                   // Spoken decimal point
+    meterUnits: string[];
+    feetUnits: string[];
+    numberAfterUnit: boolean;               // "amamitha amabili" puts the number after the unit
+    centimetresAfterUnit: boolean;          // "un mètre cinquante" is 1.5 m
+    stopWords: string[];                    // Standalone commands meaning STOP
+    clockPattern: RegExp | null;            // Group 1 is the hour, as digits or a number word
+    sidePatterns: { left: RegExp; right: RegExp };  // "on your left", used when no clock position is given
+    hazardKeywords: [HazardType, RegExp][];
+}
+
+/**
+ * Match any of the words as a whole word, including words with accented letters
+ */
+function keywords(...words: string[]): RegExp {
+    return new RegExp(`(?<![\\p{L}])(${words.join('|')})(?![\\p{L}])`, 'u');
+}
+
+const en: DistanceVocabulary = {
+    numberWords: {
+        zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+        ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15,
+        sixteen: 16, seventeen: 17, eighteen: 18, nineteen: 19
+    },
+    tensWords: { twenty: 20, thirty: 30, forty: 40, fifty: 50 },
+    compoundOrder: 'tens-units',
+    compoundJoiners: [],
+    halfPhrases: ['half', 'half a', 'a half'],
+    quarterPhrases: ['quarter', 'a quarter', 'quarter of a'],
+    plusHalfPhrases: ['and a half'],
+    pointWords: ['point'],
+    meterUnits: ['meter', 'meters', 'metre', 'metres', 'm'],
+    feetUnits: ['feet', 'foot', 'ft'],
+    numberAfterUnit: false,
+    centimetresAfterUnit: false,
+    stopWords: ['stop'],
+    clockPattern: /\b(\d{1,2}|[a-z]+)\s*o'?\s*clock\b/,
+    sidePatterns: {
+        left: /\b((on|to) (your|the) left|left side|left hand side)\b/,
+        right: /\b((on|to) (your|the) right|right side|right hand side)\b/
+    },
+    hazardKeywords: [
+        ['stairs', keywords('stairs?', 'steps?', 'staircase')],
+        ['curb', keywords('curb', 'kerb')],
+        ['drop', keywords('drop', 'edge', 'hole', 'ledge')],
+        ['wall', keywords('wall')],
+        ['door', keywords('door', 'doorway', 'gate')],
+        ['person', keywords('person', 'people', 'man', 'woman', 'child', 'pedestrian')],
+        ['vehicle', keywords('car', 'vehicle', 'bike', 'bicycle', 'bus', 'truck', 'scooter')],
+        ['pole', keywords('pole', 'post', 'bollard', 'sign')]
+    ]
+};
+
+const af: DistanceVocabulary = {
+    numberWords: {
+        nul: 0, een: 1, twee: 2, drie: 3, vier: 4, vyf: 5, ses: 6, sewe: 7, agt: 8, ag: 8, nege: 9,
+        tien: 10, elf: 11, twaalf: 12, dertien: 13, veertien: 14, vyftien: 15,
+        sestien: 16, sewentien: 17, agtien: 18, negentien: 19
+    },
+    tensWords: { twintig: 20, dertig: 30, veertig: 40, vyftig: 50 },
+    compoundOrder: 'units-tens',
+    compoundJoiners: ['en'],
+    halfPhrases: ['half', "'n half", "'n halwe", 'halwe'],
+    quarterPhrases: ['kwart', "'n kwart"],
+    plusHalfPhrases: ["en 'n half", 'en n half'],
+    pointWords: ['komma', 'punt'],
+    meterUnits: ['meter', 'meters', 'm'],
+    feetUnits: ['voet', 'ft'],
+    numberAfterUnit: false,
+    centimetresAfterUnit: false,
+    stopWords: ['stop', 'staan'],
+    clockPattern: /(?<![\p{L}])(\d{1,2}|\p{L}+)[\s-]+uur(?![\p{L}])/u,
+    sidePatterns: { left: keywords('links', 'linkerkant'), right: keywords('regs', 'regterkant') },
+    hazardKeywords: [
+        ['stairs', keywords('trap(pe)?', 'trappie', 'treetjies?')],
+        ['curb', keywords('randsteen', 'sypaadjierand')],
+        ['drop', keywords('gat', 'rand', 'afgrond', 'afdraand')],
+        ['wall', keywords('muur')],
+        ['door', keywords('deur', 'deure', 'hek')],
+        ['person', keywords('persoon', 'mense', 'man', 'vrou', 'kind', 'voetganger')],
+        ['vehicle', keywords('motor', 'kar', 'voertuig', 'fiets', 'bus', 'vragmotor', 'bakkie')],
+        ['pole', keywords('paal', 'pale', 'bord', 'pilaar')]
+    ]
+};
+
+const zu: DistanceVocabulary = {
+    numberWords: {
+        kunye: 1, munye: 1, eyodwa: 1, yodwa: 1, olulodwa: 1,
+        kubili: 2, amabili: 2, mabili: 2, ezimbili: 2,
+        kuthathu: 3, amathathu: 3, mathathu: 3, ezintathu: 3,
+        kune: 4, amane: 4, mane: 4, ezine: 4,
+        kuhlanu: 5, amahlanu: 5, mahlanu: 5, ezinhlanu: 5,
+        isithupha: 6, ayisithupha: 6,
+        isikhombisa: 7, ayisikhombisa: 7,
+        isishiyagalombili: 8, ayisishiyagalombili: 8,
+        isishiyagalolunye: 9, ayisishiyagalolunye: 9,
+        ishumi: 10, ayishumi: 10
+    },
+    tensWords: {},
+    compoundOrder: 'tens-units',
+    compoundJoiners: [],
+    halfPhrases: ['uhhafu', 'ingxenye', 'hhafu'],
+    quarterPhrases: ['ikota'],
+    plusHalfPhrases: ['nengxenye', 'nohhafu'],
+    pointWords: ['iphoyinti', 'phoyinti'],
+    meterUnits: ['imitha', 'amamitha', 'mitha', 'wemitha', 'yemitha', 'meter', 'meters', 'm'],
+    feetUnits: ['amafidi', 'ifidi', 'ft'],
+    numberAfterUnit: true,
+    centimetresAfterUnit: false,
+    stopWords: ['yima', 'ima', 'stop'],
+    clockPattern: null,
+    sidePatterns: { left: keywords('kwesobunxele', 'ngakwesobunxele'), right: keywords('kwesokudla', 'ngakwesokudla') },
+    hazardKeywords: [
+        ['stairs', keywords('izitebhisi', 'isitebhisi', 'itebhisi')],
+        ['drop', keywords('umgodi', 'imigodi', 'unqenqema', 'iwa')],
+        ['wall', keywords('udonga', 'izindonga', 'odongeni')],
+        ['door', keywords('umnyango', 'iminyango', 'isango')],
+        ['person', keywords('umuntu', 'abantu', 'indoda', 'owesifazane', 'ingane')],
+        ['vehicle', keywords('imoto', 'izimoto', 'ibhasi', 'ilori', 'ibhayisikili', 'isithuthuthu', 'itekisi')],
+        ['pole', keywords('isigxobo', 'izigxobo', 'ipali', 'uphawu')]
+    ]
+};
+
+const fr: DistanceVocabulary = {
+    numberWords: {
+        zéro: 0, un: 1, une: 1, deux: 2, trois: 3, quatre: 4, cinq: 5, six: 6, sept: 7, huit: 8, neuf: 9,
+        dix: 10, onze: 11, douze: 12, treize: 13, quatorze: 14, quinze: 15, seize: 16
+    },
+    tensWords: { dix: 10, vingt: 20, trente: 30, quarante: 40, cinquante: 50 },
+    compoundOrder: 'tens-units',
+    compoundJoiners: ['et'],
+    halfPhrases: ['demi', 'un demi', 'une demie', 'demie'],
+    quarterPhrases: ['quart', 'un quart'],
+    plusHalfPhrases: ['et demi', 'et demie'],
+    pointWords: ['virgule'],
+    meterUnits: ['mètre', 'mètres', 'metre', 'metres', 'm'],
+    feetUnits: ['pied', 'pieds', 'ft'],
+    numberAfterUnit: false,
+    centimetresAfterUnit: true,
+    stopWords: ['stop', 'arrêtez', 'arrête', 'halte'],
+    clockPattern: /(?<![\p{L}])(\d{1,2}|\p{L}+)\s+heures?(?![\p{L}])/u,
+    sidePatterns: { left: keywords('à gauche', 'sur votre gauche'), right: keywords('à droite', 'sur votre droite') },
+    hazardKeywords: [
+        ['stairs', keywords('escaliers?', 'marches?')],
+        ['curb', keywords('trottoir', 'bordure')],
+        ['drop', keywords('trou', 'bord', 'dénivelé', 'vide')],
+        ['wall', keywords('murs?')],
+        ['door', keywords('portes?', 'portail')],
+        ['person', keywords('personnes?', 'gens', 'homme', 'femme', 'enfant', 'piétons?')],
+        ['vehicle', keywords('voitures?', 'véhicules?', 'vélos?', 'bus', 'camions?', 'scooters?', 'trottinettes?')],
+        ['pole', keywords('poteaux?', 'borne', 'panneau')]
+    ]
+};
+
+export const DISTANCE_VOCABULARY: Record<LocaleId, DistanceVocabulary> = { en, af, zu, fr };
@@ -4,6 +4,8 @@
  */
 
 import { errorLogger, type ErrorSeverity } from './errorLogger';
+import { translate, type TranslationParams } from './translations';
+import type { LocaleId } from './locales';
 
 export type MediaErrorType =
     | 'permission-denied'
@@ -40,12 +42,22 @@ export interface AudioErrorState {
     recoveryAction: string;
 }
 
+/**
+ * Device names to fill into the media error messages
+ */
+function deviceParams(deviceType: 'camera' | 'microphone', locale: LocaleId): TranslationParams {
+    return deviceType === 'camera'
+        ? { device: translate(locale, 'device.camera'), deviceLower: translate(locale, 'device.cameraLower') }
+        : { device: translate(locale, 'device.microphone'), deviceLower: translate(locale, 'device.microphoneLower') };
+}
+
 /**
  * Handle camera/microphone access errors
  */
-export function handleMediaError(error: Error, deviceType: 'camera' | 'microphone'): MediaErrorState {
+export function handleMediaError(error: Error, deviceType: 'camera' | 'microphone', locale: LocaleId = 'en'): MediaErrorState {
     const errorName = error.name;
     const device = deviceType === 'camera' ? 'Camera' : 'Microphone';
+    const params = deviceParams(deviceType, locale);
     let errorType: MediaErrorType = 'unknown';
     let userMessage = '';
     let userGuidance = '';
@@ -56,8 +68,8 @@ export function handleMediaError(error: Error, deviceType: 'camera' | 'microphon
         case 'NotAllowedError':
         case 'PermissionDeniedError':
             errorType = 'permission-denied';
-            userMessage = `${device} access denied`;
-            userGuidance = getPermissionGuidance(deviceType);
+            userMessage = translate(locale, 'error.media.denied', params);
+            userGuidance = getPermissionGuidance(deviceType, locale);
             canRetry = true;
             retryDelay = 0; // User can retry immediately after granting permission
             break;
@@ -65,8 +77,8 @@ export function handleMediaError(error: Error, deviceType: 'camera' | 'microphon
         case 'NotFoundError':
         case 'DevicesNotFoundError':
             errorType = 'device-not-found';
-            userMessage = `No ${deviceType} detected`;
-            userGuidance = `Please connect a ${deviceType} and try again`;
+            userMessage = translate(locale, 'error.media.notFound', params);
+            userGuidance = translate(locale, 'error.media.notFoundGuidance', params);
             canRetry = true;
             retryDelay = 2000;
             break;
@@ -74,8 +86,8 @@ export function handleMediaError(error: Error, deviceType: 'camera' | 'microphon
         case 'NotReadableError':
         case 'TrackStartError':
             errorType = 'device-in-use';
-            userMessage = `${device} is being used by another application`;
-            userGuidance = `Close other apps using the ${deviceType} and try again`;
+            userMessage = translate(locale, 'error.media.inUse', params);
+            userGuidance = translate(locale, 'error.media.inUseGuidance', params);
             canRetry = true;
             retryDelay = 3000;
             break;
@@ -83,22 +95,22 @@ export function handleMediaError(error: Error, deviceType: 'camera' | 'microphon
         case 'OverconstrainedError':
         case 'ConstraintNotSatisfiedError':
             errorType = 'overconstrained';
-            userMessage = `${device} doesn't meet requirements`;
-            userGuidance = `Your ${deviceType} may not support the required settings`;
+            userMessage = translate(locale, 'error.media.overconstrained', params);
+            userGuidance = translate(locale, 'error.media.overconstrainedGuidance', params);
             canRetry = false;
             break;
 
         case 'SecurityError':
             errorType = 'security-error';
-            userMessage = `${device} blocked by security policy`;
-            userGuidance = 'Ensure you are on a secure HTTPS connection';
+            userMessage = translate(locale, 'error.media.security', params);
+            userGuidance = translate(locale, 'error.media.securityGuidance', params);
             canRetry = false;
             break;
 
         default:
             errorType = 'unknown';
-            userMessage = `${device} error occurred`;
-            userGuidance = 'Please try again or restart your browser';
+            userMessage = translate(locale, 'error.media.unknown', params);
+            userGuidance = translate(locale, 'error.media.unknownGuidance', params);
             canRetry = true;
             retryDelay = 2000;
     }
@@ -126,39 +138,39 @@ export function handleMediaError(error: Error, deviceType: 'camera' | 'microphon
 /**
  * Get OS-specific permission guidance
  */
-function getPermissionGuidance(deviceType: 'camera' | 'microphone'): string {
+function getPermissionGuidance(deviceType: 'camera' | 'microphone', locale: LocaleId): string {
     const userAgent = navigator.userAgent.toLowerCase();
-    const device = deviceType === 'camera' ? 'Camera' : 'Microphone';
+    const params = deviceParams(deviceType, locale);
 
     // Detect OS
     if (userAgent.includes('mac')) {
-        return `Mac: Open System Settings → Privacy & Security → ${device} → Enable for your browser`;
+        return translate(locale, 'guidance.mac', params);
     } else if (userAgent.includes('win')) {
-        return `Windows: Open Settings → Privacy → ${device} → Allow apps to access your ${deviceType}`;
+        return translate(locale, 'guidance.windows', params);
     } else if (userAgent.includes('android')) {
-        return `Android: Open Settings → Apps → Browser → Permissions → ${device} → Allow`;
+        return translate(locale, 'guidance.android', params);
     } else if (userAgent.includes('iphone') || userAgent.includes('ipad')) {
-        return `iOS: Open Settings → Browser → ${device} → Allow`;
+        return translate(locale, 'guidance.ios', params);
     }
 
     // Detect Browser
     if (userAgent.includes('chrome')) {
-        return `Chrome: Click the ${deviceType === 'camera' ? 'camera' : 'microphone'} icon in the address bar → Allow`;
+        return translate(locale, 'guidance.chrome', params);
     } else if (userAgent.includes('firefox')) {
-        return `Firefox: Click the ${deviceType} icon in the address bar → Allow`;
+        return translate(locale, 'guidance.firefox', params);
     } else if (userAgent.includes('safari')) {
-        return `Safari: Go to Safari → Settings for This Website → ${device} → Allow`;
+        return translate(locale, 'guidance.safari', params);
     }
 
-    return `Grant ${deviceType} permission in your browser settings`;
+    return translate(locale, 'guidance.generic', params);
 }
 
 /**
  * Handle WebSocket connection errors
  */
-export function handleWebSocketError(event: Event, closeCode?: number): NetworkErrorState {
+export function handleWebSocketError(event: Event, closeCode?: number, locale: LocaleId = 'en'): NetworkErrorState {
     let errorMessage = 'WebSocket connection error';
-    let userMessage = 'Connection to AI service lost';
+    let userMessage = translate(locale, 'error.network.lost');
     let canReconnect = true;
     let shouldRetry = true;
 
@@ -166,30 +178,30 @@ export function handleWebSocketError(event: Event, closeCode?: number): NetworkE
     if (closeCode) {
         switch (closeCode) {
             case 1000: // Normal closure
-                userMessage = 'Session ended normally';
+                userMessage = translate(locale, 'error.network.normalClosure');
                 shouldRetry = false;
                 break;
             case 1001: // Going away
                 errorMessage = 'Server going away';
-                userMessage = 'Server is restarting';
+                userMessage = translate(locale, 'error.network.goingAway');
                 break;
             case 1006: // Abnormal closure
                 errorMessage = 'Connection lost unexpectedly';
-                userMessage = 'Network connection lost';
+                userMessage = translate(locale, 'error.network.abnormalClosure');
                 break;
             case 1008: // Policy violation
                 errorMessage = 'Connection blocked by policy';
-                userMessage = 'Connection blocked - check API key';
+                userMessage = translate(locale, 'error.network.policy');
                 canReconnect = false;
                 shouldRetry = false;
                 break;
             case 1011: // Server error
                 errorMessage = 'Server encountered an error';
-                userMessage = 'AI service temporarily unavailable';
+                userMessage = translate(locale, 'error.network.serverError');
                 break;
             default:
                 errorMessage = `Connection closed with code ${closeCode}`;
-                userMessage = 'Connection interrupted';
+                userMessage = translate(locale, 'error.network.interrupted');
         }
     }
 
@@ -214,26 +226,26 @@ export function handleWebSocketError(event: Event, closeCode?: number): NetworkE
 /**
  * Handle Audio Context errors
  */
-export function handleAudioContextError(error: Error, contextType: 'input' | 'output'): AudioErrorState {
-    const context = contextType === 'input' ? 'Microphone audio' : 'Speaker audio';
+export function handleAudioContextError(error: Error, contextType: 'input' | 'output', locale: LocaleId = 'en'): AudioErrorState {
+    const context = translate(locale, contextType === 'input' ? 'error.audio.inputContext' : 'error.audio.outputContext');
     let userMessage = '';
     let canRecover = false;
     let recoveryAction = '';
 
     if (error.message.includes('suspended')) {
-        userMessage = `${context} suspended`;
+        userMessage = translate(locale, 'error.audio.suspended', { context });
         canRecover = true;
         recoveryAction = 'resume';
     } else if (error.message.includes('AudioWorklet')) {
-        userMessage = 'Audio processing failed';
+        userMessage = translate(locale, 'error.audio.worklet');
         canRecover = true;
         recoveryAction = 'reload-worklet';
     } else if (error.message.includes('decodeAudioData')) {
-        userMessage = 'Audio data corrupted';
+        userMessage = translate(locale, 'error.audio.corrupted');
         canRecover = false;
         recoveryAction = 'skip';
     } else {
-        userMessage = `${context} error`;
+        userMessage = translate(locale, 'error.audio.generic', { context });
         canRecover = true;
         recoveryAction = 'recreate';
     }
@@ -258,17 +270,17 @@ export function handleAudioContextError(error: Error, contextType: 'input' | 'ou
 /**
  * Handle device orientation/sensor errors
  */
-export function handleOrientationError(error: Error): AudioErrorState {
-    let userMessage = 'Device orientation unavailable';
+export function handleOrientationError(error: Error, locale: LocaleId = 'en'): AudioErrorState {
+    let userMessage = translate(locale, 'error.orientation.unavailable');
     let canRecover = false;
     let recoveryAction = 'continue-without';
 
     if (error.message.includes('permission')) {
-        userMessage = 'Orientation permission denied';
+        userMessage = translate(locale, 'error.orientation.denied');
         canRecover = true;
         recoveryAction = 'request-permission';
     } else if (error.message.includes('not supported')) {
-        userMessage = 'Orientation sensors not available';
+        userMessage = translate(locale, 'error.orientation.unsupported');
         canRecover = false;
         recoveryAction = 'feature-unavailable';
     }
@@ -292,18 +304,18 @@ export function handleOrientationError(error: Error): AudioErrorState {
 /**
  * Handle generic API errors
  */
-export function handleAPIError(error: Error, endpoint?: string): NetworkErrorState {
-    let userMessage = 'AI service error';
+export function handleAPIError(error: Error, endpoint?: string, locale: LocaleId = 'en'): NetworkErrorState {
+    let userMessage = translate(locale, 'error.api.generic');
     let shouldRetry = true;
 
-    if (error.message.includes('401') || error.message.includes('403')) {
-        userMessage = 'Invalid API key';
+    if (error.message.includes('401') || error.message.includes('403') || error.message.toLowerCase().includes('api key')) {
+        userMessage = translate(locale, 'error.api.invalidKey');
         shouldRetry = false;
     } else if (error.message.includes('429')) {
-        userMessage = 'Too many requests - please wait';
+        userMessage = translate(locale, 'error.api.rateLimited');
         shouldRetry = true;
     } else if (error.message.includes('500') || error.message.includes('503')) {
-        userMessage = 'AI service temporarily down';
+        userMessage = translate(locale, 'error.api.unavailable');
         shouldRetry = true;
     }
 
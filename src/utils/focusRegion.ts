@@ -0,0 +1,154 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { FrameEncoding } from './frameProcessing';
+import type { FrameArea } from './sceneChange';
+
+// Named areas of the screen the user can pick or ask for; 'full' turns focus off
+export const FOCUS_PRESET_IDS = [
+    'full', 'top-left', 'top', 'top-right', 'left', 'center', 'right', 'bottom-left', 'bottom', 'bottom-right'
+] as const;
+
+export type FocusPresetId = typeof FOCUS_PRESET_IDS[number];
+
+// Offered in the picker; the tool accepts any factor up to MAX_ZOOM
+export const FOCUS_ZOOM_LEVELS = [2, 3, 4] as const;
+const MAX_ZOOM = 4;
+
+/**
+ * Part of the frame to send enlarged, as fractions of the frame size
+ */
+export interface FocusRegion extends FrameArea {
+    source: FocusPresetId | 'zoom' | 'box';     // How it was chosen: a named area, a zoom factor, or a box from Aura
+}
+
+export const FULL_FRAME: FocusRegion = { x: 0, y: 0, width: 1, height: 1, source: 'full' };
+
+const PRESET_REGIONS: Record<FocusPresetId, Omit<FocusRegion, 'source'>> = {
+    full: { x: 0, y: 0, width: 1, height: 1 },
+    'top-left': { x: 0, y: 0, width: 0.5, height: 0.5 },
+    top: { x: 0, y: 0, width: 1, height: 0.5 },
+    'top-right': { x: 0.5, y: 0, width: 0.5, height: 0.5 },
+    left: { x: 0, y: 0, width: 0.5, height: 1 },
+    center: { x: 0.25, y: 0.25, width: 0.5, height: 0.5 },
+    right: { x: 0.5, y: 0, width: 0.5, height: 1 },
+    'bottom-left': { x: 0, y: 0.5, width: 0.5, height: 0.5 },
+    bottom: { x: 0, y: 0.5, width: 1, height: 0.5 },
+    'bottom-right': { x: 0.5, y: 0.5, width: 0.5, height: 0.5 }
+};
+
+// The whole frame goes out small, only for layout; the crop carries the detail
+export const OVERVIEW_ENCODING: FrameEncoding = { maxWidth: 640, jpegQuality: 0.5 };
+// Focus and changed-area crops are sent sharp. Enlarging further than this only magnifies the JPEG blocks of the source
+export const CROP_JPEG_QUALITY = 0.9;
+export const CROP_MAX_UPSCALE = 3;
+
+const BOX_PADDING = 0.02;       // Aura's boxes are tight; keep the edges of the text in the crop
+const MIN_REGION_SIZE = 0.1;
+
+export function isFullFrame(region: FocusRegion): boolean {
+    return region.width >= 1 && region.height >= 1;
+}
+
+export function parseFocusPreset(value: unknown): FocusPresetId | null {
+    return FOCUS_PRESET_IDS.includes(value as FocusPresetId) ? value as FocusPresetId : null;
+}
+
+export function focusRegionFromPreset(id: FocusPresetId): FocusRegion {
+    return { ...PRESET_REGIONS[id], source: id };
+}
+
+/**
+ * A region 1/factor of the frame in each direction, centred on the given region and kept inside the frame.
+ * A factor of 1 or less is the full frame.
+ */
+export function zoomFocusRegion(around: FocusRegion, factor: number): FocusRegion {
+    if (factor <= 1) return FULL_FRAME;
+    const size = 1 / Math.min(MAX_ZOOM, factor);
+    const centerX = around.x + around.width / 2;
+    const centerY = around.y + around.height / 2;
+    return {
+        x: clamp(centerX - size / 2, 0, 1 - size),
+        y: clamp(centerY - size / 2, 0, 1 - size),
+        width: size,
+        height: size,
+        source: 'zoom'
+    };
+}
+
+/**
+ * The zoom factor of a region made by zoomFocusRegion, rounded to a whole number
+ */
+export function getZoomFactor(region: FocusRegion): number {
+    return Math.round(1 / region.width);
+}
+
+/**
+ * A region from a Gemini bounding box: [ymin, xmin, ymax, xmax] scaled to 0-1000.
+ * Returns null if the box is malformed.
+ */
+export function focusRegionFromBox(box: unknown): FocusRegion | null {
+    if (!Array.isArray(box) || box.length !== 4 || !box.every(n => typeof n === 'number' && Number.isFinite(n))) {
+        return null;
+    }
+    const [yMin, xMin, yMax, xMax] = (box as number[]).map(n => clamp(n / 1000, 0, 1));
+    if (xMax <= xMin || yMax <= yMin) return null;
+
+    const width = Math.max(MIN_REGION_SIZE, xMax - xMin + 2 * BOX_PADDING);
+    const height = Math.max(MIN_REGION_SIZE, yMax - yMin + 2 * BOX_PADDING);
+    return {
+        x: clamp((xMin + xMax) / 2 - width / 2, 0, 1 - Math.min(1, width)),
+        y: clamp((yMin + yMax) / 2 - height / 2, 0, 1 - Math.min(1, height)),
+        width: Math.min(1, width),
+        height: Math.min(1, height),
+        source: 'box'
+    };
+}
+
+/**
+ * Read the arguments of a `setFocusRegion` call. A box wins over a named region;
+ * a zoom factor zooms around the named region, or the current one.
+ * Returns null if nothing usable was given.
+ */
+export function parseFocusToolArgs(args: Record<string, unknown> | undefined, current: FocusRegion): FocusRegion | null {
+    if (args?.box !== undefined) {
+        return focusRegionFromBox(args.box);
+    }
+    const preset = args?.region !== undefined ? parseFocusPreset(args.region) : null;
+    if (args?.region !== undefined && !preset) return null;
+
+    const zoom = typeof args?.zoom === 'number' && Number.isFinite(args.zoom) ? args.zoom : null;
+    if (zoom !== null) {
+        return zoomFocusRegion(preset ? focusRegionFromPreset(preset) : current, zoom);
+    }
+    return preset ? focusRegionFromPreset(preset) : null;
+}
+
+/**
+ * Plain words for the region, for the model and the logs
+ */
+export function describeFocusRegion(region: FocusRegion): string {
+    if (region.source === 'zoom') return `a ${getZoomFactor(region)}x zoom`;
+    if (region.source !== 'box') return `the ${region.source === 'full' ? 'whole screen' : region.source.replace('-', ' ')}`;
+    const percent = (n: number) => `${Math.round(n * 100)}%`;
+    return `the area from ${percent(region.x)} to ${percent(region.x + region.width)} across ` +
+        `and ${percent(region.y)} to ${percent(region.y + region.height)} down`;
+}
+
+/**
+ * Tell Aura how the frames it gets have changed
+ */
+export function buildFocusInstructions(region: FocusRegion): string {
+    if (isFullFrame(region)) {
+        return 'Screen focus cleared. Frames show the whole screen again.';
+    }
+    return `Screen focus set to ${describeFocusRegion(region)}. Each low-resolution frame of the whole screen ` +
+        'is now followed by a sharp, enlarged crop of that area. Read small text from the crop and use the ' +
+        'whole-screen frame only for layout.';
+}
+
+function clamp(value: number, min: number, max: number): number {
+    return Math.min(max, Math.max(min, value));
+}
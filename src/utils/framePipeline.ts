@@ -0,0 +1,299 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { hasPayload, processFrame, type FrameCanvases, type FrameEncoding, type FrameJob, type FrameWorkerResponse, type ProcessedFrame } from './frameProcessing';
+import { CROP_JPEG_QUALITY, FULL_FRAME, OVERVIEW_ENCODING, isFullFrame, type FocusRegion } from './focusRegion';
+import { QualityGate, type FrameIssue, type QualityGateChange } from './qualityGate';
+import { DEFAULT_SCENE_CHANGE_OPTIONS, type SceneChangeOptions } from './sceneChange';
+
+// Capture to payload, including the worker round trip
+export const FRAME_BUDGET_MS = 120;
+
+export interface FramePipelineConfig extends Partial<SceneChangeOptions> {
+    budgetMs?: number;
+}
+
+/**
+ * A processed frame plus the main-thread capture cost and the total time it took
+ */
+export interface FrameResult extends ProcessedFrame {
+    isKeyframe: boolean;    // Sent without a scene change because the keyframe interval ran out
+    isHeld: boolean;        // Encoded but held back as unusable; base64 is null and there are no crops.
+                            // Frames that start a bad run are also kept back, without isHeld.
+    gateChange: QualityGateChange;
+    issue: FrameIssue | null;   // Why frames are being held
+    captureMs: number;
+    totalMs: number;
+    overBudget: boolean;
+}
+
+/**
+ * Running totals for the session. Bytes are base64 payload bytes; a skipped
+ * frame is counted as saving the size of the last frame that was sent.
+ */
+export interface FrameStats {
+    framesSent: number;
+    framesSkipped: number;
+    framesHeld: number;
+    focusCrops: number;     // Enlarged crops sent with a frame while a focus region was set
+    changesOnlyFrames: number;  // Sent as crops of the changed areas, without the whole frame
+    keyframes: number;
+    sceneChanges: number;
+    bytesSent: number;
+    bytesSaved: number;
+}
+
+export const EMPTY_FRAME_STATS: FrameStats = {
+    framesSent: 0,
+    framesSkipped: 0,
+    framesHeld: 0,
+    focusCrops: 0,
+    changesOnlyFrames: 0,
+    keyframes: 0,
+    sceneChanges: 0,
+    bytesSent: 0,
+    bytesSaved: 0
+};
+
+interface PendingFrame {
+    resolve: (frame: ProcessedFrame) => void;
+    reject: (error: Error) => void;
+}
+
+/**
+ * Turns video frames into JPEG payloads and quality results, leaving out frames
+ * that look the same as the last one sent and holding back unusable ones, such
+ * as a finger over the lens. With a focus region set, each frame becomes a
+ * small overview plus an enlarged crop of the region. In changes-only mode a
+ * small change goes out as crops of the changed areas alone. The work runs in a worker on an
+ * ImageBitmap; browsers without OffscreenCanvas fall back to the same steps on
+ * the main thread.
+ */
+export class FramePipeline {
+    private worker: Worker | null = null;
+    private fallbackCanvases: FrameCanvases | null = null;
+    private pending = new Map<number, PendingFrame>();
+    private nextId = 0;
+    private isBusy = false;
+    private skipAnalysis = false;
+    private budgetMs: number;
+    private sceneChange: SceneChangeOptions;
+    private reference: Uint8Array | null = null;    // Signature of the last frame sent
+    private lastSentAt = 0;
+    private lastSentBytes = 0;
+    private stats: FrameStats = { ...EMPTY_FRAME_STATS };
+    private qualityGate = new QualityGate();
+    private focus: FocusRegion = FULL_FRAME;
+    private changesOnly = false;
+
+    constructor(config: FramePipelineConfig = {}) {
+        const { budgetMs, ...sceneChange } = config;
+        this.budgetMs = budgetMs ?? FRAME_BUDGET_MS;
+        this.sceneChange = { ...DEFAULT_SCENE_CHANGE_OPTIONS, ...sceneChange };
+        if (typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined') {
+            try {
+                this.worker = new Worker(new URL('./frameWorker.ts', import.meta.url), { type: 'module' });
+                this.worker.onmessage = (event: MessageEvent<FrameWorkerResponse>) => this.handleResponse(event.data);
+                this.worker.onerror = (event) => this.handleWorkerFailure(event.message);
+            } catch (error) {
+                console.warn('Frame worker unavailable, processing frames on the main thread:', error);
+                this.worker = null;
+            }
+        }
+    }
+
+    /**
+     * Process the current video frame. Resolves null when the video has no frame
+     * yet or the previous frame is still being processed: frames are dropped,
+     * never queued, so a slow device sends fewer frames instead of older ones.
+     * A result without base64 or crops was unchanged or held back and should not be sent.
+     * @param encoding - JPEG quality and maximum width for the current video tier
+     * @param forceSend - Send even if nothing changed, e.g. when the user asks what is in front of them
+     */
+    async capture(video: HTMLVideoElement, encoding: FrameEncoding, forceSend: boolean = false): Promise<FrameResult | null> {
+        if (this.isBusy || video.videoWidth === 0 || video.videoHeight === 0) {
+            return null;
+        }
+
+        this.isBusy = true;
+        const start = performance.now();
+        // In changes-only mode the model keeps the last whole frame; a keyframe would make it look again
+        const keyframeDue = !this.changesOnly && Date.now() - this.lastSentAt >= this.sceneChange.keyframeIntervalMs;
+        // While holding or on a bad run, every frame is analysed: a covered lens or a recovery
+        // often looks just like the last frame, and would otherwise never reach the gate
+        const isChecking = this.qualityGate.isHeld() || this.qualityGate.isPending();
+        const isFocused = !isFullFrame(this.focus);
+        const job: FrameJob = {
+            ...(isFocused ? {
+                maxWidth: Math.min(encoding.maxWidth, OVERVIEW_ENCODING.maxWidth),
+                jpegQuality: Math.min(encoding.jpegQuality, OVERVIEW_ENCODING.jpegQuality)
+            } : encoding),
+            focus: isFocused ? this.focus : null,
+            changesOnly: this.changesOnly,
+            cropEncoding: { maxWidth: encoding.maxWidth, jpegQuality: CROP_JPEG_QUALITY },
+            analyze: !this.skipAnalysis || isChecking,
+            reference: this.reference,
+            forceSend: forceSend || keyframeDue || isChecking,
+            blockThreshold: this.sceneChange.blockThreshold,
+            minChangedFraction: this.sceneChange.minChangedFraction
+        };
+        try {
+            let frame: ProcessedFrame;
+            let captureMs: number;
+            if (this.worker) {
+                const bitmap = await createImageBitmap(video);
+                captureMs = performance.now() - start;
+                frame = await this.processInWorker(bitmap, job);
+            } else {
+                captureMs = 0;
+                frame = await processFrame(video, video.videoWidth, video.videoHeight, job, this.getFallbackCanvases());
+            }
+
+            const totalMs = performance.now() - start;
+            const overBudget = totalMs > this.budgetMs;
+            // Quality analysis is the step that can wait; after an overrun, leave it out of the next frame
+            const isSent = hasPayload(frame);
+            if (isSent) {
+                this.skipAnalysis = overBudget && job.analyze;
+            }
+            const gateChange = isSent ? this.qualityGate.update(frame.quality) : null;
+            const isHeld = isSent && this.qualityGate.isHeld();
+            // An unusable frame stays back before the hold is confirmed too, so none reaches the model
+            const isWithheld = isHeld || (isSent && this.qualityGate.isPending());
+            if (isWithheld) {
+                this.stats.framesHeld++;
+                frame = { ...frame, base64: null, crops: [] };
+            }
+
+            const isKeyframe = hasPayload(frame) && !frame.sceneChanged && keyframeDue && !forceSend;
+            if (!isWithheld) this.record(frame, isKeyframe);
+            return { ...frame, isKeyframe, isHeld, gateChange, issue: this.qualityGate.getIssue(), captureMs, totalMs, overBudget };
+        } finally {
+            this.isBusy = false;
+        }
+    }
+
+    /**
+     * Forget the last frame sent, any hold and any focus region, so the next frame goes out
+     * whole unless it is unusable. Call when a new camera or screen stream starts.
+     */
+    resetStream(): void {
+        this.reference = null;
+        this.lastSentAt = 0;
+        this.qualityGate.reset();
+        this.focus = FULL_FRAME;
+    }
+
+    /**
+     * Send the region enlarged alongside a small overview, or the whole frame again for FULL_FRAME.
+     * The next frame goes out straight away, since changes are now measured in the region.
+     */
+    setFocus(region: FocusRegion): void {
+        this.focus = region;
+        this.reference = null;
+    }
+
+    getFocus(): FocusRegion {
+        return this.focus;
+    }
+
+    /**
+     * Send only crops of what changed, for screen monitoring. Turning it on sends the
+     * whole next frame first, so the model has the full picture the changes apply to.
+     */
+    setChangesOnly(changesOnly: boolean): void {
+        if (changesOnly === this.changesOnly) return;
+        this.changesOnly = changesOnly;
+        this.reference = null;
+    }
+
+    /**
+     * Whether unusable frames are currently being held back
+     */
+    isHolding(): boolean {
+        return this.qualityGate.isHeld();
+    }
+
+    getStats(): FrameStats {
+        return { ...this.stats };
+    }
+
+    resetStats(): void {
+        this.stats = { ...EMPTY_FRAME_STATS };
+    }
+
+    /**
+     * Stop the worker; frames still in flight are rejected
+     */
+    dispose(): void {
+        this.worker?.terminate();
+        this.worker = null;
+        this.rejectPending('Frame pipeline disposed');
+    }
+
+    private record(frame: ProcessedFrame, isKeyframe: boolean): void {
+        if (!hasPayload(frame)) {
+            this.stats.framesSkipped++;
+            this.stats.bytesSaved += this.lastSentBytes;
+            return;
+        }
+
+        this.reference = frame.signature;
+        this.lastSentAt = Date.now();
+        this.lastSentBytes = (frame.base64?.length ?? 0) + frame.crops.reduce((sum, crop) => sum + crop.base64.length, 0);
+        this.stats.framesSent++;
+        this.stats.bytesSent += this.lastSentBytes;
+        if (frame.base64 === null) {
+            this.stats.changesOnlyFrames++;
+        } else if (frame.crops.length > 0) {
+            this.stats.focusCrops++;
+        }
+        if (isKeyframe) this.stats.keyframes++;
+        if (frame.sceneChanged) this.stats.sceneChanges++;
+    }
+
+    private processInWorker(bitmap: ImageBitmap, job: FrameJob): Promise<ProcessedFrame> {
+        const id = ++this.nextId;
+        return new Promise((resolve, reject) => {
+            this.pending.set(id, { resolve, reject });
+            this.worker!.postMessage({ id, bitmap, job }, [bitmap]);
+        });
+    }
+
+    private handleResponse(response: FrameWorkerResponse): void {
+        const pending = this.pending.get(response.id);
+        if (!pending) return;
+        this.pending.delete(response.id);
+        if ('error' in response) {
+            pending.reject(new Error(response.error));
+        } else {
+            pending.resolve(response.frame);
+        }
+    }
+
+    private handleWorkerFailure(message: string): void {
+        console.warn(`Frame worker failed (${message}), processing frames on the main thread`);
+        this.worker?.terminate();
+        this.worker = null;
+        this.rejectPending(`Frame worker failed: ${message}`);
+    }
+
+    private rejectPending(reason: string): void {
+        this.pending.forEach(pending => pending.reject(new Error(reason)));
+        this.pending.clear();
+    }
+
+    private getFallbackCanvases(): FrameCanvases {
+        if (!this.fallbackCanvases) {
+            this.fallbackCanvases = {
+                frame: document.createElement('canvas'),
+                analysis: document.createElement('canvas'),
+                signature: document.createElement('canvas'),
+                crop: document.createElement('canvas')
+            };
+        }
+        return this.fallbackCanvases;
+    }
+}
@@ -0,0 +1,238 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ANALYSIS_WIDTH, analyzeImageQuality, type ImageQualityResult } from './imageQuality';
+import {
+    SIGNATURE_HEIGHT,
+    SIGNATURE_WIDTH,
+    changedFraction,
+    computeSignature,
+    findChangedRegions,
+    type FrameArea
+} from './sceneChange';
+import { CROP_MAX_UPSCALE, type FocusRegion } from './focusRegion';
+
+/**
+ * Canvas the frame steps draw into: offscreen in the worker, a detached
+ * element on the main thread where OffscreenCanvas is missing
+ */
+export type FrameCanvas = OffscreenCanvas | HTMLCanvasElement;
+
+export interface FrameCanvases {
+    frame: FrameCanvas;
+    analysis: FrameCanvas;
+    signature: FrameCanvas;
+    crop: FrameCanvas;
+}
+
+type FrameContext = OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+
+/**
+ * How a frame that goes out is encoded, set by the video tier
+ */
+export interface FrameEncoding {
+    jpegQuality: number;    // 0-1
+    maxWidth: number;       // Wider frames are scaled down, keeping the aspect ratio
+}
+
+export interface FrameJob extends FrameEncoding {
+    focus: FocusRegion | null;      // With a focus, the frame itself is only the overview and changes are measured in the region
+    changesOnly: boolean;   // Send crops of the areas that changed instead of the frame, unless most of it changed
+    cropEncoding: FrameEncoding;    // For focus and change crops
+    analyze: boolean;       // Quality analysis is skipped after a frame that went over budget
+    reference: Uint8Array | null;   // Signature of the last frame sent; null sends this one
+    forceSend: boolean;     // Keyframe or an explicit request: send even if nothing changed
+    blockThreshold: number;
+    minChangedFraction: number;
+}
+
+/**
+ * Part of the frame cut out and enlarged
+ */
+export interface FrameCrop {
+    area: FrameArea;        // Where it came from, as fractions of the whole frame
+    base64: string;
+    width: number;
+    height: number;
+}
+
+/**
+ * One frame after processing. Unchanged frames are not encoded: base64 is null,
+ * there are no crops, and quality is null, as it is when analysis was skipped.
+ */
+export interface ProcessedFrame {
+    base64: string | null;  // Also null when only the changed areas go out
+    bytes: number;          // JPEG bytes of the frame and the crops together
+    width: number;          // Size of the whole frame, after any scaling for the video tier
+    height: number;
+    crops: FrameCrop[];     // The focus region or the changed areas, sent after the frame
+    quality: ImageQualityResult | null;
+    signature: Uint8Array;
+    changedFraction: number;
+    sceneChanged: boolean;
+    analyzeMs: number;
+    encodeMs: number;
+}
+
+/**
+ * Whether anything from the frame should be sent
+ */
+export function hasPayload(frame: ProcessedFrame): boolean {
+    return frame.base64 !== null || frame.crops.length > 0;
+}
+
+export interface FrameWorkerRequest {
+    id: number;
+    bitmap: ImageBitmap;    // Transferred; the worker closes it
+    job: FrameJob;
+}
+
+export type FrameWorkerResponse =
+    | { id: number; frame: ProcessedFrame }
+    | { id: number; error: string };
+
+/**
+ * Compare the frame with the last one sent and stop there if nothing changed.
+ * Otherwise analyse a downscaled copy, then encode the frame, scaled to the tier's
+ * width, as JPEG and base64, and the focus region, if any, enlarged. In
+ * changes-only mode a small change sends just the changed areas, enlarged.
+ */
+export async function processFrame(
+    source: CanvasImageSource,
+    width: number,
+    height: number,
+    job: FrameJob,
+    canvases: FrameCanvases
+): Promise<ProcessedFrame> {
+    const { frame: frameCanvas, analysis: analysisCanvas, signature: signatureCanvas, crop: cropCanvas } = canvases;
+
+    // Changes elsewhere on the screen do not count while focused
+    const compared: FrameArea = job.focus ?? { x: 0, y: 0, width: 1, height: 1 };
+
+    signatureCanvas.width = SIGNATURE_WIDTH;
+    signatureCanvas.height = SIGNATURE_HEIGHT;
+    const signatureCtx = getContext(signatureCanvas, true);
+    signatureCtx.drawImage(
+        source, compared.x * width, compared.y * height, compared.width * width, compared.height * height,
+        0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT
+    );
+    const signature = computeSignature(signatureCtx.getImageData(0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT));
+    const changed = job.reference ? changedFraction(job.reference, signature, job.blockThreshold) : 1;
+    const sceneChanged = changed >= job.minChangedFraction;
+
+    const encodeScale = Math.min(1, job.maxWidth / width);
+    const encodeWidth = Math.round(width * encodeScale);
+    const encodeHeight = Math.round(height * encodeScale);
+
+    if (!sceneChanged && !job.forceSend) {
+        return {
+            base64: null, bytes: 0, width: encodeWidth, height: encodeHeight, crops: [], quality: null,
+            signature, changedFraction: changed, sceneChanged, analyzeMs: 0, encodeMs: 0
+        };
+    }
+
+    let quality: ImageQualityResult | null = null;
+    const analyzeStart = performance.now();
+    if (job.analyze) {
+        const scale = Math.min(1, ANALYSIS_WIDTH / width);
+        analysisCanvas.width = Math.max(3, Math.round(width * scale));
+        analysisCanvas.height = Math.max(3, Math.round(height * scale));
+        const ctx = getContext(analysisCanvas, true);
+        ctx.drawImage(source, 0, 0, analysisCanvas.width, analysisCanvas.height);
+        quality = analyzeImageQuality(ctx.getImageData(0, 0, analysisCanvas.width, analysisCanvas.height));
+    }
+    const analyzeMs = performance.now() - analyzeStart;
+
+    const encodeStart = performance.now();
+    // Changed areas are found within the compared area, so map them back onto the whole frame
+    const changedAreas = job.changesOnly && job.reference && !job.forceSend
+        ? findChangedRegions(job.reference, signature, job.blockThreshold)
+        : null;
+    const cropAreas = changedAreas
+        ? changedAreas.map(area => ({
+            x: compared.x + area.x * compared.width,
+            y: compared.y + area.y * compared.height,
+            width: area.width * compared.width,
+            height: area.height * compared.height
+        }))
+        : job.focus ? [job.focus] : [];
+
+    let base64: string | null = null;
+    let bytes = 0;
+    if (!changedAreas) {
+        frameCanvas.width = encodeWidth;
+        frameCanvas.height = encodeHeight;
+        getContext(frameCanvas, false).drawImage(source, 0, 0, encodeWidth, encodeHeight);
+        const frameBytes = await encodeJpeg(frameCanvas, job.jpegQuality);
+        base64 = bytesToBase64(frameBytes);
+        bytes += frameBytes.length;
+    }
+
+    const crops: FrameCrop[] = [];
+    for (const area of cropAreas) {
+        const cropBytes = await encodeCrop(source, width, height, area, job.cropEncoding, cropCanvas);
+        crops.push({ area, base64: bytesToBase64(cropBytes.data), width: cropBytes.width, height: cropBytes.height });
+        bytes += cropBytes.data.length;
+    }
+    const encodeMs = performance.now() - encodeStart;
+
+    return {
+        base64, bytes, width: encodeWidth, height: encodeHeight, crops, quality,
+        signature, changedFraction: changed, sceneChanged, analyzeMs, encodeMs
+    };
+}
+
+/**
+ * Cut out an area and scale it up to the crop width, but never so far that the enlargement adds nothing
+ */
+async function encodeCrop(
+    source: CanvasImageSource,
+    width: number,
+    height: number,
+    area: FrameArea,
+    encoding: FrameEncoding,
+    canvas: FrameCanvas
+): Promise<{ data: Uint8Array; width: number; height: number }> {
+    const sx = area.x * width;
+    const sy = area.y * height;
+    const sw = area.width * width;
+    const sh = area.height * height;
+    const scale = Math.min(CROP_MAX_UPSCALE, encoding.maxWidth / sw);
+    canvas.width = Math.max(1, Math.round(sw * scale));
+    canvas.height = Math.max(1, Math.round(sh * scale));
+    const ctx = getContext(canvas, false);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(source, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+    return { data: await encodeJpeg(canvas, encoding.jpegQuality), width: canvas.width, height: canvas.height };
+}
+
+function getContext(canvas: FrameCanvas, willReadFrequently: boolean): FrameContext {
+    const ctx = (canvas as HTMLCanvasElement).getContext('2d', { willReadFrequently }) as FrameContext | null;
+    if (!ctx) {
+        throw new Error('2D canvas context is not available');
+    }
+    return ctx;
+}
+
+async function encodeJpeg(canvas: FrameCanvas, quality: number): Promise<Uint8Array> {
+    const blob = 'convertToBlob' in canvas
+        ? await canvas.convertToBlob({ type: 'image/jpeg', quality })
+        : await new Promise<Blob>((resolve, reject) => {
+            canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('JPEG encoding failed')), 'image/jpeg', quality);
+        });
+    return new Uint8Array(await blob.arrayBuffer());
+}
+
+/**
+ * Base64 without the data URL round trip; chunked so large frames don't overflow the call stack
+ */
+function bytesToBase64(bytes: Uint8Array): string {
+    const CHUNK_SIZE = 0x8000;
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += CHUNK_SIZE) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK_SIZE));
+    }
+    return btoa(binary);
+}
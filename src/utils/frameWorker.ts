@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Frame worker: compares, analyses and encodes camera and screen frames off the UI thread.
+ * Loaded by FramePipeline; one frame is in flight at a time.
+ */
+
+import { processFrame, type FrameWorkerRequest, type FrameWorkerResponse } from './frameProcessing';
+
+const canvases = {
+    frame: new OffscreenCanvas(1, 1),
+    analysis: new OffscreenCanvas(1, 1),
+    signature: new OffscreenCanvas(1, 1),
+    crop: new OffscreenCanvas(1, 1)
+};
+
+function respond(response: FrameWorkerResponse): void {
+    self.postMessage(response);
+}
+
+self.onmessage = async (event: MessageEvent<FrameWorkerRequest>) => {
+    const { id, bitmap, job } = event.data;
+    try {
+        const frame = await processFrame(bitmap, bitmap.width, bitmap.height, job, canvases);
+        respond({ id, frame });
+    } catch (error) {
+        respond({ id, error: error instanceof Error ? error.message : String(error) });
+    } finally {
+        bitmap.close();
+    }
+};
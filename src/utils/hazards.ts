@@ -0,0 +1,262 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DISTANCE_VOCABULARY, type DistanceVocabulary } from './distanceVocabulary';
+import type { LocaleId } from './locales';
+import { METERS_PER_FOOT, type UnitSystem } from './units';
+
+export type UrgencyLevel = 'critical' | 'high' | 'medium' | 'low';
+
+export const HAZARD_TYPES = [
+    'wall',
+    'stairs',
+    'curb',
+    'drop',
+    'door',
+    'person',
+    'vehicle',
+    'pole',
+    'obstacle'
+] as const;
+
+export type HazardType = typeof HAZARD_TYPES[number];
+
+/**
+ * One hazard as reported by the model (or recovered from its spoken text)
+ */
+export interface HazardReport {
+    type: HazardType;
+    distanceMeters: number | null;  // null when only a STOP command was heard
+    clockPosition: number | null;   // 1-12, 12 is straight ahead
+    confidence: number;             // 0-1
+    source: 'tool' | 'text';
+    isStopCommand: boolean;
+}
+
+/**
+ * Distances in meters where urgency steps up: closer than `critical` is critical,
+ * closer than `high` is high, closer than `medium` is medium, anything further is low
+ */
+export interface UrgencyThresholds {
+    critical: number;
+    high: number;
+    medium: number;
+}
+
+export const DEFAULT_URGENCY_THRESHOLDS: UrgencyThresholds = { critical: 1, high: 2, medium: 3 };
+
+const TEXT_FALLBACK_CONFIDENCE = 0.5;
+const DEFAULT_TOOL_CONFIDENCE = 0.7;
+
+/**
+ * Map a distance to an urgency level
+ */
+export function urgencyForDistance(distanceMeters: number, thresholds: UrgencyThresholds = DEFAULT_URGENCY_THRESHOLDS): UrgencyLevel {
+    if (distanceMeters < thresholds.critical) return 'critical';
+    if (distanceMeters < thresholds.high) return 'high';
+    if (distanceMeters < thresholds.medium) return 'medium';
+    return 'low';
+}
+
+/**
+ * Urgency of a hazard report, or null if it carries no distance or command
+ */
+export function getHazardUrgency(report: HazardReport, thresholds: UrgencyThresholds = DEFAULT_URGENCY_THRESHOLDS): UrgencyLevel | null {
+    if (report.isStopCommand) return 'critical';
+    if (report.distanceMeters === null) return null;
+    return urgencyForDistance(report.distanceMeters, thresholds);
+}
+
+/**
+ * Validate the arguments of a `reportHazard` function call
+ */
+export function parseHazardToolArgs(args: Record<string, unknown> | undefined): HazardReport | null {
+    const distance = Number(args?.distanceMeters);
+    if (!Number.isFinite(distance) || distance < 0) {
+        return null;
+    }
+
+    const type = HAZARD_TYPES.includes(args?.type as HazardType) ? args!.type as HazardType : 'obstacle';
+    const clock = Math.round(Number(args?.clockPosition));
+    const confidence = Number(args?.confidence);
+
+    return {
+        type,
+        distanceMeters: distance,
+        clockPosition: clock >= 1 && clock <= 12 ? clock : null,
+        confidence: Number.isFinite(confidence) ? Math.min(1, Math.max(0, confidence)) : DEFAULT_TOOL_CONFIDENCE,
+        source: 'tool',
+        isStopCommand: false
+    };
+}
+
+/**
+ * Fallback for replies without a structured report: recover distance, clock
+ * position (or "on your left/right") and STOP commands from the spoken text.
+ * Handles digits and spoken numbers in the session language ("two meters",
+ * "een en 'n half meter", "amamitha amabili", "deux mètres et demi"). When both units are spoken
+ * ("two meters, six feet") the one in the user's unit system wins.
+ */
+export function parseHazardFromText(text: string, locale: LocaleId = 'en', unitSystem: UnitSystem = 'metric'): HazardReport | null {
+    const vocabulary = DISTANCE_VOCABULARY[locale];
+    const lowerText = text.toLowerCase().replace(/\u2019/g, "'");
+    const distanceMeters = parseSpokenDistance(lowerText, vocabulary, unitSystem);
+    const isStopCommand = isStandaloneStop(lowerText, vocabulary);
+
+    if (distanceMeters === null && !isStopCommand) {
+        return null;
+    }
+
+    return {
+        type: vocabulary.hazardKeywords.find(([, pattern]) => pattern.test(lowerText))?.[0] ?? 'obstacle',
+        distanceMeters,
+        clockPosition: parseClockPosition(lowerText, vocabulary) ?? parseSide(lowerText, vocabulary),
+        confidence: TEXT_FALLBACK_CONFIDENCE,
+        source: 'text',
+        isStopCommand
+    };
+}
+
+/**
+ * "STOP." or "Stop, stairs" as a command, not "stop navigation" or "bus stop"
+ */
+function isStandaloneStop(lowerText: string, vocabulary: DistanceVocabulary): boolean {
+    const pattern = new RegExp(`(^|[.!?]\\s*)(${vocabulary.stopWords.join('|')})\\s*([.!,]|$)`, 'u');
+    return pattern.test(lowerText.trim());
+}
+
+function tokenize(lowerText: string): string[] {
+    return lowerText
+        .replace(/(\d),(\d)/g, '$1.$2')     // "1,5 m" -> "1.5 m"
+        .replace(/(\d)(m|ft)\b/g, '$1 $2')  // "2m" -> "2 m"
+        .replace(/-/g, ' ')                   // "twenty-five" -> "twenty five"
+        .split(/[^\p{L}0-9.']+/u)
+        .map(token => token.replace(/^\.+|\.+$/g, ''))
+        .filter(Boolean);
+}
+
+function parseSpokenDistance(lowerText: string, vocabulary: DistanceVocabulary, unitSystem: UnitSystem): number | null {
+    const tokens = tokenize(lowerText);
+    let otherUnitMeters: number | null = null;
+    for (let i = 0; i < tokens.length; i++) {
+        const isMeters = vocabulary.meterUnits.includes(tokens[i]);
+        const isFeet = vocabulary.feetUnits.includes(tokens[i]);
+        if (!isMeters && !isFeet) continue;
+
+        const value = parseNumberAround(tokens, i, vocabulary);
+        if (value === null) continue;
+        if (isFeet === (unitSystem === 'imperial')) {
+            return isFeet ? value * METERS_PER_FOOT : value;
+        }
+        otherUnitMeters ??= isFeet ? value * METERS_PER_FOOT : value;
+    }
+    return otherUnitMeters;
+}
+
+/**
+ * Read the number that goes with the unit at `unitIndex`, wherever the language puts it
+ */
+function parseNumberAround(tokens: string[], unitIndex: number, vocabulary: DistanceVocabulary): number | null {
+    // Try the longest run of words after the unit that reads as a number ("amamitha amabili nengxenye")
+    if (vocabulary.numberAfterUnit) {
+        for (let end = Math.min(tokens.length, unitIndex + 4); end > unitIndex + 1; end--) {
+            const value = parseNumberWords(tokens.slice(unitIndex + 1, end), vocabulary);
+            if (value !== null) return value;
+        }
+    }
+
+    // Try the longest run of words before the unit that reads as a number
+    for (let start = Math.max(0, unitIndex - 5); start < unitIndex; start++) {
+        const value = parseNumberWords(tokens.slice(start, unitIndex), vocabulary);
+        if (value === null) continue;
+
+        const after = tokens.slice(unitIndex + 1);
+        // "deux mètres et demi"
+        if (vocabulary.plusHalfPhrases.some(phrase => startsWithPhrase(after, phrase))) {
+            return value + 0.5;
+        }
+        // "un mètre cinquante"
+        if (vocabulary.centimetresAfterUnit && Number.isInteger(value)) {
+            for (let length = Math.min(3, after.length); length > 0; length--) {
+                const centimetres = parseWholeNumber(after.slice(0, length), vocabulary);
+                if (centimetres !== null && centimetres >= 10 && centimetres < 100) {
+                    return value + centimetres / 100;
+                }
+            }
+        }
+        return value;
+    }
+    return null;
+}
+
+function startsWithPhrase(tokens: string[], phrase: string): boolean {
+    const words = phrase.split(' ');
+    return words.every((word, i) => tokens[i] === word);
+}
+
+/**
+ * Parse a complete run of tokens as a number, or null if any token is left over
+ */
+function parseNumberWords(tokens: string[], vocabulary: DistanceVocabulary): number | null {
+    const phrase = tokens.join(' ');
+    if (vocabulary.halfPhrases.includes(phrase)) return 0.5;
+    if (vocabulary.quarterPhrases.includes(phrase)) return 0.25;
+
+    for (const plusHalf of vocabulary.plusHalfPhrases) {
+        if (phrase.endsWith(` ${plusHalf}`)) {
+            const whole = parseWholeNumber(phrase.slice(0, -plusHalf.length - 1).split(' '), vocabulary);
+            return whole === null ? null : whole + 0.5;
+        }
+    }
+
+    const pointIndex = tokens.findIndex(token => vocabulary.pointWords.includes(token));
+    if (pointIndex > 0) {
+        const whole = parseWholeNumber(tokens.slice(0, pointIndex), vocabulary);
+        const tenths = pointIndex === tokens.length - 2 ? parseWholeNumber([tokens[pointIndex + 1]], vocabulary) : null;
+        return whole === null || tenths === null || tenths > 9 ? null : whole + tenths / 10;
+    }
+
+    return parseWholeNumber(tokens, vocabulary);
+}
+
+function parseWholeNumber(tokens: string[], vocabulary: DistanceVocabulary): number | null {
+    const { numberWords, tensWords } = vocabulary;
+    if (tokens.length === 1 && /^\d+(\.\d+)?$/.test(tokens[0])) {
+        return parseFloat(tokens[0]);
+    }
+    if (tokens.length === 1 && Object.hasOwn(numberWords, tokens[0])) {
+        return numberWords[tokens[0]];
+    }
+    if (tokens.length === 1 && Object.hasOwn(tensWords, tokens[0])) {
+        return tensWords[tokens[0]];
+    }
+
+    // "twenty five", "vingt et un", "vyf en twintig"
+    const parts = tokens.length === 3 && vocabulary.compoundJoiners.includes(tokens[1]) ? [tokens[0], tokens[2]] : tokens;
+    if (parts.length === 2) {
+        const [tens, units] = vocabulary.compoundOrder === 'tens-units' ? parts : [parts[1], parts[0]];
+        if (Object.hasOwn(tensWords, tens) && Object.hasOwn(numberWords, units) && numberWords[units] > 0 && numberWords[units] < 10) {
+            return tensWords[tens] + numberWords[units];
+        }
+    }
+    return null;
+}
+
+/**
+ * "On your left" as 9 o'clock and "on your right" as 3 o'clock
+ */
+function parseSide(lowerText: string, vocabulary: DistanceVocabulary): number | null {
+    const isLeft = vocabulary.sidePatterns.left.test(lowerText);
+    const isRight = vocabulary.sidePatterns.right.test(lowerText);
+    if (isLeft === isRight) return null;   // Neither, or both and we cannot tell which hazard is meant
+    return isLeft ? 9 : 3;
+}
+
+function parseClockPosition(lowerText: string, vocabulary: DistanceVocabulary): number | null {
+    const match = vocabulary.clockPattern ? lowerText.match(vocabulary.clockPattern) : null;
+    if (!match) return null;
+    const value = /^\d+$/.test(match[1]) ? parseInt(match[1], 10) : vocabulary.numberWords[match[1]];
+    return value >= 1 && value <= 12 ? value : null;
+}
@@ -3,6 +3,9 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+// Width frames are scaled to before analysis; blur and brightness survive downscaling
+export const ANALYSIS_WIDTH = 320;
+
 export interface ImageQualityResult {
     isBlurry: boolean;
     blurScore: number;
@@ -14,7 +17,8 @@ export interface ImageQualityResult {
 
 /**
  * Analyzes image quality using Variance of Laplacian for blur detection
- * and brightness histogram analysis
+ * and brightness histogram analysis. Run it on a frame scaled down to
+ * ANALYSIS_WIDTH; full-resolution frames cost far more for the same answer.
  */
 export function analyzeImageQuality(
     imageData: ImageData,
@@ -24,15 +28,18 @@ export function analyzeImageQuality(
 ): ImageQualityResult {
     const { width, height, data } = imageData;
 
-    // Convert to grayscale and compute Laplacian variance for blur detection
+    // Convert to grayscale, summing brightness on the way
     const gray = new Float32Array(width * height);
+    let brightnessSum = 0;
     for (let i = 0; i < data.length; i += 4) {
-        const idx = i / 4;
-        gray[idx] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+        const value = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+        gray[i / 4] = value;
+        brightnessSum += value;
     }
 
-    // Compute Laplacian using 3x3 kernel
+    // Variance of the Laplacian (3x3 kernel) in one pass, from the sum and sum of squares
     let laplacianSum = 0;
+    let laplacianSquareSum = 0;
     let laplacianCount = 0;
 
     for (let y = 1; y < height - 1; y++) {
@@ -48,41 +55,16 @@ export function analyzeImageQuality(
             );
 
             laplacianSum += laplacian;
+            laplacianSquareSum += laplacian * laplacian;
             laplacianCount++;
         }
     }
 
     const laplacianMean = laplacianSum / laplacianCount;
-
-    // Compute variance of Laplacian
-    let varianceSum = 0;
-    for (let y = 1; y < height - 1; y++) {
-        for (let x = 1; x < width - 1; x++) {
-            const idx = y * width + x;
-
-            const laplacian = Math.abs(
-                gray[idx] * 8 -
-                gray[idx - width - 1] - gray[idx - width] - gray[idx - width + 1] -
-                gray[idx - 1] - gray[idx + 1] -
-                gray[idx + width - 1] - gray[idx + width] - gray[idx + width + 1]
-            );
-
-            varianceSum += Math.pow(laplacian - laplacianMean, 2);
-        }
-    }
-
-    const blurScore = varianceSum / laplacianCount;
+    const blurScore = laplacianSquareSum / laplacianCount - laplacianMean * laplacianMean;
     const isBlurry = blurScore < blurThreshold;
 
-    // Analyze brightness
-    let brightnessSum = 0;
-    const pixelCount = width * height;
-
-    for (let i = 0; i < gray.length; i++) {
-        brightnessSum += gray[i];
-    }
-
-    const brightness = brightnessSum / pixelCount;
+    const brightness = brightnessSum / (width * height);
     const isTooDark = brightness < darkThreshold;
     const isTooLight = brightness > lightThreshold;
 
@@ -107,27 +89,3 @@ export function analyzeImageQuality(
         qualityIssue
     };
 }
-
-/**
- * Extracts ImageData from a video element for analysis
- */
-export function extractImageDataFromVideo(
-    videoElement: HTMLVideoElement,
-    canvas?: HTMLCanvasElement
-): ImageData | null {
-    if (videoElement.readyState !== videoElement.HAVE_ENOUGH_DATA) {
-        return null;
-    }
-
-    const tempCanvas = canvas || document.createElement('canvas');
-    tempCanvas.width = videoElement.videoWidth;
-    tempCanvas.height = videoElement.videoHeight;
-
-    const ctx = tempCanvas.getContext('2d');
-    if (!ctx) {
-        return null;
-    }
-
-    ctx.drawImage(videoElement, 0, 0, tempCanvas.width, tempCanvas.height);
-    return ctx.getImageData(0, 0, tempCanvas.width, tempCanvas.height);
-}
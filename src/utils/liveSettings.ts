@@ -0,0 +1,195 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { MediaResolution, Modality } from "@google/genai";
+import { AVAILABLE_MODELS, LIVE_MODEL } from '../constants';
+import { LOCALES, detectLocale, parseLocale, type LocaleId } from './locales';
+import { DEFAULT_URGENCY_THRESHOLDS, type UrgencyThresholds } from './hazards';
+import { detectUnitSystem, parseUnitSystem, type UnitSystem } from './units';
+import { HAZARD_AUDIO_MODES, type HazardAudioMode } from './audioFeedback';
+import { parseInputMode, type InputMode } from './micGate';
+import { parseVadSensitivity, type VadSensitivity } from './voiceActivity';
+import { SPEECH_RATE_RANGE } from './timeStretch';
+import type { TranslationKey, TranslationParams } from './translations';
+import { DEFAULT_VIDEO_TIER_RANGE, VIDEO_TIER_IDS, parseVideoTier, type VideoTierRange } from './videoAdaptation';
+
+export interface LiveModelOption {
+    name: string;
+    label: string;
+    supportsText: boolean;
+    supportsLanguageCode: boolean;
+}
+
+/**
+ * Model and generation settings chosen on this device
+ */
+export interface LiveSettings {
+    model: string;
+    temperature: number;
+    responseModality: Modality.AUDIO | Modality.TEXT;   // The Live API accepts one per session
+    mediaResolution: MediaResolution;
+    frameRate: number;      // Frames per second sent outside navigation mode, at the top video tier
+    jpegQuality: number;    // 0-1, at the top video tier
+    videoTierRange: VideoTierRange; // Tiers the network adaptation may pick from
+    locale: LocaleId;       // UI language, Aura's language and the hazard parser's vocabulary
+    unitSystem: UnitSystem; // Units Aura speaks, the parser prefers and the UI shows
+    urgencyThresholds: UrgencyThresholds;   // Always in meters, whatever the unit system
+    hazardAudio: HazardAudioMode;
+    audioBalance: number;   // -1 (left ear only) to 1 (right ear only)
+    inputMode: InputMode;   // Open mic, push-to-talk or the wake word
+    bargeInSensitivity: VadSensitivity;     // How readily speech cuts Aura off
+    speechRate: number;     // Playback speed of Aura's voice, pitch unchanged; 1 is normal
+}
+
+export const DEFAULT_LIVE_SETTINGS: LiveSettings = {
+    model: LIVE_MODEL,
+    temperature: 0.7,
+    responseModality: Modality.AUDIO,
+    mediaResolution: MediaResolution.MEDIA_RESOLUTION_MEDIUM,
+    frameRate: 1 / 2,
+    jpegQuality: 0.7,
+    videoTierRange: DEFAULT_VIDEO_TIER_RANGE,
+    locale: detectLocale(),
+    unitSystem: detectUnitSystem(),
+    urgencyThresholds: DEFAULT_URGENCY_THRESHOLDS,
+    hazardAudio: 'spatial',
+    audioBalance: 0,
+    inputMode: 'open',
+    bargeInSensitivity: 'medium',
+    speechRate: 1
+};
+
+export const TEMPERATURE_RANGE = { min: 0, max: 2 };
+export const FRAME_RATE_RANGE = { min: 0.1, max: 2 };
+export const JPEG_QUALITY_RANGE = { min: 0.3, max: 1 };
+export const URGENCY_THRESHOLD_RANGE = { min: 0.3, max: 10 };  // Meters
+export const AUDIO_BALANCE_RANGE = { min: -1, max: 1 };
+
+const SETTINGS_STORAGE_KEY = 'vcb-live-settings';
+
+/**
+ * Built-in models plus any listed in LIVE_MODELS at build time
+ */
+export function getAvailableModels(): LiveModelOption[] {
+    const extra = (process.env.LIVE_MODELS ?? '')
+        .split(',')
+        .map(name => name.trim())
+        .filter(name => name && !AVAILABLE_MODELS.some(m => m.name === name))
+        .map(name => {
+            const isNativeAudio = name.includes('native-audio');
+            return { name, label: name, supportsText: !isNativeAudio, supportsLanguageCode: !isNativeAudio };
+        });
+    return [...AVAILABLE_MODELS, ...extra];
+}
+
+/**
+ * A problem with a settings combination, translated where it is shown
+ */
+export interface SettingsError {
+    key: TranslationKey;
+    params?: TranslationParams;
+}
+
+/**
+ * Check a settings combination, returning one error per problem
+ */
+export function validateLiveSettings(settings: LiveSettings): SettingsError[] {
+    const errors: SettingsError[] = [];
+    const model = getAvailableModels().find(m => m.name === settings.model);
+
+    if (!model) {
+        errors.push({ key: 'settings.error.modelUnavailable', params: { model: settings.model } });
+    } else if (settings.responseModality === Modality.TEXT && !model.supportsText) {
+        errors.push({ key: 'settings.error.audioOnly', params: { model: model.label } });
+    }
+    if (!(settings.temperature >= TEMPERATURE_RANGE.min && settings.temperature <= TEMPERATURE_RANGE.max)) {
+        errors.push({ key: 'settings.error.temperature', params: TEMPERATURE_RANGE });
+    }
+    if (settings.responseModality !== Modality.AUDIO && settings.responseModality !== Modality.TEXT) {
+        errors.push({ key: 'settings.error.modality' });
+    }
+    if (!Object.values(MediaResolution).includes(settings.mediaResolution) ||
+        settings.mediaResolution === MediaResolution.MEDIA_RESOLUTION_UNSPECIFIED) {
+        errors.push({ key: 'settings.error.resolution' });
+    }
+    if (!(settings.frameRate >= FRAME_RATE_RANGE.min && settings.frameRate <= FRAME_RATE_RANGE.max)) {
+        errors.push({ key: 'settings.error.frameRate', params: FRAME_RATE_RANGE });
+    }
+    if (!(settings.jpegQuality >= JPEG_QUALITY_RANGE.min && settings.jpegQuality <= JPEG_QUALITY_RANGE.max)) {
+        errors.push({ key: 'settings.error.jpegQuality', params: JPEG_QUALITY_RANGE });
+    }
+    const { min: minTier, max: maxTier } = settings.videoTierRange ?? {};
+    if (!parseVideoTier(minTier) || !parseVideoTier(maxTier)) {
+        errors.push({ key: 'settings.error.videoTiers' });
+    } else if (VIDEO_TIER_IDS.indexOf(minTier!) > VIDEO_TIER_IDS.indexOf(maxTier!)) {
+        errors.push({ key: 'settings.error.videoTierOrder' });
+    }
+    if (!parseLocale(settings.locale)) {
+        errors.push({ key: 'settings.error.locale', params: { locale: String(settings.locale) } });
+    }
+    if (!parseUnitSystem(settings.unitSystem)) {
+        errors.push({ key: 'settings.error.units' });
+    }
+    const { critical, high, medium } = settings.urgencyThresholds ?? {};
+    if (![critical, high, medium].every(d => d >= URGENCY_THRESHOLD_RANGE.min && d <= URGENCY_THRESHOLD_RANGE.max)) {
+        errors.push({ key: 'settings.error.alertRange', params: URGENCY_THRESHOLD_RANGE });
+    } else if (!(critical < high && high < medium)) {
+        errors.push({ key: 'settings.error.alertOrder' });
+    }
+    if (!HAZARD_AUDIO_MODES.includes(settings.hazardAudio)) {
+        errors.push({ key: 'settings.error.hazardAudio' });
+    }
+    if (!(settings.audioBalance >= AUDIO_BALANCE_RANGE.min && settings.audioBalance <= AUDIO_BALANCE_RANGE.max)) {
+        errors.push({ key: 'settings.error.balance', params: AUDIO_BALANCE_RANGE });
+    }
+    if (!parseInputMode(settings.inputMode)) {
+        errors.push({ key: 'settings.error.inputMode' });
+    }
+    if (!parseVadSensitivity(settings.bargeInSensitivity)) {
+        errors.push({ key: 'settings.error.bargeIn' });
+    }
+    if (!(settings.speechRate >= SPEECH_RATE_RANGE.min && settings.speechRate <= SPEECH_RATE_RANGE.max)) {
+        errors.push({ key: 'settings.error.speechRate', params: SPEECH_RATE_RANGE });
+    }
+    return errors;
+}
+
+/**
+ * The speech language code to send in the connect config, if the model and language take one.
+ * Without it Aura still speaks the language the system prompt asks for.
+ */
+export function getLiveLanguageCode(settings: LiveSettings): string | undefined {
+    const model = getAvailableModels().find(m => m.name === settings.model);
+    if (!model?.supportsLanguageCode) return undefined;
+    return LOCALES[settings.locale].liveLanguageCode ?? undefined;
+}
+
+/**
+ * Load this device's settings, falling back to defaults for anything missing or invalid
+ */
+export function loadLiveSettings(): LiveSettings {
+    try {
+        const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+        if (!stored) return DEFAULT_LIVE_SETTINGS;
+        const settings = { ...DEFAULT_LIVE_SETTINGS, ...JSON.parse(stored) };
+        if (validateLiveSettings(settings).length > 0) {
+            // A retired model or an old format; start again from the defaults
+            console.warn('Stored live settings are no longer valid, using defaults');
+            return DEFAULT_LIVE_SETTINGS;
+        }
+        return settings;
+    } catch (error) {
+        console.error('Could not read live settings:', error);
+        return DEFAULT_LIVE_SETTINGS;
+    }
+}
+
+/**
+ * Remember settings on this device
+ */
+export function saveLiveSettings(settings: LiveSettings): void {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    console.log('⚙️ Live settings saved:', settings);
+}
@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Behavior, Type, type FunctionCall, type FunctionResponse, type Tool } from "@google/genai";
+import { HAZARD_TYPES } from './hazards';
+import { FOCUS_PRESET_IDS } from './focusRegion';
+import { ASSISTANCE_MODE_IDS, VERBOSITY_LEVELS, type Verbosity } from './assistanceModes';
+import { SPEECH_RATE_RANGE } from './timeStretch';
+
+/**
+ * Names of the functions Aura can call to control the app
+ */
+export const LIVE_TOOL_NAMES = {
+    setAssistanceMode: 'setAssistanceMode',
+    setVerbosity: 'setVerbosity',
+    stopCommentary: 'stopCommentary',
+    describeNow: 'describeNow',
+    reportHazard: 'reportHazard',
+    setFocusRegion: 'setFocusRegion',
+    setSpeakingRate: 'setSpeakingRate'
+} as const;
+
+export type LiveToolName = typeof LIVE_TOOL_NAMES[keyof typeof LIVE_TOOL_NAMES];
+
+/**
+ * Function declarations sent in the Live connect config
+ */
+export const LIVE_TOOLS: Tool[] = [{
+    functionDeclarations: [
+        {
+            name: LIVE_TOOL_NAMES.setAssistanceMode,
+            description: 'Switch the kind of help Aura gives. Call this only when the user asks for a different kind of help, or to go back to normal descriptions.',
+            parameters: {
+                type: Type.OBJECT,
+                properties: {
+                    mode: {
+                        type: Type.STRING,
+                        enum: [...ASSISTANCE_MODE_IDS],
+                        description: 'normal descriptions, navigation (walking directions), reading (text), shopping (product labels), colour, transit, or monitor (announce only what changes on a shared screen)'
+                    }
+                },
+                required: ['mode']
+            }
+        },
+        {
+            name: LIVE_TOOL_NAMES.setVerbosity,
+            description: 'Change how much detail Aura gives, when the user asks for shorter or longer descriptions.',
+            parameters: {
+                type: Type.OBJECT,
+                properties: {
+                    level: { type: Type.STRING, enum: VERBOSITY_LEVELS, description: 'brief, normal or detailed' }
+                },
+                required: ['level']
+            }
+        },
+        {
+            name: LIVE_TOOL_NAMES.stopCommentary,
+            description: 'Stop speaking and pause automatic descriptions until the user asks again. Call this when the user says stop, be quiet or pause.'
+        },
+        {
+            name: LIVE_TOOL_NAMES.describeNow,
+            description: 'Capture a fresh camera or screen frame and resume automatic descriptions. Call this when the user asks what is in front of them right now.'
+        },
+        {
+            name: LIVE_TOOL_NAMES.reportHazard,
+            description: 'Report an obstacle or hazard in the walking path so the app can sound distance alerts. Call this in navigation mode for every hazard you mention, before speaking the warning.',
+            behavior: Behavior.NON_BLOCKING,
+            parameters: {
+                type: Type.OBJECT,
+                properties: {
+                    type: { type: Type.STRING, enum: [...HAZARD_TYPES], description: 'Kind of hazard' },
+                    distanceMeters: { type: Type.NUMBER, description: 'Estimated distance to the hazard in meters' },
+                    clockPosition: { type: Type.INTEGER, description: 'Direction as a clock position from 1 to 12, 12 is straight ahead' },
+                    confidence: { type: Type.NUMBER, description: 'How sure you are, from 0 to 1' }
+                },
+                required: ['type', 'distanceMeters']
+            }
+        },
+        {
+            name: LIVE_TOOL_NAMES.setFocusRegion,
+            description: 'While the screen is shared, send part of it enlarged so small text can be read. Call this when the user asks to zoom in, to look at a corner or a dialog, or when text is too small to read. Use region "full" to go back to the whole screen.',
+            parameters: {
+                type: Type.OBJECT,
+                properties: {
+                    region: { type: Type.STRING, enum: [...FOCUS_PRESET_IDS], description: 'Named part of the screen, or full for the whole screen' },
+                    zoom: { type: Type.NUMBER, description: 'Zoom factor from 1 to 4, around the named region or the current one' },
+                    box: {
+                        type: Type.ARRAY,
+                        items: { type: Type.INTEGER },
+                        description: 'Bounding box of something on screen, such as a dialog, as [ymin, xmin, ymax, xmax] scaled to 0-1000'
+                    }
+                }
+            }
+        },
+        {
+            name: LIVE_TOOL_NAMES.setSpeakingRate,
+            description: 'Change how fast Aura\'s voice plays, without changing its pitch. Call this when the user asks you to speak faster, slower or at normal speed, or names a speed such as "two times". Keep speaking in your usual way; the app does the speeding up.',
+            parameters: {
+                type: Type.OBJECT,
+                properties: {
+                    rate: {
+                        type: Type.NUMBER,
+                        description: `Playback speed from ${SPEECH_RATE_RANGE.min} to ${SPEECH_RATE_RANGE.max}, where 1 is normal`
+                    },
+                    change: { type: Type.STRING, enum: ['faster', 'slower', 'normal'], description: 'One step faster or slower, or back to normal' }
+                }
+            }
+        }
+    ]
+}];
+
+/**
+ * Read the verbosity argument of a `setVerbosity` call, or null if it is not a known level
+ */
+export function parseVerbosity(value: unknown): Verbosity | null {
+    return VERBOSITY_LEVELS.includes(value as Verbosity) ? value as Verbosity : null;
+}
+
+/**
+ * Build the response for one function call
+ */
+export function createToolResponse(call: FunctionCall, output: Record<string, unknown>): FunctionResponse {
+    return { id: call.id, name: call.name, response: output };
+}
@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+    GoogleGenAI,
+    Modality,
+    type LiveConnectParameters,
+    type Session,
+    type LiveSendClientContentParameters,
+    type LiveSendRealtimeInputParameters,
+    type LiveSendToolResponseParameters
+} from "@google/genai";
+import { apiKeyStore } from './apiKeyStore';
+import { fetchEphemeralToken, getTokenServerUrl, type TokenSession } from './tokenClient';
+
+/**
+ * The subset of a Live API session that the commentary hook talks to
+ */
+export interface LiveTransportSession {
+    sendRealtimeInput(params: LiveSendRealtimeInputParameters): void;
+    sendClientContent(params: LiveSendClientContentParameters): void;
+    sendToolResponse(params: LiveSendToolResponseParameters): void;
+    close(): void;
+    getBufferedAmount?(): number;   // Bytes queued on the socket but not yet sent, where the transport can tell
+}
+
+/**
+ * Opens Live sessions. The real implementation wraps `ai.live.connect`;
+ * the mock server in `src/testing` implements the same contract offline.
+ */
+export interface LiveTransport {
+    connect(params: LiveConnectParameters): Promise<LiveTransportSession>;
+}
+
+/**
+ * Create a transport backed by the Gemini Live API
+ * @param apiKey - Gemini API key used for the WebSocket connection
+ */
+export function createGeminiTransport(apiKey: string | undefined = process.env.API_KEY): LiveTransport {
+    const ai = new GoogleGenAI({ apiKey });
+    return {
+        connect: async (params) => withBufferedAmount(await ai.live.connect(params))
+    };
+}
+
+/**
+ * Create a transport that fetches a fresh ephemeral token before every
+ * connection, so no long-lived key ever reaches the browser
+ * @param fetchToken - Returns a single-use token from the token server, pinned to the model and config
+ */
+export function createTokenTransport(fetchToken: (session: TokenSession) => Promise<string>): LiveTransport {
+    return {
+        connect: async (params) => {
+            const token = await fetchToken({ model: params.model, config: params.config ?? {} });
+            // Ephemeral tokens are only accepted by the v1alpha Live endpoint
+            const ai = new GoogleGenAI({ apiKey: token, httpOptions: { apiVersion: 'v1alpha' } });
+            return withBufferedAmount(await ai.live.connect(params));
+        }
+    };
+}
+
+/**
+ * Expose the socket's send backlog. The SDK keeps the browser WebSocket on its
+ * connection wrapper without typing it, so this reads it defensively.
+ */
+function withBufferedAmount(session: Session): LiveTransportSession {
+    const conn = session.conn as { ws?: WebSocket };
+    return Object.assign(session, {
+        getBufferedAmount: () => conn.ws?.bufferedAmount ?? 0
+    });
+}
+
+/**
+ * Pick the credential at connect time: a key the user saved on this device,
+ * then the token server, then the build-time key (local development only)
+ */
+export function createDefaultTransport(): LiveTransport {
+    const tokenTransport = getTokenServerUrl() ? createTokenTransport(fetchEphemeralToken) : null;
+    return {
+        connect: async (params) => {
+            const storedKey = await apiKeyStore.load();
+            if (storedKey) {
+                return createGeminiTransport(storedKey).connect(params);
+            }
+            if (tokenTransport) {
+                return tokenTransport.connect(params);
+            }
+            return createGeminiTransport().connect(params);
+        }
+    };
+}
+
+/**
+ * Open a throwaway session and wait for `setupComplete` to prove the
+ * credentials work. Rejects with the server's close reason otherwise.
+ */
+export function testLiveConnection(transport: LiveTransport, model: string, timeoutMs: number = 10000): Promise<void> {
+    return new Promise((resolve, reject) => {
+        let session: LiveTransportSession | null = null;
+        let isSettled = false;
+
+        const finish = (error?: Error) => {
+            if (isSettled) return;
+            isSettled = true;
+            window.clearTimeout(timeoutId);
+            try { session?.close(); } catch (e) { /* Ignore */ }
+            if (error) {
+                reject(error);
+            } else {
+                resolve();
+            }
+        };
+        const timeoutId = window.setTimeout(() => finish(new Error('Connection test timed out')), timeoutMs);
+
+        transport.connect({
+            model,
+            callbacks: {
+                onmessage: (message) => {
+                    if (message.setupComplete) finish();
+                },
+                onerror: () => finish(new Error('Connection test failed')),
+                onclose: (e) => finish(new Error(e.reason || `Connection closed with code ${e.code}`))
+            },
+            config: { responseModalities: [Modality.AUDIO] }
+        }).then(opened => {
+            session = opened;
+            if (isSettled) opened.close();
+        }, error => finish(error));
+    });
+}
@@ -0,0 +1,30 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Speak a short message with the browser's built-in speech synthesis.
+ * Used for cues that must work when the Live session cannot speak,
+ * e.g. while the connection is being restored.
+ * @param text - Message to speak
+ * @param interrupt - Cancel any queued local speech first
+ * @param lang - BCP 47 language of the text, so the browser picks a matching voice
+ */
+export function speakLocally(text: string, interrupt: boolean = true, lang?: string): void {
+    if (typeof window === 'undefined' || !('speechSynthesis' in window)) {
+        console.warn('Speech synthesis not supported, skipping cue:', text);
+        return;
+    }
+
+    if (interrupt) {
+        window.speechSynthesis.cancel();
+    }
+
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.rate = 1.1;
+    if (lang) {
+        utterance.lang = lang;
+    }
+    window.speechSynthesis.speak(utterance);
+}
@@ -0,0 +1,45 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export const LOCALE_IDS = ['en', 'af', 'zu', 'fr'] as const;
+
+export type LocaleId = typeof LOCALE_IDS[number];
+
+/**
+ * A language Aura can speak and the UI can be shown in
+ */
+export interface LocaleInfo {
+    id: LocaleId;
+    nativeName: string;             // Shown in the language picker
+    englishName: string;            // Used in the system prompt
+    bcp47: string;                  // Page language and local speech synthesis
+    liveLanguageCode: string | null; // Live API speech language; null where the API has no voice for it
+}
+
+export const LOCALES: Record<LocaleId, LocaleInfo> = {
+    en: { id: 'en', nativeName: 'English', englishName: 'English', bcp47: 'en-ZA', liveLanguageCode: 'en-US' },
+    af: { id: 'af', nativeName: 'Afrikaans', englishName: 'Afrikaans', bcp47: 'af-ZA', liveLanguageCode: null },
+    zu: { id: 'zu', nativeName: 'isiZulu', englishName: 'isiZulu (Zulu)', bcp47: 'zu-ZA', liveLanguageCode: null },
+    fr: { id: 'fr', nativeName: 'Français', englishName: 'French', bcp47: 'fr-FR', liveLanguageCode: 'fr-FR' }
+};
+
+/**
+ * Read a locale id, or null if it is not one we support
+ */
+export function parseLocale(value: unknown): LocaleId | null {
+    return LOCALE_IDS.includes(value as LocaleId) ? value as LocaleId : null;
+}
+
+/**
+ * The first of the browser's preferred languages that we support, else English
+ */
+export function detectLocale(): LocaleId {
+    const preferred = typeof navigator === 'undefined' ? [] : navigator.languages ?? [navigator.language];
+    for (const language of preferred) {
+        const locale = parseLocale(language?.toLowerCase().split('-')[0]);
+        if (locale) return locale;
+    }
+    return 'en';
+}
@@ -0,0 +1,164 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * When the microphone reaches Aura: always, while a key or button is held, or after the wake word
+ */
+export type InputMode = 'open' | 'push-to-talk' | 'wake-word';
+
+export const INPUT_MODE_IDS: InputMode[] = ['open', 'push-to-talk', 'wake-word'];
+
+export function parseInputMode(value: unknown): InputMode | null {
+    return INPUT_MODE_IDS.includes(value as InputMode) ? value as InputMode : null;
+}
+
+// Audio from just before the gate opens, so the first syllable, or the whole wake word, is not lost
+const PRE_ROLL_MS: Record<InputMode, number> = { open: 0, 'push-to-talk': 300, 'wake-word': 2000 };
+const RELEASE_TAIL_MS = 300;        // Keep sending briefly after release; people let go on the last word
+const WAKE_WAIT_MS = 5000;          // After the wake word, how long to wait for the user to go on
+const WAKE_HANGOVER_MS = 1500;      // Pause that ends a request after the wake word
+const WAKE_MAX_OPEN_MS = 30000;     // Close even if speech seems to go on, such as chatter nearby
+const SAMPLE_RATE = 16000;
+
+export type MicGateChange = 'opened' | 'closed' | null;
+
+/**
+ * Decides which microphone chunks are sent in push-to-talk and wake-word modes,
+ * keeping a short pre-roll while closed. Open mode sends everything.
+ * Methods return 'opened' or 'closed' when the gate changes.
+ */
+export class MicGate {
+    private mode: InputMode = 'open';
+    private isHeld = false;
+    private isSpeaking = false;     // The worklet's voice activity, wake-word mode only
+    private isOpenNow = true;
+    private closeAt: number | null = null;      // Release tail or wake-word timeout
+    private openedAt = 0;
+    private preRoll: Int16Array[] = [];
+    private preRollSamples = 0;
+    private pendingPreRoll = false;
+
+    setMode(mode: InputMode): MicGateChange {
+        if (mode === this.mode) return null;
+        this.mode = mode;
+        this.isHeld = false;
+        this.isSpeaking = false;
+        this.closeAt = null;
+        this.clearPreRoll();
+        return this.setOpen(mode === 'open');
+    }
+
+    getMode(): InputMode {
+        return this.mode;
+    }
+
+    isOpen(): boolean {
+        return this.isOpenNow;
+    }
+
+    /**
+     * Push-to-talk key, button or headset button went down
+     */
+    press(now = Date.now()): MicGateChange {
+        if (this.mode !== 'push-to-talk' || this.isHeld) return null;
+        this.isHeld = true;
+        this.closeAt = null;
+        return this.setOpen(true, now);
+    }
+
+    /**
+     * Push-to-talk released; the gate closes after a short tail
+     */
+    release(now = Date.now()): MicGateChange {
+        if (this.mode !== 'push-to-talk' || !this.isHeld) return null;
+        this.isHeld = false;
+        this.closeAt = now + RELEASE_TAIL_MS;
+        return null;
+    }
+
+    /**
+     * Headset buttons only click, so they toggle instead of being held
+     */
+    toggle(now = Date.now()): MicGateChange {
+        return this.isHeld ? this.release(now) : this.press(now);
+    }
+
+    /**
+     * The worklet heard the wake word
+     */
+    wake(now = Date.now()): MicGateChange {
+        if (this.mode !== 'wake-word') return null;
+        // Usually heard mid-sentence; the end of the sentence starts the hangover
+        this.closeAt = this.isSpeaking ? null : now + WAKE_WAIT_MS;
+        return this.setOpen(true, now);
+    }
+
+    /**
+     * The worklet's voice activity: speech keeps a wake-word request open, a pause ends it
+     */
+    speechActivity(isSpeaking: boolean, now = Date.now()): void {
+        if (this.mode !== 'wake-word') return;
+        this.isSpeaking = isSpeaking;
+        if (!this.isOpenNow) return;
+        if (isSpeaking) {
+            this.closeAt = null;
+        } else {
+            // Pausing after just the wake word still gets the full wait
+            this.closeAt = Math.max(this.closeAt ?? 0, now + WAKE_HANGOVER_MS);
+        }
+    }
+
+    /**
+     * Close once a release tail or wake-word pause has run out. Call before take().
+     */
+    tick(now = Date.now()): MicGateChange {
+        if (this.mode === 'open' || !this.isOpenNow) return null;
+        const isTimedOut = this.closeAt !== null && now >= this.closeAt;
+        const isTooLong = this.mode === 'wake-word' && now - this.openedAt >= WAKE_MAX_OPEN_MS;
+        if (!isTimedOut && !isTooLong) return null;
+        this.closeAt = null;
+        return this.setOpen(false);
+    }
+
+    /**
+     * The chunks to send for this one: none while closed, the pre-roll and it just after opening
+     */
+    take(chunk: Int16Array): Int16Array[] {
+        if (!this.isOpenNow) {
+            this.keepPreRoll(chunk);
+            return [];
+        }
+        if (!this.pendingPreRoll) return [chunk];
+        const chunks = [...this.preRoll, chunk];
+        this.clearPreRoll();
+        return chunks;
+    }
+
+    private setOpen(isOpen: boolean, now = Date.now()): MicGateChange {
+        if (isOpen === this.isOpenNow) return null;
+        this.isOpenNow = isOpen;
+        if (isOpen) {
+            this.openedAt = now;
+            this.pendingPreRoll = this.preRoll.length > 0;
+        }
+        return isOpen ? 'opened' : 'closed';
+    }
+
+    private keepPreRoll(chunk: Int16Array): void {
+        const limit = PRE_ROLL_MS[this.mode] * SAMPLE_RATE / 1000;
+        if (limit === 0) return;
+        this.preRoll.push(chunk);
+        this.preRollSamples += chunk.length;
+        while (this.preRollSamples - this.preRoll[0].length >= limit) {
+            this.preRollSamples -= this.preRoll.shift()!.length;
+        }
+    }
+
+    private clearPreRoll(): void {
+        this.preRoll = [];
+        this.preRollSamples = 0;
+        this.pendingPreRoll = false;
+    }
+}
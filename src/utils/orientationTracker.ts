@@ -9,9 +9,12 @@ export interface OrientationData {
     gamma: number | null; // Left-right tilt (-90 to 90°)
 }
 
+export type OrientationAdjustment = 'liftUp' | 'tiltDown' | 'tiltRight' | 'tiltLeft' | 'liftSlightly' | 'tiltDownSlightly';
+
 export interface OrientationGuidance {
     needsAdjustment: boolean;
     message: string | null;
+    adjustment: OrientationAdjustment | null;  // What to do, for localized cues
     severity: 'critical' | 'warning' | 'ok';
 }
 
@@ -117,6 +120,7 @@ export class OrientationTracker {
             return {
                 needsAdjustment: false,
                 message: null,
+                adjustment: null,
                 severity: 'ok'
             };
         }
@@ -134,6 +138,7 @@ export class OrientationTracker {
             return {
                 needsAdjustment: true,
                 message: 'Lift phone up - pointing too low',
+                adjustment: 'liftUp',
                 severity: 'critical'
             };
         }
@@ -142,6 +147,7 @@ export class OrientationTracker {
             return {
                 needsAdjustment: true,
                 message: 'Tilt phone down - pointing too high',
+                adjustment: 'tiltDown',
                 severity: 'critical'
             };
         }
@@ -150,6 +156,7 @@ export class OrientationTracker {
             return {
                 needsAdjustment: true,
                 message: 'Tilt phone right - leaning too far left',
+                adjustment: 'tiltRight',
                 severity: 'warning'
             };
         }
@@ -158,6 +165,7 @@ export class OrientationTracker {
             return {
                 needsAdjustment: true,
                 message: 'Tilt phone left - leaning too far right',
+                adjustment: 'tiltLeft',
                 severity: 'warning'
             };
         }
@@ -167,6 +175,7 @@ export class OrientationTracker {
             return {
                 needsAdjustment: true,
                 message: 'Lift phone slightly',
+                adjustment: 'liftSlightly',
                 severity: 'warning'
             };
         }
@@ -175,6 +184,7 @@ export class OrientationTracker {
             return {
                 needsAdjustment: true,
                 message: 'Tilt phone down slightly',
+                adjustment: 'tiltDownSlightly',
                 severity: 'warning'
             };
         }
@@ -183,6 +193,7 @@ export class OrientationTracker {
         return {
             needsAdjustment: false,
             message: null,
+            adjustment: null,
             severity: 'ok'
         };
     }
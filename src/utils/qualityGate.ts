@@ -0,0 +1,103 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ImageQualityResult } from './imageQuality';
+
+/**
+ * Why a frame is not worth sending
+ */
+export type FrameIssue = 'black' | 'covered' | 'blurred' | 'washedOut';
+
+interface GateThresholds {
+    black: number;              // Mean brightness below this: nothing to see
+    washedOut: number;          // Mean brightness above this: glare or a light behind a finger
+    featureless: number;        // Blur score below this: no edges at all
+    coveredBrightness: number;  // Dim and soft together: a finger or a pocket over the lens
+    coveredBlur: number;
+}
+
+// A frame past these is unusable. A plain wall still has enough texture to pass.
+const HOLD_THRESHOLDS: GateThresholds = { black: 15, washedOut: 245, featureless: 3, coveredBrightness: 40, coveredBlur: 50 };
+
+// While holding, frames must clear these stricter values, so one on the edge does not flap
+const RESUME_THRESHOLDS: GateThresholds = { black: 25, washedOut: 235, featureless: 10, coveredBrightness: 55, coveredBlur: 80 };
+
+const HOLD_AFTER_FRAMES = 2;    // One bad frame is often just a hand passing the lens
+const RESUME_AFTER_FRAMES = 2;
+
+export type QualityGateChange = 'held' | 'resumed' | null;
+
+/**
+ * The reason a frame is unusable under the given thresholds, or null if it can be sent
+ */
+function findFrameIssue(quality: ImageQualityResult, thresholds: GateThresholds): FrameIssue | null {
+    if (quality.brightness < thresholds.black) return 'black';
+    if (quality.brightness > thresholds.washedOut) return 'washedOut';
+    if (quality.brightness < thresholds.coveredBrightness && quality.blurScore < thresholds.coveredBlur) return 'covered';
+    if (quality.blurScore < thresholds.featureless) return 'blurred';
+    return null;
+}
+
+/**
+ * Decides whether frames go to the model based on their quality.
+ * Starts holding after a run of unusable frames and resumes after a run of
+ * good ones, with stricter thresholds for resuming.
+ */
+export class QualityGate {
+    private isHolding = false;
+    private streak = 0;
+    private issue: FrameIssue | null = null;
+
+    /**
+     * Feed the quality of the latest frame. Frames without analysis leave the state as it is.
+     * Returns 'held' or 'resumed' when the gate changes.
+     */
+    update(quality: ImageQualityResult | null): QualityGateChange {
+        if (!quality) return null;
+
+        const issue = findFrameIssue(quality, this.isHolding ? RESUME_THRESHOLDS : HOLD_THRESHOLDS);
+        // Count frames that point the other way from the current state
+        const isAgainst = this.isHolding ? issue === null : issue !== null;
+        this.streak = isAgainst ? this.streak + 1 : 0;
+        if (issue) this.issue = issue;
+
+        if (!this.isHolding && this.streak >= HOLD_AFTER_FRAMES) {
+            this.isHolding = true;
+            this.streak = 0;
+            return 'held';
+        }
+        if (this.isHolding && this.streak >= RESUME_AFTER_FRAMES) {
+            this.isHolding = false;
+            this.streak = 0;
+            this.issue = null;
+            return 'resumed';
+        }
+        return null;
+    }
+
+    isHeld(): boolean {
+        return this.isHolding;
+    }
+
+    /**
+     * Whether the last analysed frame was unusable but the hold is not confirmed yet
+     */
+    isPending(): boolean {
+        return !this.isHolding && this.streak > 0;
+    }
+
+    /**
+     * The latest problem seen while holding, or null when frames are going out
+     */
+    getIssue(): FrameIssue | null {
+        return this.isHolding ? this.issue : null;
+    }
+
+    reset(): void {
+        this.isHolding = false;
+        this.streak = 0;
+        this.issue = null;
+    }
+}
@@ -17,6 +17,7 @@ export class ReconnectionManager {
     private delays: number[];
     private reconnectTimer: NodeJS.Timeout | null = null;
     private isReconnecting: boolean = false;
+    private generation: number = 0; // Bumped by cancel and reset so attempts already running are dropped
 
     private onReconnectAttempt?: (attempt: number, delay: number) => void;
     private onReconnectSuccess?: () => void;
@@ -53,14 +54,20 @@ export class ReconnectionManager {
 
         this.onReconnectAttempt?.(this.retryCount + 1, delay);
 
+        const generation = this.generation;
         this.reconnectTimer = setTimeout(async () => {
             try {
                 console.log(`🔌 Attempting to reconnect...`);
                 await connectFn();
+                if (generation !== this.generation) return;
                 console.log('✅ Reconnection successful');
                 this.onReconnectSuccess?.();
                 this.reset();
             } catch (error) {
+                if (generation !== this.generation) {
+                    console.log('🛑 Reconnection attempt ended after it was cancelled');
+                    return;
+                }
                 console.error(`❌ Reconnection attempt ${this.retryCount + 1} failed:`, error);
                 this.retryCount++;
                 this.isReconnecting = false;
@@ -79,6 +86,7 @@ export class ReconnectionManager {
      * Cancel any pending reconnection
      */
     cancelReconnect(): void {
+        this.generation++;
         if (this.reconnectTimer) {
             clearTimeout(this.reconnectTimer);
             this.reconnectTimer = null;
@@ -91,6 +99,7 @@ export class ReconnectionManager {
      * Reset reconnection state (call after successful connection)
      */
     reset(): void {
+        this.generation++;
         this.retryCount = 0;
         this.isReconnecting = false;
         if (this.reconnectTimer) {
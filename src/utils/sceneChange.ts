@@ -0,0 +1,135 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Frames are reduced to a grid of block brightnesses before comparing
+export const SIGNATURE_WIDTH = 32;
+export const SIGNATURE_HEIGHT = 24;
+
+export interface SceneChangeOptions {
+    blockThreshold: number;         // Brightness difference (0-255) for a block to count as changed
+    minChangedFraction: number;     // Share of blocks that must change for a new scene
+    keyframeIntervalMs: number;     // Send a frame at least this often, even if nothing changed
+}
+
+export const DEFAULT_SCENE_CHANGE_OPTIONS: SceneChangeOptions = {
+    blockThreshold: 10,
+    minChangedFraction: 0.005,  // About 4 of 768 blocks: a new line of text, not sensor noise
+    keyframeIntervalMs: 10000
+};
+
+/**
+ * Grayscale block signature of a frame already scaled to SIGNATURE_WIDTH x SIGNATURE_HEIGHT
+ */
+export function computeSignature(imageData: ImageData): Uint8Array {
+    const { data } = imageData;
+    const signature = new Uint8Array(data.length / 4);
+    for (let i = 0; i < signature.length; i++) {
+        const p = i * 4;
+        signature[i] = Math.round(0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2]);
+    }
+    return signature;
+}
+
+/**
+ * Share of blocks whose brightness moved by more than the threshold, from 0 to 1
+ */
+export function changedFraction(previous: Uint8Array, current: Uint8Array, blockThreshold: number): number {
+    if (previous.length !== current.length) return 1;
+    let changed = 0;
+    for (let i = 0; i < current.length; i++) {
+        if (Math.abs(current[i] - previous[i]) > blockThreshold) changed++;
+    }
+    return changed / current.length;
+}
+
+/**
+ * A rectangle as fractions of the width and height of the area it was found in
+ */
+export interface FrameArea {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export const MAX_CHANGED_REGIONS = 3;
+// Past this share of the area the change is a new screen, not something appearing on it
+const MAX_CHANGED_COVERAGE = 0.5;
+// Changed blocks this many blocks apart belong to the same change, so a line of text is one box
+const GROUPING_DISTANCE = 2;
+
+interface BlockBox {
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+    blocks: number;
+}
+
+/**
+ * Boxes around the blocks that changed, largest first, with a block of margin.
+ * Changes beyond MAX_CHANGED_REGIONS are merged into the last box. Returns null
+ * when the boxes would cover most of the frame.
+ */
+export function findChangedRegions(previous: Uint8Array, current: Uint8Array, blockThreshold: number): FrameArea[] | null {
+    if (previous.length !== current.length) return null;
+    const isChanged = (i: number) => Math.abs(current[i] - previous[i]) > blockThreshold;
+
+    // Group changed blocks by flood fill over the grouping distance
+    const visited = new Uint8Array(current.length);
+    const boxes: BlockBox[] = [];
+    for (let start = 0; start < current.length; start++) {
+        if (visited[start] || !isChanged(start)) continue;
+        const box: BlockBox = { minX: SIGNATURE_WIDTH, minY: SIGNATURE_HEIGHT, maxX: 0, maxY: 0, blocks: 0 };
+        const stack = [start];
+        visited[start] = 1;
+        while (stack.length > 0) {
+            const i = stack.pop()!;
+            const x = i % SIGNATURE_WIDTH;
+            const y = Math.floor(i / SIGNATURE_WIDTH);
+            box.minX = Math.min(box.minX, x);
+            box.minY = Math.min(box.minY, y);
+            box.maxX = Math.max(box.maxX, x);
+            box.maxY = Math.max(box.maxY, y);
+            box.blocks++;
+            for (let ny = Math.max(0, y - GROUPING_DISTANCE); ny <= Math.min(SIGNATURE_HEIGHT - 1, y + GROUPING_DISTANCE); ny++) {
+                for (let nx = Math.max(0, x - GROUPING_DISTANCE); nx <= Math.min(SIGNATURE_WIDTH - 1, x + GROUPING_DISTANCE); nx++) {
+                    const n = ny * SIGNATURE_WIDTH + nx;
+                    if (!visited[n] && isChanged(n)) {
+                        visited[n] = 1;
+                        stack.push(n);
+                    }
+                }
+            }
+        }
+        boxes.push(box);
+    }
+
+    boxes.sort((a, b) => b.blocks - a.blocks);
+    const kept = boxes.slice(0, MAX_CHANGED_REGIONS);
+    boxes.slice(MAX_CHANGED_REGIONS).forEach(box => {
+        const last = kept[kept.length - 1];
+        last.minX = Math.min(last.minX, box.minX);
+        last.minY = Math.min(last.minY, box.minY);
+        last.maxX = Math.max(last.maxX, box.maxX);
+        last.maxY = Math.max(last.maxY, box.maxY);
+        last.blocks += box.blocks;
+    });
+
+    const areas = kept.map(box => {
+        const minX = Math.max(0, box.minX - 1);
+        const minY = Math.max(0, box.minY - 1);
+        const maxX = Math.min(SIGNATURE_WIDTH - 1, box.maxX + 1);
+        const maxY = Math.min(SIGNATURE_HEIGHT - 1, box.maxY + 1);
+        return {
+            x: minX / SIGNATURE_WIDTH,
+            y: minY / SIGNATURE_HEIGHT,
+            width: (maxX - minX + 1) / SIGNATURE_WIDTH,
+            height: (maxY - minY + 1) / SIGNATURE_HEIGHT
+        };
+    });
+    const coverage = areas.reduce((sum, area) => sum + area.width * area.height, 0);
+    return coverage > MAX_CHANGED_COVERAGE ? null : areas;
+}
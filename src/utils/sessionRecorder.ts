@@ -0,0 +1,195 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { LiveConnectParameters } from "@google/genai";
+import type { LiveSettings } from './liveSettings';
+import type { LiveTransport, LiveTransportSession } from './liveTransport';
+
+export type RecordedEventKind =
+    | 'connect'
+    | 'open'
+    | 'close'
+    | 'error'
+    | 'message'
+    | 'frame'
+    | 'audio'
+    | 'text'
+    | 'clientContent'
+    | 'toolResponse';
+
+export interface RecordedEvent {
+    t: number;              // Milliseconds since recording started
+    connection: number;     // Which socket the event belongs to (reconnects start a new one)
+    direction: 'in' | 'out' | 'lifecycle';
+    kind: RecordedEventKind;
+    payload?: any;
+}
+
+/**
+ * Portable capture of one session's Live traffic
+ */
+export interface SessionArchive {
+    format: 'aura-session';
+    version: 1;
+    recordedAt: string;
+    userAgent: string;
+    durationMs: number;
+    settings?: LiveSettings;    // Settings in force when recording started; missing in older archives
+    events: RecordedEvent[];
+}
+
+/**
+ * Captures Live traffic in both directions while recording is on
+ */
+export class SessionRecorder {
+    private events: RecordedEvent[] = [];
+    private startedAt: number = 0;
+    private recordedAt: string = '';
+    private settings: LiveSettings | undefined;
+    private connection: number = 0;
+    private isActive: boolean = false;
+
+    /**
+     * Start a new recording, discarding any previous one
+     */
+    start(settings?: LiveSettings): void {
+        this.events = [];
+        this.settings = settings;
+        this.startedAt = performance.now();
+        this.recordedAt = new Date().toISOString();
+        this.connection = 0;
+        this.isActive = true;
+        console.log('⏺️ Session recording started');
+    }
+
+    /**
+     * Stop recording and return the archive
+     */
+    stop(): SessionArchive {
+        this.isActive = false;
+        const archive: SessionArchive = {
+            format: 'aura-session',
+            version: 1,
+            recordedAt: this.recordedAt,
+            userAgent: navigator.userAgent,
+            durationMs: Math.round(performance.now() - this.startedAt),
+            settings: this.settings,
+            events: this.events
+        };
+        this.events = [];
+        console.log(`⏹️ Session recording stopped: ${archive.events.length} events over ${archive.durationMs}ms`);
+        return archive;
+    }
+
+    isRecording(): boolean {
+        return this.isActive;
+    }
+
+    /**
+     * Mark the start of a new socket so replays can split traffic per connection
+     */
+    beginConnection(params: LiveConnectParameters): void {
+        if (!this.isActive) return;
+        if (this.events.length > 0) {
+            this.connection++;
+        }
+        this.record('lifecycle', 'connect', { model: params.model, config: params.config });
+    }
+
+    record(direction: RecordedEvent['direction'], kind: RecordedEventKind, payload?: any): void {
+        if (!this.isActive) return;
+        this.events.push({
+            t: Math.round(performance.now() - this.startedAt),
+            connection: this.connection,
+            direction,
+            kind,
+            payload
+        });
+    }
+}
+
+/**
+ * Wrap a transport so every message in and out passes through the recorder
+ */
+export function createRecordingTransport(inner: LiveTransport, recorder: SessionRecorder): LiveTransport {
+    return {
+        connect: async (params) => {
+            recorder.beginConnection(params);
+            const { callbacks } = params;
+            const session = await inner.connect({
+                ...params,
+                callbacks: {
+                    onopen: () => {
+                        recorder.record('lifecycle', 'open');
+                        callbacks.onopen?.();
+                    },
+                    onmessage: (message) => {
+                        recorder.record('in', 'message', message);
+                        callbacks.onmessage(message);
+                    },
+                    onerror: (e) => {
+                        recorder.record('lifecycle', 'error', { message: e?.message });
+                        callbacks.onerror?.(e);
+                    },
+                    onclose: (e) => {
+                        recorder.record('lifecycle', 'close', { code: e?.code, reason: e?.reason });
+                        callbacks.onclose?.(e);
+                    }
+                }
+            });
+
+            const recordingSession: LiveTransportSession = {
+                sendRealtimeInput: (input) => {
+                    if (input.video || input.media) recorder.record('out', 'frame', input.video ?? input.media);
+                    if (input.audio) recorder.record('out', 'audio', input.audio);
+                    if (input.text) recorder.record('out', 'text', input.text);
+                    session.sendRealtimeInput(input);
+                },
+                sendClientContent: (content) => {
+                    recorder.record('out', 'clientContent', content);
+                    session.sendClientContent(content);
+                },
+                sendToolResponse: (response) => {
+                    recorder.record('out', 'toolResponse', response);
+                    session.sendToolResponse(response);
+                },
+                close: () => session.close(),
+                // Network adaptation reads the socket backlog through the wrapper
+                getBufferedAmount: session.getBufferedAmount && (() => session.getBufferedAmount!())
+            };
+            return recordingSession;
+        }
+    };
+}
+
+/**
+ * Offer the archive to the user as a JSON download
+ */
+export function downloadSessionArchive(archive: SessionArchive): void {
+    const blob = new Blob([JSON.stringify(archive)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `aura-session-${archive.recordedAt.replace(/[:.]/g, '-')}.json`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Revoke on the next tick so the browser has started the download
+    window.setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Parse and sanity-check an archive loaded from disk
+ */
+export function parseSessionArchive(json: string): SessionArchive {
+    const archive = JSON.parse(json);
+    if (archive?.format !== 'aura-session' || archive.version !== 1 || !Array.isArray(archive.events)) {
+        throw new Error('Not an Aura session archive');
+    }
+    return archive as SessionArchive;
+}
+
+// Export singleton instance
+export const sessionRecorder = new SessionRecorder();
@@ -0,0 +1,208 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export const SPEECH_RATE_RANGE = { min: 0.75, max: 3 };
+export const SPEECH_RATE_STEP = 0.25;
+
+const FRAME_SECONDS = 0.02;         // Segment length; long enough to hold two voice periods
+const TOLERANCE_SECONDS = 0.005;    // How far a segment may move to line up with the last one
+
+/**
+ * The rate one step faster or slower, kept inside the allowed range
+ */
+export function stepSpeechRate(rate: number, direction: 1 | -1): number {
+    const next = Math.round((rate + direction * SPEECH_RATE_STEP) / SPEECH_RATE_STEP) * SPEECH_RATE_STEP;
+    return clampSpeechRate(next);
+}
+
+export function clampSpeechRate(rate: number): number {
+    return Math.min(SPEECH_RATE_RANGE.max, Math.max(SPEECH_RATE_RANGE.min, rate));
+}
+
+/**
+ * Read the arguments of a `setSpeakingRate` call: an exact rate, or a step
+ * faster, slower or back to normal. Returns null if nothing usable was given.
+ */
+export function parseSpeechRateToolArgs(args: Record<string, unknown> | undefined, current: number): number | null {
+    if (typeof args?.rate === 'number' && Number.isFinite(args.rate)) {
+        return clampSpeechRate(args.rate);
+    }
+    switch (args?.change) {
+        case 'faster': return stepSpeechRate(current, 1);
+        case 'slower': return stepSpeechRate(current, -1);
+        case 'normal': return 1;
+        default: return null;
+    }
+}
+
+/**
+ * "1.5x", for status text and the model
+ */
+export function formatSpeechRate(rate: number): string {
+    return `${Number(rate.toFixed(2))}x`;
+}
+
+/**
+ * Changes the speed of speech without changing its pitch (WSOLA: overlap-add
+ * of segments taken at the new rate, each shifted slightly to line up with the
+ * last). Streams: chunks go in as they arrive and come out shorter or longer,
+ * about 25 ms behind; flush() at the end of a turn releases the rest.
+ */
+export class TimeStretcher {
+    private rate = 1;
+    private readonly frame: number;
+    private readonly hop: number;
+    private readonly tolerance: number;
+    private readonly window: Float32Array;
+
+    private input = new Float32Array(0);
+    private inputOffset = 0;            // Position of input[0] in the whole stream
+    private analysisPosition = 0;       // Where the next segment would ideally start
+    private previousStart: number | null = null;
+    private tail: Float32Array;         // Second half of the last segment, waiting for the next to overlap it
+
+    constructor(sampleRate: number) {
+        this.hop = Math.round(sampleRate * FRAME_SECONDS / 2);
+        this.frame = this.hop * 2;
+        this.tolerance = Math.min(this.hop, Math.round(sampleRate * TOLERANCE_SECONDS));
+        // Periodic Hann: windows half a frame apart add up to exactly one
+        this.window = new Float32Array(this.frame);
+        for (let i = 0; i < this.frame; i++) {
+            this.window[i] = 0.5 - 0.5 * Math.cos(2 * Math.PI * i / this.frame);
+        }
+        this.tail = new Float32Array(this.hop);
+    }
+
+    /**
+     * Applies to samples not yet stretched
+     */
+    setRate(rate: number): void {
+        this.rate = clampSpeechRate(rate);
+    }
+
+    getRate(): number {
+        return this.rate;
+    }
+
+    /**
+     * Stretch the next chunk of the stream
+     */
+    process(chunk: Float32Array): Float32Array {
+        // At normal speed with nothing held back, the audio passes straight through
+        if (this.rate === 1 && this.previousStart === null && this.input.length === 0) {
+            return chunk;
+        }
+        this.append(chunk);
+        return this.run();
+    }
+
+    /**
+     * Release what is held back, at the end of a turn, and start a new stream
+     */
+    flush(): Float32Array {
+        if (this.previousStart === null && this.input.length === 0) return new Float32Array(0);
+        // Silence after the last samples lets the final segments be taken
+        this.append(new Float32Array(this.frame + this.tolerance));
+        const output = this.run();
+        const result = new Float32Array(output.length + this.hop);
+        result.set(output);
+        result.set(this.tail, output.length);
+        this.reset();
+        return result;
+    }
+
+    /**
+     * Drop everything held back, as after an interruption
+     */
+    reset(): void {
+        this.input = new Float32Array(0);
+        this.inputOffset = 0;
+        this.analysisPosition = 0;
+        this.previousStart = null;
+        this.tail = new Float32Array(this.hop);
+    }
+
+    private append(chunk: Float32Array): void {
+        const joined = new Float32Array(this.input.length + chunk.length);
+        joined.set(this.input);
+        joined.set(chunk, this.input.length);
+        this.input = joined;
+    }
+
+    private run(): Float32Array {
+        const output: Float32Array[] = [];
+        for (;;) {
+            const start = this.findSegmentStart();
+            if (start === null) break;
+
+            const segment = this.input.subarray(start - this.inputOffset, start - this.inputOffset + this.frame);
+            const hopOut = new Float32Array(this.hop);
+            for (let i = 0; i < this.hop; i++) {
+                hopOut[i] = this.tail[i] + segment[i] * this.window[i];
+                this.tail[i] = segment[this.hop + i] * this.window[this.hop + i];
+            }
+            output.push(hopOut);
+
+            this.previousStart = start;
+            this.analysisPosition += this.hop * this.rate;
+        }
+        this.trimInput();
+
+        const result = new Float32Array(output.length * this.hop);
+        output.forEach((hopOut, i) => result.set(hopOut, i * this.hop));
+        return result;
+    }
+
+    /**
+     * Start of the next segment: near the ideal position, where it best continues
+     * the last segment. Null until enough input has arrived.
+     */
+    private findSegmentStart(): number | null {
+        const end = this.inputOffset + this.input.length;
+        const ideal = Math.round(this.analysisPosition);
+        if (this.previousStart === null) {
+            return ideal + this.frame <= end ? ideal : null;
+        }
+        // The audio that would naturally follow the last segment
+        const natural = this.previousStart + this.hop;
+        if (ideal + this.tolerance + this.frame > end || natural + this.hop > end) return null;
+
+        const template = natural - this.inputOffset;
+        let bestStart = ideal;
+        let bestScore = -Infinity;
+        const first = Math.max(this.inputOffset, ideal - this.tolerance);
+        for (let candidate = first; candidate <= ideal + this.tolerance; candidate++) {
+            const offset = candidate - this.inputOffset;
+            let correlation = 0;
+            let energy = 1e-9;
+            // Every other sample is plenty to line up voice periods
+            for (let i = 0; i < this.hop; i += 2) {
+                const sample = this.input[offset + i];
+                correlation += sample * this.input[template + i];
+                energy += sample * sample;
+            }
+            const score = correlation / Math.sqrt(energy);
+            if (score > bestScore) {
+                bestScore = score;
+                bestStart = candidate;
+            }
+        }
+        return bestStart;
+    }
+
+    /**
+     * Forget input that no later segment can reach
+     */
+    private trimInput(): void {
+        const keepFrom = Math.min(
+            Math.round(this.analysisPosition) - this.tolerance,
+            this.previousStart === null ? Infinity : this.previousStart + this.hop
+        );
+        const drop = Math.max(0, Math.min(this.input.length, keepFrom - this.inputOffset));
+        if (drop === 0) return;
+        this.input = this.input.slice(drop);
+        this.inputOffset += drop;
+    }
+}
@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { LiveConnectConfig } from '@google/genai';
+
+export type TokenServerStatus = 'ready' | 'unreachable' | 'denied' | 'quota-exceeded';
+
+/**
+ * The model and config a token is pinned to; the session must connect with exactly these
+ */
+export interface TokenSession {
+    model: string;
+    config: LiveConnectConfig;
+}
+
+export interface EphemeralToken {
+    token: string;
+    expireTime: string;
+    newSessionExpireTime: string;
+    remaining: number;
+}
+
+const ACCESS_CODE_STORAGE_KEY = 'vcb-access-code';
+
+/**
+ * Error raised when the token server refuses or fails a request
+ */
+export class TokenRequestError extends Error {
+    status: number;
+
+    constructor(message: string, status: number) {
+        super(message);
+        this.name = 'TokenRequestError';
+        this.status = status;
+    }
+}
+
+/**
+ * Base URL of the token-minting server, if this build uses one
+ */
+export function getTokenServerUrl(): string | null {
+    const url = process.env.TOKEN_SERVER_URL;
+    return url && url.length > 0 ? url.replace(/\/$/, '') : null;
+}
+
+/**
+ * Access code identifying this user to the token server.
+ * A code passed as `?access=` is remembered and removed from the address bar.
+ */
+export function getAccessCode(): string | null {
+    const params = new URLSearchParams(window.location.search);
+    const fromUrl = params.get('access');
+    if (fromUrl) {
+        localStorage.setItem(ACCESS_CODE_STORAGE_KEY, fromUrl);
+        params.delete('access');
+        const query = params.toString();
+        window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`);
+    }
+    return localStorage.getItem(ACCESS_CODE_STORAGE_KEY);
+}
+
+function authHeaders(): Record<string, string> {
+    const accessCode = getAccessCode();
+    return accessCode ? { Authorization: `Bearer ${accessCode}` } : {};
+}
+
+function statusFromCode(code: number): TokenServerStatus {
+    if (code === 401 || code === 403) return 'denied';
+    if (code === 429) return 'quota-exceeded';
+    return 'unreachable';
+}
+
+/**
+ * Check that the token server is reachable and will issue tokens to this user
+ */
+export async function checkTokenServer(): Promise<TokenServerStatus> {
+    const baseUrl = getTokenServerUrl();
+    if (!baseUrl) {
+        return 'unreachable';
+    }
+    try {
+        const response = await fetch(`${baseUrl}/status`, { headers: authHeaders() });
+        if (!response.ok) {
+            return statusFromCode(response.status);
+        }
+        const body = await response.json();
+        return body.remaining > 0 ? 'ready' : 'quota-exceeded';
+    } catch (e) {
+        console.error('Token server unreachable:', e);
+        return 'unreachable';
+    }
+}
+
+/**
+ * Fetch a short-lived, single-use Live API token for one session
+ */
+export async function fetchEphemeralToken(session: TokenSession): Promise<string> {
+    const baseUrl = getTokenServerUrl();
+    if (!baseUrl) {
+        throw new TokenRequestError('No token server configured', 0);
+    }
+
+    const response = await fetch(`${baseUrl}/token`, {
+        method: 'POST',
+        headers: { ...authHeaders(), 'Content-Type': 'application/json' },
+        body: JSON.stringify(session)
+    });
+    if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new TokenRequestError(body.error ?? `Token request failed (${response.status})`, response.status);
+    }
+
+    const token: EphemeralToken = await response.json();
+    console.log(`🔑 Ephemeral token issued, ${token.remaining} left today`);
+    return token.token;
+}
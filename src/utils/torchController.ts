@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ImageQualityResult } from './imageQuality';
+
+// The torch constraint is not in the DOM typings yet
+type TorchConstraintSet = MediaTrackConstraintSet & { torch?: boolean };
+type TorchCapabilities = MediaTrackCapabilities & { torch?: boolean };
+
+const DARK_FRAMES_TO_SWITCH_ON = 3;
+const BRIGHT_FRAMES_TO_SWITCH_OFF = 5;
+// The torch brightens whatever is close, so switching off needs a scene well past "too dark"
+const SWITCH_OFF_BRIGHTNESS = 170;
+const MIN_ON_MS = 10000;    // Stops a torch that lit the scene from switching straight back off
+
+/**
+ * Switches the camera's torch on in the dark and off again once the scene is
+ * clearly bright, on cameras that have one
+ */
+export class TorchController {
+    private track: MediaStreamTrack | null = null;
+    private isOn = false;
+    private streak = 0;
+    private switchedOnAt = 0;
+
+    /**
+     * Use the torch of this video track, if it has one
+     */
+    attach(track: MediaStreamTrack): void {
+        this.track = track;
+        this.isOn = false;
+        this.streak = 0;
+    }
+
+    /**
+     * Turn the torch off and let go of the track
+     */
+    async detach(): Promise<void> {
+        if (this.isOn) await this.setTorch(false);
+        this.track = null;
+    }
+
+    isSupported(): boolean {
+        const capabilities = this.track?.getCapabilities?.() as TorchCapabilities | undefined;
+        return capabilities?.torch === true;
+    }
+
+    isTorchOn(): boolean {
+        return this.isOn;
+    }
+
+    /**
+     * Feed the latest frame quality. Resolves with the new torch state when it changed, else null.
+     */
+    async update(quality: ImageQualityResult): Promise<boolean | null> {
+        if (!this.isSupported()) return null;
+
+        const wantsChange = this.isOn
+            ? quality.brightness > SWITCH_OFF_BRIGHTNESS && Date.now() - this.switchedOnAt > MIN_ON_MS
+            : quality.isTooDark;
+        this.streak = wantsChange ? this.streak + 1 : 0;
+
+        const needed = this.isOn ? BRIGHT_FRAMES_TO_SWITCH_OFF : DARK_FRAMES_TO_SWITCH_ON;
+        if (this.streak < needed) return null;
+
+        this.streak = 0;
+        return await this.setTorch(!this.isOn) ? this.isOn : null;
+    }
+
+    private async setTorch(on: boolean): Promise<boolean> {
+        if (!this.track) return false;
+        try {
+            await this.track.applyConstraints({ advanced: [{ torch: on } as TorchConstraintSet] });
+            this.isOn = on;
+            if (on) this.switchedOnAt = Date.now();
+            console.log(`🔦 Torch ${on ? 'on' : 'off'}`);
+            return true;
+        } catch (error) {
+            console.warn('Could not switch the torch:', error);
+            return false;
+        }
+    }
+}
@@ -0,0 +1,1352 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { LocaleId } from './locales';
+
+/**
+ * English is the source catalogue; every other locale must translate every key
+ */
+const en = {
+    // App shell
+    'app.skipLink': 'Skip to main content',
+    'app.regionLabel': 'VCB Vision - AI Vision Assistant',
+    'app.logoAlt': 'VCB Vision - AI powered vision assistance for the blind and visually impaired',
+    'app.motto': 'Where vision becomes viable',
+    'app.videoLabel': 'Live video feed from screen or camera',
+    'app.instructionsLabel': 'Getting started instructions',
+    'app.welcomeTitle': 'Welcome to VCB Vision',
+    'app.step1': 'Ensure AI access is ready in the status bar below - select it to enter your own API key',
+    'app.step2': "Click 'Start Session' to connect to Aura, your AI vision assistant",
+    'app.step3': "Choose 'Start Camera' for walking guidance or 'Share Screen' to read content",
+    'app.step4': 'Pick a mode - Describe, Navigate, Read, Labels, Colours or Transit - or just ask Aura to switch',
+    'app.step5': 'Speak anytime to ask questions or get more details - you can interrupt Aura at any time',
+    'app.step6': 'Use the microphone button to mute/unmute your voice input',
+
+    // Control bar
+    'controls.regionLabel': 'Application controls and status',
+    'controls.sessionGroup': 'Session controls',
+    'apiKey.checkingAccess': 'Checking Access...',
+    'apiKey.checkingKey': 'Checking API Key...',
+    'apiKey.readyDevice': 'Your API Key Ready',
+    'apiKey.readyTokenServer': 'Secure Access Ready',
+    'apiKey.readyBuild': 'API Key Ready',
+    'apiKey.missing': 'API Key Missing',
+    'apiKey.unreachable': 'Token Server Unreachable',
+    'apiKey.denied': 'Access Code Rejected',
+    'apiKey.quotaExceeded': 'Daily Limit Reached',
+    'apiKey.manageLabel': '{status}. Manage your API key',
+    'apiKey.manageTitle': 'Enter, replace or forget your own API key',
+    'apiKey.titleNew': 'Use your own API key',
+    'apiKey.titleReplace': 'Replace your API key',
+    'apiKey.description': 'Paste a Gemini API key from Google AI Studio. It is tested, then stored encrypted on this device only.',
+    'apiKey.unsupported': 'This browser cannot store keys securely. Try a different browser or disable private mode.',
+    'apiKey.label': 'Gemini API key',
+    'apiKey.show': 'Show API key',
+    'apiKey.hide': 'Hide API key',
+    'apiKey.empty': 'Please enter an API key',
+    'apiKey.testing': 'Testing connection to Aura...',
+    'apiKey.notSaved': '{error}. The key was not saved.',
+    'apiKey.forgetFailed': 'Could not remove the stored key',
+    'apiKey.forget': 'Forget Key',
+    'apiKey.cancel': 'Cancel',
+    'apiKey.testingButton': 'Testing...',
+    'apiKey.testReplace': 'Test & Replace',
+    'apiKey.testSave': 'Test & Save',
+    'status.connectingToAi': 'Connecting to AI...',
+    'status.label': 'AI Status: {status}',
+    'voice.label': 'Select AI voice',
+    'voice.ariaLabel': "Select Aura's voice - Change before starting session",
+    'voice.help': 'Voice can only be changed when session is stopped',
+    'settings.openLabel': 'Open AI model and streaming settings',
+    'settings.openTitle': 'Model, temperature, responses, resolution and frame rate',
+    'settings.button': 'Settings',
+    'record.startLabel': 'Record this session for a bug report',
+    'record.stopLabel': 'Stop recording and save the session archive',
+    'record.startTitle': 'Record frames, audio and AI messages',
+    'record.stopTitle': 'Recording: click to stop and download',
+    'record.start': 'Record',
+    'record.stop': 'Stop Rec',
+    'mode.groupLabel': 'Assistance mode',
+    'mode.needsCamera': '{mode} needs the camera',
+    'mode.needsScreen': '{mode} needs a shared screen',
+    'verbosity.brief': 'Brief',
+    'verbosity.normal': 'Normal',
+    'verbosity.detailed': 'Detailed',
+    'verbosity.label': 'Detail level {level}. Switch to {next}',
+    'verbosity.title': 'Change how much detail Aura gives',
+    'pause.pauseLabel': 'Pause automatic descriptions',
+    'pause.resumeLabel': 'Resume automatic descriptions',
+    'pause.pausedTitle': 'Paused: Aura only answers when you speak',
+    'pause.activeTitle': 'Aura describes the scene automatically',
+    'pause.pause': 'Pause',
+    'pause.resume': 'Resume',
+    'mic.unmuteLabel': 'Unmute microphone to speak with Aura',
+    'mic.muteLabel': 'Mute microphone - currently listening',
+    'mic.mutedTitle': 'Click to unmute - you can talk to Aura',
+    'mic.unmutedTitle': 'Click to mute - Aura cannot hear you',
+    'mic.off': 'Mic Off',
+    'mic.on': 'Mic On',
+    'pushToTalk.hold': 'Hold to talk',
+    'pushToTalk.label': 'Hold to talk to Aura. You can also hold the Space key or press your headset button',
+    'micGate.listening': 'Listening',
+    'micGate.closed': 'Mic closed',
+    'micGate.sayWakeWord': 'Say "Aura"',
+    'camera.startLabel': 'Start camera for walking guidance and navigation',
+    'camera.stopLabel': 'Stop camera feed',
+    'camera.deniedLabel': 'Camera access denied - check browser permissions',
+    'camera.start': 'Start Camera',
+    'camera.stop': 'Stop Camera',
+    'camera.denied': 'Camera Denied',
+    'camera.selectLabel': 'Camera',
+    'camera.selectAriaLabel': 'Choose which camera Aura uses',
+    'camera.rear': 'Rear camera (default)',
+    'camera.unnamed': 'Camera {number}',
+    'torch.on': 'Torch on',
+    'share.startLabel': 'Share screen for reading and document assistance',
+    'share.stopLabel': 'Stop screen sharing',
+    'share.start': 'Share Screen',
+    'share.stop': 'Stop Sharing',
+    'focus.selectLabel': 'Screen focus',
+    'focus.selectAriaLabel': 'Choose part of the screen for Aura to read enlarged',
+    'focus.full': 'Whole screen',
+    'focus.top-left': 'Top left',
+    'focus.top': 'Top half',
+    'focus.top-right': 'Top right',
+    'focus.left': 'Left half',
+    'focus.center': 'Centre',
+    'focus.right': 'Right half',
+    'focus.bottom-left': 'Bottom left',
+    'focus.bottom': 'Bottom half',
+    'focus.bottom-right': 'Bottom right',
+    'focus.zoom': 'Zoom {factor}x',
+    'focus.box': 'Picked by Aura',
+    'focus.overlay': 'Focus: {region}',
+    'session.startLabel': 'Start AI session and connect to Aura',
+    'session.stopLabel': 'Stop AI session and disconnect from Aura',
+    'session.start': 'Start Session',
+    'session.stop': 'Stop Session',
+
+    // Assistance modes
+    'mode.normal.label': 'Describe',
+    'mode.normal.description': 'Normal mode - detailed descriptions and conversation',
+    'mode.normal.status': '🎙️ Normal Mode',
+    'mode.navigation.label': 'Navigate',
+    'mode.navigation.description': 'Navigation mode - short walking directions with distance alerts',
+    'mode.navigation.status': '🧭 Navigation Mode',
+    'mode.reading.label': 'Read',
+    'mode.reading.description': 'Reading mode - read printed or on-screen text word for word',
+    'mode.reading.status': '📖 Reading Mode',
+    'mode.shopping.label': 'Labels',
+    'mode.shopping.description': 'Shopping mode - identify products and read labels, prices and expiry dates',
+    'mode.shopping.status': '🛒 Shopping Mode',
+    'mode.colour.label': 'Colours',
+    'mode.colour.description': 'Colour mode - name colours and patterns of the item in the centre',
+    'mode.colour.status': '🎨 Colour Mode',
+    'mode.transit.label': 'Transit',
+    'mode.transit.description': 'Transit mode - read route numbers, destinations, platforms and departure boards',
+    'mode.transit.status': '🚌 Transit Mode',
+    'mode.monitor.label': 'Monitor',
+    'mode.monitor.description': 'Screen monitor mode - announce only what changes on the shared screen, such as new messages or dialogs',
+    'mode.monitor.status': '🔔 Screen Monitor',
+
+    // Commentary status
+    'status.idle': 'Idle',
+    'status.connecting': '🔌 Connecting...',
+    'status.ready': '🎙️ Ready',
+    'status.speaking': '🎙️ Speaking...',
+    'status.speechRate': '⏩ Speaking at {rate}',
+    'status.listening': '👂 Listening...',
+    'status.paused': '⏸️ Paused',
+    'status.disconnected': '⚠️ Disconnected',
+    'status.reconnecting': '🔄 Reconnecting...',
+    'status.reconnectingAttempt': '🔄 Reconnecting ({attempt}/{max})...',
+    'status.error': '⚠️ Error',
+    'status.checkSettings': '⚠️ Check Settings',
+    'status.audioError': '⚠️ Audio Err',
+    'status.connectError': '⚠️ Connect Err',
+
+    // Conversation
+    'chat.regionLabel': 'Conversation history',
+    'chat.title': 'Conversation',
+    'chat.listening': 'Listening...',
+    'chat.empty': 'Start speaking to interact with the AI',
+    'chat.youSaying': 'You saying',
+    'chat.youSaid': 'You said',
+    'chat.aiSaying': 'AI saying',
+    'chat.aiSaid': 'AI said',
+    'chat.interrupted': 'Interrupted',
+
+    // Settings dialog
+    'settings.title': 'AI Settings',
+    'settings.descriptionActive': 'Frame rate, image quality and alert distances and hazard sounds change right away. Model, language, unit and response changes apply to your next session.',
+    'settings.descriptionIdle': 'These settings are remembered on this device.',
+    'settings.language': 'Language',
+    'settings.model': 'Model',
+    'settings.answersWith': 'Aura answers with',
+    'settings.voice': 'Voice',
+    'settings.textOnly': 'Text only',
+    'settings.temperature': 'Temperature: {value}',
+    'settings.temperatureHelp': 'Lower is more predictable, higher is more varied',
+    'settings.resolution': 'Media resolution',
+    'settings.resolutionLow': 'Low (fewer tokens)',
+    'settings.resolutionMedium': 'Medium',
+    'settings.resolutionHigh': 'High (more detail)',
+    'settings.frameRate': 'Frames per second: {value}',
+    'settings.jpegQuality': 'Image quality: {value}%',
+    'settings.videoTiers': 'Video quality on slow connections',
+    'settings.videoTierLowest': 'Lowest',
+    'settings.videoTierHighest': 'Highest',
+    'settings.videoTiersHelp': 'On a slow connection Aura sends smaller, less frequent frames, within this range. The highest setting uses the frame rate and image quality above',
+    'videoTier.status': 'Video: {tier}',
+    'videoTier.minimal': 'Minimal',
+    'videoTier.low': 'Low',
+    'videoTier.medium': 'Medium',
+    'videoTier.high': 'High',
+    'videoTier.full': 'Full HD',
+    'settings.units': 'Distances in',
+    'settings.unitsMetric': 'Meters',
+    'settings.unitsImperial': 'Feet',
+    'settings.alertDistances': 'Alert distances ({unit})',
+    'settings.alertStop': 'Stop closer than',
+    'settings.alertClose': 'Close closer than',
+    'settings.alertNear': 'Near closer than',
+    'settings.alertDistancesHelp': 'If you walk fast, larger distances give you earlier warnings',
+    'settings.hazardSounds': 'Hazard sounds',
+    'settings.hazardSpatial': '3D (headphones)',
+    'settings.hazardStereo': 'Stereo only',
+    'settings.balance': 'Left/right balance: {value}',
+    'settings.balanceCentre': 'centre',
+    'settings.balanceLeft': 'left {value}%',
+    'settings.balanceRight': 'right {value}%',
+    'settings.balanceHelp': 'Play both test sounds and move the slider until they sound equally loud',
+    'settings.testLeft': 'Test left',
+    'settings.testRight': 'Test right',
+    'settings.inputMode': 'Microphone',
+    'settings.input.open': 'Open mic',
+    'settings.input.push-to-talk': 'Push to talk',
+    'settings.input.wake-word': 'Wake word "Aura"',
+    'settings.inputModeHelp': 'Open mic sends everything you say. Push to talk sends only while you hold the button, the Space key or your headset button. The wake word sends what you say after "Aura", detected on this device',
+    'settings.wakeWordSamples': 'Wake word recorded {count} of {total} times',
+    'settings.wakeWordNeedsSamples': 'Record "Aura" {total} times to use the wake word ({count} so far)',
+    'settings.wakeWordRecord': 'Record "Aura"',
+    'settings.wakeWordForget': 'Forget wake word',
+    'settings.wakeWordNeedsSession': 'Start a session to record the wake word',
+    'settings.wakeWordRecording': 'Say "Aura" now',
+    'settings.wakeWordRecorded': 'Recorded',
+    'settings.wakeWordFailed': 'Not heard clearly. Try again in a quieter spot',
+    'settings.bargeIn': 'Interrupting Aura',
+    'settings.bargeIn.low': 'Harder, for noisy places',
+    'settings.bargeIn.medium': 'Normal',
+    'settings.bargeIn.high': 'Easier, for quiet voices',
+    'settings.bargeInHelp': 'How loud and how long you must speak before Aura stops talking. Background noise and Aura\'s own voice from the speaker are allowed for',
+    'settings.speechRate': 'Speaking rate: {value}',
+    'settings.speechRateHelp': 'How fast Aura\'s voice plays, without raising its pitch. Press Shift and > or < to change it during a session, or ask Aura to speak faster or slower',
+    'units.meters': 'meters',
+    'units.feet': 'feet',
+    'settings.defaults': 'Defaults',
+    'settings.cancel': 'Cancel',
+    'settings.save': 'Save',
+    'settings.error.modelUnavailable': 'Model "{model}" is not in the list of available models',
+    'settings.error.audioOnly': '{model} can only answer with audio',
+    'settings.error.temperature': 'Temperature must be between {min} and {max}',
+    'settings.error.modality': 'Responses must be audio or text',
+    'settings.error.resolution': 'Choose a media resolution',
+    'settings.error.frameRate': 'Frame rate must be between {min} and {max} frames per second',
+    'settings.error.jpegQuality': 'JPEG quality must be between {min} and {max}',
+    'settings.error.videoTiers': 'Choose the lowest and highest video quality',
+    'settings.error.videoTierOrder': 'The lowest video quality cannot be above the highest',
+    'settings.error.locale': 'Language "{locale}" is not supported',
+    'settings.error.units': 'Distances must be in meters or feet',
+    'settings.error.alertRange': 'Alert distances must be between {min} and {max} meters',
+    'settings.error.alertOrder': 'Each alert distance must be further than the one before',
+    'settings.error.hazardAudio': 'Hazard sounds must be 3D or stereo',
+    'settings.error.balance': 'Balance must be between {min} and {max}',
+    'settings.error.inputMode': 'Choose how the microphone listens',
+    'settings.error.bargeIn': 'Choose how easily you can interrupt Aura',
+    'settings.error.speechRate': 'Speaking rate must be between {min}x and {max}x',
+
+    // Spoken by Aura or by the browser
+    'speech.welcome': "Hello! I'm Aura, your AI vision assistant. Start your camera or share your screen, and I'll describe what I see. Feel free to interrupt me anytime with questions.",
+    'speech.backOnline': 'Back online',
+    'speech.connectionLostRestart': 'Connection lost. Please restart the session.',
+    'speech.connectionLostReconnecting': 'Connection lost. Reconnecting.',
+    'speech.stop': 'STOP',
+    'speech.clearAhead': 'Clear ahead',
+    'speech.hazardExample': 'Stairs down. Two meters',
+    'speech.hazardExampleImperial': 'Stairs down. Six feet',
+    'hazard.readout': '{hazard}, {distance}',
+    'hazard.type.wall': 'Wall',
+    'hazard.type.stairs': 'Stairs',
+    'hazard.type.curb': 'Curb',
+    'hazard.type.drop': 'Drop',
+    'hazard.type.door': 'Door',
+    'hazard.type.person': 'Person',
+    'hazard.type.vehicle': 'Vehicle',
+    'hazard.type.pole': 'Pole',
+    'hazard.type.obstacle': 'Obstacle',
+    'speech.cameraActive': 'Camera active',
+    'frameIssue.black': 'The camera sees nothing. Check the lens is uncovered',
+    'frameIssue.covered': 'Something is covering the camera. Move your finger off the lens',
+    'frameIssue.blurred': 'The picture is completely blurred. Hold the phone still',
+    'frameIssue.washedOut': 'Too bright to see. Turn away from the light',
+    'orientation.liftUp': 'Lift the phone up',
+    'orientation.tiltDown': 'Tilt the phone down',
+    'orientation.tiltRight': 'Tilt the phone to the right',
+    'orientation.tiltLeft': 'Tilt the phone to the left',
+    'orientation.liftSlightly': 'Lift the phone slightly',
+    'orientation.tiltDownSlightly': 'Tilt the phone down slightly',
+
+    // Error messages
+    'device.camera': 'Camera',
+    'device.microphone': 'Microphone',
+    'device.cameraLower': 'camera',
+    'device.microphoneLower': 'microphone',
+    'error.media.denied': '{device} access denied',
+    'error.media.notFound': 'No {deviceLower} detected',
+    'error.media.notFoundGuidance': 'Please connect a {deviceLower} and try again',
+    'error.media.inUse': '{device} is being used by another application',
+    'error.media.inUseGuidance': 'Close other apps using the {deviceLower} and try again',
+    'error.media.overconstrained': "{device} doesn't meet requirements",
+    'error.media.overconstrainedGuidance': 'Your {deviceLower} may not support the required settings',
+    'error.media.security': '{device} blocked by security policy',
+    'error.media.securityGuidance': 'Ensure you are on a secure HTTPS connection',
+    'error.media.unknown': '{device} error occurred',
+    'error.media.unknownGuidance': 'Please try again or restart your browser',
+    'guidance.mac': 'Mac: Open System Settings → Privacy & Security → {device} → Enable for your browser',
+    'guidance.windows': 'Windows: Open Settings → Privacy → {device} → Allow apps to access your {deviceLower}',
+    'guidance.android': 'Android: Open Settings → Apps → Browser → Permissions → {device} → Allow',
+    'guidance.ios': 'iOS: Open Settings → Browser → {device} → Allow',
+    'guidance.chrome': 'Chrome: Click the {deviceLower} icon in the address bar → Allow',
+    'guidance.firefox': 'Firefox: Click the {deviceLower} icon in the address bar → Allow',
+    'guidance.safari': 'Safari: Go to Safari → Settings for This Website → {device} → Allow',
+    'guidance.generic': 'Grant {deviceLower} permission in your browser settings',
+    'error.network.lost': 'Connection to AI service lost',
+    'error.network.normalClosure': 'Session ended normally',
+    'error.network.goingAway': 'Server is restarting',
+    'error.network.abnormalClosure': 'Network connection lost',
+    'error.network.policy': 'Connection blocked - check API key',
+    'error.network.serverError': 'AI service temporarily unavailable',
+    'error.network.interrupted': 'Connection interrupted',
+    'error.audio.inputContext': 'Microphone audio',
+    'error.audio.outputContext': 'Speaker audio',
+    'error.audio.suspended': '{context} suspended',
+    'error.audio.worklet': 'Audio processing failed',
+    'error.audio.corrupted': 'Audio data corrupted',
+    'error.audio.generic': '{context} error',
+    'error.orientation.unavailable': 'Device orientation unavailable',
+    'error.orientation.denied': 'Orientation permission denied',
+    'error.orientation.unsupported': 'Orientation sensors not available',
+    'error.api.generic': 'AI service error',
+    'error.api.invalidKey': 'Invalid API key',
+    'error.api.rateLimited': 'Too many requests - please wait',
+    'error.api.unavailable': 'AI service temporarily down'
+};
+
+export type TranslationKey = keyof typeof en;
+export type TranslationCatalogue = Record<TranslationKey, string>;
+export type TranslationParams = Record<string, string | number>;
+export type Translator = (key: TranslationKey, params?: TranslationParams) => string;
+
+const af: TranslationCatalogue = {
+    'app.skipLink': 'Slaan oor na hoofinhoud',
+    'app.regionLabel': 'VCB Vision - KI-visiehulp',
+    'app.logoAlt': 'VCB Vision - KI-aangedrewe visiehulp vir blindes en swaksiendes',
+    'app.motto': 'Waar visie lewensvatbaar word',
+    'app.videoLabel': 'Regstreekse video van skerm of kamera',
+    'app.instructionsLabel': 'Instruksies om te begin',
+    'app.welcomeTitle': 'Welkom by VCB Vision',
+    'app.step1': 'Maak seker KI-toegang is gereed in die statusbalk hieronder - kies dit om jou eie API-sleutel in te voer',
+    'app.step2': "Klik 'Begin Sessie' om aan Aura, jou KI-visiehulp, te koppel",
+    'app.step3': "Kies 'Begin Kamera' vir loopleiding of 'Deel Skerm' om inhoud te lees",
+    'app.step4': 'Kies \'n modus - Beskryf, Navigeer, Lees, Etikette, Kleure of Vervoer - of vra Aura net om oor te skakel',
+    'app.step5': 'Praat enige tyd om vrae te vra of meer besonderhede te kry - jy kan Aura enige tyd onderbreek',
+    'app.step6': 'Gebruik die mikrofoonknoppie om jou stem te demp of weer aan te skakel',
+
+    'controls.regionLabel': 'Toepassingskontroles en status',
+    'controls.sessionGroup': 'Sessiekontroles',
+    'apiKey.checkingAccess': 'Kontroleer toegang...',
+    'apiKey.checkingKey': 'Kontroleer API-sleutel...',
+    'apiKey.readyDevice': 'Jou API-sleutel is gereed',
+    'apiKey.readyTokenServer': 'Veilige toegang gereed',
+    'apiKey.readyBuild': 'API-sleutel gereed',
+    'apiKey.missing': 'API-sleutel ontbreek',
+    'apiKey.unreachable': 'Tokenbediener onbereikbaar',
+    'apiKey.denied': 'Toegangskode afgekeur',
+    'apiKey.quotaExceeded': 'Daaglikse limiet bereik',
+    'apiKey.manageLabel': '{status}. Bestuur jou API-sleutel',
+    'apiKey.manageTitle': 'Voer jou eie API-sleutel in, vervang of vergeet dit',
+    'apiKey.titleNew': 'Gebruik jou eie API-sleutel',
+    'apiKey.titleReplace': 'Vervang jou API-sleutel',
+    'apiKey.description': "Plak 'n Gemini API-sleutel van Google AI Studio. Dit word getoets en dan net op hierdie toestel geënkripteer gestoor.",
+    'apiKey.unsupported': "Hierdie blaaier kan nie sleutels veilig stoor nie. Probeer 'n ander blaaier of skakel privaat modus af.",
+    'apiKey.label': 'Gemini API-sleutel',
+    'apiKey.show': 'Wys API-sleutel',
+    'apiKey.hide': 'Versteek API-sleutel',
+    'apiKey.empty': "Voer asseblief 'n API-sleutel in",
+    'apiKey.testing': 'Toets verbinding met Aura...',
+    'apiKey.notSaved': '{error}. Die sleutel is nie gestoor nie.',
+    'apiKey.forgetFailed': 'Kon nie die gestoorde sleutel verwyder nie',
+    'apiKey.forget': 'Vergeet sleutel',
+    'apiKey.cancel': 'Kanselleer',
+    'apiKey.testingButton': 'Toets...',
+    'apiKey.testReplace': 'Toets en vervang',
+    'apiKey.testSave': 'Toets en stoor',
+    'status.connectingToAi': 'Koppel aan KI...',
+    'status.label': 'KI-status: {status}',
+    'voice.label': 'Kies KI-stem',
+    'voice.ariaLabel': 'Kies Aura se stem - verander dit voor die sessie begin',
+    'voice.help': 'Die stem kan net verander word wanneer die sessie gestop is',
+    'settings.openLabel': 'Maak KI-model- en stroominstellings oop',
+    'settings.openTitle': 'Model, temperatuur, antwoorde, resolusie en raamtempo',
+    'settings.button': 'Instellings',
+    'record.startLabel': 'Neem hierdie sessie op vir \'n foutverslag',
+    'record.stopLabel': 'Stop opname en stoor die sessie-argief',
+    'record.startTitle': 'Neem rame, klank en KI-boodskappe op',
+    'record.stopTitle': 'Neem op: klik om te stop en af te laai',
+    'record.start': 'Neem op',
+    'record.stop': 'Stop opname',
+    'mode.groupLabel': 'Hulpmodus',
+    'mode.needsCamera': '{mode} het die kamera nodig',
+    'mode.needsScreen': "{mode} het 'n gedeelde skerm nodig",
+    'verbosity.brief': 'Kort',
+    'verbosity.normal': 'Normaal',
+    'verbosity.detailed': 'Volledig',
+    'verbosity.label': 'Vlak van detail {level}. Skakel oor na {next}',
+    'verbosity.title': 'Verander hoeveel detail Aura gee',
+    'pause.pauseLabel': 'Onderbreek outomatiese beskrywings',
+    'pause.resumeLabel': 'Hervat outomatiese beskrywings',
+    'pause.pausedTitle': 'Onderbreek: Aura antwoord net wanneer jy praat',
+    'pause.activeTitle': 'Aura beskryf die toneel outomaties',
+    'pause.pause': 'Onderbreek',
+    'pause.resume': 'Hervat',
+    'mic.unmuteLabel': 'Skakel mikrofoon aan om met Aura te praat',
+    'mic.muteLabel': 'Demp mikrofoon - luister tans',
+    'mic.mutedTitle': 'Klik om aan te skakel - jy kan met Aura praat',
+    'mic.unmutedTitle': 'Klik om te demp - Aura kan jou nie hoor nie',
+    'mic.off': 'Mikrofoon af',
+    'mic.on': 'Mikrofoon aan',
+    'pushToTalk.hold': 'Hou in om te praat',
+    'pushToTalk.label': 'Hou in om met Aura te praat. Jy kan ook die spasiesleutel inhou of jou kopstuk se knoppie druk',
+    'micGate.listening': 'Luister',
+    'micGate.closed': 'Mikrofoon toe',
+    'micGate.sayWakeWord': 'Sê "Aura"',
+    'camera.startLabel': 'Begin kamera vir loopleiding en navigasie',
+    'camera.stopLabel': 'Stop kamerabeeld',
+    'camera.deniedLabel': 'Kameratoegang geweier - kontroleer blaaiertoestemmings',
+    'camera.start': 'Begin Kamera',
+    'camera.stop': 'Stop Kamera',
+    'camera.denied': 'Kamera geweier',
+    'camera.selectLabel': 'Kamera',
+    'camera.selectAriaLabel': 'Kies watter kamera Aura gebruik',
+    'camera.rear': 'Agterste kamera (verstek)',
+    'camera.unnamed': 'Kamera {number}',
+    'torch.on': 'Flits aan',
+    'share.startLabel': 'Deel skerm vir lees- en dokumenthulp',
+    'share.stopLabel': 'Stop skermdeling',
+    'share.start': 'Deel Skerm',
+    'share.stop': 'Stop Deling',
+    'focus.selectLabel': 'Skermfokus',
+    'focus.selectAriaLabel': 'Kies watter deel van die skerm Aura vergroot lees',
+    'focus.full': 'Hele skerm',
+    'focus.top-left': 'Links bo',
+    'focus.top': 'Boonste helfte',
+    'focus.top-right': 'Regs bo',
+    'focus.left': 'Linkerhelfte',
+    'focus.center': 'Middel',
+    'focus.right': 'Regterhelfte',
+    'focus.bottom-left': 'Links onder',
+    'focus.bottom': 'Onderste helfte',
+    'focus.bottom-right': 'Regs onder',
+    'focus.zoom': 'Zoem {factor}x',
+    'focus.box': 'Deur Aura gekies',
+    'focus.overlay': 'Fokus: {region}',
+    'session.startLabel': 'Begin KI-sessie en koppel aan Aura',
+    'session.stopLabel': 'Stop KI-sessie en ontkoppel van Aura',
+    'session.start': 'Begin Sessie',
+    'session.stop': 'Stop Sessie',
+
+    'mode.normal.label': 'Beskryf',
+    'mode.normal.description': 'Normale modus - volledige beskrywings en gesprek',
+    'mode.normal.status': '🎙️ Normale modus',
+    'mode.navigation.label': 'Navigeer',
+    'mode.navigation.description': 'Navigasiemodus - kort loopaanwysings met afstandwaarskuwings',
+    'mode.navigation.status': '🧭 Navigasiemodus',
+    'mode.reading.label': 'Lees',
+    'mode.reading.description': 'Leesmodus - lees gedrukte of skermteks woord vir woord',
+    'mode.reading.status': '📖 Leesmodus',
+    'mode.shopping.label': 'Etikette',
+    'mode.shopping.description': 'Inkopiemodus - herken produkte en lees etikette, pryse en vervaldatums',
+    'mode.shopping.status': '🛒 Inkopiemodus',
+    'mode.colour.label': 'Kleure',
+    'mode.colour.description': 'Kleurmodus - noem die kleure en patrone van die voorwerp in die middel',
+    'mode.colour.status': '🎨 Kleurmodus',
+    'mode.transit.label': 'Vervoer',
+    'mode.transit.description': 'Vervoermodus - lees roetenommers, bestemmings, platforms en vertrekborde',
+    'mode.transit.status': '🚌 Vervoermodus',
+    'mode.monitor.label': 'Monitor',
+    'mode.monitor.description': 'Skermmonitormodus - kondig net aan wat op die gedeelde skerm verander, soos nuwe boodskappe of dialoë',
+    'mode.monitor.status': '🔔 Skermmonitor',
+
+    'status.idle': 'Onaktief',
+    'status.connecting': '🔌 Koppel...',
+    'status.ready': '🎙️ Gereed',
+    'status.speaking': '🎙️ Praat...',
+    'status.speechRate': '⏩ Praat teen {rate}',
+    'status.listening': '👂 Luister...',
+    'status.paused': '⏸️ Onderbreek',
+    'status.disconnected': '⚠️ Ontkoppel',
+    'status.reconnecting': '🔄 Koppel weer...',
+    'status.reconnectingAttempt': '🔄 Koppel weer ({attempt}/{max})...',
+    'status.error': '⚠️ Fout',
+    'status.checkSettings': '⚠️ Kontroleer instellings',
+    'status.audioError': '⚠️ Klankfout',
+    'status.connectError': '⚠️ Koppelfout',
+
+    'chat.regionLabel': 'Gespreksgeskiedenis',
+    'chat.title': 'Gesprek',
+    'chat.listening': 'Luister...',
+    'chat.empty': 'Begin praat om met die KI te gesels',
+    'chat.youSaying': 'Jy sê',
+    'chat.youSaid': 'Jy het gesê',
+    'chat.aiSaying': 'KI sê',
+    'chat.aiSaid': 'KI het gesê',
+    'chat.interrupted': 'Onderbreek',
+
+    'settings.title': 'KI-instellings',
+    'settings.descriptionActive': 'Raamtempo, beeldgehalte, waarskuwingsafstande en gevaarklanke verander dadelik. Model-, taal-, eenheid- en antwoordveranderinge geld vanaf jou volgende sessie.',
+    'settings.descriptionIdle': 'Hierdie instellings word op hierdie toestel onthou.',
+    'settings.language': 'Taal',
+    'settings.model': 'Model',
+    'settings.answersWith': 'Aura antwoord met',
+    'settings.voice': 'Stem',
+    'settings.textOnly': 'Net teks',
+    'settings.temperature': 'Temperatuur: {value}',
+    'settings.temperatureHelp': 'Laer is meer voorspelbaar, hoër is meer gevarieerd',
+    'settings.resolution': 'Mediaresolusie',
+    'settings.resolutionLow': 'Laag (minder tokens)',
+    'settings.resolutionMedium': 'Medium',
+    'settings.resolutionHigh': 'Hoog (meer detail)',
+    'settings.frameRate': 'Rame per sekonde: {value}',
+    'settings.jpegQuality': 'Beeldgehalte: {value}%',
+    'settings.videoTiers': 'Videogehalte op stadige verbindings',
+    'settings.videoTierLowest': 'Laagste',
+    'settings.videoTierHighest': 'Hoogste',
+    'settings.videoTiersHelp': "Op 'n stadige verbinding stuur Aura kleiner rame, minder gereeld, binne hierdie reeks. Die hoogste stelling gebruik die raamtempo en beeldgehalte hierbo",
+    'videoTier.status': 'Video: {tier}',
+    'videoTier.minimal': 'Minimaal',
+    'videoTier.low': 'Laag',
+    'videoTier.medium': 'Medium',
+    'videoTier.high': 'Hoog',
+    'videoTier.full': 'Volle HD',
+    'settings.units': 'Afstande in',
+    'settings.unitsMetric': 'Meter',
+    'settings.unitsImperial': 'Voet',
+    'settings.alertDistances': 'Waarskuwingsafstande ({unit})',
+    'settings.alertStop': 'Stop nader as',
+    'settings.alertClose': 'Naby nader as',
+    'settings.alertNear': 'Nader as',
+    'settings.alertDistancesHelp': 'As jy vinnig loop, gee groter afstande jou vroeër waarskuwings',
+    'settings.hazardSounds': 'Gevaarklanke',
+    'settings.hazardSpatial': '3D (oorfone)',
+    'settings.hazardStereo': 'Net stereo',
+    'settings.balance': 'Links/regs-balans: {value}',
+    'settings.balanceCentre': 'middel',
+    'settings.balanceLeft': 'links {value}%',
+    'settings.balanceRight': 'regs {value}%',
+    'settings.balanceHelp': 'Speel albei toetsklanke en skuif die skuifbalk tot hulle ewe hard klink',
+    'settings.testLeft': 'Toets links',
+    'settings.testRight': 'Toets regs',
+    'settings.inputMode': 'Mikrofoon',
+    'settings.input.open': 'Oop mikrofoon',
+    'settings.input.push-to-talk': 'Druk om te praat',
+    'settings.input.wake-word': 'Wekwoord "Aura"',
+    'settings.inputModeHelp': 'Oop mikrofoon stuur alles wat jy sê. Druk om te praat stuur net terwyl jy die knoppie, die spasiesleutel of jou kopstuk se knoppie inhou. Die wekwoord stuur wat jy ná "Aura" sê, herken op hierdie toestel',
+    'settings.wakeWordSamples': 'Wekwoord {count} van {total} keer opgeneem',
+    'settings.wakeWordNeedsSamples': 'Neem "Aura" {total} keer op om die wekwoord te gebruik ({count} tot dusver)',
+    'settings.wakeWordRecord': 'Neem "Aura" op',
+    'settings.wakeWordForget': 'Vergeet wekwoord',
+    'settings.wakeWordNeedsSession': 'Begin ’n sessie om die wekwoord op te neem',
+    'settings.wakeWordRecording': 'Sê nou "Aura"',
+    'settings.wakeWordRecorded': 'Opgeneem',
+    'settings.wakeWordFailed': 'Nie duidelik gehoor nie. Probeer weer op ’n stiller plek',
+    'settings.bargeIn': 'Aura onderbreek',
+    'settings.bargeIn.low': 'Moeiliker, vir lawaaierige plekke',
+    'settings.bargeIn.medium': 'Normaal',
+    'settings.bargeIn.high': 'Makliker, vir sagte stemme',
+    'settings.bargeInHelp': 'Hoe hard en hoe lank jy moet praat voordat Aura ophou praat. Agtergrondgeraas en Aura se eie stem uit die luidspreker word in ag geneem',
+    'settings.speechRate': 'Spreektempo: {value}',
+    'settings.speechRateHelp': 'Hoe vinnig Aura se stem speel, sonder om die toonhoogte te verhoog. Druk Shift en > of < om dit tydens \'n sessie te verander, of vra Aura om vinniger of stadiger te praat',
+    'units.meters': 'meter',
+    'units.feet': 'voet',
+    'settings.defaults': 'Verstek',
+    'settings.cancel': 'Kanselleer',
+    'settings.save': 'Stoor',
+    'settings.error.modelUnavailable': 'Model "{model}" is nie in die lys beskikbare modelle nie',
+    'settings.error.audioOnly': '{model} kan net met klank antwoord',
+    'settings.error.temperature': 'Temperatuur moet tussen {min} en {max} wees',
+    'settings.error.modality': 'Antwoorde moet klank of teks wees',
+    'settings.error.resolution': "Kies 'n mediaresolusie",
+    'settings.error.frameRate': 'Raampies per sekonde moet tussen {min} en {max} wees',
+    'settings.error.jpegQuality': 'JPEG-gehalte moet tussen {min} en {max} wees',
+    'settings.error.videoTiers': 'Kies die laagste en hoogste videogehalte',
+    'settings.error.videoTierOrder': 'Die laagste videogehalte kan nie hoër as die hoogste wees nie',
+    'settings.error.locale': 'Taal "{locale}" word nie ondersteun nie',
+    'settings.error.units': 'Afstande moet in meter of voet wees',
+    'settings.error.alertRange': 'Waarskuwingsafstande moet tussen {min} en {max} meter wees',
+    'settings.error.alertOrder': 'Elke waarskuwingsafstand moet verder as die vorige een wees',
+    'settings.error.hazardAudio': 'Gevaarklanke moet 3D of stereo wees',
+    'settings.error.balance': 'Balans moet tussen {min} en {max} wees',
+    'settings.error.inputMode': 'Kies hoe die mikrofoon luister',
+    'settings.error.bargeIn': 'Kies hoe maklik jy Aura kan onderbreek',
+    'settings.error.speechRate': 'Spreektempo moet tussen {min}x en {max}x wees',
+
+    'speech.welcome': "Hallo! Ek is Aura, jou KI-visiehulp. Begin jou kamera of deel jou skerm, en ek sal beskryf wat ek sien. Onderbreek my gerus enige tyd met vrae.",
+    'speech.backOnline': 'Weer aanlyn',
+    'speech.connectionLostRestart': 'Verbinding verloor. Begin asseblief die sessie weer.',
+    'speech.connectionLostReconnecting': 'Verbinding verloor. Koppel weer.',
+    'speech.stop': 'STOP',
+    'speech.clearAhead': 'Pad voor is oop',
+    'speech.hazardExample': 'Trappe af. Twee meter',
+    'speech.hazardExampleImperial': 'Trappe af. Ses voet',
+    'hazard.readout': '{hazard}, {distance}',
+    'hazard.type.wall': 'Muur',
+    'hazard.type.stairs': 'Trappe',
+    'hazard.type.curb': 'Randsteen',
+    'hazard.type.drop': 'Afgrond',
+    'hazard.type.door': 'Deur',
+    'hazard.type.person': 'Persoon',
+    'hazard.type.vehicle': 'Voertuig',
+    'hazard.type.pole': 'Paal',
+    'hazard.type.obstacle': 'Hindernis',
+    'speech.cameraActive': 'Kamera aktief',
+    'frameIssue.black': 'Die kamera sien niks. Maak seker die lens is oop',
+    'frameIssue.covered': 'Iets bedek die kamera. Haal jou vinger van die lens af',
+    'frameIssue.blurred': 'Die beeld is heeltemal vaag. Hou die foon stil',
+    'frameIssue.washedOut': 'Te helder om te sien. Draai weg van die lig',
+    'orientation.liftUp': 'Lig die foon op',
+    'orientation.tiltDown': 'Kantel die foon af',
+    'orientation.tiltRight': 'Kantel die foon na regs',
+    'orientation.tiltLeft': 'Kantel die foon na links',
+    'orientation.liftSlightly': 'Lig die foon effens op',
+    'orientation.tiltDownSlightly': 'Kantel die foon effens af',
+
+    'device.camera': 'Kamera',
+    'device.microphone': 'Mikrofoon',
+    'device.cameraLower': 'kamera',
+    'device.microphoneLower': 'mikrofoon',
+    'error.media.denied': 'Toegang tot {deviceLower} geweier',
+    'error.media.notFound': 'Geen {deviceLower} gevind nie',
+    'error.media.notFoundGuidance': 'Koppel asseblief \'n {deviceLower} en probeer weer',
+    'error.media.inUse': '{device} word deur \'n ander toepassing gebruik',
+    'error.media.inUseGuidance': 'Maak ander toepassings wat die {deviceLower} gebruik toe en probeer weer',
+    'error.media.overconstrained': '{device} voldoen nie aan die vereistes nie',
+    'error.media.overconstrainedGuidance': 'Jou {deviceLower} ondersteun dalk nie die vereiste instellings nie',
+    'error.media.security': '{device} deur sekuriteitsbeleid geblokkeer',
+    'error.media.securityGuidance': 'Maak seker jy gebruik \'n veilige HTTPS-verbinding',
+    'error.media.unknown': '{device}fout het voorgekom',
+    'error.media.unknownGuidance': 'Probeer asseblief weer of herbegin jou blaaier',
+    'guidance.mac': 'Mac: Maak Stelselinstellings oop → Privaatheid en sekuriteit → {device} → Skakel aan vir jou blaaier',
+    'guidance.windows': 'Windows: Maak Instellings oop → Privaatheid → {device} → Laat toepassings toe om jou {deviceLower} te gebruik',
+    'guidance.android': 'Android: Maak Instellings oop → Toepassings → Blaaier → Toestemmings → {device} → Laat toe',
+    'guidance.ios': 'iOS: Maak Instellings oop → Blaaier → {device} → Laat toe',
+    'guidance.chrome': 'Chrome: Klik op die {deviceLower}-ikoon in die adresbalk → Laat toe',
+    'guidance.firefox': 'Firefox: Klik op die {deviceLower}-ikoon in die adresbalk → Laat toe',
+    'guidance.safari': 'Safari: Gaan na Safari → Instellings vir hierdie webwerf → {device} → Laat toe',
+    'guidance.generic': 'Gee toestemming vir die {deviceLower} in jou blaaierinstellings',
+    'error.network.lost': 'Verbinding met KI-diens verloor',
+    'error.network.normalClosure': 'Sessie normaal beëindig',
+    'error.network.goingAway': 'Bediener herbegin',
+    'error.network.abnormalClosure': 'Netwerkverbinding verloor',
+    'error.network.policy': 'Verbinding geblokkeer - kontroleer API-sleutel',
+    'error.network.serverError': 'KI-diens tydelik onbeskikbaar',
+    'error.network.interrupted': 'Verbinding onderbreek',
+    'error.audio.inputContext': 'Mikrofoonklank',
+    'error.audio.outputContext': 'Luidsprekerklank',
+    'error.audio.suspended': '{context} opgeskort',
+    'error.audio.worklet': 'Klankverwerking het misluk',
+    'error.audio.corrupted': 'Klankdata beskadig',
+    'error.audio.generic': '{context}: fout',
+    'error.orientation.unavailable': 'Toesteloriëntasie onbeskikbaar',
+    'error.orientation.denied': 'Toestemming vir oriëntasie geweier',
+    'error.orientation.unsupported': 'Oriëntasiesensors nie beskikbaar nie',
+    'error.api.generic': 'KI-diensfout',
+    'error.api.invalidKey': 'Ongeldige API-sleutel',
+    'error.api.rateLimited': 'Te veel versoeke - wag asseblief',
+    'error.api.unavailable': 'KI-diens tydelik af'
+};
+
+const zu: TranslationCatalogue = {
+    'app.skipLink': 'Yeqela kokuqukethwe okuyinhloko',
+    'app.regionLabel': 'VCB Vision - Umsizi wokubona we-AI',
+    'app.logoAlt': 'VCB Vision - usizo lokubona olusebenzisa i-AI kubantu abangaboni nababona kancane',
+    'app.motto': 'Lapho ukubona kuba nokwenzeka',
+    'app.videoLabel': 'Ividiyo ebukhoma evela esikrinini noma kukhamera',
+    'app.instructionsLabel': 'Imiyalelo yokuqala',
+    'app.welcomeTitle': 'Siyakwamukela ku-VCB Vision',
+    'app.step1': 'Qinisekisa ukuthi ukufinyelela kwe-AI kulungile kubha yesimo engezansi - yikhethe ukuze ufake ukhiye wakho we-API',
+    'app.step2': "Chofoza 'Qala Iseshini' ukuze uxhume ku-Aura, umsizi wakho wokubona we-AI",
+    'app.step3': "Khetha 'Qala Ikhamera' ukuze uqondiswe uma uhamba noma 'Yabelana Ngesikrini' ukuze ufunde okuqukethwe",
+    'app.step4': 'Khetha imodi - Chaza, Hamba, Funda, Amalebula, Imibala noma Ezokuthutha - noma ucele u-Aura ukuthi ashintshe',
+    'app.step5': 'Khuluma noma nini ukuze ubuze imibuzo noma uthole imininingwane eyengeziwe - ungamphazamisa u-Aura noma nini',
+    'app.step6': 'Sebenzisa inkinobho yemakrofoni ukuze uthulise noma uvule izwi lakho',
+
+    'controls.regionLabel': 'Izilawuli zohlelo nesimo',
+    'controls.sessionGroup': 'Izilawuli zeseshini',
+    'apiKey.checkingAccess': 'Kuhlolwa ukufinyelela...',
+    'apiKey.checkingKey': 'Kuhlolwa ukhiye we-API...',
+    'apiKey.readyDevice': 'Ukhiye wakho we-API ulungile',
+    'apiKey.readyTokenServer': 'Ukufinyelela okuphephile kulungile',
+    'apiKey.readyBuild': 'Ukhiye we-API ulungile',
+    'apiKey.missing': 'Ukhiye we-API awukho',
+    'apiKey.unreachable': 'Iseva yethokheni ayitholakali',
+    'apiKey.denied': 'Ikhodi yokufinyelela yenqatshiwe',
+    'apiKey.quotaExceeded': 'Umkhawulo wansuku zonke ufinyelelwe',
+    'apiKey.manageLabel': '{status}. Phatha ukhiye wakho we-API',
+    'apiKey.manageTitle': 'Faka, shintsha noma ukhohlwe ukhiye wakho we-API',
+    'apiKey.titleNew': 'Sebenzisa ukhiye wakho we-API',
+    'apiKey.titleReplace': 'Shintsha ukhiye wakho we-API',
+    'apiKey.description': 'Namathisela ukhiye we-Gemini API ovela ku-Google AI Studio. Uyahlolwa, bese ugcinwa ubethelwe kule divayisi kuphela.',
+    'apiKey.unsupported': 'Lesi siphequluli asikwazi ukugcina okhiye ngokuphephile. Zama esinye isiphequluli noma uvale imodi eyimfihlo.',
+    'apiKey.label': 'Ukhiye we-Gemini API',
+    'apiKey.show': 'Bonisa ukhiye we-API',
+    'apiKey.hide': 'Fihla ukhiye we-API',
+    'apiKey.empty': 'Sicela ufake ukhiye we-API',
+    'apiKey.testing': 'Ihlola ukuxhumana no-Aura...',
+    'apiKey.notSaved': '{error}. Ukhiye awugcinwanga.',
+    'apiKey.forgetFailed': 'Ayikwazanga ukususa ukhiye ogciniwe',
+    'apiKey.forget': 'Khohlwa ukhiye',
+    'apiKey.cancel': 'Khansela',
+    'apiKey.testingButton': 'Iyahlola...',
+    'apiKey.testReplace': 'Hlola futhi ushintshe',
+    'apiKey.testSave': 'Hlola futhi ulondoloze',
+    'status.connectingToAi': 'Kuxhunywa ku-AI...',
+    'status.label': 'Isimo se-AI: {status}',
+    'voice.label': 'Khetha izwi le-AI',
+    'voice.ariaLabel': 'Khetha izwi lika-Aura - shintsha ngaphambi kokuqala iseshini',
+    'voice.help': 'Izwi lingashintshwa kuphela uma iseshini imisiwe',
+    'settings.openLabel': 'Vula izilungiselelo zemodeli ye-AI nezokusakaza',
+    'settings.openTitle': 'Imodeli, izinga lokushisa, izimpendulo, ukucaca nesivinini sezithombe',
+    'settings.button': 'Izilungiselelo',
+    'record.startLabel': 'Qopha le seshini ukuze ubike inkinga',
+    'record.stopLabel': 'Misa ukuqopha bese ulondoloza ingobo yomlando yeseshini',
+    'record.startTitle': 'Qopha izithombe, umsindo nemilayezo ye-AI',
+    'record.stopTitle': 'Kuyaqoshwa: chofoza ukuze umise futhi ulande',
+    'record.start': 'Qopha',
+    'record.stop': 'Misa ukuqopha',
+    'mode.groupLabel': 'Imodi yosizo',
+    'mode.needsCamera': '{mode}: kudingeka ikhamera',
+    'mode.needsScreen': '{mode}: kudingeka isikrini esabiwe',
+    'verbosity.brief': 'Kafushane',
+    'verbosity.normal': 'Okujwayelekile',
+    'verbosity.detailed': 'Ngokuningiliziwe',
+    'verbosity.label': 'Izinga lemininingwane: {level}. Shintshela ku-{next}',
+    'verbosity.title': 'Shintsha ukuthi u-Aura unikeza imininingwane engakanani',
+    'pause.pauseLabel': 'Misa okwesikhashana izincazelo ezizenzakalelayo',
+    'pause.resumeLabel': 'Qhubeka nezincazelo ezizenzakalelayo',
+    'pause.pausedTitle': 'Kumiswe okwesikhashana: u-Aura uphendula kuphela uma ukhuluma',
+    'pause.activeTitle': 'U-Aura uchaza indawo ngokuzenzakalelayo',
+    'pause.pause': 'Misa kancane',
+    'pause.resume': 'Qhubeka',
+    'mic.unmuteLabel': 'Vula imakrofoni ukuze ukhulume no-Aura',
+    'mic.muteLabel': 'Thulisa imakrofoni - iyalalela manje',
+    'mic.mutedTitle': 'Chofoza ukuze uvule - ungakhuluma no-Aura',
+    'mic.unmutedTitle': 'Chofoza ukuze uthulise - u-Aura ngeke akuzwe',
+    'mic.off': 'Imakrofoni ivaliwe',
+    'mic.on': 'Imakrofoni ivuliwe',
+    'pushToTalk.hold': 'Bamba ukuze ukhulume',
+    'pushToTalk.label': 'Bamba ukuze ukhulume no-Aura. Ungabamba futhi ukhiye we-Space noma ucindezele inkinobho ye-headset',
+    'micGate.listening': 'Iyalalela',
+    'micGate.closed': 'Imakrofoni ivaliwe',
+    'micGate.sayWakeWord': 'Yisho ethi "Aura"',
+    'camera.startLabel': 'Qala ikhamera ukuze uqondiswe uma uhamba',
+    'camera.stopLabel': 'Misa ikhamera',
+    'camera.deniedLabel': 'Ukufinyelela kwekhamera kwenqatshiwe - hlola izimvume zesiphequluli',
+    'camera.start': 'Qala Ikhamera',
+    'camera.stop': 'Misa Ikhamera',
+    'camera.denied': 'Ikhamera yenqatshiwe',
+    'camera.selectLabel': 'Ikhamera',
+    'camera.selectAriaLabel': 'Khetha ikhamera u-Aura azoyisebenzisa',
+    'camera.rear': 'Ikhamera yangemuva (okuzenzakalelayo)',
+    'camera.unnamed': 'Ikhamera {number}',
+    'torch.on': 'Ithoshi ivuliwe',
+    'share.startLabel': 'Yabelana ngesikrini ukuze usizwe ukufunda imibhalo',
+    'share.stopLabel': 'Misa ukwabelana ngesikrini',
+    'share.start': 'Yabelana Ngesikrini',
+    'share.stop': 'Misa Ukwabelana',
+    'focus.selectLabel': 'Ukugxila kwesikrini',
+    'focus.selectAriaLabel': 'Khetha ingxenye yesikrini u-Aura azoyifunda ikhulisiwe',
+    'focus.full': 'Isikrini sonke',
+    'focus.top-left': 'Phezulu kwesokunxele',
+    'focus.top': 'Ingxenye engenhla',
+    'focus.top-right': 'Phezulu kwesokudla',
+    'focus.left': 'Ingxenye yesokunxele',
+    'focus.center': 'Maphakathi',
+    'focus.right': 'Ingxenye yesokudla',
+    'focus.bottom-left': 'Phansi kwesokunxele',
+    'focus.bottom': 'Ingxenye engezansi',
+    'focus.bottom-right': 'Phansi kwesokudla',
+    'focus.zoom': 'Sondeza {factor}x',
+    'focus.box': 'Kukhethwe ngu-Aura',
+    'focus.overlay': 'Ukugxila: {region}',
+    'session.startLabel': 'Qala iseshini ye-AI bese uxhuma ku-Aura',
+    'session.stopLabel': 'Misa iseshini ye-AI bese unqamula ku-Aura',
+    'session.start': 'Qala Iseshini',
+    'session.stop': 'Misa Iseshini',
+
+    'mode.normal.label': 'Chaza',
+    'mode.normal.description': 'Imodi evamile - izincazelo ezigcwele nengxoxo',
+    'mode.normal.status': '🎙️ Imodi evamile',
+    'mode.navigation.label': 'Hamba',
+    'mode.navigation.description': 'Imodi yokuhamba - iziqondiso ezimfushane zokuhamba nezexwayiso zebanga',
+    'mode.navigation.status': '🧭 Imodi yokuhamba',
+    'mode.reading.label': 'Funda',
+    'mode.reading.description': 'Imodi yokufunda - funda umbhalo ophrintiwe noma osesikrinini igama negama',
+    'mode.reading.status': '📖 Imodi yokufunda',
+    'mode.shopping.label': 'Amalebula',
+    'mode.shopping.description': 'Imodi yokuthenga - bona imikhiqizo bese ufunda amalebula, amanani nezinsuku zokuphelelwa yisikhathi',
+    'mode.shopping.status': '🛒 Imodi yokuthenga',
+    'mode.colour.label': 'Imibala',
+    'mode.colour.description': 'Imodi yemibala - shono imibala namaphethini ento esemaphakathi',
+    'mode.colour.status': '🎨 Imodi yemibala',
+    'mode.transit.label': 'Ezokuthutha',
+    'mode.transit.description': 'Imodi yezokuthutha - funda izinombolo zemizila, lapho kuyiwa khona, amapulatifomu namabhodi okuhamba',
+    'mode.transit.status': '🚌 Imodi yezokuthutha',
+    'mode.monitor.label': 'Qapha',
+    'mode.monitor.description': 'Imodi yokuqapha isikrini - memezela kuphela okushintshayo esikrinini esabiwe, njengemilayezo emisha noma amabhokisi engxoxo',
+    'mode.monitor.status': '🔔 Ukuqapha isikrini',
+
+    'status.idle': 'Akusebenzi',
+    'status.connecting': '🔌 Kuyaxhunywa...',
+    'status.ready': '🎙️ Kulungile',
+    'status.speaking': '🎙️ Uyakhuluma...',
+    'status.speechRate': '⏩ Ukhuluma ngo-{rate}',
+    'status.listening': '👂 Uyalalela...',
+    'status.paused': '⏸️ Kumisiwe',
+    'status.disconnected': '⚠️ Kunqamukile',
+    'status.reconnecting': '🔄 Kuxhunywa kabusha...',
+    'status.reconnectingAttempt': '🔄 Kuxhunywa kabusha ({attempt}/{max})...',
+    'status.error': '⚠️ Iphutha',
+    'status.checkSettings': '⚠️ Hlola izilungiselelo',
+    'status.audioError': '⚠️ Iphutha lomsindo',
+    'status.connectError': '⚠️ Iphutha lokuxhuma',
+
+    'chat.regionLabel': 'Umlando wengxoxo',
+    'chat.title': 'Ingxoxo',
+    'chat.listening': 'Uyalalela...',
+    'chat.empty': 'Qala ukukhuluma ukuze uxhumane ne-AI',
+    'chat.youSaying': 'Wena uthi',
+    'chat.youSaid': 'Wena uthe',
+    'chat.aiSaying': 'I-AI ithi',
+    'chat.aiSaid': 'I-AI ithe',
+    'chat.interrupted': 'Kuphazanyisiwe',
+
+    'settings.title': 'Izilungiselelo ze-AI',
+    'settings.descriptionActive': 'Isivinini sezithombe, ikhwalithi yesithombe, amabanga exwayiso nemisindo yengozi kushintsha ngokushesha. Izinguquko zemodeli, zolimi, zamayunithi nezezimpendulo zisebenza kuseshini yakho elandelayo.',
+    'settings.descriptionIdle': 'Lezi zilungiselelo zikhunjulwa kule divayisi.',
+    'settings.language': 'Ulimi',
+    'settings.model': 'Imodeli',
+    'settings.answersWith': 'U-Aura uphendula nge',
+    'settings.voice': 'Izwi',
+    'settings.textOnly': 'Umbhalo kuphela',
+    'settings.temperature': 'Izinga lokushisa: {value}',
+    'settings.temperatureHelp': 'Okuphansi kulindeleka kakhulu, okuphezulu kwehluke kakhulu',
+    'settings.resolution': 'Ukucaca kwemidiya',
+    'settings.resolutionLow': 'Phansi (amathokheni ambalwa)',
+    'settings.resolutionMedium': 'Phakathi',
+    'settings.resolutionHigh': 'Phezulu (imininingwane eyengeziwe)',
+    'settings.frameRate': 'Izithombe ngomzuzwana: {value}',
+    'settings.jpegQuality': 'Ikhwalithi yesithombe: {value}%',
+    'settings.videoTiers': 'Ikhwalithi yevidiyo uma uxhumano luhamba kancane',
+    'settings.videoTierLowest': 'Ephansi kakhulu',
+    'settings.videoTierHighest': 'Ephezulu kakhulu',
+    'settings.videoTiersHelp': 'Uma uxhumano luhamba kancane u-Aura uthumela izithombe ezincane, kancane kancane, ngaphakathi kwalobu bubanzi. Okuphezulu kusebenzisa izithombe ngomzuzwana nekhwalithi engenhla',
+    'videoTier.status': 'Ividiyo: {tier}',
+    'videoTier.minimal': 'Encane kakhulu',
+    'videoTier.low': 'Ephansi',
+    'videoTier.medium': 'Ephakathi',
+    'videoTier.high': 'Ephezulu',
+    'videoTier.full': 'I-HD egcwele',
+    'settings.units': 'Amayunithi amabanga',
+    'settings.unitsMetric': 'Amamitha',
+    'settings.unitsImperial': 'Amafidi',
+    'settings.alertDistances': 'Amabanga exwayiso ({unit})',
+    'settings.alertStop': 'Yima uma kuseduze kuno',
+    'settings.alertClose': 'Kuseduze kakhulu kuno',
+    'settings.alertNear': 'Kuseduze kuno',
+    'settings.alertDistancesHelp': 'Uma uhamba ngokushesha, amabanga amakhulu akunika izexwayiso ngaphambili',
+    'settings.hazardSounds': 'Imisindo yengozi',
+    'settings.hazardSpatial': '3D (ama-headphone)',
+    'settings.hazardStereo': 'I-stereo kuphela',
+    'settings.balance': 'Ibhalansi yesobunxele/yesokudla: {value}',
+    'settings.balanceCentre': 'phakathi',
+    'settings.balanceLeft': 'kwesobunxele {value}%',
+    'settings.balanceRight': 'kwesokudla {value}%',
+    'settings.balanceHelp': 'Dlala yomibili imisindo yokuhlola bese uhambisa isilayida kuze kuzwakale ngokulinganayo',
+    'settings.testLeft': 'Hlola kwesobunxele',
+    'settings.testRight': 'Hlola kwesokudla',
+    'settings.inputMode': 'Imakrofoni',
+    'settings.input.open': 'Imakrofoni evulekile',
+    'settings.input.push-to-talk': 'Cindezela ukuze ukhulume',
+    'settings.input.wake-word': 'Igama lokuvusa "Aura"',
+    'settings.inputModeHelp': 'Imakrofoni evulekile ithumela konke okushoyo. Cindezela ukuze ukhulume ithumela kuphela uma ubambe inkinobho, ukhiye we-Space noma inkinobho ye-headset. Igama lokuvusa lithumela okushoyo ngemuva kuka-"Aura", elitholwa kule divayisi',
+    'settings.wakeWordSamples': 'Igama lokuvusa liqoshwe izikhathi ezingu-{count} kwezingu-{total}',
+    'settings.wakeWordNeedsSamples': 'Qopha u-"Aura" izikhathi ezingu-{total} ukuze usebenzise igama lokuvusa ({count} kuze kube manje)',
+    'settings.wakeWordRecord': 'Qopha u-"Aura"',
+    'settings.wakeWordForget': 'Khohlwa igama lokuvusa',
+    'settings.wakeWordNeedsSession': 'Qala iseshini ukuze uqophe igama lokuvusa',
+    'settings.wakeWordRecording': 'Yisho ethi "Aura" manje',
+    'settings.wakeWordRecorded': 'Kuqoshiwe',
+    'settings.wakeWordFailed': 'Akuzwakalanga kahle. Zama futhi endaweni ethule kakhulu',
+    'settings.bargeIn': 'Ukuphazamisa u-Aura',
+    'settings.bargeIn.low': 'Kunzima, ezindaweni ezinomsindo',
+    'settings.bargeIn.medium': 'Okujwayelekile',
+    'settings.bargeIn.high': 'Kulula, emazwini athulile',
+    'settings.bargeInHelp': 'Ukuthi kumele ukhulume kangakanani futhi isikhathi esingakanani ngaphambi kokuba u-Aura ayeke ukukhuluma. Umsindo wangemuva nezwi lika-Aura elivela kusipikha kuyacatshangelwa',
+    'settings.speechRate': 'Isivinini sokukhuluma: {value}',
+    'settings.speechRateHelp': 'Ukuthi izwi lika-Aura lidlala ngokushesha kangakanani, ngaphandle kokukhuphula iphimbo. Cindezela u-Shift no-> noma u-< ukuze usishintshe ngesikhathi seseshini, noma ucele u-Aura akhulume ngokushesha noma kancane',
+    'units.meters': 'amamitha',
+    'units.feet': 'amafidi',
+    'settings.defaults': 'Okuzenzakalelayo',
+    'settings.cancel': 'Khansela',
+    'settings.save': 'Londoloza',
+    'settings.error.modelUnavailable': 'Imodeli "{model}" ayikho ohlwini lwamamodeli atholakalayo',
+    'settings.error.audioOnly': 'U-{model} angaphendula ngomsindo kuphela',
+    'settings.error.temperature': 'Izinga lokushisa kumele libe phakathi kuka-{min} no-{max}',
+    'settings.error.modality': 'Izimpendulo kumele zibe umsindo noma umbhalo',
+    'settings.error.resolution': 'Khetha ukucaca kwemidiya',
+    'settings.error.frameRate': 'Izithombe ngomzuzwana kumele zibe phakathi kuka-{min} no-{max}',
+    'settings.error.jpegQuality': 'Ikhwalithi ye-JPEG kumele ibe phakathi kuka-{min} no-{max}',
+    'settings.error.videoTiers': 'Khetha ikhwalithi yevidiyo ephansi kakhulu nephezulu kakhulu',
+    'settings.error.videoTierOrder': 'Ikhwalithi yevidiyo ephansi kakhulu ayikwazi ukuba ngaphezu kwephezulu kakhulu',
+    'settings.error.locale': 'Ulimi "{locale}" alusekelwe',
+    'settings.error.units': 'Amabanga kumele abe ngamamitha noma ngamafidi',
+    'settings.error.alertRange': 'Amabanga exwayiso kumele abe phakathi kwamamitha angu-{min} no-{max}',
+    'settings.error.alertOrder': 'Ibanga ngalinye lexwayiso kumele libe kude kunelandulelayo',
+    'settings.error.hazardAudio': 'Imisindo yengozi kumele ibe yi-3D noma i-stereo',
+    'settings.error.balance': 'Ibhalansi kumele ibe phakathi kuka-{min} no-{max}',
+    'settings.error.inputMode': 'Khetha ukuthi imakrofoni ilalela kanjani',
+    'settings.error.bargeIn': 'Khetha ukuthi kulula kangakanani ukuphazamisa u-Aura',
+    'settings.error.speechRate': 'Isivinini sokukhuluma kumele sibe phakathi kuka-{min}x no-{max}x',
+
+    'speech.welcome': 'Sawubona! NginguAura, umsizi wakho wokubona we-AI. Qala ikhamera yakho noma wabelane ngesikrini sakho, ngizokuchazela engikubonayo. Ungangiphazamisa noma nini ngemibuzo.',
+    'speech.backOnline': 'Sibuyile ku-inthanethi',
+    'speech.connectionLostRestart': 'Uxhumano lulahlekile. Sicela uqale iseshini kabusha.',
+    'speech.connectionLostReconnecting': 'Uxhumano lulahlekile. Kuxhunywa kabusha.',
+    'speech.stop': 'YIMA',
+    'speech.clearAhead': 'Indlela ivulekile phambili',
+    'speech.hazardExample': 'Izitebhisi ezehlayo. Amamitha amabili',
+    'speech.hazardExampleImperial': 'Izitebhisi ezehlayo. Amafidi ayisithupha',
+    'hazard.readout': '{hazard}, {distance}',
+    'hazard.type.wall': 'Udonga',
+    'hazard.type.stairs': 'Izitebhisi',
+    'hazard.type.curb': 'Unqenqema lomgwaqo',
+    'hazard.type.drop': 'Umgodi',
+    'hazard.type.door': 'Umnyango',
+    'hazard.type.person': 'Umuntu',
+    'hazard.type.vehicle': 'Imoto',
+    'hazard.type.pole': 'Isigxobo',
+    'hazard.type.obstacle': 'Isithiyo',
+    'speech.cameraActive': 'Ikhamera iyasebenza',
+    'frameIssue.black': 'Ikhamera ayiboni lutho. Hlola ukuthi ilensi ayimbozwanga',
+    'frameIssue.covered': 'Kukhona okumboze ikhamera. Susa umunwe wakho elensini',
+    'frameIssue.blurred': 'Isithombe sifiphele ngokuphelele. Bamba ifoni ingazamazami',
+    'frameIssue.washedOut': 'Kukhanya kakhulu ukuthi kubonakale. Phendukela kude nokukhanya',
+    'orientation.liftUp': 'Phakamisa ifoni',
+    'orientation.tiltDown': 'Thambekisa ifoni phansi',
+    'orientation.tiltRight': 'Thambekisa ifoni ngakwesokudla',
+    'orientation.tiltLeft': 'Thambekisa ifoni ngakwesobunxele',
+    'orientation.liftSlightly': 'Phakamisa ifoni kancane',
+    'orientation.tiltDownSlightly': 'Thambekisa ifoni phansi kancane',
+
+    'device.camera': 'Ikhamera',
+    'device.microphone': 'Imakrofoni',
+    'device.cameraLower': 'ikhamera',
+    'device.microphoneLower': 'imakrofoni',
+    'error.media.denied': '{device}: ukufinyelela kwenqatshiwe',
+    'error.media.notFound': '{device}: ayitholakali',
+    'error.media.notFoundGuidance': 'Sicela uxhume {deviceLower} bese uzama futhi',
+    'error.media.inUse': '{device}: isetshenziswa olunye uhlelo',
+    'error.media.inUseGuidance': 'Vala ezinye izinhlelo ezisebenzisa {deviceLower} bese uzama futhi',
+    'error.media.overconstrained': '{device}: ayihlangabezani nezidingo',
+    'error.media.overconstrainedGuidance': '{device} yakho ingase ingazisekeli izilungiselelo ezidingekayo',
+    'error.media.security': '{device}: ivinjwe inqubomgomo yokuphepha',
+    'error.media.securityGuidance': 'Qinisekisa ukuthi usebenzisa uxhumano oluphephile lwe-HTTPS',
+    'error.media.unknown': '{device}: kwenzeke iphutha',
+    'error.media.unknownGuidance': 'Sicela uzame futhi noma uqale kabusha isiphequluli sakho',
+    'guidance.mac': 'Mac: Vula i-System Settings → Privacy & Security → {device} → Yivule esipheqululini sakho',
+    'guidance.windows': 'Windows: Vula i-Settings → Privacy → {device} → Vumela izinhlelo ukusebenzisa {deviceLower} yakho',
+    'guidance.android': 'Android: Vula i-Settings → Apps → Isiphequluli → Permissions → {device} → Vumela',
+    'guidance.ios': 'iOS: Vula i-Settings → Isiphequluli → {device} → Vumela',
+    'guidance.chrome': 'Chrome: Chofoza isithonjana se-{deviceLower} kubha yekheli → Vumela',
+    'guidance.firefox': 'Firefox: Chofoza isithonjana se-{deviceLower} kubha yekheli → Vumela',
+    'guidance.safari': 'Safari: Iya ku-Safari → Settings for This Website → {device} → Vumela',
+    'guidance.generic': 'Nika imvume ye-{deviceLower} ezilungiselelweni zesiphequluli sakho',
+    'error.network.lost': 'Uxhumano nesevisi ye-AI lulahlekile',
+    'error.network.normalClosure': 'Iseshini iphele ngendlela evamile',
+    'error.network.goingAway': 'Iseva iqala kabusha',
+    'error.network.abnormalClosure': 'Uxhumano lwenethiwekhi lulahlekile',
+    'error.network.policy': 'Uxhumano luvinjiwe - hlola ukhiye we-API',
+    'error.network.serverError': 'Isevisi ye-AI ayitholakali okwesikhashana',
+    'error.network.interrupted': 'Uxhumano luphazamisekile',
+    'error.audio.inputContext': 'Umsindo wemakrofoni',
+    'error.audio.outputContext': 'Umsindo wesipikha',
+    'error.audio.suspended': '{context}: kumiswe okwesikhashana',
+    'error.audio.worklet': 'Ukucutshungulwa komsindo kwehlulekile',
+    'error.audio.corrupted': 'Idatha yomsindo yonakele',
+    'error.audio.generic': '{context}: iphutha',
+    'error.orientation.unavailable': 'Ukuma kwedivayisi akutholakali',
+    'error.orientation.denied': 'Imvume yokuma kwedivayisi yenqatshiwe',
+    'error.orientation.unsupported': 'Izinzwa zokuma kwedivayisi azitholakali',
+    'error.api.generic': 'Iphutha lesevisi ye-AI',
+    'error.api.invalidKey': 'Ukhiye we-API awusebenzi',
+    'error.api.rateLimited': 'Izicelo eziningi kakhulu - sicela ulinde',
+    'error.api.unavailable': 'Isevisi ye-AI ayisebenzi okwesikhashana'
+};
+
+const fr: TranslationCatalogue = {
+    'app.skipLink': 'Aller au contenu principal',
+    'app.regionLabel': "VCB Vision - Assistant visuel à IA",
+    'app.logoAlt': "VCB Vision - assistance visuelle par IA pour les personnes aveugles et malvoyantes",
+    'app.motto': 'Là où la vision devient possible',
+    'app.videoLabel': "Flux vidéo en direct de l'écran ou de la caméra",
+    'app.instructionsLabel': 'Instructions pour commencer',
+    'app.welcomeTitle': 'Bienvenue sur VCB Vision',
+    'app.step1': "Vérifiez que l'accès à l'IA est prêt dans la barre d'état ci-dessous - sélectionnez-le pour saisir votre propre clé API",
+    'app.step2': "Cliquez sur « Démarrer la session » pour vous connecter à Aura, votre assistante visuelle",
+    'app.step3': "Choisissez « Démarrer la caméra » pour le guidage à pied ou « Partager l'écran » pour lire du contenu",
+    'app.step4': 'Choisissez un mode - Décrire, Naviguer, Lire, Étiquettes, Couleurs ou Transports - ou demandez simplement à Aura de changer',
+    'app.step5': 'Parlez à tout moment pour poser des questions ou obtenir plus de détails - vous pouvez interrompre Aura quand vous voulez',
+    'app.step6': 'Utilisez le bouton du micro pour couper ou rétablir votre voix',
+
+    'controls.regionLabel': "Commandes et état de l'application",
+    'controls.sessionGroup': 'Commandes de session',
+    'apiKey.checkingAccess': "Vérification de l'accès...",
+    'apiKey.checkingKey': 'Vérification de la clé API...',
+    'apiKey.readyDevice': 'Votre clé API est prête',
+    'apiKey.readyTokenServer': 'Accès sécurisé prêt',
+    'apiKey.readyBuild': 'Clé API prête',
+    'apiKey.missing': 'Clé API manquante',
+    'apiKey.unreachable': 'Serveur de jetons injoignable',
+    'apiKey.denied': "Code d'accès refusé",
+    'apiKey.quotaExceeded': 'Limite quotidienne atteinte',
+    'apiKey.manageLabel': '{status}. Gérer votre clé API',
+    'apiKey.manageTitle': 'Saisir, remplacer ou oublier votre propre clé API',
+    'apiKey.titleNew': 'Utiliser votre propre clé API',
+    'apiKey.titleReplace': 'Remplacer votre clé API',
+    'apiKey.description': 'Collez une clé API Gemini de Google AI Studio. Elle est testée, puis stockée chiffrée sur cet appareil uniquement.',
+    'apiKey.unsupported': 'Ce navigateur ne peut pas stocker les clés de façon sécurisée. Essayez un autre navigateur ou désactivez la navigation privée.',
+    'apiKey.label': 'Clé API Gemini',
+    'apiKey.show': 'Afficher la clé API',
+    'apiKey.hide': 'Masquer la clé API',
+    'apiKey.empty': 'Veuillez saisir une clé API',
+    'apiKey.testing': 'Test de la connexion à Aura...',
+    'apiKey.notSaved': "{error}. La clé n'a pas été enregistrée.",
+    'apiKey.forgetFailed': 'Impossible de supprimer la clé enregistrée',
+    'apiKey.forget': 'Oublier la clé',
+    'apiKey.cancel': 'Annuler',
+    'apiKey.testingButton': 'Test...',
+    'apiKey.testReplace': 'Tester et remplacer',
+    'apiKey.testSave': 'Tester et enregistrer',
+    'status.connectingToAi': "Connexion à l'IA...",
+    'status.label': "État de l'IA : {status}",
+    'voice.label': "Choisir la voix de l'IA",
+    'voice.ariaLabel': "Choisir la voix d'Aura - à changer avant de démarrer la session",
+    'voice.help': "La voix ne peut être changée que lorsque la session est arrêtée",
+    'settings.openLabel': 'Ouvrir les réglages du modèle et de la diffusion',
+    'settings.openTitle': "Modèle, température, réponses, résolution et cadence d'images",
+    'settings.button': 'Réglages',
+    'record.startLabel': 'Enregistrer cette session pour un rapport de bogue',
+    'record.stopLabel': "Arrêter l'enregistrement et sauvegarder l'archive de session",
+    'record.startTitle': "Enregistrer les images, l'audio et les messages de l'IA",
+    'record.stopTitle': 'Enregistrement : cliquez pour arrêter et télécharger',
+    'record.start': 'Enregistrer',
+    'record.stop': 'Arrêter enr.',
+    'mode.groupLabel': "Mode d'assistance",
+    'mode.needsCamera': '{mode} nécessite la caméra',
+    'mode.needsScreen': '{mode} nécessite un écran partagé',
+    'verbosity.brief': 'Bref',
+    'verbosity.normal': 'Normal',
+    'verbosity.detailed': 'Détaillé',
+    'verbosity.label': 'Niveau de détail {level}. Passer à {next}',
+    'verbosity.title': "Changer la quantité de détails donnés par Aura",
+    'pause.pauseLabel': 'Mettre en pause les descriptions automatiques',
+    'pause.resumeLabel': 'Reprendre les descriptions automatiques',
+    'pause.pausedTitle': 'En pause : Aura ne répond que lorsque vous parlez',
+    'pause.activeTitle': 'Aura décrit la scène automatiquement',
+    'pause.pause': 'Pause',
+    'pause.resume': 'Reprendre',
+    'mic.unmuteLabel': 'Activer le micro pour parler à Aura',
+    'mic.muteLabel': 'Couper le micro - écoute en cours',
+    'mic.mutedTitle': 'Cliquez pour activer - vous pouvez parler à Aura',
+    'mic.unmutedTitle': 'Cliquez pour couper - Aura ne vous entend pas',
+    'mic.off': 'Micro coupé',
+    'mic.on': 'Micro actif',
+    'pushToTalk.hold': 'Maintenir pour parler',
+    'pushToTalk.label': "Maintenez pour parler à Aura. Vous pouvez aussi maintenir la touche Espace ou appuyer sur le bouton du casque",
+    'micGate.listening': 'À l’écoute',
+    'micGate.closed': 'Micro fermé',
+    'micGate.sayWakeWord': 'Dites « Aura »',
+    'camera.startLabel': 'Démarrer la caméra pour le guidage à pied et la navigation',
+    'camera.stopLabel': 'Arrêter le flux de la caméra',
+    'camera.deniedLabel': "Accès à la caméra refusé - vérifiez les autorisations du navigateur",
+    'camera.start': 'Démarrer la caméra',
+    'camera.stop': 'Arrêter la caméra',
+    'camera.denied': 'Caméra refusée',
+    'camera.selectLabel': 'Caméra',
+    'camera.selectAriaLabel': 'Choisir la caméra utilisée par Aura',
+    'camera.rear': 'Caméra arrière (par défaut)',
+    'camera.unnamed': 'Caméra {number}',
+    'torch.on': 'Lampe allumée',
+    'share.startLabel': "Partager l'écran pour l'aide à la lecture de documents",
+    'share.stopLabel': "Arrêter le partage d'écran",
+    'share.start': "Partager l'écran",
+    'share.stop': 'Arrêter le partage',
+    'focus.selectLabel': "Zone de l'écran",
+    'focus.selectAriaLabel': "Choisir la partie de l'écran qu'Aura lit en agrandi",
+    'focus.full': 'Écran entier',
+    'focus.top-left': 'En haut à gauche',
+    'focus.top': 'Moitié haute',
+    'focus.top-right': 'En haut à droite',
+    'focus.left': 'Moitié gauche',
+    'focus.center': 'Centre',
+    'focus.right': 'Moitié droite',
+    'focus.bottom-left': 'En bas à gauche',
+    'focus.bottom': 'Moitié basse',
+    'focus.bottom-right': 'En bas à droite',
+    'focus.zoom': 'Zoom {factor}x',
+    'focus.box': 'Choisie par Aura',
+    'focus.overlay': 'Zone : {region}',
+    'session.startLabel': 'Démarrer la session et se connecter à Aura',
+    'session.stopLabel': "Arrêter la session et se déconnecter d'Aura",
+    'session.start': 'Démarrer la session',
+    'session.stop': 'Arrêter la session',
+
+    'mode.normal.label': 'Décrire',
+    'mode.normal.description': 'Mode normal - descriptions détaillées et conversation',
+    'mode.normal.status': '🎙️ Mode normal',
+    'mode.navigation.label': 'Naviguer',
+    'mode.navigation.description': 'Mode navigation - consignes de marche courtes avec alertes de distance',
+    'mode.navigation.status': '🧭 Mode navigation',
+    'mode.reading.label': 'Lire',
+    'mode.reading.description': "Mode lecture - lire le texte imprimé ou à l'écran mot pour mot",
+    'mode.reading.status': '📖 Mode lecture',
+    'mode.shopping.label': 'Étiquettes',
+    'mode.shopping.description': 'Mode courses - identifier les produits et lire étiquettes, prix et dates de péremption',
+    'mode.shopping.status': '🛒 Mode courses',
+    'mode.colour.label': 'Couleurs',
+    'mode.colour.description': "Mode couleurs - nommer les couleurs et motifs de l'objet au centre",
+    'mode.colour.status': '🎨 Mode couleurs',
+    'mode.transit.label': 'Transports',
+    'mode.transit.description': 'Mode transports - lire numéros de ligne, destinations, quais et tableaux des départs',
+    'mode.transit.status': '🚌 Mode transports',
+    'mode.monitor.label': 'Surveiller',
+    'mode.monitor.description': "Mode surveillance - annoncer seulement ce qui change sur l'écran partagé, comme les nouveaux messages ou les boîtes de dialogue",
+    'mode.monitor.status': "🔔 Surveillance de l'écran",
+
+    'status.idle': 'Inactif',
+    'status.connecting': '🔌 Connexion...',
+    'status.ready': '🎙️ Prête',
+    'status.speaking': '🎙️ Parle...',
+    'status.speechRate': '⏩ Parle à {rate}',
+    'status.listening': '👂 Écoute...',
+    'status.paused': '⏸️ En pause',
+    'status.disconnected': '⚠️ Déconnectée',
+    'status.reconnecting': '🔄 Reconnexion...',
+    'status.reconnectingAttempt': '🔄 Reconnexion ({attempt}/{max})...',
+    'status.error': '⚠️ Erreur',
+    'status.checkSettings': '⚠️ Vérifiez les réglages',
+    'status.audioError': '⚠️ Erreur audio',
+    'status.connectError': '⚠️ Erreur de connexion',
+
+    'chat.regionLabel': 'Historique de la conversation',
+    'chat.title': 'Conversation',
+    'chat.listening': 'Écoute...',
+    'chat.empty': "Commencez à parler pour échanger avec l'IA",
+    'chat.youSaying': 'Vous dites',
+    'chat.youSaid': 'Vous avez dit',
+    'chat.aiSaying': "L'IA dit",
+    'chat.aiSaid': "L'IA a dit",
+    'chat.interrupted': 'Interrompu',
+
+    'settings.title': "Réglages de l'IA",
+    'settings.descriptionActive': "La cadence, la qualité d'image, les distances d'alerte et les sons de danger changent immédiatement. Les changements de modèle, de langue, d'unité et de réponse s'appliquent à votre prochaine session.",
+    'settings.descriptionIdle': 'Ces réglages sont mémorisés sur cet appareil.',
+    'settings.language': 'Langue',
+    'settings.model': 'Modèle',
+    'settings.answersWith': 'Aura répond par',
+    'settings.voice': 'Voix',
+    'settings.textOnly': 'Texte uniquement',
+    'settings.temperature': 'Température : {value}',
+    'settings.temperatureHelp': 'Plus bas est plus prévisible, plus haut est plus varié',
+    'settings.resolution': 'Résolution des médias',
+    'settings.resolutionLow': 'Basse (moins de jetons)',
+    'settings.resolutionMedium': 'Moyenne',
+    'settings.resolutionHigh': 'Haute (plus de détails)',
+    'settings.frameRate': 'Images par seconde : {value}',
+    'settings.jpegQuality': "Qualité d'image : {value} %",
+    'settings.videoTiers': 'Qualité vidéo sur une connexion lente',
+    'settings.videoTierLowest': 'Minimum',
+    'settings.videoTierHighest': 'Maximum',
+    'settings.videoTiersHelp': "Sur une connexion lente, Aura envoie des images plus petites et moins souvent, dans cette plage. Le maximum utilise la fréquence et la qualité d'image ci-dessus",
+    'videoTier.status': 'Vidéo : {tier}',
+    'videoTier.minimal': 'Minimale',
+    'videoTier.low': 'Basse',
+    'videoTier.medium': 'Moyenne',
+    'videoTier.high': 'Haute',
+    'videoTier.full': 'Full HD',
+    'settings.units': 'Distances en',
+    'settings.unitsMetric': 'Mètres',
+    'settings.unitsImperial': 'Pieds',
+    'settings.alertDistances': "Distances d'alerte ({unit})",
+    'settings.alertStop': 'Stop à moins de',
+    'settings.alertClose': 'Proche à moins de',
+    'settings.alertNear': 'Près à moins de',
+    'settings.alertDistancesHelp': 'Si vous marchez vite, des distances plus grandes vous avertissent plus tôt',
+    'settings.hazardSounds': 'Sons de danger',
+    'settings.hazardSpatial': '3D (casque)',
+    'settings.hazardStereo': 'Stéréo uniquement',
+    'settings.balance': 'Balance gauche/droite : {value}',
+    'settings.balanceCentre': 'centre',
+    'settings.balanceLeft': 'gauche {value} %',
+    'settings.balanceRight': 'droite {value} %',
+    'settings.balanceHelp': "Jouez les deux sons de test et déplacez le curseur jusqu'à ce qu'ils soient aussi forts l'un que l'autre",
+    'settings.testLeft': 'Tester à gauche',
+    'settings.testRight': 'Tester à droite',
+    'settings.inputMode': 'Microphone',
+    'settings.input.open': 'Micro ouvert',
+    'settings.input.push-to-talk': 'Appuyer pour parler',
+    'settings.input.wake-word': 'Mot d’éveil « Aura »',
+    'settings.inputModeHelp': "Le micro ouvert envoie tout ce que vous dites. Appuyer pour parler n'envoie que pendant que vous maintenez le bouton, la touche Espace ou le bouton du casque. Le mot d'éveil envoie ce que vous dites après « Aura », détecté sur cet appareil",
+    'settings.wakeWordSamples': 'Mot d’éveil enregistré {count} fois sur {total}',
+    'settings.wakeWordNeedsSamples': 'Enregistrez « Aura » {total} fois pour utiliser le mot d’éveil ({count} pour l’instant)',
+    'settings.wakeWordRecord': 'Enregistrer « Aura »',
+    'settings.wakeWordForget': 'Oublier le mot d’éveil',
+    'settings.wakeWordNeedsSession': 'Démarrez une session pour enregistrer le mot d’éveil',
+    'settings.wakeWordRecording': 'Dites « Aura » maintenant',
+    'settings.wakeWordRecorded': 'Enregistré',
+    'settings.wakeWordFailed': 'Pas entendu clairement. Réessayez dans un endroit plus calme',
+    'settings.bargeIn': 'Interrompre Aura',
+    'settings.bargeIn.low': 'Plus difficile, pour les endroits bruyants',
+    'settings.bargeIn.medium': 'Normal',
+    'settings.bargeIn.high': 'Plus facile, pour les voix douces',
+    'settings.bargeInHelp': "À quel volume et combien de temps vous devez parler avant qu'Aura s'arrête. Le bruit de fond et la voix d'Aura sortant du haut-parleur sont pris en compte",
+    'settings.speechRate': 'Débit de parole : {value}',
+    'settings.speechRateHelp': "Vitesse de la voix d'Aura, sans changer sa hauteur. Appuyez sur Maj et > ou < pour la modifier pendant une session, ou demandez à Aura de parler plus vite ou plus lentement",
+    'units.meters': 'mètres',
+    'units.feet': 'pieds',
+    'settings.defaults': 'Par défaut',
+    'settings.cancel': 'Annuler',
+    'settings.save': 'Enregistrer',
+    'settings.error.modelUnavailable': 'Le modèle « {model} » ne fait pas partie des modèles disponibles',
+    'settings.error.audioOnly': "{model} ne peut répondre qu'en audio",
+    'settings.error.temperature': 'La température doit être comprise entre {min} et {max}',
+    'settings.error.modality': 'Les réponses doivent être audio ou texte',
+    'settings.error.resolution': 'Choisissez une résolution média',
+    'settings.error.frameRate': "La fréquence d'images doit être comprise entre {min} et {max} images par seconde",
+    'settings.error.jpegQuality': 'La qualité JPEG doit être comprise entre {min} et {max}',
+    'settings.error.videoTiers': 'Choisissez la qualité vidéo la plus basse et la plus haute',
+    'settings.error.videoTierOrder': 'La qualité vidéo la plus basse ne peut pas dépasser la plus haute',
+    'settings.error.locale': "La langue « {locale} » n'est pas prise en charge",
+    'settings.error.units': 'Les distances doivent être en mètres ou en pieds',
+    'settings.error.alertRange': "Les distances d'alerte doivent être comprises entre {min} et {max} mètres",
+    'settings.error.alertOrder': "Chaque distance d'alerte doit être plus grande que la précédente",
+    'settings.error.hazardAudio': 'Les sons de danger doivent être en 3D ou en stéréo',
+    'settings.error.balance': 'La balance doit être comprise entre {min} et {max}',
+    'settings.error.inputMode': 'Choisissez comment le micro écoute',
+    'settings.error.bargeIn': 'Choisissez avec quelle facilité vous pouvez interrompre Aura',
+    'settings.error.speechRate': 'Le débit de parole doit être compris entre {min}x et {max}x',
+
+    'speech.welcome': "Bonjour ! Je suis Aura, votre assistante visuelle. Démarrez votre caméra ou partagez votre écran, et je décrirai ce que je vois. N'hésitez pas à m'interrompre à tout moment pour poser des questions.",
+    'speech.backOnline': 'Connexion rétablie',
+    'speech.connectionLostRestart': 'Connexion perdue. Veuillez redémarrer la session.',
+    'speech.connectionLostReconnecting': 'Connexion perdue. Reconnexion en cours.',
+    'speech.stop': 'STOP',
+    'speech.clearAhead': 'La voie est libre',
+    'speech.hazardExample': 'Escalier qui descend. Deux mètres',
+    'speech.hazardExampleImperial': 'Escalier qui descend. Six pieds',
+    'hazard.readout': '{hazard}, {distance}',
+    'hazard.type.wall': 'Mur',
+    'hazard.type.stairs': 'Escalier',
+    'hazard.type.curb': 'Bordure',
+    'hazard.type.drop': 'Dénivelé',
+    'hazard.type.door': 'Porte',
+    'hazard.type.person': 'Personne',
+    'hazard.type.vehicle': 'Véhicule',
+    'hazard.type.pole': 'Poteau',
+    'hazard.type.obstacle': 'Obstacle',
+    'speech.cameraActive': 'Caméra active',
+    'frameIssue.black': "La caméra ne voit rien. Vérifiez que l'objectif n'est pas couvert",
+    'frameIssue.covered': "Quelque chose couvre la caméra. Retirez votre doigt de l'objectif",
+    'frameIssue.blurred': "L'image est complètement floue. Tenez le téléphone immobile",
+    'frameIssue.washedOut': 'Trop lumineux pour voir. Détournez-vous de la lumière',
+    'orientation.liftUp': 'Relevez le téléphone',
+    'orientation.tiltDown': 'Inclinez le téléphone vers le bas',
+    'orientation.tiltRight': 'Inclinez le téléphone vers la droite',
+    'orientation.tiltLeft': 'Inclinez le téléphone vers la gauche',
+    'orientation.liftSlightly': 'Relevez légèrement le téléphone',
+    'orientation.tiltDownSlightly': 'Inclinez légèrement le téléphone vers le bas',
+
+    'device.camera': 'Caméra',
+    'device.microphone': 'Micro',
+    'device.cameraLower': 'caméra',
+    'device.microphoneLower': 'micro',
+    'error.media.denied': 'Accès refusé : {deviceLower}',
+    'error.media.notFound': 'Aucun appareil détecté : {deviceLower}',
+    'error.media.notFoundGuidance': 'Branchez un appareil ({deviceLower}) et réessayez',
+    'error.media.inUse': '{device} utilisé par une autre application',
+    'error.media.inUseGuidance': "Fermez les autres applications qui utilisent l'appareil ({deviceLower}) et réessayez",
+    'error.media.overconstrained': '{device} : configuration non prise en charge',
+    'error.media.overconstrainedGuidance': "L'appareil ({deviceLower}) ne prend peut-être pas en charge les réglages requis",
+    'error.media.security': '{device} bloqué par la politique de sécurité',
+    'error.media.securityGuidance': 'Vérifiez que vous utilisez une connexion HTTPS sécurisée',
+    'error.media.unknown': '{device} : une erreur est survenue',
+    'error.media.unknownGuidance': 'Réessayez ou redémarrez votre navigateur',
+    'guidance.mac': 'Mac : ouvrez Réglages Système → Confidentialité et sécurité → {device} → Activez pour votre navigateur',
+    'guidance.windows': "Windows : ouvrez Paramètres → Confidentialité → {device} → Autorisez les applications à accéder à l'appareil ({deviceLower})",
+    'guidance.android': 'Android : ouvrez Paramètres → Applications → Navigateur → Autorisations → {device} → Autoriser',
+    'guidance.ios': 'iOS : ouvrez Réglages → Navigateur → {device} → Autoriser',
+    'guidance.chrome': "Chrome : cliquez sur l'icône {deviceLower} dans la barre d'adresse → Autoriser",
+    'guidance.firefox': "Firefox : cliquez sur l'icône {deviceLower} dans la barre d'adresse → Autoriser",
+    'guidance.safari': 'Safari : allez dans Safari → Réglages pour ce site web → {device} → Autoriser',
+    'guidance.generic': "Autorisez l'accès ({deviceLower}) dans les réglages de votre navigateur",
+    'error.network.lost': "Connexion au service d'IA perdue",
+    'error.network.normalClosure': 'Session terminée normalement',
+    'error.network.goingAway': 'Le serveur redémarre',
+    'error.network.abnormalClosure': 'Connexion réseau perdue',
+    'error.network.policy': 'Connexion bloquée - vérifiez la clé API',
+    'error.network.serverError': "Service d'IA temporairement indisponible",
+    'error.network.interrupted': 'Connexion interrompue',
+    'error.audio.inputContext': 'Audio du micro',
+    'error.audio.outputContext': 'Audio du haut-parleur',
+    'error.audio.suspended': '{context} suspendu',
+    'error.audio.worklet': 'Échec du traitement audio',
+    'error.audio.corrupted': 'Données audio corrompues',
+    'error.audio.generic': '{context} : erreur',
+    'error.orientation.unavailable': "Orientation de l'appareil indisponible",
+    'error.orientation.denied': "Autorisation d'orientation refusée",
+    'error.orientation.unsupported': "Capteurs d'orientation non disponibles",
+    'error.api.generic': "Erreur du service d'IA",
+    'error.api.invalidKey': 'Clé API invalide',
+    'error.api.rateLimited': 'Trop de requêtes - veuillez patienter',
+    'error.api.unavailable': "Service d'IA temporairement en panne"
+};
+
+export const TRANSLATIONS: Record<LocaleId, TranslationCatalogue> = { en, af, zu, fr };
+
+/**
+ * Look up a string for a locale and fill in its {placeholders}
+ */
+export function translate(locale: LocaleId, key: TranslationKey, params?: TranslationParams): string {
+    const template = TRANSLATIONS[locale]?.[key] ?? en[key];
+    if (!params) return template;
+    return template.replace(/\{(\w+)\}/g, (match, name) => name in params ? String(params[name]) : match);
+}
+
+/**
+ * A translate function bound to one locale, for passing to components
+ */
+export function createTranslator(locale: LocaleId): Translator {
+    return (key, params) => translate(locale, key, params);
+}
@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { UrgencyThresholds } from './hazards';
+
+export const UNIT_SYSTEMS = ['metric', 'imperial'] as const;
+
+export type UnitSystem = typeof UNIT_SYSTEMS[number];
+
+export const METERS_PER_FOOT = 0.3048;
+
+// Regions that give walking distances in feet
+const IMPERIAL_REGIONS = ['US', 'LR', 'MM'];
+
+/**
+ * Read a unit system, or null if it is not one we support
+ */
+export function parseUnitSystem(value: unknown): UnitSystem | null {
+    return UNIT_SYSTEMS.includes(value as UnitSystem) ? value as UnitSystem : null;
+}
+
+/**
+ * Feet for browsers set to a region that walks in feet, else meters
+ */
+export function detectUnitSystem(): UnitSystem {
+    const language = typeof navigator === 'undefined' ? '' : navigator.language ?? '';
+    const region = language.split('-')[1]?.toUpperCase();
+    return region && IMPERIAL_REGIONS.includes(region) ? 'imperial' : 'metric';
+}
+
+/**
+ * A distance in meters expressed in the unit system, rounded the way Aura says it:
+ * whole feet, or meters to the nearest tenth
+ */
+export function fromMeters(distanceMeters: number, system: UnitSystem): number {
+    return system === 'imperial'
+        ? Math.round(distanceMeters / METERS_PER_FOOT)
+        : Math.round(distanceMeters * 10) / 10;
+}
+
+export function toMeters(distance: number, system: UnitSystem): number {
+    return system === 'imperial' ? distance * METERS_PER_FOOT : distance;
+}
+
+/**
+ * Short display form of a distance, e.g. "1.5 m" or "5 ft", with the locale's number format
+ */
+export function formatDistance(distanceMeters: number, system: UnitSystem, bcp47: string): string {
+    return new Intl.NumberFormat(bcp47, {
+        style: 'unit',
+        unit: system === 'imperial' ? 'foot' : 'meter',
+        unitDisplay: 'short',
+        maximumFractionDigits: 1
+    }).format(fromMeters(distanceMeters, system));
+}
+
+/**
+ * System prompt section that keeps Aura to one unit system, with the urgency bands in that unit
+ */
+export function buildUnitInstructions(system: UnitSystem, thresholds: UrgencyThresholds): string {
+    const unit = system === 'imperial' ? 'feet' : 'meters';
+    const other = system === 'imperial' ? 'meters' : 'feet';
+    const [critical, high, medium] = [thresholds.critical, thresholds.high, thresholds.medium].map(d => fromMeters(d, system));
+    return `**DISTANCES - ${unit.toUpperCase()}:**
+- Always give distances in ${unit}. Never use ${other}
+- Under ${critical} ${unit}: "STOP" + hazard + distance
+- ${critical}-${high} ${unit}: "[Hazard] ahead" + distance
+- ${high}-${medium} ${unit}: name the object + distance
+- Over ${medium} ${unit}: "Clear ahead" or a direction
+- reportHazard always takes distanceMeters in meters, whatever unit you speak`;
+}
@@ -0,0 +1,170 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Lowest to highest; the adaptive controller moves one step at a time
+export const VIDEO_TIER_IDS = ['minimal', 'low', 'medium', 'high', 'full'] as const;
+
+export type VideoTierId = typeof VIDEO_TIER_IDS[number];
+
+/**
+ * How frames are sent at one tier. Quality and interval scale the user's own
+ * JPEG quality and frame rate, so the top tier is exactly what they chose.
+ */
+export interface VideoTier {
+    id: VideoTierId;
+    maxWidth: number;       // Frames wider than this are scaled down before encoding
+    qualityScale: number;   // Multiplies the JPEG quality setting
+    intervalScale: number;  // Multiplies the mode's frame interval
+}
+
+export const VIDEO_TIERS: Record<VideoTierId, VideoTier> = {
+    minimal: { id: 'minimal', maxWidth: 480, qualityScale: 0.6, intervalScale: 3 },
+    low: { id: 'low', maxWidth: 640, qualityScale: 0.75, intervalScale: 2 },
+    medium: { id: 'medium', maxWidth: 960, qualityScale: 0.9, intervalScale: 1.5 },
+    high: { id: 'high', maxWidth: 1280, qualityScale: 1, intervalScale: 1 },
+    full: { id: 'full', maxWidth: 1920, qualityScale: 1, intervalScale: 1 }
+};
+
+/**
+ * The tiers the controller may use, chosen in Settings. Equal bounds turn adaptation off.
+ */
+export interface VideoTierRange {
+    min: VideoTierId;
+    max: VideoTierId;
+}
+
+export const DEFAULT_VIDEO_TIER_RANGE: VideoTierRange = { min: 'minimal', max: 'high' };
+
+// Sessions start here (or at the nearest bound) and step up once the link proves itself
+const START_TIER: VideoTierId = 'medium';
+
+// Bytes queued on the socket: above HIGH the uplink is not keeping up, below LOW it has room
+const BACKLOG_HIGH_BYTES = 256 * 1024;
+const BACKLOG_LOW_BYTES = 32 * 1024;
+
+// Prompt or speech to the first audio of the reply
+const ROUND_TRIP_HIGH_MS = 2500;
+const ROUND_TRIP_LOW_MS = 1200;
+// Replies can be far apart; an average older than this no longer says anything about the link
+const ROUND_TRIP_EXPIRE_MS = 30000;
+
+const SMOOTHING = 0.3;              // Weight of each new sample in the running averages
+const STEP_DOWN_HOLD_MS = 3000;     // React quickly to congestion...
+const STEP_UP_HOLD_MS = 15000;      // ...but wait for a sustained good spell before spending more
+
+/**
+ * Read a tier id, or null if it is not one we support
+ */
+export function parseVideoTier(value: unknown): VideoTierId | null {
+    return VIDEO_TIER_IDS.includes(value as VideoTierId) ? value as VideoTierId : null;
+}
+
+/**
+ * Picks the video tier from how backed up the uplink is and how long replies
+ * take to start. Steps down fast and up slowly, one tier at a time, inside the
+ * user's range.
+ */
+export class VideoAdaptation {
+    private range: VideoTierRange;
+    private tierIndex: number;
+    private backlogBytes: number | null = null;
+    private roundTripMs: number | null = null;
+    private roundTripAt = 0;
+    private lastChangeAt = Date.now();
+
+    constructor(range: VideoTierRange = DEFAULT_VIDEO_TIER_RANGE) {
+        this.range = range;
+        this.tierIndex = this.startIndex();
+    }
+
+    getTier(): VideoTier {
+        return VIDEO_TIERS[VIDEO_TIER_IDS[this.tierIndex]];
+    }
+
+    /**
+     * Change the allowed tiers, moving the current tier inside them if needed
+     */
+    setRange(range: VideoTierRange): void {
+        this.range = range;
+        const [min, max] = this.bounds();
+        this.tierIndex = Math.min(max, Math.max(min, this.tierIndex));
+    }
+
+    /**
+     * Bytes waiting to go out on the socket, sampled before each frame is sent
+     */
+    recordBacklog(bytes: number): void {
+        this.backlogBytes = smooth(this.backlogBytes, bytes);
+    }
+
+    /**
+     * Time from a prompt or the user speaking to the first audio of the reply
+     */
+    recordRoundTrip(ms: number, now: number = Date.now()): void {
+        this.expireRoundTrip(now);
+        this.roundTripMs = smooth(this.roundTripMs, ms);
+        this.roundTripAt = now;
+    }
+
+    /**
+     * Step the tier if the link calls for it. Returns the new tier when it changed.
+     */
+    update(now: number = Date.now()): VideoTier | null {
+        this.expireRoundTrip(now);
+        const [min, max] = this.bounds();
+        const sinceChange = now - this.lastChangeAt;
+        const isCongested = (this.backlogBytes ?? 0) > BACKLOG_HIGH_BYTES || (this.roundTripMs ?? 0) > ROUND_TRIP_HIGH_MS;
+        // Climbing needs evidence: with no samples yet the link is not known to be good
+        const hasRoom = this.backlogBytes !== null && this.backlogBytes < BACKLOG_LOW_BYTES &&
+            (this.roundTripMs === null || this.roundTripMs < ROUND_TRIP_LOW_MS);
+
+        let next = this.tierIndex;
+        if (isCongested && this.tierIndex > min && sinceChange >= STEP_DOWN_HOLD_MS) {
+            next = this.tierIndex - 1;
+        } else if (hasRoom && this.tierIndex < max && sinceChange >= STEP_UP_HOLD_MS) {
+            next = this.tierIndex + 1;
+        }
+        if (next === this.tierIndex) return null;
+
+        this.tierIndex = next;
+        this.lastChangeAt = now;
+        return this.getTier();
+    }
+
+    /**
+     * Forget the measurements and go back to the starting tier, e.g. for a new session
+     */
+    reset(): void {
+        this.backlogBytes = null;
+        this.roundTripMs = null;
+        this.lastChangeAt = Date.now();
+        this.tierIndex = this.startIndex();
+    }
+
+    /**
+     * Drop the round-trip average once no reply has refreshed it for a while, so one
+     * slow reply cannot hold the tier down (or a fast one hold it up) indefinitely
+     */
+    private expireRoundTrip(now: number): void {
+        if (this.roundTripMs !== null && now - this.roundTripAt > ROUND_TRIP_EXPIRE_MS) {
+            this.roundTripMs = null;
+        }
+    }
+
+    private bounds(): [number, number] {
+        const min = VIDEO_TIER_IDS.indexOf(this.range.min);
+        const max = VIDEO_TIER_IDS.indexOf(this.range.max);
+        return [Math.min(min, max), Math.max(min, max)];
+    }
+
+    private startIndex(): number {
+        const [min, max] = this.bounds();
+        return Math.min(max, Math.max(min, VIDEO_TIER_IDS.indexOf(START_TIER)));
+    }
+}
+
+function smooth(average: number | null, sample: number): number {
+    return average === null ? sample : average + SMOOTHING * (sample - average);
+}
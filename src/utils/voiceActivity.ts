@@ -0,0 +1,211 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * How readily the user's voice interrupts Aura. Low suits noisy streets, high suits quiet voices.
+ */
+export type VadSensitivity = 'low' | 'medium' | 'high';
+
+export const VAD_SENSITIVITIES: VadSensitivity[] = ['low', 'medium', 'high'];
+
+export function parseVadSensitivity(value: unknown): VadSensitivity | null {
+    return VAD_SENSITIVITIES.includes(value as VadSensitivity) ? value as VadSensitivity : null;
+}
+
+interface SensitivityProfile {
+    overNoise: number;      // Speech-band level must be this many times the noise floor
+    overEcho: number;       // ...and this many times the expected echo of Aura's voice
+    onsetFrames: number;    // Speech frames needed before it counts, 20 ms each
+}
+
+const PROFILES: Record<VadSensitivity, SensitivityProfile> = {
+    low: { overNoise: 4, overEcho: 3, onsetFrames: 10 },
+    medium: { overNoise: 2.5, overEcho: 2, onsetFrames: 6 },
+    high: { overNoise: 1.8, overEcho: 1.5, onsetFrames: 4 }
+};
+
+const SAMPLE_RATE = 16000;
+const FRAME_SAMPLES = 320;          // 20 ms
+const SPEECH_BAND_HZ = { low: 300, high: 3400 };
+const MIN_BAND_SHARE = 0.3;         // Traffic rumble and wind sit mostly below the speech band
+const MIN_LEVEL = 0.003;            // Below this it is silence, however quiet the room
+const END_FRAMES = 15;              // 300 ms without speech ends an utterance
+const ECHO_WINDOW_FRAMES = 15;      // Aura's voice reaches the mic up to 300 ms after it plays
+const INITIAL_ECHO_COUPLING = 0.3;  // Mic level per unit of output level, until measured
+const MAX_ECHO_COUPLING = 1;
+
+/**
+ * Why the detector spoke up, with the levels behind it for tuning
+ */
+export interface VadDecision {
+    kind: 'speech' | 'echo';    // The user started talking, or something that was only loud enough to be Aura's echo
+    level: number;              // Speech-band RMS of the frame that decided it
+    noiseFloor: number;
+    echoLevel: number;          // Expected echo of Aura's output
+    threshold: number;
+    bandShare: number;          // Share of the frame's energy inside the speech band
+    frames: number;
+}
+
+/**
+ * Second-order filter (RBJ cookbook), one per band edge
+ */
+class Biquad {
+    private b0: number;
+    private b1: number;
+    private b2: number;
+    private a1: number;
+    private a2: number;
+    private x1 = 0;
+    private x2 = 0;
+    private y1 = 0;
+    private y2 = 0;
+
+    constructor(type: 'highpass' | 'lowpass', frequency: number) {
+        const w = 2 * Math.PI * frequency / SAMPLE_RATE;
+        const alpha = Math.sin(w) / Math.SQRT2;     // Q of 1/sqrt(2): Butterworth
+        const cos = Math.cos(w);
+        const a0 = 1 + alpha;
+        const edge = type === 'highpass' ? (1 + cos) / 2 : (1 - cos) / 2;
+        this.b0 = edge / a0;
+        this.b1 = (type === 'highpass' ? -2 * edge : 2 * edge) / a0;
+        this.b2 = edge / a0;
+        this.a1 = -2 * cos / a0;
+        this.a2 = (1 - alpha) / a0;
+    }
+
+    step(x: number): number {
+        const y = this.b0 * x + this.b1 * this.x1 + this.b2 * this.x2 - this.a1 * this.y1 - this.a2 * this.y2;
+        this.x2 = this.x1;
+        this.x1 = x;
+        this.y2 = this.y1;
+        this.y1 = y;
+        return y;
+    }
+}
+
+/**
+ * A run of matching frames, allowing short gaps, that starts once after
+ * enough frames and ends after 300 ms without any
+ */
+class FrameRun {
+    private frames = 0;
+    private quietFrames = 0;
+    private isActive = false;
+
+    /**
+     * Returns the frame count when the run starts
+     */
+    update(isMatch: boolean, onsetFrames: number): number | null {
+        this.frames = isMatch ? this.frames + 1 : Math.max(0, this.frames - 2);
+        this.quietFrames = isMatch ? 0 : this.quietFrames + 1;
+        if (this.quietFrames >= END_FRAMES) {
+            this.isActive = false;
+            this.frames = 0;
+        }
+        if (this.isActive || this.frames < onsetFrames) return null;
+        this.isActive = true;
+        return this.frames;
+    }
+}
+
+/**
+ * Finds the start of user speech for barge-in. A frame counts as speech when
+ * its speech-band level clears the tracked noise floor and the expected echo
+ * of Aura's own voice, with enough of its energy in the speech band. An
+ * utterance starts after several such frames and ends after 300 ms without.
+ * Each utterance is decided once.
+ */
+export class VoiceActivityDetector {
+    private profile: SensitivityProfile = PROFILES.medium;
+    private highPass = new Biquad('highpass', SPEECH_BAND_HZ.low);
+    private lowPass = new Biquad('lowpass', SPEECH_BAND_HZ.high);
+    private frameTotal = 0;
+    private frameBand = 0;
+    private frameCount = 0;
+
+    private noiseFloor = MIN_LEVEL;
+    private echoCoupling = INITIAL_ECHO_COUPLING;
+    private outputLevels: number[] = [];
+    private speechRun = new FrameRun();
+    private echoRun = new FrameRun();     // Logged only, it never blocks speech
+
+    /**
+     * @param getOutputLevel RMS of Aura's audio playing right now, 0 when silent
+     */
+    constructor(private getOutputLevel: () => number) {}
+
+    setSensitivity(sensitivity: VadSensitivity): void {
+        this.profile = PROFILES[sensitivity];
+    }
+
+    /**
+     * Feed a microphone chunk. Returns a decision when an utterance starts,
+     * or when one is held back as echo.
+     */
+    process(chunk: Int16Array): VadDecision | null {
+        let decision: VadDecision | null = null;
+        for (let i = 0; i < chunk.length; i++) {
+            const sample = chunk[i] / 32768;
+            const band = this.lowPass.step(this.highPass.step(sample));
+            this.frameTotal += sample * sample;
+            this.frameBand += band * band;
+            if (++this.frameCount === FRAME_SAMPLES) {
+                decision = this.processFrame() ?? decision;
+                this.frameTotal = 0;
+                this.frameBand = 0;
+                this.frameCount = 0;
+            }
+        }
+        return decision;
+    }
+
+    private processFrame(): VadDecision | null {
+        const level = Math.sqrt(this.frameBand / FRAME_SAMPLES);
+        const bandShare = this.frameTotal > 0 ? this.frameBand / this.frameTotal : 0;
+
+        this.outputLevels.push(this.getOutputLevel());
+        if (this.outputLevels.length > ECHO_WINDOW_FRAMES) this.outputLevels.shift();
+        const outputLevel = Math.max(...this.outputLevels);
+        const echoLevel = outputLevel * this.echoCoupling;
+
+        const noiseThreshold = Math.max(MIN_LEVEL, this.noiseFloor * this.profile.overNoise);
+        const threshold = Math.max(noiseThreshold, echoLevel * this.profile.overEcho);
+        const isBandSpeech = bandShare >= MIN_BAND_SHARE;
+        const isSpeech = isBandSpeech && level > threshold;
+        const isEchoOnly = isBandSpeech && !isSpeech && level > noiseThreshold;
+
+        if (outputLevel > MIN_LEVEL) {
+            if (!isSpeech) {
+                // Aura is talking and this is not the user: learn how loud its echo gets, rising fast and falling slowly
+                const coupling = Math.min(MAX_ECHO_COUPLING, level / outputLevel);
+                this.echoCoupling += (coupling - this.echoCoupling) * (coupling > this.echoCoupling ? 0.3 : 0.02);
+            }
+        } else {
+            // The floor falls fast and rises slowly. It rises even through "speech", so moving
+            // somewhere louder stops counting as talking after a few seconds
+            const rate = level < this.noiseFloor ? 0.2 : isSpeech ? 0.005 : 0.02;
+            this.noiseFloor += (level - this.noiseFloor) * rate;
+        }
+
+        const speechFrames = this.speechRun.update(isSpeech, this.profile.onsetFrames);
+        const echoFrames = this.echoRun.update(isEchoOnly, this.profile.onsetFrames);
+        const frames = speechFrames ?? echoFrames;
+        if (frames === null) return null;
+        return {
+            kind: speechFrames !== null ? 'speech' : 'echo',
+            level, noiseFloor: this.noiseFloor, echoLevel, threshold, bandShare, frames
+        };
+    }
+}
+
+/**
+ * One line for the console
+ */
+export function describeVadDecision(decision: VadDecision): string {
+    const f = (n: number) => n.toFixed(4);
+    return `level ${f(decision.level)}, noise ${f(decision.noiseFloor)}, echo ${f(decision.echoLevel)}, ` +
+        `threshold ${f(decision.threshold)}, speech band ${Math.round(decision.bandShare * 100)}%, ${decision.frames * 20} ms`;
+}
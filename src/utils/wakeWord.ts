@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Cepstral features of one recorded "Aura", one array per 10 ms frame,
+ * as posted by the audio worklet
+ */
+export type WakeWordSample = number[][];
+
+export const WAKE_WORD = 'Aura';
+export const WAKE_WORD_SAMPLE_COUNT = 3;
+export const WAKE_WORD_RECORD_TIMEOUT_MS = 6000;
+
+const WAKE_WORD_STORAGE_KEY = 'vcb-wake-word';
+
+/**
+ * This device's recorded samples of the wake word, newest last
+ */
+export function loadWakeWordSamples(): WakeWordSample[] {
+    try {
+        const stored = localStorage.getItem(WAKE_WORD_STORAGE_KEY);
+        const samples = stored ? JSON.parse(stored) : [];
+        return Array.isArray(samples) ? samples.slice(-WAKE_WORD_SAMPLE_COUNT) : [];
+    } catch (error) {
+        console.error('Could not read wake word samples:', error);
+        return [];
+    }
+}
+
+/**
+ * Keep the latest samples; a new recording replaces the oldest once there are enough
+ */
+export function saveWakeWordSamples(samples: WakeWordSample[]): WakeWordSample[] {
+    const kept = samples.slice(-WAKE_WORD_SAMPLE_COUNT);
+    localStorage.setItem(WAKE_WORD_STORAGE_KEY, JSON.stringify(kept));
+    console.log(`🗣️ Wake word samples saved: ${kept.length} of ${WAKE_WORD_SAMPLE_COUNT}`);
+    return kept;
+}
+
+export function clearWakeWordSamples(): void {
+    localStorage.removeItem(WAKE_WORD_STORAGE_KEY);
+}
+
+export function hasWakeWord(samples: WakeWordSample[]): boolean {
+    return samples.length >= WAKE_WORD_SAMPLE_COUNT;
+}
+
+/**
+ * Messages from the audio worklet other than PCM chunks
+ */
+export type WakeWordEvent =
+    | { type: 'speech'; active: boolean }   // An utterance started or ended
+    | { type: 'wake'; distance: number; threshold: number }
+    | { type: 'enrolled'; features: WakeWordSample }
+    | { type: 'enroll-failed'; reason: 'short' | 'long' };
@@ -2,8 +2,10 @@ import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ command, mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Only the dev server may inline the raw key; deployed builds get tokens from TOKEN_SERVER_URL
+    const devApiKey = command === 'serve' ? env.GEMINI_API_KEY : undefined;
     return {
       base: '/ai-vision-guide/',
       publicDir: 'public',
@@ -13,8 +15,10 @@ export default defineConfig(({ mode }) => {
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(devApiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(devApiKey),
+        'process.env.TOKEN_SERVER_URL': JSON.stringify(env.TOKEN_SERVER_URL),
+        'process.env.LIVE_MODELS': JSON.stringify(env.LIVE_MODELS)
       },
       resolve: {
         alias: {